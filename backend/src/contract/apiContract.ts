@@ -0,0 +1,783 @@
+// Shared API contract between the backend and the extension/PWA clients.
+// This module must stay dependency-free: the client bundles it directly.
+
+export const API_VERSION = 'v1';
+export const API_BASE_PATH = `/api/${API_VERSION}`;
+
+export const API_ERROR_CODES = [
+  'RATE_LIMIT',
+  'PAYMENT_REQUIRED',
+  'UNAUTHORIZED',
+  'SERVER_ERROR',
+  'NETWORK_ERROR',
+  'VALIDATION_ERROR'
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  details?: any;
+}
+
+export interface QuotaUsage {
+  current: number;
+  limit: number; // -1 means unlimited
+  resetDate: string;
+}
+
+export interface ApiEnvelope<T = any> {
+  success: boolean;
+  data?: T;
+  error?: ApiError;
+  usage?: QuotaUsage;
+}
+
+// Wire types
+export interface ApiUser {
+  id: string;
+  email?: string;
+  plan: 'free' | 'premium';
+  usage: QuotaUsage;
+  subscription?: {
+    id: string;
+    status: 'active' | 'canceled' | 'expired';
+    expiresAt: string;
+  };
+}
+
+export interface SessionData {
+  user: ApiUser;
+  token: string;
+  refreshToken: string;
+  expiresAt: string;
+}
+
+export interface UsageInfo {
+  current: number;
+  limit: number;
+  resetDate: string;
+  isLimitReached: boolean;
+  daysUntilReset: number;
+}
+
+export const SCORE_DIMENSIONS = ['clarity', 'specificity', 'context', 'constraints', 'format', 'examples'] as const;
+export type ScoreDimension = typeof SCORE_DIMENSIONS[number];
+
+export interface DimensionScore {
+  // 0-100
+  score: number;
+  explanation: string;
+}
+
+export interface PromptScore {
+  // Weighted mean of the dimensions, 0-100
+  overall: number;
+  dimensions: Record<ScoreDimension, DimensionScore>;
+}
+
+// Quality of the prompt before and after improvement
+export interface PromptScoreComparison {
+  original: PromptScore;
+  improved: PromptScore;
+}
+
+export interface PromptAnalysis {
+  originalText: string;
+  improvements: {
+    clarity: string[];
+    specificity: string[];
+    structure: string[];
+    examples: string[];
+  };
+  suggestedPersona?: string;
+  suggestedFormat?: string;
+  improvedPrompt: string;
+  confidence: number;
+  // 'llm' for structured provider output, 'rules' for the local heuristics
+  source?: 'llm' | 'rules';
+  scores?: PromptScoreComparison;
+}
+
+export interface ImproveRequest {
+  prompt: string;
+  provider?: string;
+  model?: string;
+  language?: string;
+  deviceId?: string;
+}
+
+export interface ImproveResult {
+  improvedPrompt: string;
+  originalText: string;
+  provider: string;
+  usage: {
+    tokens: number;
+    cost: number;
+  };
+}
+
+export interface AnalyzeRequest {
+  prompt: string;
+  provider?: string;
+  language?: string;
+  // The improvement to explain, e.g. one just streamed. Without it the
+  // analysis writes its own, which counts as an improvement.
+  improvedPrompt?: string;
+}
+
+export interface CredentialsRequest {
+  email: string;
+  password: string;
+}
+
+export interface RegisterRequest extends CredentialsRequest {
+  // Device that used the free tier before signing up; its usage moves to the account
+  deviceId?: string;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+export interface LogoutRequest {
+  refreshToken?: string;
+}
+
+export interface CreatePaymentIntentRequest {
+  planId: string;
+  currency?: string;
+  email?: string;
+}
+
+export interface ConfirmPaymentRequest {
+  paymentIntentId: string;
+  paymentMethodId: string;
+}
+
+export interface PaymentIntent {
+  id: string;
+  clientSecret: string;
+  amount: number;
+  currency: string;
+  status: 'requires_payment_method' | 'requires_confirmation' | 'succeeded' | 'canceled';
+}
+
+export interface ConfirmPaymentResult {
+  success: boolean;
+  status: string;
+}
+
+export interface PricingPlan {
+  id: string;
+  name: string;
+  description: string;
+  amount: number;
+  queries: number;
+}
+
+export interface HealthStatus {
+  status: 'healthy' | 'degraded';
+  version: string;
+  timestamp: string;
+}
+
+// One library prompt as it travels between devices. `fields` holds the prompt
+// without its device-local id, `clock` when each field was last changed (ms).
+export interface SyncRecord {
+  id: string;
+  fields: Record<string, unknown>;
+  clock: Record<string, number>;
+  // Set when the prompt was deleted; newer field changes bring it back
+  deletedAt?: number;
+  // Assigned by the server, increasing per account
+  revision?: number;
+}
+
+export interface LibrarySyncRequest {
+  // Highest revision the client has seen, 0 for a first sync
+  cursor: number;
+  changes: SyncRecord[];
+}
+
+export interface LibrarySyncResult {
+  cursor: number;
+  // Records changed after the request's cursor, merged with the pushed changes
+  records: SyncRecord[];
+  // More records are waiting; sync again from `cursor`
+  hasMore: boolean;
+}
+
+// A site definitions document with its signature, see siteDefinitions.ts.
+// `document` is the exact JSON text that was signed; verify before parsing.
+export interface SignedSiteDefinitions {
+  document: string;
+  signature: string;
+}
+
+export const WORKSPACE_ROLES = ['owner', 'editor', 'viewer'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+export const COLLECTION_ITEM_KINDS = ['prompt', 'template'] as const;
+export type CollectionItemKind = typeof COLLECTION_ITEM_KINDS[number];
+
+// A team's space for shared collections, as seen by one of its members
+export interface ApiWorkspace {
+  id: string;
+  name: string;
+  // The caller's role
+  role: WorkspaceRole;
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface ApiWorkspaceMember {
+  userId: string;
+  email?: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+export interface ApiWorkspaceDetails extends ApiWorkspace {
+  members: ApiWorkspaceMember[];
+}
+
+// Anyone with the link joins with `role` until it expires or is revoked
+export interface ApiInvite {
+  id: string;
+  token: string;
+  url: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+}
+
+// An invite link that can still be used. The token is only shown once, when
+// the link is created.
+export interface ApiPendingInvite {
+  id: string;
+  role: WorkspaceRole;
+  createdBy?: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+// The shareable part of a library prompt
+export interface SharedPrompt {
+  title: string;
+  originalPrompt?: string;
+  improvedPrompt: string;
+  category: string;
+  tags: string[];
+  notes?: string;
+  variables?: any[];
+}
+
+export interface ApiCollectionItem {
+  id: string;
+  kind: CollectionItemKind;
+  prompt: SharedPrompt;
+  addedBy?: string;
+  createdAt: string;
+}
+
+export interface ApiCollection {
+  id: string;
+  name: string;
+  items: ApiCollectionItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateWorkspaceRequest {
+  name: string;
+}
+
+export interface CreateInviteRequest {
+  role: WorkspaceRole;
+}
+
+export interface JoinWorkspaceRequest {
+  token: string;
+}
+
+export interface UpdateMemberRequest {
+  role: WorkspaceRole;
+}
+
+export interface CreateCollectionRequest {
+  name: string;
+}
+
+export interface AddCollectionItemRequest {
+  kind: CollectionItemKind;
+  prompt: SharedPrompt;
+}
+
+// Minimal runtime schemas. Each check returns a list of problems, empty when valid.
+export interface Schema<T> {
+  readonly _type?: T;
+  check(value: unknown, path: string): string[];
+}
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+export const s = {
+  string(options: { min?: number; max?: number } = {}): Schema<string> {
+    return {
+      check(value, path) {
+        if (typeof value !== 'string') return [`${path}: expected string, got ${describe(value)}`];
+        if (options.min !== undefined && value.length < options.min) {
+          return [`${path}: must be at least ${options.min} characters`];
+        }
+        if (options.max !== undefined && value.length > options.max) {
+          return [`${path}: must be at most ${options.max} characters`];
+        }
+        return [];
+      }
+    };
+  },
+
+  number(): Schema<number> {
+    return {
+      check(value, path) {
+        return typeof value === 'number' && !Number.isNaN(value)
+          ? []
+          : [`${path}: expected number, got ${describe(value)}`];
+      }
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return {
+      check(value, path) {
+        return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describe(value)}`];
+      }
+    };
+  },
+
+  email(): Schema<string> {
+    return {
+      check(value, path) {
+        return typeof value === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+          ? []
+          : [`${path}: expected email address`];
+      }
+    };
+  },
+
+  oneOf<T extends string>(values: readonly T[]): Schema<T> {
+    return {
+      check(value, path) {
+        return values.includes(value as T)
+          ? []
+          : [`${path}: expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`];
+      }
+    };
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+      check(value, path) {
+        if (!Array.isArray(value)) return [`${path}: expected array, got ${describe(value)}`];
+        return value.flatMap((entry, index) => item.check(entry, `${path}[${index}]`));
+      }
+    };
+  },
+
+  // Object with any keys whose values all match `value`
+  record<T>(value: Schema<T>): Schema<Record<string, T>> {
+    return {
+      check(input, path) {
+        if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+          return [`${path}: expected object, got ${describe(input)}`];
+        }
+        return Object.entries(input).flatMap(([key, entry]) => value.check(entry, `${path}.${key}`));
+      }
+    };
+  },
+
+  optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return {
+      check(value, path) {
+        return value === undefined || value === null ? [] : schema.check(value, path);
+      }
+    };
+  },
+
+  object<T>(shape: { [K in keyof T]-?: Schema<unknown> }): Schema<T> {
+    return {
+      check(value, path) {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return [`${path}: expected object, got ${describe(value)}`];
+        }
+        const record = value as Record<string, unknown>;
+        return Object.entries(shape).flatMap(([key, schema]) =>
+          (schema as Schema<unknown>).check(record[key], `${path}.${key}`)
+        );
+      }
+    };
+  },
+
+  any(): Schema<any> {
+    return { check: () => [] };
+  }
+};
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export function parse<T>(schema: Schema<T>, value: unknown, path = '$'): ParseResult<T> {
+  const errors = schema.check(value, path);
+  return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors };
+}
+
+export function isApiErrorCode(code: unknown): code is ApiErrorCode {
+  return API_ERROR_CODES.includes(code as ApiErrorCode);
+}
+
+// Schemas
+export const QuotaUsageSchema = s.object<QuotaUsage>({
+  current: s.number(),
+  limit: s.number(),
+  resetDate: s.string()
+});
+
+export const ApiErrorSchema = s.object<ApiError>({
+  code: s.oneOf(API_ERROR_CODES),
+  message: s.string(),
+  details: s.any()
+});
+
+export const EnvelopeSchema = s.object<ApiEnvelope>({
+  success: s.boolean(),
+  data: s.any(),
+  error: s.optional(ApiErrorSchema),
+  usage: s.optional(QuotaUsageSchema)
+});
+
+export const ApiUserSchema = s.object<ApiUser>({
+  id: s.string(),
+  email: s.optional(s.string()),
+  plan: s.oneOf(['free', 'premium'] as const),
+  usage: QuotaUsageSchema,
+  subscription: s.optional(s.object<NonNullable<ApiUser['subscription']>>({
+    id: s.string(),
+    status: s.oneOf(['active', 'canceled', 'expired'] as const),
+    expiresAt: s.string()
+  }))
+});
+
+export const SessionDataSchema = s.object<SessionData>({
+  user: ApiUserSchema,
+  token: s.string({ min: 1 }),
+  refreshToken: s.string({ min: 1 }),
+  expiresAt: s.string()
+});
+
+export const UsageInfoSchema = s.object<UsageInfo>({
+  current: s.number(),
+  limit: s.number(),
+  resetDate: s.string(),
+  isLimitReached: s.boolean(),
+  daysUntilReset: s.number()
+});
+
+const DimensionScoreSchema = s.object<DimensionScore>({
+  score: s.number(),
+  explanation: s.string()
+});
+
+export const PromptScoreSchema = s.object<PromptScore>({
+  overall: s.number(),
+  dimensions: s.object<PromptScore['dimensions']>({
+    clarity: DimensionScoreSchema,
+    specificity: DimensionScoreSchema,
+    context: DimensionScoreSchema,
+    constraints: DimensionScoreSchema,
+    format: DimensionScoreSchema,
+    examples: DimensionScoreSchema
+  })
+});
+
+export const PromptScoreComparisonSchema = s.object<PromptScoreComparison>({
+  original: PromptScoreSchema,
+  improved: PromptScoreSchema
+});
+
+export const PromptAnalysisSchema = s.object<PromptAnalysis>({
+  originalText: s.string(),
+  improvements: s.object<PromptAnalysis['improvements']>({
+    clarity: s.array(s.string()),
+    specificity: s.array(s.string()),
+    structure: s.array(s.string()),
+    examples: s.array(s.string())
+  }),
+  suggestedPersona: s.optional(s.string()),
+  suggestedFormat: s.optional(s.string()),
+  improvedPrompt: s.string(),
+  confidence: s.number(),
+  source: s.optional(s.oneOf(['llm', 'rules'] as const)),
+  scores: s.optional(PromptScoreComparisonSchema)
+});
+
+export const ImproveRequestSchema = s.object<ImproveRequest>({
+  prompt: s.string({ min: 1, max: 10000 }),
+  provider: s.optional(s.string({ max: 50 })),
+  model: s.optional(s.string({ max: 100 })),
+  language: s.optional(s.string({ max: 10 })),
+  deviceId: s.optional(s.string({ max: 100 }))
+});
+
+export const ImproveResultSchema = s.object<ImproveResult>({
+  improvedPrompt: s.string(),
+  originalText: s.string(),
+  provider: s.string(),
+  usage: s.object<ImproveResult['usage']>({
+    tokens: s.number(),
+    cost: s.number()
+  })
+});
+
+export const AnalyzeRequestSchema = s.object<AnalyzeRequest>({
+  prompt: s.string({ min: 1, max: 10000 }),
+  provider: s.optional(s.string({ max: 50 })),
+  language: s.optional(s.string({ max: 10 })),
+  improvedPrompt: s.optional(s.string({ min: 1, max: 20000 }))
+});
+
+export const CredentialsRequestSchema = s.object<CredentialsRequest>({
+  email: s.email(),
+  password: s.string({ min: 8, max: 200 })
+});
+
+export const RegisterRequestSchema = s.object<RegisterRequest>({
+  email: s.email(),
+  password: s.string({ min: 8, max: 200 }),
+  deviceId: s.optional(s.string({ max: 100 }))
+});
+
+export const RefreshRequestSchema = s.object<RefreshRequest>({
+  refreshToken: s.string({ min: 1 })
+});
+
+export const LogoutRequestSchema = s.object<LogoutRequest>({
+  refreshToken: s.optional(s.string())
+});
+
+export const CreatePaymentIntentRequestSchema = s.object<CreatePaymentIntentRequest>({
+  planId: s.string({ min: 1 }),
+  currency: s.optional(s.oneOf(['usd'] as const)),
+  email: s.optional(s.email())
+});
+
+export const ConfirmPaymentRequestSchema = s.object<ConfirmPaymentRequest>({
+  paymentIntentId: s.string({ min: 1 }),
+  paymentMethodId: s.string({ min: 1 })
+});
+
+export const PaymentIntentSchema = s.object<PaymentIntent>({
+  id: s.string(),
+  clientSecret: s.string(),
+  amount: s.number(),
+  currency: s.string(),
+  status: s.oneOf(['requires_payment_method', 'requires_confirmation', 'succeeded', 'canceled'] as const)
+});
+
+export const ConfirmPaymentResultSchema = s.object<ConfirmPaymentResult>({
+  success: s.boolean(),
+  status: s.string()
+});
+
+export const PricingPlanSchema = s.object<PricingPlan>({
+  id: s.string(),
+  name: s.string(),
+  description: s.string(),
+  amount: s.number(),
+  queries: s.number()
+});
+
+export const HealthStatusSchema = s.object<HealthStatus>({
+  status: s.oneOf(['healthy', 'degraded'] as const),
+  version: s.string(),
+  timestamp: s.string()
+});
+
+export const SyncRecordSchema = s.object<SyncRecord>({
+  id: s.string({ min: 1, max: 64 }),
+  fields: s.object<Record<string, unknown>>({}),
+  clock: s.record(s.number()),
+  deletedAt: s.optional(s.number()),
+  revision: s.optional(s.number())
+});
+
+export const LibrarySyncRequestSchema = s.object<LibrarySyncRequest>({
+  cursor: s.number(),
+  changes: s.array(SyncRecordSchema)
+});
+
+export const LibrarySyncResultSchema = s.object<LibrarySyncResult>({
+  cursor: s.number(),
+  records: s.array(SyncRecordSchema),
+  hasMore: s.boolean()
+});
+
+export const SignedSiteDefinitionsSchema = s.object<SignedSiteDefinitions>({
+  document: s.string(),
+  signature: s.string()
+});
+
+export const ApiWorkspaceSchema = s.object<ApiWorkspace>({
+  id: s.string(),
+  name: s.string(),
+  role: s.oneOf(WORKSPACE_ROLES),
+  memberCount: s.number(),
+  createdAt: s.string()
+});
+
+export const ApiWorkspaceMemberSchema = s.object<ApiWorkspaceMember>({
+  userId: s.string(),
+  email: s.optional(s.string()),
+  role: s.oneOf(WORKSPACE_ROLES),
+  joinedAt: s.string()
+});
+
+export const ApiWorkspaceDetailsSchema = s.object<ApiWorkspaceDetails>({
+  id: s.string(),
+  name: s.string(),
+  role: s.oneOf(WORKSPACE_ROLES),
+  memberCount: s.number(),
+  createdAt: s.string(),
+  members: s.array(ApiWorkspaceMemberSchema)
+});
+
+export const ApiInviteSchema = s.object<ApiInvite>({
+  id: s.string(),
+  token: s.string(),
+  url: s.string(),
+  role: s.oneOf(WORKSPACE_ROLES),
+  expiresAt: s.string()
+});
+
+export const ApiPendingInviteSchema = s.object<ApiPendingInvite>({
+  id: s.string(),
+  role: s.oneOf(WORKSPACE_ROLES),
+  createdBy: s.optional(s.string()),
+  expiresAt: s.string(),
+  createdAt: s.string()
+});
+
+export const SharedPromptSchema = s.object<SharedPrompt>({
+  title: s.string({ min: 1, max: 200 }),
+  originalPrompt: s.optional(s.string({ max: 20000 })),
+  improvedPrompt: s.string({ min: 1, max: 20000 }),
+  category: s.string({ max: 100 }),
+  tags: s.array(s.string({ max: 50 })),
+  notes: s.optional(s.string({ max: 5000 })),
+  variables: s.optional(s.array(s.any()))
+});
+
+export const ApiCollectionItemSchema = s.object<ApiCollectionItem>({
+  id: s.string(),
+  kind: s.oneOf(COLLECTION_ITEM_KINDS),
+  prompt: SharedPromptSchema,
+  addedBy: s.optional(s.string()),
+  createdAt: s.string()
+});
+
+export const ApiCollectionSchema = s.object<ApiCollection>({
+  id: s.string(),
+  name: s.string(),
+  items: s.array(ApiCollectionItemSchema),
+  createdAt: s.string(),
+  updatedAt: s.string()
+});
+
+export const CreateWorkspaceRequestSchema = s.object<CreateWorkspaceRequest>({
+  name: s.string({ min: 1, max: 80 })
+});
+
+export const CreateInviteRequestSchema = s.object<CreateInviteRequest>({
+  role: s.oneOf(WORKSPACE_ROLES)
+});
+
+export const JoinWorkspaceRequestSchema = s.object<JoinWorkspaceRequest>({
+  token: s.string({ min: 1, max: 200 })
+});
+
+export const UpdateMemberRequestSchema = s.object<UpdateMemberRequest>({
+  role: s.oneOf(WORKSPACE_ROLES)
+});
+
+export const CreateCollectionRequestSchema = s.object<CreateCollectionRequest>({
+  name: s.string({ min: 1, max: 80 })
+});
+
+export const AddCollectionItemRequestSchema = s.object<AddCollectionItemRequest>({
+  kind: s.oneOf(COLLECTION_ITEM_KINDS),
+  prompt: SharedPromptSchema
+});
+
+export interface RouteContract<Req, Res> {
+  method: 'GET' | 'POST' | 'DELETE';
+  path: string;
+  auth: 'none' | 'optional' | 'required';
+  request?: Schema<Req>;
+  response: Schema<Res>;
+}
+
+function route<Req, Res>(contract: RouteContract<Req, Res>): RouteContract<Req, Res> {
+  return contract;
+}
+
+// Every v1 route, relative to API_BASE_PATH
+export const API_ROUTES = {
+  register: route({ method: 'POST', path: '/auth/register', auth: 'none', request: RegisterRequestSchema, response: SessionDataSchema }),
+  login: route({ method: 'POST', path: '/auth/login', auth: 'none', request: CredentialsRequestSchema, response: SessionDataSchema }),
+  refresh: route({ method: 'POST', path: '/auth/refresh', auth: 'none', request: RefreshRequestSchema, response: SessionDataSchema }),
+  logout: route({ method: 'POST', path: '/auth/logout', auth: 'optional', request: LogoutRequestSchema, response: s.any() }),
+  me: route({ method: 'GET', path: '/auth/me', auth: 'required', response: ApiUserSchema }),
+  usage: route({ method: 'GET', path: '/user/usage', auth: 'optional', response: UsageInfoSchema }),
+  improve: route({ method: 'POST', path: '/ai/improve', auth: 'optional', request: ImproveRequestSchema, response: ImproveResultSchema }),
+  improveAnonymous: route({ method: 'POST', path: '/ai/improve-anonymous', auth: 'none', request: ImproveRequestSchema, response: ImproveResultSchema }),
+  // Answers with a text/event-stream of ImproveStreamEvents (see sse.ts)
+  improveStream: route({ method: 'POST', path: '/ai/improve/stream', auth: 'optional', request: ImproveRequestSchema, response: s.any() }),
+  analyze: route({ method: 'POST', path: '/ai/analyze', auth: 'optional', request: AnalyzeRequestSchema, response: PromptAnalysisSchema }),
+  pricing: route({ method: 'GET', path: '/payments/pricing', auth: 'none', response: s.array(PricingPlanSchema) }),
+  createPaymentIntent: route({ method: 'POST', path: '/payments/create-intent', auth: 'optional', request: CreatePaymentIntentRequestSchema, response: PaymentIntentSchema }),
+  confirmPayment: route({ method: 'POST', path: '/payments/confirm', auth: 'optional', request: ConfirmPaymentRequestSchema, response: ConfirmPaymentResultSchema }),
+  librarySync: route({ method: 'POST', path: '/library/sync', auth: 'required', request: LibrarySyncRequestSchema, response: LibrarySyncResultSchema }),
+  workspaces: route({ method: 'GET', path: '/workspaces', auth: 'required', response: s.array(ApiWorkspaceSchema) }),
+  createWorkspace: route({ method: 'POST', path: '/workspaces', auth: 'required', request: CreateWorkspaceRequestSchema, response: ApiWorkspaceSchema }),
+  joinWorkspace: route({ method: 'POST', path: '/workspaces/join', auth: 'required', request: JoinWorkspaceRequestSchema, response: ApiWorkspaceSchema }),
+  workspace: route({ method: 'GET', path: '/workspaces/:workspaceId', auth: 'required', response: ApiWorkspaceDetailsSchema }),
+  invites: route({ method: 'GET', path: '/workspaces/:workspaceId/invites', auth: 'required', response: s.array(ApiPendingInviteSchema) }),
+  createInvite: route({ method: 'POST', path: '/workspaces/:workspaceId/invites', auth: 'required', request: CreateInviteRequestSchema, response: ApiInviteSchema }),
+  revokeInvite: route({ method: 'DELETE', path: '/workspaces/:workspaceId/invites/:inviteId', auth: 'required', response: s.any() }),
+  updateMember: route({ method: 'POST', path: '/workspaces/:workspaceId/members/:userId', auth: 'required', request: UpdateMemberRequestSchema, response: ApiWorkspaceMemberSchema }),
+  removeMember: route({ method: 'DELETE', path: '/workspaces/:workspaceId/members/:userId', auth: 'required', response: s.any() }),
+  collections: route({ method: 'GET', path: '/workspaces/:workspaceId/collections', auth: 'required', response: s.array(ApiCollectionSchema) }),
+  createCollection: route({ method: 'POST', path: '/workspaces/:workspaceId/collections', auth: 'required', request: CreateCollectionRequestSchema, response: ApiCollectionSchema }),
+  deleteCollection: route({ method: 'DELETE', path: '/workspaces/:workspaceId/collections/:collectionId', auth: 'required', response: s.any() }),
+  addCollectionItem: route({ method: 'POST', path: '/workspaces/:workspaceId/collections/:collectionId/items', auth: 'required', request: AddCollectionItemRequestSchema, response: ApiCollectionItemSchema }),
+  removeCollectionItem: route({ method: 'DELETE', path: '/workspaces/:workspaceId/collections/:collectionId/items/:itemId', auth: 'required', response: s.any() }),
+  siteDefinitions: route({ method: 'GET', path: '/site-definitions', auth: 'none', response: SignedSiteDefinitionsSchema }),
+  health: route({ method: 'GET', path: '/health', auth: 'none', response: HealthStatusSchema })
+};
+
+export type ApiRouteName = keyof typeof API_ROUTES;
+
+// Fills in the :params of a route path
+export function routePath(path: string, params: Record<string, string>): string {
+  return path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params[name]));
+}
+
+// HTTP status used for each error code
+export const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  RATE_LIMIT: 429,
+  PAYMENT_REQUIRED: 402,
+  UNAUTHORIZED: 401,
+  SERVER_ERROR: 500,
+  NETWORK_ERROR: 503,
+  VALIDATION_ERROR: 400
+};
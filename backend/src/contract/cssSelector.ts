@@ -0,0 +1,121 @@
+// Checks CSS selector syntax without a DOM, so the backend can refuse
+// selectors that querySelectorAll would throw on before they are published.
+// Covers lists, combinators, type, universal, id, class and attribute
+// selectors, pseudo-classes and pseudo-elements. Arguments of :is(), :not(),
+// :where() and :has() are checked as selectors; other arguments only need to
+// be balanced. Shared by the backend and the clients. Dependency-free.
+
+const ESCAPE = String.raw`\\(?:[0-9A-Fa-f]{1,6}[ \t\n]?|[^\n\r\f0-9A-Fa-f])`;
+const NAME_CHAR = String.raw`(?:[\w-]|[^\x00-\x7F]|${ESCAPE})`;
+const IDENT = String.raw`(?:--|-?(?:[A-Za-z_]|[^\x00-\x7F]|${ESCAPE}))${NAME_CHAR}*`;
+const STRING = String.raw`"(?:[^"\\\n]|\\[^])*"|'(?:[^'\\\n]|\\[^])*'`;
+
+const TYPE = new RegExp(String.raw`\*|${IDENT}`, 'y');
+const SUBCLASS = new RegExp(
+  String.raw`#${NAME_CHAR}+|\.${IDENT}|\[\s*${IDENT}\s*(?:[~|^$*]?=\s*(?:${IDENT}|${STRING})\s*(?:[iIsS]\s*)?)?\]`,
+  'y'
+);
+const PSEUDO = new RegExp(String.raw`::?(${IDENT})`, 'y');
+const SPACE = /\s*/y;
+
+const COMBINATORS = ['>', '+', '~'];
+const SELECTOR_ARGUMENTS = ['is', 'not', 'where', 'has', 'matches'];
+
+export function isCssSelector(selector: string): boolean {
+  return readList(selector, 0, false) === selector.length;
+}
+
+// Each reader takes the index to start at and returns the index after what
+// it read, or -1 when the text there is not what it reads
+function readList(text: string, at: number, relative: boolean): number {
+  for (;;) {
+    at = readComplex(text, skipSpace(text, at), relative);
+    if (at < 0) return -1;
+    at = skipSpace(text, at);
+    if (text[at] !== ',') return at;
+    at++;
+  }
+}
+
+// Compounds joined by combinators. Relative ones (inside :has()) may start
+// with a combinator.
+function readComplex(text: string, at: number, relative: boolean): number {
+  if (relative && COMBINATORS.includes(text[at])) at = skipSpace(text, at + 1);
+  at = readCompound(text, at);
+
+  while (at >= 0) {
+    const next = skipSpace(text, at);
+    if (next >= text.length || text[next] === ',' || text[next] === ')') return at;
+    if (COMBINATORS.includes(text[next])) {
+      at = readCompound(text, skipSpace(text, next + 1));
+    } else if (next > at) {
+      at = readCompound(text, next);
+    } else {
+      return at;
+    }
+  }
+  return -1;
+}
+
+function readCompound(text: string, at: number): number {
+  const start = at;
+  at = match(TYPE, text, at) ?? at;
+
+  for (;;) {
+    const end = match(SUBCLASS, text, at);
+    if (end !== undefined) {
+      at = end;
+      continue;
+    }
+
+    PSEUDO.lastIndex = at;
+    const pseudo = PSEUDO.exec(text);
+    if (!pseudo) break;
+    at = PSEUDO.lastIndex;
+    if (text[at] !== '(') continue;
+
+    const name = pseudo[1].toLowerCase();
+    at = SELECTOR_ARGUMENTS.includes(name)
+      ? readList(text, at + 1, name === 'has')
+      : readBalanced(text, at + 1);
+    if (at < 0 || text[at] !== ')') return -1;
+    at++;
+  }
+
+  return at > start ? at : -1;
+}
+
+// Up to the ")" that closes an argument, skipping strings and nested brackets.
+// The argument must not be empty.
+function readBalanced(text: string, at: number): number {
+  const start = at;
+  const open: string[] = [];
+  for (; at < text.length; at++) {
+    const char = text[at];
+    if (char === '\\') {
+      at++;
+    } else if (char === '"' || char === '\'') {
+      const string = new RegExp(STRING, 'y');
+      string.lastIndex = at;
+      if (!string.test(text)) return -1;
+      at = string.lastIndex - 1;
+    } else if (char === '(' || char === '[') {
+      open.push(char === '(' ? ')' : ']');
+    } else if (char === ')' || char === ']') {
+      if (open.length === 0) return char === ')' && text.slice(start, at).trim() ? at : -1;
+      if (open.pop() !== char) return -1;
+    } else if (char === '{' || char === '}' || char === ';') {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+function match(pattern: RegExp, text: string, at: number): number | undefined {
+  pattern.lastIndex = at;
+  return pattern.test(text) && pattern.lastIndex > at ? pattern.lastIndex : undefined;
+}
+
+function skipSpace(text: string, at: number): number {
+  return match(SPACE, text, at) ?? at;
+}
@@ -0,0 +1,71 @@
+// Merging library records from several devices. Every field keeps the time it
+// was last changed, so two devices editing different fields of one prompt both
+// keep their edit; for the same field the later change wins. A delete is a
+// tombstone that stays until a field is changed after it. The merge gives the
+// same result in any order, so the server and each client can apply it freely.
+// Shared by the backend and the clients. Dependency-free.
+import { SyncRecord } from './apiContract';
+
+// Only ever grow, so the highest count wins whatever the edit times
+const COUNTERS = new Set(['usageCount']);
+
+// The fields of a library prompt that sync, which is all of them but its id
+export const SYNCED_FIELDS = [
+  'title', 'originalPrompt', 'improvedPrompt', 'category', 'tags', 'notes',
+  'scores', 'variables', 'createdAt', 'updatedAt', 'usageCount'
+] as const;
+
+export class LibrarySync {
+  public static merge(local: SyncRecord | undefined, remote: SyncRecord): SyncRecord {
+    if (!local) return remote;
+
+    const fields: Record<string, unknown> = {};
+    const clock: Record<string, number> = {};
+    const names = new Set([...Object.keys(local.clock), ...Object.keys(remote.clock)]);
+
+    for (const name of names) {
+      const winner = this.newer(name, local, remote);
+      clock[name] = Math.max(local.clock[name] ?? 0, remote.clock[name] ?? 0);
+      fields[name] = COUNTERS.has(name)
+        ? Math.max(Number(local.fields[name]) || 0, Number(remote.fields[name]) || 0)
+        : winner.fields[name];
+    }
+
+    const deletedAt = Math.max(local.deletedAt ?? 0, remote.deletedAt ?? 0);
+    return {
+      id: local.id,
+      fields,
+      clock,
+      ...(deletedAt > 0 ? { deletedAt } : {}),
+      revision: Math.max(local.revision ?? 0, remote.revision ?? 0) || undefined
+    };
+  }
+
+  // A tombstone hides the prompt unless some field changed after the delete
+  public static isDeleted(record: SyncRecord): boolean {
+    if (record.deletedAt === undefined) return false;
+    return Object.values(record.clock).every(time => time <= record.deletedAt!);
+  }
+
+  // Fields whose values differ; undefined and missing count as equal
+  public static changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+    const names = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...names].filter(name => JSON.stringify(before[name]) !== JSON.stringify(after[name]));
+  }
+
+  public static equal(a: SyncRecord, b: SyncRecord): boolean {
+    return (
+      a.deletedAt === b.deletedAt &&
+      this.changedFields(a.fields, b.fields).length === 0 &&
+      this.changedFields(a.clock, b.clock).length === 0
+    );
+  }
+
+  // Later change wins; a tie goes to the larger value so every device agrees
+  private static newer(name: string, a: SyncRecord, b: SyncRecord): SyncRecord {
+    const timeA = a.clock[name] ?? 0;
+    const timeB = b.clock[name] ?? 0;
+    if (timeA !== timeB) return timeA > timeB ? a : b;
+    return (JSON.stringify(a.fields[name]) ?? '') >= (JSON.stringify(b.fields[name]) ?? '') ? a : b;
+  }
+}
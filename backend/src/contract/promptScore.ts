@@ -0,0 +1,215 @@
+// Rates a prompt from 0 to 100 on six dimensions, each with a one-line
+// explanation of what helped or what is missing. The signals are cheap text
+// features (mostly English keywords plus structure such as numbers, labels
+// and lists), so the same scores come out on the backend and in the clients
+// whichever provider wrote the improvement. Dependency-free.
+import {
+  DimensionScore,
+  PromptScore,
+  PromptScoreComparison,
+  SCORE_DIMENSIONS,
+  ScoreDimension
+} from './apiContract';
+import { PromptSegmenter } from './promptSegmenter';
+
+// How much each dimension counts towards the overall score
+const WEIGHTS: Record<ScoreDimension, number> = {
+  clarity: 0.2,
+  specificity: 0.2,
+  context: 0.2,
+  constraints: 0.15,
+  format: 0.15,
+  examples: 0.1
+};
+
+const TASK_VERB = /(^|[.!?]\s+|\n\s*)(please\s+)?(write|create|explain|list|summari[sz]e|translate|generate|draft|review|fix|refactor|analy[sz]e|compare|describe|design|build|implement|plan|outline|give|provide|rewrite|edit|calculate|find|suggest|convert|help|make|tell|show|teach|answer|keep|format|use|include)\b/i;
+const EXPLICIT_ASK = /\b(i need|i want|i'd like|i would like|your task is|can you|could you|would you)\b|\?/i;
+const VAGUE = /\b(something|anything|stuff|things?|good|nice|better|best|etc|whatever)\b/gi;
+const HEDGE = /\b(maybe|perhaps|kind of|sort of|somehow|probably|i guess)\b/gi;
+const PERSONA = /\b(act as|you are an?|as an? (expert|experienced|senior|professional))\b/i;
+const BACKGROUND = /\b(i am|i'm|we are|we're|my|our|currently|because|audience|readers?|users?|customers?|team|project)\b/gi;
+const GOAL = /\b(goal|objective|purpose|so that|so (i|we)|in order to|(i|we) (need|want)|need to|want to|aim)\b/i;
+const CONSTRAINT = /\b(must|should|don't|do not|avoid|only|never|always|at most|at least|no more than|maximum|minimum|limit|within|exactly|require[sd]?|without|make sure|ensure|include|keep)\b/gi;
+const QUANTITY = /\b\d+\s*(words?|characters?|sentences?|paragraphs?|bullets?|points?|items?|lines?|minutes?|pages?|steps?|examples?|%)|\b(under|over|below|above|at most|at least|less than|more than|up to)\s+\d/i;
+const FORMAT = /\b(format|list of|(as|in) an? (\w+ )?list|bullet(ed)?( points?)?|numbered|table|json|markdown|csv|yaml|code block|step[- ]by[- ]step|headings?|sections?|outline|summary|paragraphs?|essay|email|tweet|report|template|diagram)\b/gi;
+const OUTPUT_SHAPE = /\b(respond|reply|answer|return|output|present|structure|organi[sz]e)\b.{0,40}\b(as|in|with|using)\b/i;
+const EXAMPLES = /\b(examples?|e\.g\.|for instance|for example|such as|like this|sample)\b/gi;
+const INPUT_OUTPUT = /\b(input|output)\s*:/i;
+// An example given inline rather than merely asked for
+const EXAMPLE_GIVEN = /\b(for example|for instance|e\.g\.|such as|like)\s*[:"“]/i;
+const NAMED = /[a-z,;:]\s+([A-Z][\p{L}\d]+|[\p{L}]+\d[\p{L}\d]*)/u;
+const PLACEHOLDER = /^\s*(\[[^\]\n]*\]|\{\{[^}\n]*\}\})\s*$/;
+
+// "Context: ..." style labels; a bracketed placeholder or unfilled template field only earns partial credit
+const labelled = (text: string, labels: string): 'filled' | 'placeholder' | 'none' => {
+  const match = text.match(new RegExp(`^\\s*(${labels})\\s*:\\s*(.*)$`, 'im'));
+  if (!match) return 'none';
+  return match[2].trim() && !PLACEHOLDER.test(match[2]) ? 'filled' : 'placeholder';
+};
+
+const count = (text: string, pattern: RegExp): number => text.match(pattern)?.length ?? 0;
+const distinct = (text: string, pattern: RegExp): number =>
+  new Set((text.match(pattern) ?? []).map(match => match.toLowerCase())).size;
+const clamp = (value: number): number => Math.round(Math.min(100, Math.max(0, value)));
+
+interface Features {
+  text: string;
+  words: number;
+  sentences: number;
+  pasted: number;
+  vague: number;
+  hedges: number;
+}
+
+export class PromptScorer {
+  static score(prompt: string): PromptScore {
+    const segments = PromptSegmenter.segment(prompt);
+    const text = PromptSegmenter.instructionText(prompt, segments).trim();
+    // CJK has no spaces between words; two characters make roughly one word
+    const cjk = count(text, /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu);
+    const features: Features = {
+      text,
+      words: count(text, /[\p{L}\p{N}]+/gu) - count(text, /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu) + cjk / 2,
+      sentences: Math.max(1, count(text, /[.!?。！？]+(\s|$)|\n+/g)),
+      pasted: segments.filter(segment => segment.kind !== 'instruction' && segment.kind !== 'url').length,
+      vague: count(text, VAGUE),
+      hedges: count(text, HEDGE)
+    };
+
+    const dimensions = {
+      clarity: this.clarity(features),
+      specificity: this.specificity(features),
+      context: this.context(features),
+      constraints: this.constraints(features),
+      format: this.format(features),
+      examples: this.examples(features)
+    };
+    const overall = SCORE_DIMENSIONS.reduce((sum, dimension) => sum + dimensions[dimension].score * WEIGHTS[dimension], 0);
+
+    return { overall: clamp(overall), dimensions };
+  }
+
+  static compare(original: string, improved: string): PromptScoreComparison {
+    return { original: this.score(original), improved: this.score(improved) };
+  }
+
+  // How much a prompt stands to gain from improvement, 0-1: the inverse of its quality
+  static improvementNeed(score: PromptScore): number {
+    return Math.round(Math.min(0.95, Math.max(0.05, 1 - score.overall / 100)) * 100) / 100;
+  }
+
+  private static clarity({ text, words, sentences, vague, hedges }: Features): DimensionScore {
+    const hasTask = TASK_VERB.test(text) || EXPLICIT_ASK.test(text);
+    const longSentences = words / sentences > 30;
+    const score = 40 +
+      (hasTask ? 25 : 0) +
+      (longSentences ? 0 : 15) +
+      (words >= 6 ? 10 : words < 4 ? -40 : 0) -
+      Math.min(vague * 15, 45) -
+      Math.min(hedges * 10, 20);
+
+    const explanation = !hasTask
+      ? 'State the task with a clear action, e.g. "Write…" or "Explain…".'
+      : vague > 0
+        ? 'Replace vague words such as "stuff" or "good" with what you actually mean.'
+        : hedges > 0
+          ? 'Drop hedges such as "maybe" so the request reads as a decision.'
+          : longSentences
+            ? 'Split long sentences so each one carries a single instruction.'
+            : 'The request is direct and easy to follow.';
+    return { score: clamp(score), explanation };
+  }
+
+  private static specificity({ text, words, vague, pasted }: Features): DimensionScore {
+    const hasNumbers = /\d/.test(text);
+    const hasNames = NAMED.test(text);
+    const details = Math.min(distinct(text, /\b(with|using|about|including|based on|that|which|for)\b/gi), 3);
+    const score = 15 +
+      Math.min(words, 60) / 60 * 35 +
+      (hasNumbers ? 10 : 0) +
+      (hasNames ? 10 : 0) +
+      (pasted > 0 ? 10 : 0) +
+      details * 5 -
+      Math.min(vague * 8, 24);
+
+    const explanation = words < 10
+      ? 'Too short to be specific: say what, for whom and in what depth.'
+      : vague > 0
+        ? 'Vague terms leave the details to guesswork.'
+        : !hasNumbers && !hasNames
+          ? 'Add concrete names, numbers or quantities where they matter.'
+          : 'Concrete details narrow down what a good answer looks like.';
+    return { score: clamp(score), explanation };
+  }
+
+  private static context({ text, pasted }: Features): DimensionScore {
+    const background = Math.min(distinct(text, BACKGROUND), 3);
+    const persona = PERSONA.test(text);
+    const goal = GOAL.test(text);
+    const label = labelled(text, 'context|background');
+    const score = 10 +
+      background * 12 +
+      (persona ? 20 : 0) +
+      (goal ? 15 : 0) +
+      (pasted > 0 ? 15 : 0) +
+      (label === 'filled' ? 25 : label === 'placeholder' ? 10 : 0);
+
+    const explanation = label === 'placeholder'
+      ? 'Fill in the context placeholder with your actual situation.'
+      : !goal
+        ? 'Say why you need this and what it is for.'
+        : background === 0 && !persona
+          ? 'Describe the situation or audience behind the request.'
+          : 'Enough background to tailor the answer.';
+    return { score: clamp(score), explanation };
+  }
+
+  private static constraints({ text }: Features): DimensionScore {
+    const rules = Math.min(distinct(text, CONSTRAINT), 3);
+    const quantity = QUANTITY.test(text);
+    const label = labelled(text, 'constraints|requirements?|rules');
+    const score = 10 +
+      rules * 18 +
+      (quantity ? 20 : 0) +
+      (label === 'filled' ? 20 : label === 'placeholder' ? 8 : 0);
+
+    const explanation = label === 'placeholder'
+      ? 'Replace the constraints placeholder with real limits.'
+      : rules === 0
+        ? 'No limits given: add must-haves, things to avoid or a length.'
+        : !quantity
+          ? 'Add a measurable limit such as a word count or number of items.'
+          : 'Clear limits on what the answer must and must not do.';
+    return { score: clamp(score), explanation };
+  }
+
+  private static format({ text }: Features): DimensionScore {
+    const formats = distinct(text, FORMAT);
+    const shape = OUTPUT_SHAPE.test(text);
+    const score = 10 +
+      (formats >= 2 ? 60 : formats === 1 ? 45 : 0) +
+      (shape ? 20 : 0) +
+      (QUANTITY.test(text) ? 10 : 0);
+
+    const explanation = formats === 0 && !shape
+      ? 'Say how the answer should look, e.g. a numbered list, a table or JSON.'
+      : formats === 0
+        ? 'Name the output format explicitly.'
+        : 'The expected shape of the answer is spelled out.';
+    return { score: clamp(score), explanation };
+  }
+
+  private static examples({ text, pasted }: Features): DimensionScore {
+    const mentions = count(text, EXAMPLES) > 0;
+    const pairs = INPUT_OUTPUT.test(text);
+    const given = EXAMPLE_GIVEN.test(text);
+    const score = 5 + (mentions ? 50 : 0) + (given ? 20 : 0) + (pasted > 0 ? 30 : 0) + (pairs ? 15 : 0);
+
+    const explanation = mentions || pairs
+      ? 'Examples anchor the answer to what you have in mind.'
+      : pasted > 0
+        ? 'The pasted material gives the model something concrete to work from.'
+        : 'Add an example of the input or the output you expect.';
+    return { score: clamp(score), explanation };
+  }
+}
@@ -0,0 +1,174 @@
+// Splits a prompt into the user's own instructions and the material they pasted
+// into it (code, quotes, URLs, logs, JSON). Analysis and rule rewrites only look
+// at the instructions, so pasted material always survives byte-for-byte.
+// Shared by the backend and the clients. Dependency-free.
+
+export const SEGMENT_KINDS = ['instruction', 'code', 'inline-code', 'quote', 'url', 'data'] as const;
+export type SegmentKind = typeof SEGMENT_KINDS[number];
+
+export interface PromptSegment {
+  kind: SegmentKind;
+  // [start, end) in the original text
+  start: number;
+  end: number;
+  text: string;
+}
+
+type Span = Omit<PromptSegment, 'text'>;
+
+const FENCE = /^[ \t]*(`{3,}|~{3,})[^\n]*\n?[\s\S]*?(?:\n[ \t]*\1[ \t]*(?=\n|$)|(?![\s\S]))/gm;
+const INLINE_CODE = /`[^`\n]+`/g;
+const BLOCKQUOTE = /^[ \t]*>.*(?:\n[ \t]*>.*)*/gm;
+const URL = /\b(?:https?:\/\/|www\.)[^\s<>"'`]+[^\s<>"'`.,;:!?)\]}]/gi;
+// Straight, curly, guillemet and CJK quotes; at least one word inside, no blank lines
+const QUOTED = /"[^"\n]{3,}?"|“[^”]{3,}?”|«[^»]{3,}?»|「[^」]+?」|『[^』]+?』/g;
+
+// Lines that read like logs, stack traces or tables rather than prose
+const DATA_LINE_PATTERNS = [
+  /^\s+at\s+\S+.*[(:]\d+/, // JS/Java stack frame
+  /^\s*File ".*", line \d+/, // Python stack frame
+  /^\s*Traceback \(most recent call last\)/,
+  /^\s*(\[?\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}|\[\d{2}:\d{2}:\d{2}\])/, // timestamped log line
+  /^\s*(ERROR|WARN(ING)?|INFO|DEBUG|TRACE|FATAL)\b[\s:\]]/,
+  /^\s*\w*(Error|Exception)(: |$)/,
+  /\t.*\t/, // tab-separated values
+  /^\s*\|.*\|\s*$/ // markdown table row
+];
+// A line with fewer letters than this share of its visible characters is data or code
+const MIN_PROSE_LETTER_SHARE = 0.5;
+
+export class PromptSegmenter {
+  // Contiguous segments covering the whole text, in order
+  static segment(text: string): PromptSegment[] {
+    const spans: Span[] = [];
+    const claim = (kind: SegmentKind, start: number, end: number) => {
+      if (end <= start) return;
+      if (spans.some(span => start < span.end && span.start < end)) return;
+      spans.push({ kind, start, end });
+    };
+    const claimAll = (kind: SegmentKind, pattern: RegExp) => {
+      for (const match of text.matchAll(pattern)) {
+        claim(kind, match.index!, match.index! + match[0].length);
+      }
+    };
+
+    // Most specific first: anything inside a code block is code, whatever it looks like
+    claimAll('code', FENCE);
+    claimAll('inline-code', INLINE_CODE);
+    for (const [start, end] of this.jsonSpans(text)) claim('data', start, end);
+    for (const [start, end] of this.dataLineRuns(text)) claim('data', start, end);
+    claimAll('quote', BLOCKQUOTE);
+    claimAll('url', URL);
+    claimAll('quote', QUOTED);
+
+    spans.sort((a, b) => a.start - b.start);
+
+    const segments: PromptSegment[] = [];
+    let position = 0;
+    for (const span of spans) {
+      if (span.start > position) {
+        segments.push({ kind: 'instruction', start: position, end: span.start, text: text.slice(position, span.start) });
+      }
+      segments.push({ ...span, text: text.slice(span.start, span.end) });
+      position = span.end;
+    }
+    if (position < text.length) {
+      segments.push({ kind: 'instruction', start: position, end: text.length, text: text.slice(position) });
+    }
+
+    return segments;
+  }
+
+  // The text with everything but the instructions blanked to spaces. Line breaks and
+  // length are kept, so regex match indices on the result still point into the original.
+  static mask(text: string, segments: PromptSegment[] = this.segment(text)): string {
+    return segments
+      .map(segment => segment.kind === 'instruction' ? segment.text : segment.text.replace(/[^\n]/g, ' '))
+      .join('');
+  }
+
+  // Just the user's own words, e.g. for length checks
+  static instructionText(text: string, segments: PromptSegment[] = this.segment(text)): string {
+    return segments.filter(segment => segment.kind === 'instruction').map(segment => segment.text).join('');
+  }
+
+  // Whether [start, end) touches pasted material; empty ranges only when strictly inside it
+  static isProtected(segments: PromptSegment[], [start, end]: [number, number]): boolean {
+    return segments.some(segment =>
+      segment.kind !== 'instruction' && (start === end
+        ? segment.start < start && start < segment.end
+        : start < segment.end && segment.start < end)
+    );
+  }
+
+  // Multi-line JSON objects or arrays that start a line and parse
+  private static *jsonSpans(text: string): Generator<[number, number]> {
+    const opener = /^[ \t]*([[{])/gm;
+    for (const match of text.matchAll(opener)) {
+      const start = match.index! + match[0].length - 1;
+      const end = this.matchingBracket(text, start);
+      if (end === -1 || !text.slice(start, end).includes('\n')) continue;
+
+      try {
+        JSON.parse(text.slice(start, end));
+        yield [start, end];
+      } catch {
+        // Not JSON, e.g. a bracketed placeholder
+      }
+    }
+  }
+
+  // Index just past the bracket closing the one at `start`, ignoring brackets in strings
+  private static matchingBracket(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+        if (depth === 0) return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  // Runs of two or more consecutive data lines, e.g. a pasted log or stack trace
+  private static *dataLineRuns(text: string): Generator<[number, number]> {
+    let runStart = -1;
+    let runEnd = -1;
+    let runLines = 0;
+    let offset = 0;
+
+    for (const line of text.split('\n')) {
+      if (this.isDataLine(line)) {
+        if (runLines === 0) runStart = offset;
+        runEnd = offset + line.length;
+        runLines++;
+      } else {
+        if (runLines >= 2) yield [runStart, runEnd];
+        runLines = 0;
+      }
+      offset += line.length + 1;
+    }
+
+    if (runLines >= 2) yield [runStart, runEnd];
+  }
+
+  private static isDataLine(line: string): boolean {
+    const visible = line.replace(/\s/g, '');
+    if (visible.length === 0) return false;
+    if (DATA_LINE_PATTERNS.some(pattern => pattern.test(line))) return true;
+
+    // Short lines such as "Thanks!" or "1." say too little to judge
+    if (visible.length < 8) return false;
+    const letters = visible.match(/\p{L}/gu)?.length ?? 0;
+    return letters / visible.length < MIN_PROSE_LETTER_SHARE;
+  }
+}
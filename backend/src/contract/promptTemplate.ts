@@ -0,0 +1,181 @@
+// Prompt templates: prompt text with typed placeholders the user fills in
+// before the prompt is used. A placeholder is written inline as
+//
+//   {{name}}                            required free text
+//   {{name?}}                           optional
+//   {{name:multiline}}                  longer free text
+//   {{count:number(1..10)=3}}           number with a range and a default
+//   {{audience:enum(beginners|experts)}} one of a fixed set of values
+//
+// Library items can also declare variables to add labels and limits the
+// inline syntax has no room for. Placeholders in pasted code or other material,
+// such as the {{ message }} of a Vue snippet, belong to it and are left alone.
+// Shared by the extension, the PWA and the rule packs, whose context scaffold
+// is a template. Dependency-free.
+import { s, Schema } from './apiContract';
+import { PromptSegmenter } from './promptSegmenter';
+
+export const TEMPLATE_VARIABLE_TYPES = ['text', 'multiline', 'number', 'enum'] as const;
+export type TemplateVariableType = typeof TEMPLATE_VARIABLE_TYPES[number];
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  // Shown in the fill-in form; defaults to the name in sentence case
+  label?: string;
+  default?: string;
+  required: boolean;
+  // Allowed values of an enum
+  options?: string[];
+  // Range of a number
+  min?: number;
+  max?: number;
+  // Longest accepted text
+  maxLength?: number;
+}
+
+const NAME = '[\\p{L}_][\\p{L}\\p{N}_-]*';
+const PLACEHOLDER = new RegExp(
+  `\\{\\{\\s*(${NAME})(\\?)?\\s*(?::\\s*(${TEMPLATE_VARIABLE_TYPES.join('|')})\\s*(?:\\(([^)}]*)\\))?)?\\s*(?:=([^}]*))?\\}\\}`,
+  'gu'
+);
+// What a line holds once its empty placeholders are gone, e.g. "Constraints:"
+const BARE_LABEL = /^\s*[^:：\n]{1,40}[:：]\s*$/;
+
+export const TemplateVariableSchema: Schema<TemplateVariable> = s.object<TemplateVariable>({
+  name: s.string({ min: 1, max: 64 }),
+  type: s.oneOf(TEMPLATE_VARIABLE_TYPES),
+  label: s.optional(s.string({ max: 200 })),
+  default: s.optional(s.string({ max: 10000 })),
+  required: s.boolean(),
+  options: s.optional(s.array(s.string({ min: 1, max: 200 }))),
+  min: s.optional(s.number()),
+  max: s.optional(s.number()),
+  maxLength: s.optional(s.number())
+});
+
+export class PromptTemplates {
+  static hasVariables(text: string): boolean {
+    return this.placeholders(text).length > 0;
+  }
+
+  // Variables in order of first use. Declared variables take precedence over
+  // what the inline syntax says about the same name.
+  static variables(text: string, declared: TemplateVariable[] = []): TemplateVariable[] {
+    const variables = new Map<string, TemplateVariable>();
+    for (const match of this.placeholders(text)) {
+      const name = match[1];
+      if (!variables.has(name)) variables.set(name, this.fromPlaceholder(match));
+    }
+
+    return Array.from(variables.values(), variable => {
+      const declaration = declared.find(candidate => candidate.name === variable.name);
+      return declaration ? { ...variable, ...declaration } : variable;
+    });
+  }
+
+  static label(variable: TemplateVariable): string {
+    if (variable.label) return variable.label;
+    const words = variable.name.replace(/[_-]+/g, ' ').trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  // Form values to start from: each variable's default, or empty
+  static defaults(variables: TemplateVariable[]): Record<string, string> {
+    return Object.fromEntries(variables.map(variable => [variable.name, variable.default ?? '']));
+  }
+
+  // Error message per invalid variable; empty when every value is acceptable
+  static validate(variables: TemplateVariable[], values: Record<string, string>): Record<string, string> {
+    const errors: Record<string, string> = {};
+    for (const variable of variables) {
+      const error = this.check(variable, (values[variable.name] ?? variable.default ?? '').trim());
+      if (error) errors[variable.name] = error;
+    }
+    return errors;
+  }
+
+  // The text with every placeholder replaced by its value or default. A line
+  // left holding only a label, e.g. "Constraints:", is dropped.
+  static render(text: string, values: Record<string, string>, declared: TemplateVariable[] = []): string {
+    const variables = new Map(this.variables(text, declared).map(variable => [variable.name, variable]));
+    const valueOf = (name: string) => (values[name] ?? variables.get(name)?.default ?? '').trim();
+    const placeholders = this.placeholders(text);
+
+    let lineStart = 0;
+    return text
+      .split('\n')
+      .flatMap(line => {
+        const start = lineStart;
+        lineStart += line.length + 1;
+        const inLine = placeholders.filter(match =>
+          match.index! >= start && match.index! + match[0].length <= start + line.length
+        );
+        const fill = (value: (match: RegExpMatchArray) => string) => inLine.reduceRight(
+          (result, match) => result.slice(0, match.index! - start) + value(match) + result.slice(match.index! - start + match[0].length),
+          line
+        );
+
+        const empty = inLine.length > 0 && !inLine.some(match => valueOf(match[1]));
+        return empty && BARE_LABEL.test(fill(() => '')) ? [] : [fill(match => valueOf(match[1]))];
+      })
+      .join('\n');
+  }
+
+  // Placeholders outside pasted material. Material that holds nothing but
+  // placeholders, such as "{{topic}}", is the template's own.
+  private static placeholders(text: string): RegExpMatchArray[] {
+    const matches = Array.from(text.matchAll(PLACEHOLDER));
+    if (matches.length === 0) return matches;
+
+    const segments = PromptSegmenter.segment(text).filter(segment =>
+      /[\p{L}\p{N}]/u.test(segment.text.replace(PLACEHOLDER, ''))
+    );
+    return matches.filter(match =>
+      !PromptSegmenter.isProtected(segments, [match.index!, match.index! + match[0].length])
+    );
+  }
+
+  private static fromPlaceholder(match: RegExpMatchArray): TemplateVariable {
+    const [, name, optional, type = 'text', argument, defaultValue] = match;
+    const variable: TemplateVariable = {
+      name,
+      type: type as TemplateVariableType,
+      required: !optional && defaultValue === undefined
+    };
+    if (defaultValue !== undefined) variable.default = defaultValue.trim();
+
+    if (variable.type === 'enum' && argument) {
+      variable.options = argument.split('|').map(option => option.trim()).filter(Boolean);
+    }
+    if (variable.type === 'number' && argument) {
+      const [min, max] = argument.split('..').map(bound => bound.trim());
+      if (min && Number.isFinite(Number(min))) variable.min = Number(min);
+      if (max && Number.isFinite(Number(max))) variable.max = Number(max);
+    }
+    return variable;
+  }
+
+  private static check(variable: TemplateVariable, value: string): string | null {
+    const label = this.label(variable);
+    if (!value) return variable.required ? `${label} is required` : null;
+
+    switch (variable.type) {
+      case 'number': {
+        const number = Number(value);
+        if (!Number.isFinite(number)) return `${label} must be a number`;
+        if (variable.min !== undefined && number < variable.min) return `${label} must be at least ${variable.min}`;
+        if (variable.max !== undefined && number > variable.max) return `${label} must be at most ${variable.max}`;
+        return null;
+      }
+      case 'enum':
+        return variable.options && variable.options.length > 0 && !variable.options.includes(value)
+          ? `${label} must be one of ${variable.options.join(', ')}`
+          : null;
+      default:
+        return variable.maxLength !== undefined && value.length > variable.maxLength
+          ? `${label} must be at most ${variable.maxLength} characters`
+          : null;
+    }
+  }
+}
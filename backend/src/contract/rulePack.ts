@@ -0,0 +1,354 @@
+// Declarative rule packs for the offline improver, shared by the backend, the
+// extension and the PWA. A pack is plain JSON, so users can write and import
+// their own; RuleEngine is the only code that interprets it. Dependency-free.
+import { parse, ParseResult, s, Schema } from './apiContract';
+import { PromptSegmenter } from './promptSegmenter';
+import corePack from './rulePacks/core.json';
+import dePack from './rulePacks/de.json';
+import esPack from './rulePacks/es.json';
+import frPack from './rulePacks/fr.json';
+import jaPack from './rulePacks/ja.json';
+import ptPack from './rulePacks/pt.json';
+import zhPack from './rulePacks/zh.json';
+
+export const RULE_CATEGORIES = ['clarity', 'specificity', 'structure', 'examples', 'persona', 'format'] as const;
+export type RuleCategory = typeof RULE_CATEGORIES[number];
+
+// Categories that are reported as improvements; persona and format become suggestions
+export type ImprovementCategory = Exclude<RuleCategory, 'persona' | 'format'>;
+
+export const FIX_ACTIONS = ['replace', 'prepend', 'append'] as const;
+export type FixAction = typeof FIX_ACTIONS[number];
+
+// Every field that is present must hold for the rule to match
+export interface RuleCondition {
+  pattern?: string;
+  // Text must NOT match this
+  unless?: string;
+  // Regex flags for pattern and unless; g and y are not allowed
+  flags?: string;
+  minLength?: number;
+  maxLength?: number;
+}
+
+// Templates may use {{match}} and {{1}}..{{9}} from the pattern, with an
+// optional |lower or |upper filter, e.g. "I need you to {{match|lower}}"
+export interface RuleFix {
+  action: FixAction;
+  template: string;
+}
+
+export interface PackRule {
+  id: string;
+  category: RuleCategory;
+  // Higher runs first; within a group only the highest matching rule applies
+  priority: number;
+  when: RuleCondition;
+  suggestion?: string;
+  fix?: RuleFix;
+  // Mutually exclusive rules, e.g. one persona per prompt
+  group?: string;
+  // A later pack can switch off a rule from an earlier one by id
+  enabled?: boolean;
+}
+
+export interface RulePack {
+  id: string;
+  name: string;
+  version: string;
+  // ISO 639-1 code of the prompts the pack is written for; packs without one apply to every language
+  language?: string;
+  description?: string;
+  rules: PackRule[];
+}
+
+// A change proposed by a rule: replaces [start, end) of the original with text
+export interface RuleEdit {
+  id: string;
+  category: RuleCategory;
+  label: string;
+  range: [number, number];
+  text: string;
+}
+
+export interface RuleEngineResult {
+  improvements: Record<ImprovementCategory, string[]>;
+  suggestedPersona?: string;
+  suggestedFormat?: string;
+  edits: RuleEdit[];
+  // Every improvement suggestion, highest priority first
+  suggestions: string[];
+  // Ids of the rules that matched, highest priority first
+  matched: string[];
+}
+
+const MAX_PATTERN_LENGTH = 500;
+const MAX_TEMPLATE_LENGTH = 2000;
+const MAX_RULES_PER_PACK = 200;
+
+const regex = (): Schema<string> => ({
+  check(value, path) {
+    if (typeof value !== 'string') return [`${path}: expected string`];
+    if (value.length > MAX_PATTERN_LENGTH) return [`${path}: must be at most ${MAX_PATTERN_LENGTH} characters`];
+    try {
+      new RegExp(value);
+      return [];
+    } catch {
+      return [`${path}: invalid regular expression`];
+    }
+  }
+});
+
+const flags = (): Schema<string> => ({
+  check(value, path) {
+    return typeof value === 'string' && /^[imsu]*$/.test(value)
+      ? []
+      : [`${path}: flags may only contain i, m, s and u`];
+  }
+});
+
+const RuleConditionSchema: Schema<RuleCondition> = {
+  check(value, path) {
+    const errors = s.object<RuleCondition>({
+      pattern: s.optional(regex()),
+      unless: s.optional(regex()),
+      flags: s.optional(flags()),
+      minLength: s.optional(s.number()),
+      maxLength: s.optional(s.number())
+    }).check(value, path);
+    if (errors.length > 0) return errors;
+
+    const condition = value as RuleCondition;
+    const hasCheck = [condition.pattern, condition.unless, condition.minLength, condition.maxLength]
+      .some(field => field !== undefined && field !== null);
+    if (!hasCheck) return [`${path}: needs at least one of pattern, unless, minLength or maxLength`];
+
+    // Some patterns (\p{L}, lookbehinds) only compile with their flags
+    return (['pattern', 'unless'] as const).flatMap(key => {
+      if (!condition[key]) return [];
+      try {
+        new RegExp(condition[key] as string, condition.flags ?? undefined);
+        return [];
+      } catch {
+        return [`${path}.${key}: invalid regular expression for flags "${condition.flags ?? ''}"`];
+      }
+    });
+  }
+};
+
+const PackRuleSchema: Schema<PackRule> = {
+  check(value, path) {
+    const errors = s.object<PackRule>({
+      id: s.string({ min: 1, max: 100 }),
+      category: s.oneOf(RULE_CATEGORIES),
+      priority: s.number(),
+      when: RuleConditionSchema,
+      suggestion: s.optional(s.string({ min: 1, max: 300 })),
+      fix: s.optional(s.object<RuleFix>({
+        action: s.oneOf(FIX_ACTIONS),
+        template: s.string({ max: MAX_TEMPLATE_LENGTH })
+      })),
+      group: s.optional(s.string({ min: 1, max: 100 })),
+      enabled: s.optional(s.boolean())
+    }).check(value, path);
+    if (errors.length > 0) return errors;
+
+    const rule = value as PackRule;
+    if (rule.enabled !== false && !rule.suggestion && !rule.fix) {
+      return [`${path}: needs a suggestion, a fix or both`];
+    }
+    if (rule.fix?.action === 'replace' && !rule.when.pattern) {
+      return [`${path}.fix: replace needs when.pattern`];
+    }
+    return [];
+  }
+};
+
+export const RulePackSchema: Schema<RulePack> = {
+  check(value, path) {
+    const errors = s.object<RulePack>({
+      id: s.string({ min: 1, max: 100 }),
+      name: s.string({ min: 1, max: 200 }),
+      version: s.string({ min: 1, max: 50 }),
+      language: s.optional(s.string({ min: 2, max: 10 })),
+      description: s.optional(s.string({ max: 1000 })),
+      rules: s.array(PackRuleSchema)
+    }).check(value, path);
+    if (errors.length > 0) return errors;
+
+    const rules = (value as RulePack).rules;
+    if (rules.length > MAX_RULES_PER_PACK) return [`${path}.rules: at most ${MAX_RULES_PER_PACK} rules per pack`];
+
+    const seen = new Set<string>();
+    return rules.flatMap((rule, index) => {
+      if (seen.has(rule.id)) return [`${path}.rules[${index}].id: duplicate rule id "${rule.id}"`];
+      seen.add(rule.id);
+      return [];
+    });
+  }
+};
+
+// Validates a pack given as JSON text or an already parsed value
+export function parseRulePack(input: unknown): ParseResult<RulePack> {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      return { ok: false, errors: ['$: not valid JSON'] };
+    }
+  }
+  return parse(RulePackSchema, value);
+}
+
+export const CORE_RULE_PACK = corePack as RulePack;
+
+// English core rules first, then the localised packs; other detected languages fall back to English
+export const BUILTIN_RULE_PACKS: RulePack[] = [CORE_RULE_PACK, ...[esPack, frPack, dePack, ptPack, zhPack, jaPack] as RulePack[]];
+
+const DEFAULT_LANGUAGE = 'en';
+
+export class RuleEngine {
+  // Evaluates every enabled rule of the packs against the text. Only packs for
+  // the prompt's language (or for no particular language) take part, falling
+  // back to English when no pack covers it. Later packs override rules of
+  // earlier ones that share an id, so an untagged pack can tune every language.
+  // Conditions only see the instructions: pasted code, quotes, URLs and data are
+  // blanked out, and no edit ever lands inside them.
+  static run(text: string, packs: RulePack[] = BUILTIN_RULE_PACKS, language = DEFAULT_LANGUAGE): RuleEngineResult {
+    const result: RuleEngineResult = {
+      improvements: { clarity: [], specificity: [], structure: [], examples: [] },
+      edits: [],
+      suggestions: [],
+      matched: []
+    };
+    const groups = new Set<string>();
+    const matches: Array<{ rule: PackRule; order: number; match: RegExpMatchArray | null }> = [];
+    const segments = PromptSegmenter.segment(text);
+    const instructions = PromptSegmenter.mask(text, segments);
+    const length = PromptSegmenter.instructionText(text, segments).trim().length;
+
+    this.rules(packs, language).forEach((rule, order) => {
+      const match = this.evaluate(rule.when, instructions, length);
+      if (match !== false) matches.push({ rule, order, match });
+    });
+
+    // Highest priority first, pack order breaking ties
+    matches.sort((a, b) => b.rule.priority - a.rule.priority || a.order - b.order);
+
+    const chosen = matches.filter(({ rule }) => {
+      if (!rule.group) return true;
+      if (groups.has(rule.group)) return false;
+      groups.add(rule.group);
+      return true;
+    });
+
+    for (const { rule, match } of chosen) {
+      result.matched.push(rule.id);
+      const filled = rule.fix ? this.fill(rule.fix.template, match) : undefined;
+
+      if (rule.category === 'persona') {
+        result.suggestedPersona ??= filled ?? rule.suggestion;
+      } else if (rule.category === 'format') {
+        result.suggestedFormat ??= filled ?? rule.suggestion;
+      } else if (rule.suggestion) {
+        result.improvements[rule.category].push(rule.suggestion);
+        result.suggestions.push(rule.suggestion);
+      }
+    }
+
+    // Edits keep pack order so prefixes and suffixes come out in a stable sequence
+    for (const { rule, match } of [...chosen].sort((a, b) => a.order - b.order)) {
+      if (!rule.fix) continue;
+      const edit = this.toEdit(rule, rule.fix, match, text);
+      if (edit && !PromptSegmenter.isProtected(segments, edit.range)) result.edits.push(edit);
+    }
+
+    return result;
+  }
+
+  // Applies edits to the original text, skipping any that overlap one already
+  // applied. Leaving an edit out of `accepted` reverts exactly that change.
+  static applyEdits(original: string, edits: RuleEdit[], accepted?: Set<string>): string {
+    const chosen = edits
+      .map((edit, order) => ({ edit, order }))
+      .filter(({ edit }) => !accepted || accepted.has(edit.id))
+      .sort((a, b) =>
+        a.edit.range[0] - b.edit.range[0] ||
+        // Insertions go before a replacement starting at the same position
+        (a.edit.range[1] - a.edit.range[0]) - (b.edit.range[1] - b.edit.range[0]) ||
+        a.order - b.order
+      );
+
+    let result = '';
+    let position = 0;
+    for (const { edit } of chosen) {
+      const [start, end] = edit.range;
+      if (start < position) continue;
+
+      result += original.slice(position, start) + edit.text;
+      position = end;
+    }
+
+    return result + original.slice(position);
+  }
+
+  // The enabled rules that take part for `language`, in pack order
+  static rules(packs: RulePack[] = BUILTIN_RULE_PACKS, language = DEFAULT_LANGUAGE): PackRule[] {
+    return this.resolve(this.forLanguage(packs, language));
+  }
+
+  // The improved text with every rule fix applied
+  static improve(text: string, packs?: RulePack[], language?: string): string {
+    return this.applyEdits(text, this.run(text, packs, language).edits).trim();
+  }
+
+  private static forLanguage(packs: RulePack[], language: string): RulePack[] {
+    const code = language.toLowerCase().split('-')[0];
+    const target = packs.some(pack => pack.language === code) ? code : DEFAULT_LANGUAGE;
+    return packs.filter(pack => !pack.language || pack.language === target);
+  }
+
+  private static resolve(packs: RulePack[]): PackRule[] {
+    const rules = new Map<string, PackRule>();
+    for (const pack of packs) {
+      for (const rule of pack.rules) {
+        rules.delete(rule.id);
+        rules.set(rule.id, rule);
+      }
+    }
+    return Array.from(rules.values()).filter(rule => rule.enabled !== false);
+  }
+
+  // false when the condition fails, otherwise the pattern match (null without a pattern)
+  private static evaluate(when: RuleCondition, text: string, length: number): RegExpMatchArray | null | false {
+    if (when.minLength !== undefined && length < when.minLength) return false;
+    if (when.maxLength !== undefined && length > when.maxLength) return false;
+    if (when.unless && new RegExp(when.unless, when.flags).test(text)) return false;
+    if (!when.pattern) return null;
+    return text.match(new RegExp(when.pattern, when.flags)) ?? false;
+  }
+
+  private static toEdit(rule: PackRule, fix: RuleFix, match: RegExpMatchArray | null, text: string): RuleEdit | null {
+    const template = this.fill(fix.template, match);
+    const base = { id: rule.group ?? rule.id, category: rule.category, label: rule.suggestion ?? rule.id };
+
+    switch (fix.action) {
+      case 'prepend':
+        return { ...base, range: [0, 0], text: `${template}\n\n` };
+      case 'append':
+        return { ...base, range: [text.length, text.length], text: `\n\n${template}` };
+      case 'replace': {
+        if (!match || match.index === undefined) return null;
+        return { ...base, range: [match.index, match.index + match[0].length], text: template };
+      }
+    }
+  }
+
+  private static fill(template: string, match: RegExpMatchArray | null): string {
+    return template.replace(/\{\{\s*(match|\d)\s*(?:\|\s*(lower|upper)\s*)?\}\}/g, (_, key: string, filter?: string) => {
+      const value = (key === 'match' ? match?.[0] : match?.[Number(key)]) ?? '';
+      return filter === 'lower' ? value.toLowerCase() : filter === 'upper' ? value.toUpperCase() : value;
+    });
+  }
+}
@@ -0,0 +1,117 @@
+// Selectors and timing for the chat sites the extension supports. The
+// extension bundles a set (SiteAdapters); admins can publish newer ones as a
+// signed, versioned document so a site changing its DOM does not have to wait
+// for a release. Shared by the backend and the clients. Dependency-free.
+import { parse, ParseResult, s } from './apiContract';
+import { isCssSelector } from './cssSelector';
+
+// How the content scripts find and fill a chat site's input
+export interface SiteConfig {
+  // Exact hostname; the manifest matches https://<domain>/*
+  domain: string;
+  name: string;
+  selectors: {
+    textInputs: string[];
+    contentEditable: string[];
+    submitButtons?: string[];
+  };
+  insertionMethod: 'replace' | 'append' | 'clipboard';
+  position: 'before' | 'after' | 'overlay';
+  // Milliseconds to wait after the page loads before the first scan for
+  // inputs, then between rescans
+  timing: {
+    waitForLoad: number;
+    checkInterval: number;
+  };
+}
+
+// What admins publish. The signature covers the document's exact JSON text.
+export interface SiteDefinitionsDocument {
+  // Grows with every publish; clients never go back to a lower version
+  version: number;
+  publishedAt: string;
+  sites: SiteConfig[];
+}
+
+// ECDSA P-256 over SHA-256 with the raw r||s signature WebCrypto uses. The
+// backend signs with SITE_DEFINITIONS_PRIVATE_KEY; the extension is built with
+// the matching public key.
+export const SITE_DEFINITIONS_KEY = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+export const SITE_DEFINITIONS_SIGNATURE = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+const selectorList = s.array(s.string({ min: 1, max: 500 }));
+
+// Sites rescan on a timer, so a published interval must not be able to spin it
+const MIN_CHECK_INTERVAL_MS = 250;
+const MAX_TIMING_MS = 60 * 1000;
+
+export const SiteConfigSchema = s.object<SiteConfig>({
+  domain: s.string({ min: 1, max: 253 }),
+  name: s.string({ min: 1, max: 100 }),
+  selectors: s.object<SiteConfig['selectors']>({
+    textInputs: selectorList,
+    contentEditable: selectorList,
+    submitButtons: s.optional(selectorList)
+  }),
+  insertionMethod: s.oneOf(['replace', 'append', 'clipboard'] as const),
+  position: s.oneOf(['before', 'after', 'overlay'] as const),
+  timing: s.object<SiteConfig['timing']>({
+    waitForLoad: s.number(),
+    checkInterval: s.number()
+  })
+});
+
+export const SiteDefinitionsDocumentSchema = s.object<SiteDefinitionsDocument>({
+  version: s.number(),
+  publishedAt: s.string(),
+  sites: s.array(SiteConfigSchema)
+});
+
+// Accepts the document as JSON text or already parsed
+export function parseSiteDefinitions(input: unknown): ParseResult<SiteDefinitionsDocument> {
+  let value = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      return { ok: false, errors: ['$: not valid JSON'] };
+    }
+  }
+
+  const result = parse(SiteDefinitionsDocumentSchema, value);
+  if (!result.ok) return result;
+
+  const sites = parseSites(result.value.sites, '$.sites');
+  return sites.ok ? result : sites;
+}
+
+// Schema plus the rules it cannot express: sane timings, one entry per domain,
+// selectors that are valid CSS
+export function parseSites(input: unknown, path = '$'): ParseResult<SiteConfig[]> {
+  const result = parse(s.array(SiteConfigSchema), input, path);
+  if (!result.ok) return result;
+
+  const errors: string[] = [];
+  const domains = new Set<string>();
+  result.value.forEach((site, index) => {
+    const at = `${path}[${index}]`;
+    if (domains.has(site.domain)) errors.push(`${at}.domain: ${site.domain} is defined more than once`);
+    domains.add(site.domain);
+
+    for (const [kind, selectors] of Object.entries(site.selectors)) {
+      (selectors as string[] | undefined)?.forEach((selector, i) => {
+        if (!isCssSelector(selector)) errors.push(`${at}.selectors.${kind}[${i}]: not a valid CSS selector`);
+      });
+    }
+
+    const { waitForLoad, checkInterval } = site.timing;
+    if (waitForLoad < 0 || waitForLoad > MAX_TIMING_MS) {
+      errors.push(`${at}.timing.waitForLoad: must be between 0 and ${MAX_TIMING_MS}`);
+    }
+    if (checkInterval < MIN_CHECK_INTERVAL_MS || checkInterval > MAX_TIMING_MS) {
+      errors.push(`${at}.timing.checkInterval: must be between ${MIN_CHECK_INTERVAL_MS} and ${MAX_TIMING_MS}`);
+    }
+  });
+
+  return errors.length === 0 ? result : { ok: false, errors };
+}
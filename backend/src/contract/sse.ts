@@ -0,0 +1,107 @@
+// Server-Sent Events framing shared by the backend (reading provider streams,
+// writing our own) and the clients (reading /ai/improve/stream). Dependency-free.
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+}
+
+// Events emitted by POST /api/v1/ai/improve/stream (and its legacy alias,
+// POST /api/prompts/improve/stream)
+export interface ImproveStreamToken {
+  text: string;
+}
+
+export interface ImproveStreamDone {
+  improvedPrompt: string;
+  provider: string;
+  usage: {
+    tokens: number;
+    cost: number;
+    queriesUsed: number;
+    queriesLimit: number | string;
+    isPremium: boolean;
+  };
+}
+
+export interface ImproveStreamError {
+  message: string;
+}
+
+export type ImproveStreamEvent =
+  | { event: 'token'; data: ImproveStreamToken }
+  | { event: 'done'; data: ImproveStreamDone }
+  | { event: 'error'; data: ImproveStreamError };
+
+export function formatSSE(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  const lines = payload.split('\n').map(line => `data: ${line}`).join('\n');
+  return `event: ${event}\n${lines}\n\n`;
+}
+
+// Incremental parser: feed it decoded chunks, get back complete messages
+export class SSEParser {
+  private buffer = '';
+
+  push(chunk: string): SSEMessage[] {
+    this.buffer += chunk.replace(/\r\n?/g, '\n');
+
+    const messages: SSEMessage[] = [];
+    let boundary = this.buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = this.buffer.slice(0, boundary);
+      this.buffer = this.buffer.slice(boundary + 2);
+
+      const message = this.parseBlock(block);
+      if (message) messages.push(message);
+      boundary = this.buffer.indexOf('\n\n');
+    }
+
+    return messages;
+  }
+
+  // Emits whatever is left once the stream has ended
+  flush(): SSEMessage[] {
+    const block = this.buffer;
+    this.buffer = '';
+    const message = this.parseBlock(block);
+    return message ? [message] : [];
+  }
+
+  private parseBlock(block: string): SSEMessage | null {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line === '' || line.startsWith(':')) continue;
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+  }
+}
+
+// Reads a fetch body as SSE messages
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.push(decoder.decode());
+    yield* parser.flush();
+  } finally {
+    reader.releaseLock();
+  }
+}
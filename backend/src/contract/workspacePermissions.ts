@@ -0,0 +1,22 @@
+// What each workspace role may do. The backend checks it on every workspace
+// route; the clients use it to offer only the actions that will succeed.
+// Dependency-free.
+import { WorkspaceRole } from './apiContract';
+
+export type WorkspaceAction =
+  | 'view'          // see the workspace, its members and collections
+  | 'edit'          // add and remove collections and their prompts
+  | 'invite'        // create and revoke invite links
+  | 'manageMembers'; // change roles and remove members
+
+const ROLE_ACTIONS: Record<WorkspaceRole, readonly WorkspaceAction[]> = {
+  owner: ['view', 'edit', 'invite', 'manageMembers'],
+  editor: ['view', 'edit'],
+  viewer: ['view']
+};
+
+export class WorkspacePermissions {
+  public static can(role: WorkspaceRole | undefined, action: WorkspaceAction): boolean {
+    return !!role && ROLE_ACTIONS[role].includes(action);
+  }
+}
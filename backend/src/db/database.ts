@@ -7,6 +7,7 @@ import { v4 as uuidv4 } from 'uuid';
 export interface User {
   id: string;
   email?: string;
+  password_hash?: string;
   ip_address: string;
   created_at: string;
   updated_at: string;
@@ -16,6 +17,9 @@ export interface User {
   total_queries: number;
   queries_today: number;
   last_query_date: string;
+  last_login_at?: string;
+  // Device that created the anonymous row, the proof needed to link it to an account
+  device_id?: string;
 }
 
 export interface Usage {
@@ -23,7 +27,7 @@ export interface Usage {
   user_id: string;
   query_text: string;
   response_text: string;
-  provider: 'openai' | 'anthropic' | 'local';
+  provider: string;
   cost: number;
   tokens_used: number;
   created_at: string;
@@ -43,6 +47,85 @@ export interface Payment {
   created_at: string;
 }
 
+export interface RefreshToken {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: string;
+  revoked_at?: string;
+  created_at: string;
+}
+
+// A synced library prompt; fields and clock are JSON, see SyncRecord
+export interface LibraryItem {
+  user_id: string;
+  id: string;
+  fields: string;
+  clock: string;
+  deleted_at?: number;
+  revision: number;
+  updated_at: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  role: 'owner' | 'editor' | 'viewer';
+  created_at: string;
+  // Joined from users
+  email?: string;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspace_id: string;
+  token_hash: string;
+  role: WorkspaceMember['role'];
+  created_by: string;
+  expires_at: string;
+  revoked_at?: string;
+  created_at: string;
+  // Joined from users
+  email?: string;
+}
+
+export interface Collection {
+  id: string;
+  workspace_id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// `prompt` is a SharedPrompt as JSON
+export interface CollectionItem {
+  id: string;
+  collection_id: string;
+  kind: 'prompt' | 'template';
+  prompt: string;
+  created_by: string;
+  created_at: string;
+  // Joined from users
+  email?: string;
+}
+
+// `document` is the signed JSON text, exactly as served
+export interface SiteDefinitionsRecord {
+  version: number;
+  document: string;
+  signature: string;
+  published_by: string;
+  created_at: string;
+}
+
 export class Database {
   private static db: sqlite3.Database;
   private static initialized = false;
@@ -91,7 +174,7 @@ export class Database {
         user_id TEXT NOT NULL,
         query_text TEXT NOT NULL,
         response_text TEXT NOT NULL,
-        provider TEXT NOT NULL CHECK (provider IN ('openai', 'anthropic', 'local')),
+        provider TEXT NOT NULL,
         cost REAL DEFAULT 0,
         tokens_used INTEGER DEFAULT 0,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -117,12 +200,177 @@ export class Database {
       )
     `);
 
+    // Refresh tokens issued to account sessions
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Prompt libraries synced between a user's devices
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS library_items (
+        user_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        fields TEXT NOT NULL,
+        clock TEXT NOT NULL,
+        deleted_at INTEGER,
+        revision INTEGER NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, id),
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Team workspaces, their members and invite links
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (created_by) REFERENCES users (id)
+      )
+    `);
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS workspace_members (
+        workspace_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (workspace_id, user_id),
+        FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      )
+    `);
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS workspace_invites (
+        id TEXT PRIMARY KEY,
+        workspace_id TEXT NOT NULL,
+        token_hash TEXT UNIQUE NOT NULL,
+        role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+        created_by TEXT NOT NULL,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Shared collections of prompts and templates
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS collections (
+        id TEXT PRIMARY KEY,
+        workspace_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (workspace_id) REFERENCES workspaces (id) ON DELETE CASCADE
+      )
+    `);
+
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS collection_items (
+        id TEXT PRIMARY KEY,
+        collection_id TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('prompt', 'template')),
+        prompt TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (collection_id) REFERENCES collections (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Published site selector definitions, newest version served
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS site_definitions (
+        version INTEGER PRIMARY KEY,
+        document TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        published_by TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Columns added after the initial schema
+    await this.addColumnIfMissing('users', 'password_hash', 'TEXT');
+    await this.addColumnIfMissing('users', 'last_login_at', 'DATETIME');
+    await this.addColumnIfMissing('users', 'device_id', 'TEXT');
+
+    // Provider ids are configurable, so usage no longer restricts them
+    await this.dropUsageProviderCheck();
+
     // Create indexes for performance
     await this.run('CREATE INDEX IF NOT EXISTS idx_users_ip ON users (ip_address)');
     await this.run('CREATE INDEX IF NOT EXISTS idx_users_email ON users (email)');
     await this.run('CREATE INDEX IF NOT EXISTS idx_usage_user_id ON usage (user_id)');
     await this.run('CREATE INDEX IF NOT EXISTS idx_usage_created_at ON usage (created_at)');
     await this.run('CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments (user_id)');
+    await this.run('CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens (user_id)');
+    await this.run('CREATE INDEX IF NOT EXISTS idx_library_items_revision ON library_items (user_id, revision)');
+    await this.run('CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members (user_id)');
+    await this.run('CREATE INDEX IF NOT EXISTS idx_collections_workspace_id ON collections (workspace_id)');
+    await this.run('CREATE INDEX IF NOT EXISTS idx_collection_items_collection_id ON collection_items (collection_id)');
+  }
+
+  private static async addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+    const columns = await this.all<{ name: string }>(`PRAGMA table_info(${table})`);
+    if (!columns.some(c => c.name === column)) {
+      await this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  // SQLite cannot drop a CHECK constraint in place, so the table is rebuilt
+  private static async dropUsageProviderCheck(): Promise<void> {
+    const table = await this.get<{ sql: string }>(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'usage'"
+    );
+    if (!table || !/CHECK\s*\(\s*provider\s+IN/i.test(table.sql)) return;
+
+    await this.run('PRAGMA foreign_keys = OFF');
+    try {
+      await this.run('BEGIN TRANSACTION');
+      await this.run(`
+        CREATE TABLE usage_new (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          query_text TEXT NOT NULL,
+          response_text TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          cost REAL DEFAULT 0,
+          tokens_used INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          ip_address TEXT NOT NULL,
+          success BOOLEAN DEFAULT TRUE,
+          error_message TEXT,
+          FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+        )
+      `);
+      await this.run(`
+        INSERT INTO usage_new (id, user_id, query_text, response_text, provider, cost,
+          tokens_used, created_at, ip_address, success, error_message)
+        SELECT id, user_id, query_text, response_text, provider, cost,
+          tokens_used, created_at, ip_address, success, error_message
+        FROM usage
+      `);
+      await this.run('DROP TABLE usage');
+      await this.run('ALTER TABLE usage_new RENAME TO usage');
+      await this.run('COMMIT');
+    } catch (error) {
+      await this.run('ROLLBACK');
+      throw error;
+    } finally {
+      await this.run('PRAGMA foreign_keys = ON');
+    }
   }
 
   // Helper methods
@@ -159,9 +407,9 @@ export class Database {
     const now = new Date().toISOString();
     
     await this.run(`
-      INSERT INTO users (id, email, ip_address, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?)
-    `, [id, data.email || null, data.ip_address, now, now]);
+      INSERT INTO users (id, email, password_hash, ip_address, device_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [id, data.email || null, data.password_hash || null, data.ip_address, data.device_id || null, now, now]);
 
     return this.getUserById(id) as Promise<User>;
   }
@@ -170,14 +418,31 @@ export class Database {
     return this.get<User>('SELECT * FROM users WHERE id = ?', [id]);
   }
 
-  static async getUserByIP(ip: string): Promise<User | undefined> {
-    return this.get<User>('SELECT * FROM users WHERE ip_address = ?', [ip]);
-  }
-
   static async getUserByEmail(email: string): Promise<User | undefined> {
     return this.get<User>('SELECT * FROM users WHERE email = ?', [email]);
   }
 
+  static async getAnonymousUserByDevice(ip: string, deviceId: string): Promise<User | undefined> {
+    return this.get<User>(`
+      SELECT * FROM users
+      WHERE ip_address = ? AND device_id = ? AND email IS NULL AND password_hash IS NULL
+      ORDER BY updated_at DESC
+    `, [ip, deviceId]);
+  }
+
+  // The usage row of someone without an account. Accounts are never found by
+  // the IP they happen to share; clients that send no device id only match
+  // rows created without one.
+  static async getAnonymousUser(ip: string, deviceId?: string): Promise<User | undefined> {
+    if (deviceId) return this.getAnonymousUserByDevice(ip, deviceId);
+
+    return this.get<User>(`
+      SELECT * FROM users
+      WHERE ip_address = ? AND device_id IS NULL AND email IS NULL AND password_hash IS NULL
+      ORDER BY updated_at DESC
+    `, [ip]);
+  }
+
   static async updateUser(id: string, data: Partial<User>): Promise<void> {
     const fields = Object.keys(data).map(key => `${key} = ?`).join(', ');
     const values = [...Object.values(data), new Date().toISOString(), id];
@@ -203,6 +468,236 @@ export class Database {
     `, [today, today, userId]);
   }
 
+  // Refresh tokens
+  static async createRefreshToken(data: Pick<RefreshToken, 'id' | 'user_id' | 'token_hash' | 'expires_at'>): Promise<void> {
+    await this.run(`
+      INSERT INTO refresh_tokens (id, user_id, token_hash, expires_at)
+      VALUES (?, ?, ?, ?)
+    `, [data.id, data.user_id, data.token_hash, data.expires_at]);
+  }
+
+  static async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    return this.get<RefreshToken>('SELECT * FROM refresh_tokens WHERE token_hash = ?', [tokenHash]);
+  }
+
+  static async revokeRefreshToken(id: string): Promise<void> {
+    await this.run(`
+      UPDATE refresh_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL
+    `, [new Date().toISOString(), id]);
+  }
+
+  static async revokeUserRefreshTokens(userId: string): Promise<void> {
+    await this.run(`
+      UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL
+    `, [new Date().toISOString(), userId]);
+  }
+
+  // Prompt library sync
+  static async getLibraryItems(userId: string, ids: string[]): Promise<LibraryItem[]> {
+    if (ids.length === 0) return [];
+    return this.all<LibraryItem>(`
+      SELECT * FROM library_items
+      WHERE user_id = ? AND id IN (${ids.map(() => '?').join(', ')})
+    `, [userId, ...ids]);
+  }
+
+  static async countLibraryItems(userId: string): Promise<number> {
+    const row = await this.get<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM library_items WHERE user_id = ?',
+      [userId]
+    );
+    return row?.count ?? 0;
+  }
+
+  static async getLibraryChanges(userId: string, sinceRevision: number, limit: number): Promise<LibraryItem[]> {
+    return this.all<LibraryItem>(`
+      SELECT * FROM library_items
+      WHERE user_id = ? AND revision > ?
+      ORDER BY revision ASC
+      LIMIT ?
+    `, [userId, sinceRevision, limit]);
+  }
+
+  // Stores the item under the user's next revision, in one statement so
+  // concurrent syncs of one account never share a revision
+  static async saveLibraryItem(data: Pick<LibraryItem, 'user_id' | 'id' | 'fields' | 'clock' | 'deleted_at'>): Promise<void> {
+    await this.run(`
+      INSERT INTO library_items (user_id, id, fields, clock, deleted_at, revision, updated_at)
+      VALUES (?, ?, ?, ?, ?, (SELECT COALESCE(MAX(revision), 0) + 1 FROM library_items WHERE user_id = ?), ?)
+      ON CONFLICT (user_id, id) DO UPDATE SET
+        fields = excluded.fields,
+        clock = excluded.clock,
+        deleted_at = excluded.deleted_at,
+        revision = excluded.revision,
+        updated_at = excluded.updated_at
+    `, [
+      data.user_id, data.id, data.fields, data.clock, data.deleted_at ?? null,
+      data.user_id, new Date().toISOString()
+    ]);
+  }
+
+  // Workspaces
+  static async createWorkspace(data: Pick<Workspace, 'id' | 'name' | 'created_by'>): Promise<void> {
+    await this.run(`
+      INSERT INTO workspaces (id, name, created_by) VALUES (?, ?, ?)
+    `, [data.id, data.name, data.created_by]);
+    await this.addWorkspaceMember(data.id, data.created_by, 'owner');
+  }
+
+  static async getWorkspace(id: string): Promise<Workspace | undefined> {
+    return this.get<Workspace>('SELECT * FROM workspaces WHERE id = ?', [id]);
+  }
+
+  static async getUserWorkspaces(userId: string): Promise<Array<Workspace & { role: WorkspaceMember['role']; member_count: number }>> {
+    return this.all(`
+      SELECT w.*, m.role,
+        (SELECT COUNT(*) FROM workspace_members WHERE workspace_id = w.id) AS member_count
+      FROM workspaces w
+      JOIN workspace_members m ON m.workspace_id = w.id
+      WHERE m.user_id = ?
+      ORDER BY w.name COLLATE NOCASE
+    `, [userId]);
+  }
+
+  static async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    return this.get<WorkspaceMember>(`
+      SELECT * FROM workspace_members WHERE workspace_id = ? AND user_id = ?
+    `, [workspaceId, userId]);
+  }
+
+  static async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return this.all<WorkspaceMember>(`
+      SELECT m.*, u.email FROM workspace_members m
+      JOIN users u ON u.id = m.user_id
+      WHERE m.workspace_id = ?
+      ORDER BY m.created_at
+    `, [workspaceId]);
+  }
+
+  // Joining again keeps the role the member already has
+  static async addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceMember['role']): Promise<void> {
+    await this.run(`
+      INSERT OR IGNORE INTO workspace_members (workspace_id, user_id, role) VALUES (?, ?, ?)
+    `, [workspaceId, userId, role]);
+  }
+
+  static async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceMember['role']): Promise<void> {
+    await this.run(`
+      UPDATE workspace_members SET role = ? WHERE workspace_id = ? AND user_id = ?
+    `, [role, workspaceId, userId]);
+  }
+
+  static async removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    await this.run(`
+      DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?
+    `, [workspaceId, userId]);
+  }
+
+  static async createWorkspaceInvite(data: Pick<WorkspaceInvite, 'id' | 'workspace_id' | 'token_hash' | 'role' | 'created_by' | 'expires_at'>): Promise<void> {
+    await this.run(`
+      INSERT INTO workspace_invites (id, workspace_id, token_hash, role, created_by, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [data.id, data.workspace_id, data.token_hash, data.role, data.created_by, data.expires_at]);
+  }
+
+  static async getWorkspaceInviteByHash(tokenHash: string): Promise<WorkspaceInvite | undefined> {
+    return this.get<WorkspaceInvite>('SELECT * FROM workspace_invites WHERE token_hash = ?', [tokenHash]);
+  }
+
+  // Invites that are neither revoked nor expired, newest first
+  static async getPendingWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+    return this.all<WorkspaceInvite>(`
+      SELECT i.*, u.email FROM workspace_invites i
+      LEFT JOIN users u ON u.id = i.created_by
+      WHERE i.workspace_id = ? AND i.revoked_at IS NULL AND i.expires_at > ?
+      ORDER BY i.created_at DESC
+    `, [workspaceId, new Date().toISOString()]);
+  }
+
+  // Scoped to the workspace so an id from another workspace never matches
+  static async revokeWorkspaceInvite(workspaceId: string, id: string): Promise<boolean> {
+    const invite = await this.get<{ id: string }>(`
+      SELECT id FROM workspace_invites WHERE workspace_id = ? AND id = ? AND revoked_at IS NULL
+    `, [workspaceId, id]);
+    if (!invite) return false;
+
+    await this.run('UPDATE workspace_invites SET revoked_at = ? WHERE id = ?', [new Date().toISOString(), id]);
+    return true;
+  }
+
+  // Shared collections
+  static async createCollection(data: Pick<Collection, 'id' | 'workspace_id' | 'name' | 'created_by'>): Promise<void> {
+    const now = new Date().toISOString();
+    await this.run(`
+      INSERT INTO collections (id, workspace_id, name, created_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [data.id, data.workspace_id, data.name, data.created_by, now, now]);
+  }
+
+  static async getCollections(workspaceId: string): Promise<Collection[]> {
+    return this.all<Collection>(`
+      SELECT * FROM collections WHERE workspace_id = ? ORDER BY name COLLATE NOCASE
+    `, [workspaceId]);
+  }
+
+  // Scoped to the workspace so an id from another workspace never matches
+  static async getCollection(workspaceId: string, id: string): Promise<Collection | undefined> {
+    return this.get<Collection>(`
+      SELECT * FROM collections WHERE workspace_id = ? AND id = ?
+    `, [workspaceId, id]);
+  }
+
+  static async deleteCollection(workspaceId: string, id: string): Promise<void> {
+    await this.run('DELETE FROM collections WHERE workspace_id = ? AND id = ?', [workspaceId, id]);
+  }
+
+  static async getCollectionItems(workspaceId: string): Promise<CollectionItem[]> {
+    return this.all<CollectionItem>(`
+      SELECT i.*, u.email FROM collection_items i
+      JOIN collections c ON c.id = i.collection_id
+      LEFT JOIN users u ON u.id = i.created_by
+      WHERE c.workspace_id = ?
+      ORDER BY i.created_at
+    `, [workspaceId]);
+  }
+
+  static async addCollectionItem(data: Pick<CollectionItem, 'id' | 'collection_id' | 'kind' | 'prompt' | 'created_by'>): Promise<CollectionItem> {
+    await this.run(`
+      INSERT INTO collection_items (id, collection_id, kind, prompt, created_by)
+      VALUES (?, ?, ?, ?, ?)
+    `, [data.id, data.collection_id, data.kind, data.prompt, data.created_by]);
+    await this.run('UPDATE collections SET updated_at = ? WHERE id = ?', [new Date().toISOString(), data.collection_id]);
+
+    return this.get<CollectionItem>(`
+      SELECT i.*, u.email FROM collection_items i
+      LEFT JOIN users u ON u.id = i.created_by
+      WHERE i.id = ?
+    `, [data.id]) as Promise<CollectionItem>;
+  }
+
+  // Returns false when the item is not in the collection
+  static async removeCollectionItem(collectionId: string, id: string): Promise<boolean> {
+    const item = await this.get<{ id: string }>(`
+      SELECT id FROM collection_items WHERE collection_id = ? AND id = ?
+    `, [collectionId, id]);
+    if (!item) return false;
+
+    await this.run('DELETE FROM collection_items WHERE id = ?', [id]);
+    await this.run('UPDATE collections SET updated_at = ? WHERE id = ?', [new Date().toISOString(), collectionId]);
+    return true;
+  }
+
+  // Site definitions
+  static async getLatestSiteDefinitions(): Promise<SiteDefinitionsRecord | undefined> {
+    return this.get<SiteDefinitionsRecord>('SELECT * FROM site_definitions ORDER BY version DESC LIMIT 1');
+  }
+
+  static async saveSiteDefinitions(data: Pick<SiteDefinitionsRecord, 'version' | 'document' | 'signature' | 'published_by'>): Promise<void> {
+    await this.run(`
+      INSERT INTO site_definitions (version, document, signature, published_by) VALUES (?, ?, ?, ?)
+    `, [data.version, data.document, data.signature, data.published_by]);
+  }
+
   // Usage tracking
   static async createUsage(data: Partial<Usage>): Promise<void> {
     const id = uuidv4();
@@ -284,6 +779,18 @@ export class Database {
       WHERE created_at < datetime('now', '-90 days')
     `);
 
+    // Delete refresh tokens that can no longer be used
+    await this.run(`
+      DELETE FROM refresh_tokens
+      WHERE expires_at < datetime('now') OR revoked_at IS NOT NULL
+    `);
+
+    // Delete invite links that can no longer be used
+    await this.run(`
+      DELETE FROM workspace_invites
+      WHERE expires_at < datetime('now') OR revoked_at IS NOT NULL
+    `);
+
     // Delete expired premium users with no recent activity
     await this.run(`
       UPDATE users 
@@ -1,4 +1,5 @@
 import { User } from '../db/database';
+import { QuotaUsage } from '../contract/apiContract';
 import { createLogger } from '../utils/logger';
 
 interface RateLimitResult {
@@ -11,7 +12,7 @@ interface RateLimitResult {
 
 export class RateLimiter {
   private static readonly logger = createLogger();
-  private static readonly FREE_QUERIES_PER_DAY = 5;
+  static readonly FREE_QUERIES_PER_DAY = 5;
 
   static async checkUserLimit(user: User): Promise<RateLimitResult> {
     const today = new Date().toISOString().split('T')[0];
@@ -155,4 +156,16 @@ export class RateLimiter {
       resetTime: this.getTimeUntilReset(user)
     };
   }
-}
\ No newline at end of file
+
+  // Daily quota in the shape of the v1 API contract
+  static getQuotaUsage(user: User): QuotaUsage {
+    const isPremium = this.isPremiumValid(user);
+    const today = new Date().toISOString().split('T')[0];
+
+    return {
+      current: user.last_query_date === today ? user.queries_today : 0,
+      limit: isPremium ? -1 : this.FREE_QUERIES_PER_DAY,
+      resetDate: this.getTimeUntilReset(user).toISOString()
+    };
+  }
+}
@@ -5,8 +5,24 @@ import rateLimit from 'express-rate-limit';
 
 const logger = createLogger();
 
+// Routes whose JSON bodies are stored exactly as sent and checked by their
+// own contract schemas: prompts the clients sync with each other, CSS
+// selectors admins publish, and workspaces with what their members share.
+// Rewriting them, or refusing them for looking like code, would corrupt them.
+const VERBATIM_BODY_ROUTES: RegExp[] = [
+  /^\/api\/v1\/library\/sync$/,
+  /^\/api\/admin\/site-definitions$/,
+  /^\/api\/v1\/workspaces(\/|$)/
+];
+
+function keepsBodyVerbatim(req: Request): boolean {
+  return VERBATIM_BODY_ROUTES.some(route => route.test(req.path))
+}
+
 // Enhanced input sanitization
 export function sanitizeInput(req: Request, res: Response, next: NextFunction) {
+  if (keepsBodyVerbatim(req)) return next()
+
   function deepSanitize(obj: any): any {
     if (typeof obj === 'string') {
       // Remove potentially dangerous characters and patterns
@@ -49,6 +65,8 @@ export function sanitizeInput(req: Request, res: Response, next: NextFunction) {
 
 // Request integrity validation
 export function validateRequestIntegrity(req: Request, res: Response, next: NextFunction) {
+  if (keepsBodyVerbatim(req)) return next()
+
   const suspiciousPatterns = [
     // SQL injection attempts
     /(\b(SELECT|INSERT|UPDATE|DELETE|DROP|CREATE|ALTER|EXEC)\b)/i,
@@ -3,8 +3,9 @@ import { createLogger } from '../utils/logger';
 
 const logger = createLogger();
 
-// URL validation to prevent SSRF attacks
-export function validateURL(url: string): boolean {
+// URL validation to prevent SSRF attacks.
+// trustedHosts come from server configuration (e.g. LLM provider base URLs), never from requests.
+export function validateURL(url: string, trustedHosts: string[] = []): boolean {
   try {
     const parsedUrl = new URL(url);
     
@@ -15,6 +16,10 @@ export function validateURL(url: string): boolean {
     
     // Block private/internal IP ranges
     const hostname = parsedUrl.hostname.toLowerCase();
+
+    if (trustedHosts.some(host => host.toLowerCase() === hostname)) {
+      return true;
+    }
     
     // Block localhost variations
     if (['localhost', '127.0.0.1', '::1'].includes(hostname)) {
@@ -106,14 +111,24 @@ export function validateRequestURLs(req: Request, res: Response, next: NextFunct
 }
 
 // Safe fetch wrapper that validates URLs
-export async function safeFetch(url: string, options: RequestInit = {}): Promise<globalThis.Response> {
-  if (!validateURL(url)) {
+export async function safeFetch(
+  url: string,
+  options: RequestInit = {},
+  trustedHosts: string[] = []
+): Promise<globalThis.Response> {
+  if (!validateURL(url, trustedHosts)) {
     throw new Error('URL validation failed - potentially unsafe URL');
   }
   
   // Add timeout to prevent hanging requests
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+
+  // Honour the caller's signal too, e.g. a client disconnecting mid-stream
+  if (options.signal) {
+    if (options.signal.aborted) controller.abort();
+    options.signal.addEventListener('abort', () => controller.abort(), { once: true });
+  }
   
   try {
     const response = await fetch(url, {
@@ -0,0 +1,199 @@
+import { Request, Response, NextFunction } from 'express';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import rateLimit from 'express-rate-limit';
+import { v4 as uuidv4 } from 'uuid';
+import { Database, User } from '../db/database';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger();
+
+// Account sessions: short-lived access JWTs plus rotating refresh JWTs
+export interface UserTokens {
+  token: string;
+  refreshToken: string;
+  expiresAt: string;
+  refreshExpiresAt: string;
+}
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+}
+
+// Rate limiting for account login/registration attempts
+export const userAuthLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // Limit each IP to 20 attempts per windowMs
+  message: {
+    success: false,
+    error: {
+      code: 'RATE_LIMIT',
+      message: 'Too many authentication attempts, please try again later.'
+    }
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => `user_auth:${req.ip}`,
+});
+
+export class UserAuth {
+  private static readonly ISSUER = 'prompt-polisher-backend';
+  private static readonly ACCESS_AUDIENCE = 'prompt-polisher-client';
+  private static readonly REFRESH_AUDIENCE = 'prompt-polisher-refresh';
+  private static readonly ACCESS_TTL_SECONDS = 2 * 60 * 60; // 2 hours
+  private static readonly REFRESH_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+  static async hashPassword(password: string): Promise<string> {
+    const rounds = parseInt(process.env.BCRYPT_ROUNDS || '12');
+    return bcrypt.hash(password, rounds);
+  }
+
+  static async verifyPassword(password: string, passwordHash?: string): Promise<boolean> {
+    if (!passwordHash) return false;
+    return bcrypt.compare(password, passwordHash);
+  }
+
+  static async issueTokens(user: User): Promise<UserTokens> {
+    const secret = this.getJWTSecret();
+    const now = Date.now();
+
+    const token = jwt.sign({ sub: user.id, email: user.email }, secret, {
+      expiresIn: this.ACCESS_TTL_SECONDS,
+      issuer: this.ISSUER,
+      audience: this.ACCESS_AUDIENCE
+    });
+
+    // Refresh tokens are stored hashed so they can be revoked and rotated
+    const refreshId = uuidv4();
+    const refreshToken = jwt.sign({ sub: user.id, jti: refreshId }, secret, {
+      expiresIn: this.REFRESH_TTL_SECONDS,
+      issuer: this.ISSUER,
+      audience: this.REFRESH_AUDIENCE
+    });
+    const refreshExpiresAt = new Date(now + this.REFRESH_TTL_SECONDS * 1000).toISOString();
+
+    await Database.createRefreshToken({
+      id: refreshId,
+      user_id: user.id,
+      token_hash: this.hashToken(refreshToken),
+      expires_at: refreshExpiresAt
+    });
+
+    return {
+      token,
+      refreshToken,
+      expiresAt: new Date(now + this.ACCESS_TTL_SECONDS * 1000).toISOString(),
+      refreshExpiresAt
+    };
+  }
+
+  static verifyAccessToken(token: string): AuthenticatedUser | null {
+    try {
+      const decoded = jwt.verify(token, this.getJWTSecret(), {
+        issuer: this.ISSUER,
+        audience: this.ACCESS_AUDIENCE
+      }) as jwt.JwtPayload;
+
+      if (!decoded.sub) return null;
+      return { id: decoded.sub, email: decoded.email };
+    } catch (error) {
+      logger.debug('Invalid access token', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  // Exchanges a refresh token for a new token pair, revoking the old one
+  static async rotateRefreshToken(refreshToken: string): Promise<{ user: User; tokens: UserTokens } | null> {
+    let decoded: jwt.JwtPayload;
+    try {
+      decoded = jwt.verify(refreshToken, this.getJWTSecret(), {
+        issuer: this.ISSUER,
+        audience: this.REFRESH_AUDIENCE
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      logger.debug('Invalid refresh token', { error: (error as Error).message });
+      return null;
+    }
+
+    const stored = await Database.getRefreshTokenByHash(this.hashToken(refreshToken));
+    if (!stored || stored.user_id !== decoded.sub) {
+      return null;
+    }
+
+    if (stored.revoked_at) {
+      // A revoked token being replayed means the token chain leaked
+      logger.warn('Revoked refresh token reused, revoking all sessions', { userId: stored.user_id });
+      await Database.revokeUserRefreshTokens(stored.user_id);
+      return null;
+    }
+
+    const user = await Database.getUserById(stored.user_id);
+    if (!user) return null;
+
+    await Database.revokeRefreshToken(stored.id);
+    const tokens = await this.issueTokens(user);
+
+    return { user, tokens };
+  }
+
+  static async revokeRefreshToken(refreshToken: string): Promise<void> {
+    const stored = await Database.getRefreshTokenByHash(this.hashToken(refreshToken));
+    if (stored) {
+      await Database.revokeRefreshToken(stored.id);
+    }
+  }
+
+  static extractBearerToken(req: Request): string | null {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+    return authHeader.substring(7);
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static getJWTSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret || secret.length < 32) {
+      throw new Error('JWT_SECRET must be at least 32 characters long');
+    }
+    return secret;
+  }
+}
+
+// Middleware to require a signed-in account
+export function requireUser() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = UserAuth.extractBearerToken(req);
+    const user = token ? UserAuth.verifyAccessToken(token) : null;
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      });
+    }
+
+    (req as any).authUser = user;
+    next();
+  };
+}
+
+// Middleware that attaches the account if a valid token is present
+export function optionalUser() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = UserAuth.extractBearerToken(req);
+    const user = token ? UserAuth.verifyAccessToken(token) : null;
+
+    if (user) {
+      (req as any).authUser = user;
+    }
+    next();
+  };
+}
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { Database } from '../db/database';
+import { WorkspaceAction, WorkspacePermissions } from '../contract/workspacePermissions';
+import { ApiException } from '../utils/apiResponse';
+
+// Middleware for routes under /workspaces/:workspaceId. Runs after
+// requireUser() and attaches the caller's membership as req.workspaceMember.
+// Non-members get a 404 so workspace ids cannot be probed.
+export function requireWorkspace(action: WorkspaceAction) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const userId: string = (req as any).authUser.id;
+
+    Database.getWorkspaceMember(req.params.workspaceId, userId)
+      .then(member => {
+        if (!member) {
+          throw new ApiException('VALIDATION_ERROR', 'Workspace not found', undefined, 404);
+        }
+        if (!WorkspacePermissions.can(member.role, action)) {
+          throw new ApiException('UNAUTHORIZED', 'Your role does not allow this', {
+            role: member.role,
+            required: action
+          }, 403);
+        }
+
+        (req as any).workspaceMember = member;
+        next();
+      })
+      .catch(next);
+  };
+}
@@ -1,6 +1,8 @@
 import express from 'express';
 import { Database } from '../db/database';
 import { LLMProvider } from '../services/llmProvider';
+import { SiteDefinitionService } from '../services/siteDefinitionService';
+import { parseSites } from '../contract/siteDefinitions';
 import { createLogger } from '../utils/logger';
 import { requireAdmin } from '../middleware/adminAuth';
 
@@ -16,6 +18,8 @@ router.get('/stats', requireAdmin('read'), async (req, res) => {
     res.json({
       usage: stats,
       providers: providerStatus,
+      breakers: LLMProvider.getBreakerStatus(),
+      fallbackChain: LLMProvider.getFallbackChain(),
       system: {
         uptime: process.uptime(),
         memory: process.memoryUsage(),
@@ -76,4 +80,24 @@ router.get('/health', requireAdmin('read'), async (req, res) => {
   }
 });
 
+// Publish new site selectors; extensions pick them up on their next check
+router.post('/site-definitions', requireAdmin('write'), async (req, res) => {
+  const result = parseSites(req.body?.sites, '$.sites');
+  if (!result.ok) {
+    return res.status(400).json({ error: 'Invalid site definitions', details: result.errors });
+  }
+
+  try {
+    const admin = (req as any).adminUser;
+    const published = await SiteDefinitionService.publish(result.value, admin.username);
+
+    logger.info('Site definitions published', { version: published.version, sites: result.value.length, username: admin.username });
+    res.status(201).json({ version: published.version, signature: published.signature });
+
+  } catch (error: any) {
+    logger.error('Site definitions publish error', { error: error.message });
+    res.status(500).json({ error: 'Failed to publish site definitions' });
+  }
+});
+
 export { router as adminRouter };
\ No newline at end of file
@@ -1,58 +1,342 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
-import { Database } from '../db/database';
+import { Database, User } from '../db/database';
+import { RateLimiter } from '../middleware/rateLimiter';
+import { UserAuth, UserTokens, requireUser, userAuthLimiter } from '../middleware/userAuth';
 import { createLogger } from '../utils/logger';
+import { ApiEnvelope, ApiUser, RegisterRequest, SessionData } from '../contract/apiContract';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = express.Router();
 const logger = createLogger();
 
-// Get or create user by IP
-router.post('/user', async (req, res) => {
+// Shape the client expects for a signed-in account
+export function serializeUser(user: User): ApiUser {
+  return {
+    id: user.id,
+    email: user.email,
+    plan: RateLimiter.isPremiumValid(user) ? 'premium' : 'free',
+    usage: RateLimiter.getQuotaUsage(user)
+  };
+}
+
+function sessionResponse(user: User, tokens: UserTokens): ApiEnvelope<SessionData> {
+  return {
+    success: true,
+    data: {
+      user: serializeUser(user),
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt
+    }
+  };
+}
+
+const validateCredentials = [
+  body('email').isEmail().withMessage('Invalid email format').normalizeEmail(),
+  body('password')
+    .isLength({ min: 8, max: 200 })
+    .withMessage('Password must be between 8 and 200 characters'),
+];
+
+// Register an account. The anonymous user of the device that signs up is
+// linked to it, keeping its usage; sharing its IP alone is not enough.
+router.post('/register',
+  userAuthLimiter,
+  validateCredentials,
+  body('deviceId').optional().isString().isLength({ max: 100 }).withMessage('Invalid device id'),
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: errors.array()
+          }
+        });
+      }
+
+      const { email, password, deviceId } = req.body as RegisterRequest;
+      const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
+
+      if (await Database.getUserByEmail(email)) {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'An account with this email already exists'
+          }
+        });
+      }
+
+      const passwordHash = await UserAuth.hashPassword(password);
+      const anonymousUser = typeof deviceId === 'string' && deviceId
+        ? await Database.getAnonymousUserByDevice(ipAddress, deviceId)
+        : undefined;
+
+      let user: User;
+      if (anonymousUser) {
+        // Keep usage history and premium status from the anonymous row
+        await Database.updateUser(anonymousUser.id, {
+          email,
+          password_hash: passwordHash,
+          last_login_at: new Date().toISOString()
+        });
+        user = (await Database.getUserById(anonymousUser.id))!;
+
+        logger.info('Anonymous user linked to new account', { userId: user.id, ipAddress });
+      } else {
+        user = await Database.createUser({
+          id: uuidv4(),
+          email,
+          password_hash: passwordHash,
+          ip_address: ipAddress
+        });
+
+        logger.info('New account registered', { userId: user.id, ipAddress });
+      }
+
+      const tokens = await UserAuth.issueTokens(user);
+      res.status(201).json(sessionResponse(user, tokens));
+
+    } catch (error: any) {
+      logger.error('Account registration failed', {
+        error: error.message
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Failed to register account'
+        }
+      });
+    }
+  }
+);
+
+// Log in with email and password
+router.post('/login',
+  userAuthLimiter,
+  validateCredentials,
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: errors.array()
+          }
+        });
+      }
+
+      const { email, password } = req.body;
+      const user = await Database.getUserByEmail(email);
+
+      if (!user || !(await UserAuth.verifyPassword(password, user.password_hash))) {
+        // Don't reveal whether the email or the password was wrong
+        logger.warn('Account login failed', { email, ip: req.ip });
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid email or password'
+          }
+        });
+      }
+
+      await Database.updateUser(user.id, { last_login_at: new Date().toISOString() });
+
+      const tokens = await UserAuth.issueTokens(user);
+      res.json(sessionResponse(user, tokens));
+
+    } catch (error: any) {
+      logger.error('Account login failed', {
+        error: error.message
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Failed to log in'
+        }
+      });
+    }
+  }
+);
+
+// Exchange a refresh token for a new session
+router.post('/refresh',
+  body('refreshToken').isString().isLength({ min: 1 }).withMessage('Refresh token required'),
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Validation failed',
+            details: errors.array()
+          }
+        });
+      }
+
+      const result = await UserAuth.rotateRefreshToken(req.body.refreshToken);
+      if (!result) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid or expired refresh token'
+          }
+        });
+      }
+
+      res.json(sessionResponse(result.user, result.tokens));
+
+    } catch (error: any) {
+      logger.error('Token refresh failed', {
+        error: error.message
+      });
+
+      res.status(500).json({
+        success: false,
+        error: {
+          code: 'SERVER_ERROR',
+          message: 'Failed to refresh session'
+        }
+      });
+    }
+  }
+);
+
+// Revoke the refresh token for this session
+router.post('/logout', async (req, res) => {
   try {
-    const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
-    
-    let user = await Database.getUserByIP(ipAddress);
-    
+    const { refreshToken } = req.body || {};
+    if (typeof refreshToken === 'string' && refreshToken.length > 0) {
+      await UserAuth.revokeRefreshToken(refreshToken);
+    }
+
+    res.json({ success: true });
+
+  } catch (error: any) {
+    logger.error('Logout failed', {
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to log out'
+      }
+    });
+  }
+});
+
+// Current account profile
+router.get('/me', requireUser(), async (req, res) => {
+  try {
+    const user = await Database.getUserById((req as any).authUser.id);
     if (!user) {
-      // Create new user
-      user = await Database.createUser({
-        id: uuidv4(),
-        ip_address: ipAddress,
-        queries_today: 0,
-        total_queries: 0,
-        last_query_date: new Date().toISOString().split('T')[0]
-      });
-      
-      logger.info('New user created', {
-        userId: user.id,
-        ipAddress
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Account no longer exists'
+        }
       });
     }
-    
+
     res.json({
-      user: {
-        id: user.id,
-        isPremium: user.is_premium,
-        queriesUsed: user.queries_today,
-        queriesLimit: user.is_premium ? 'unlimited' : 5,
-        totalQueries: user.total_queries
-      }
+      success: true,
+      data: serializeUser(user)
     });
-    
+
   } catch (error: any) {
-    logger.error('User creation/retrieval failed', {
+    logger.error('Profile retrieval failed', {
       error: error.message
     });
-    
+
     res.status(500).json({
-      error: 'Failed to get user information'
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Failed to get profile'
+      }
     });
   }
 });
 
-// Update user email (optional)
+// Get or create the anonymous user of this IP and device
+router.post('/user',
+  body('deviceId').optional().isString().isLength({ max: 100 }).withMessage('Invalid device id'),
+  async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
+      const deviceId: string | undefined = req.body?.deviceId || undefined;
+    
+      let user = await Database.getAnonymousUser(ipAddress, deviceId);
+    
+      if (!user) {
+        // Create new user
+        user = await Database.createUser({
+          id: uuidv4(),
+          ip_address: ipAddress,
+          device_id: deviceId,
+          queries_today: 0,
+          total_queries: 0,
+          last_query_date: new Date().toISOString().split('T')[0]
+        });
+      
+        logger.info('New user created', {
+          userId: user.id,
+          ipAddress
+        });
+      }
+    
+      res.json({
+        user: {
+          id: user.id,
+          isPremium: user.is_premium,
+          queriesUsed: user.queries_today,
+          queriesLimit: user.is_premium ? 'unlimited' : 5,
+          totalQueries: user.total_queries
+        }
+      });
+    
+    } catch (error: any) {
+      logger.error('User creation/retrieval failed', {
+        error: error.message
+      });
+    
+      res.status(500).json({
+        error: 'Failed to get user information'
+      });
+    }
+  }
+);
+
+// Update the signed-in account's email
 router.post('/update-email',
+  requireUser(),
   body('email').isEmail().withMessage('Invalid email format'),
   async (req, res) => {
     try {
@@ -65,14 +349,20 @@ router.post('/update-email',
       }
       
       const { email } = req.body;
-      const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
       
-      const user = await Database.getUserByIP(ipAddress);
+      const user = await Database.getUserById((req as any).authUser.id);
       if (!user) {
         return res.status(404).json({
           error: 'User not found'
         });
       }
+
+      const owner = await Database.getUserByEmail(email);
+      if (owner && owner.id !== user.id) {
+        return res.status(409).json({
+          error: 'An account with this email already exists'
+        });
+      }
       
       await Database.updateUser(user.id, { email });
       
@@ -0,0 +1,45 @@
+import express from 'express';
+
+// The page workspace invite links open. Joining needs the extension's
+// account, so the page only tells the recipient where to paste the link.
+const router = express.Router();
+
+// Invite tokens are base64url; anything else is not echoed back
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{1,200}$/;
+
+router.get('/', (req, res) => {
+  const token = typeof req.query.invite === 'string' && TOKEN_PATTERN.test(req.query.invite)
+    ? req.query.invite
+    : undefined;
+
+  res.status(token ? 200 : 404).type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="referrer" content="no-referrer">
+  <title>Join a workspace - Prompt Polisher</title>
+  <style>
+    body { font: 16px -apple-system, BlinkMacSystemFont, sans-serif; max-width: 560px; margin: 64px auto; padding: 0 16px; color: #111827; }
+    input { width: 100%; padding: 8px; font: inherit; box-sizing: border-box; }
+    li { margin: 8px 0; }
+  </style>
+</head>
+<body>
+  <h1>Join a Prompt Polisher workspace</h1>
+  ${token ? `
+  <p>You were invited to a team workspace. To join it:</p>
+  <ol>
+    <li>Install the Prompt Polisher extension and sign in.</li>
+    <li>Open the extension's options and go to <strong>Workspaces</strong>.</li>
+    <li>Paste this page's address, or the invite code below, under <strong>Join a workspace</strong>.</li>
+  </ol>
+  <input type="text" readonly value="${token}" aria-label="Invite code">
+  ` : `
+  <p>This invite link is incomplete. Ask whoever sent it for a new one.</p>
+  `}
+</body>
+</html>`);
+});
+
+export { router as joinRouter };
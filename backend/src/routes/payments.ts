@@ -2,50 +2,17 @@ import express from 'express';
 import Stripe from 'stripe';
 import { body, validationResult } from 'express-validator';
 import { Database } from '../db/database';
+import { optionalUser } from '../middleware/userAuth';
+import { PaymentService, PlanId, PRICING, stripe } from '../services/paymentService';
 import { createLogger } from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = express.Router();
 const logger = createLogger();
 
-if (!process.env.STRIPE_SECRET_KEY) {
-  throw new Error('STRIPE_SECRET_KEY environment variable is required');
-}
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-  apiVersion: '2023-10-16',
-});
-
-// Pricing configuration
-const PRICING = {
-  queries_100: {
-    amount: 500, // $5.00
-    queries: 100,
-    name: '100 Queries Pack',
-    description: 'Perfect for regular users'
-  },
-  queries_500: {
-    amount: 2000, // $20.00
-    queries: 500,
-    name: '500 Queries Pack',
-    description: 'Best value for power users'
-  },
-  monthly_premium: {
-    amount: 999, // $9.99/month
-    queries: -1, // Unlimited
-    name: 'Monthly Premium',
-    description: 'Unlimited queries per month'
-  },
-  yearly_premium: {
-    amount: 9999, // $99.99/year
-    queries: -1, // Unlimited
-    name: 'Yearly Premium',
-    description: 'Unlimited queries - save 17%'
-  }
-};
-
 // Create payment intent
 router.post('/create-payment-intent',
+  optionalUser(),
   body('plan').isIn(Object.keys(PRICING)).withMessage('Invalid plan selected'),
   body('email').optional().isEmail().withMessage('Invalid email format'),
   async (req, res) => {
@@ -61,71 +28,20 @@ router.post('/create-payment-intent',
       const { plan, email } = req.body;
       const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
       
-      // Get or create user
-      let user = await Database.getUserByIP(ipAddress);
+      // Get or create user; without an account only anonymous users match
+      const authUserId = (req as any).authUser?.id;
+      let user = authUserId
+        ? await Database.getUserById(authUserId)
+        : await Database.getAnonymousUser(ipAddress);
       if (!user) {
         user = await Database.createUser({
           id: uuidv4(),
-          ip_address: ipAddress,
-          email: email || undefined
+          ip_address: ipAddress
         });
-      } else if (email && !user.email) {
-        await Database.updateUser(user.id, { email });
       }
 
-      const planDetails = PRICING[plan as keyof typeof PRICING];
-      
-      // Create Stripe customer if not exists
-      let stripeCustomer;
-      if (user.stripe_customer_id) {
-        stripeCustomer = await stripe.customers.retrieve(user.stripe_customer_id);
-      } else {
-        stripeCustomer = await stripe.customers.create({
-          email: email || undefined,
-          metadata: {
-            userId: user.id,
-            ipAddress
-          }
-        });
-        
-        await Database.updateUser(user.id, {
-          stripe_customer_id: stripeCustomer.id
-        });
-      }
-
-      // Create payment intent
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: planDetails.amount,
-        currency: 'usd',
-        customer: stripeCustomer.id,
-        metadata: {
-          userId: user.id,
-          plan,
-          queriesPurchased: planDetails.queries.toString(),
-          ipAddress
-        },
-        description: `${planDetails.name} - ${planDetails.description}`,
-        automatic_payment_methods: {
-          enabled: true,
-        },
-      });
-
-      // Store payment record
-      await Database.createPayment({
-        user_id: user.id,
-        stripe_payment_id: paymentIntent.id,
-        amount: planDetails.amount / 100, // Convert to dollars
-        currency: 'usd',
-        status: 'pending',
-        queries_purchased: planDetails.queries
-      });
-
-      logger.info(`Payment intent created`, {
-        userId: user.id,
-        plan,
-        amount: planDetails.amount,
-        paymentIntentId: paymentIntent.id
-      });
+      const planDetails = PRICING[plan as PlanId];
+      const paymentIntent = await PaymentService.createPaymentIntent(user, plan as PlanId, email, ipAddress);
 
       res.json({
         clientSecret: paymentIntent.client_secret,
@@ -306,26 +222,20 @@ async function handleSubscriptionCancellation(subscription: Stripe.Subscription)
 
 // Get pricing information
 router.get('/pricing', (req, res) => {
-  const pricing = Object.entries(PRICING).map(([key, value]) => ({
-    id: key,
-    ...value,
-    amount: value.amount / 100 // Convert to dollars for display
-  }));
-
-  res.json({ pricing });
+  res.json({ pricing: PaymentService.getPricing() });
 });
 
 // Get user payment history
-router.get('/history/:userId?', async (req, res) => {
+router.get('/history/:userId?', optionalUser(), async (req, res) => {
   try {
     const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
-    const userId = req.params.userId;
+    const userId = req.params.userId || (req as any).authUser?.id;
 
     let user;
     if (userId) {
       user = await Database.getUserById(userId);
     } else {
-      user = await Database.getUserByIP(ipAddress);
+      user = await Database.getAnonymousUser(ipAddress);
     }
 
     if (!user) {
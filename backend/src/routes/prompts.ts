@@ -3,9 +3,13 @@ import rateLimit from 'express-rate-limit';
 import { body, validationResult } from 'express-validator';
 import { Database, User } from '../db/database';
 import { LLMProvider } from '../services/llmProvider';
+import { PromptService } from '../services/promptService';
+import { ProviderRegistry } from '../services/providers/registry';
 import { RateLimiter } from '../middleware/rateLimiter';
+import { optionalUser } from '../middleware/userAuth';
 import { createLogger } from '../utils/logger';
-import { v4 as uuidv4 } from 'uuid';
+import { API_ROUTES } from '../contract/apiContract';
+import { v1Router } from './v1';
 
 const router = express.Router();
 const logger = createLogger();
@@ -31,8 +35,8 @@ const validatePromptImprovement = [
     .escape(),
   body('provider')
     .optional()
-    .isIn(['openai', 'anthropic', 'local'])
-    .withMessage('Provider must be openai, anthropic, or local'),
+    .custom(provider => ProviderRegistry.has(provider))
+    .withMessage('Unknown provider'),
   body('language')
     .optional()
     .isLength({ max: 10 })
@@ -42,6 +46,7 @@ const validatePromptImprovement = [
 // Improve prompt endpoint
 router.post('/improve', 
   promptLimiter,
+  optionalUser(),
   validatePromptImprovement,
   async (req: express.Request, res: express.Response) => {
     try {
@@ -54,21 +59,11 @@ router.post('/improve',
         });
       }
 
-      const { text, provider = 'openai', language } = req.body;
+      const { text, provider = ProviderRegistry.getDefaultId(), language } = req.body;
       const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
       const extensionId = req.headers['x-extension-id'] as string;
 
-      // Get or create user
-      let user = await Database.getUserByIP(ipAddress);
-      if (!user) {
-        user = await Database.createUser({
-          id: uuidv4(),
-          ip_address: ipAddress,
-          queries_today: 0,
-          total_queries: 0,
-          last_query_date: new Date().toISOString().split('T')[0]
-        });
-      }
+      const user = await PromptService.resolveUser((req as any).authUser?.id, ipAddress);
 
       // Check rate limits and usage quota
       const rateLimitResult = await RateLimiter.checkUserLimit(user);
@@ -84,55 +79,8 @@ router.post('/improve',
         });
       }
 
-      // Track the query attempt
-      await Database.incrementUserQueries(user.id);
-
-      let improvedPrompt: string;
-      let cost = 0;
-      let tokensUsed = 0;
-      let success = true;
-      let errorMessage: string | undefined;
-
-      try {
-        // Use LLM provider to improve the prompt
-        const result = await LLMProvider.improvePrompt(text, provider, language);
-        improvedPrompt = result.improvedPrompt;
-        cost = result.usage?.cost || 0;
-        tokensUsed = result.usage?.tokens || 0;
-
-        logger.info(`Prompt improved successfully for user ${user.id}`, {
-          userId: user.id,
-          ipAddress,
-          provider,
-          cost,
-          tokensUsed
-        });
-
-      } catch (error: any) {
-        success = false;
-        errorMessage = error.message;
-        improvedPrompt = text; // Return original text on error
-        
-        logger.error(`Prompt improvement failed for user ${user.id}`, {
-          userId: user.id,
-          ipAddress,
-          provider,
-          error: error.message
-        });
-      }
-
-      // Log usage to database
-      await Database.createUsage({
-        user_id: user.id,
-        query_text: text,
-        response_text: improvedPrompt,
-        provider,
-        cost,
-        tokens_used: tokensUsed,
-        ip_address: ipAddress,
-        success,
-        error_message: errorMessage
-      });
+      const { success, improvedPrompt, provider: servedBy, cost, tokensUsed, errorMessage } =
+        await PromptService.improve(user, text, provider, language, ipAddress);
 
       // Get updated user info for response
       const updatedUser = await Database.getUserById(user.id);
@@ -141,7 +89,7 @@ router.post('/improve',
         success,
         improvedPrompt,
         originalText: text,
-        provider,
+        provider: servedBy,
         usage: {
           cost,
           tokens: tokensUsed,
@@ -166,17 +114,26 @@ router.post('/improve',
   }
 );
 
+// Kept for clients built before /api/v1, which send the prompt as `text`.
+// Served by the v1 stream handler, so failures are v1 envelopes.
+router.post('/improve/stream', (req, res, next) => {
+  const { text, ...rest } = req.body ?? {};
+  req.body = { ...rest, prompt: rest.prompt ?? text };
+  req.url = API_ROUTES.improveStream.path;
+  v1Router(req, res, next);
+});
+
 // Get user usage statistics
-router.get('/usage/:userId?', async (req, res) => {
+router.get('/usage/:userId?', optionalUser(), async (req, res) => {
   try {
     const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
-    const userId = req.params.userId;
+    const userId = req.params.userId || (req as any).authUser?.id;
 
     let user: User | undefined;
     if (userId) {
       user = await Database.getUserById(userId);
     } else {
-      user = await Database.getUserByIP(ipAddress);
+      user = await Database.getAnonymousUser(ipAddress);
     }
 
     if (!user) {
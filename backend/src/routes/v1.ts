@@ -0,0 +1,326 @@
+import express from 'express';
+import rateLimit from 'express-rate-limit';
+import {
+  API_VERSION,
+  API_ROUTES,
+  AnalyzeRequest,
+  ConfirmPaymentRequest,
+  CreatePaymentIntentRequest,
+  ImproveRequest,
+  LibrarySyncRequest,
+  PaymentIntent
+} from '../contract/apiContract';
+import { formatSSE, ImproveStreamDone } from '../contract/sse';
+import { Database, User } from '../db/database';
+import { RateLimiter } from '../middleware/rateLimiter';
+import { optionalUser, requireUser } from '../middleware/userAuth';
+import { LibraryService, MAX_SYNC_CHANGES } from '../services/libraryService';
+import { PromptService } from '../services/promptService';
+import { ProviderRegistry } from '../services/providers/registry';
+import { PaymentService } from '../services/paymentService';
+import { SiteDefinitionService } from '../services/siteDefinitionService';
+import { ApiException, asyncHandler, sendError, sendSuccess, validateBody } from '../utils/apiResponse';
+import { createLogger } from '../utils/logger';
+import { authRouter } from './auth';
+import { workspacesRouter } from './workspaces';
+
+const router = express.Router();
+const logger = createLogger();
+
+// Rate limiting for AI endpoints
+const aiLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 100, // Max 100 requests per hour per IP
+  message: {
+    success: false,
+    error: {
+      code: 'RATE_LIMIT',
+      message: 'Rate limit exceeded. Please try again later.'
+    }
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+function clientIp(req: express.Request): string {
+  return req.ip || req.connection.remoteAddress || 'unknown';
+}
+
+// Anonymous clients identify their install in the body of improvements and
+// in the X-Device-Id header of everything else
+function deviceIdOf(req: express.Request): string | undefined {
+  const deviceId = (req.body as ImproveRequest | undefined)?.deviceId || req.get('x-device-id');
+  return deviceId && deviceId.length <= 100 ? deviceId : undefined;
+}
+
+// Resolves the caller and enforces the daily quota
+async function resolveQuotaUser(req: express.Request, useAccount: boolean): Promise<User> {
+  const authUserId = useAccount ? (req as any).authUser?.id : undefined;
+  const user = await PromptService.resolveUser(authUserId, clientIp(req), deviceIdOf(req));
+
+  const rateLimitResult = await RateLimiter.checkUserLimit(user);
+  if (!rateLimitResult.allowed) {
+    throw new ApiException('RATE_LIMIT', rateLimitResult.message || 'Usage limit exceeded', {
+      usage: RateLimiter.getQuotaUsage(user),
+      resetTime: rateLimitResult.resetTime,
+      upgradeUrl: `${process.env.FRONTEND_URL}/upgrade`
+    });
+  }
+
+  return user;
+}
+
+function resolveProvider(provider?: string): string {
+  if (!provider) return ProviderRegistry.getDefaultId();
+  if (!ProviderRegistry.has(provider)) {
+    throw new ApiException('VALIDATION_ERROR', `Unsupported provider: ${provider}`);
+  }
+  return provider;
+}
+
+async function quotaFor(userId: string) {
+  const user = await Database.getUserById(userId);
+  return user ? RateLimiter.getQuotaUsage(user) : undefined;
+}
+
+function improveHandler(useAccount: boolean) {
+  return asyncHandler(async (req, res) => {
+    const { prompt, provider, language } = req.body as ImproveRequest;
+    const providerId = resolveProvider(provider);
+    const user = await resolveQuotaUser(req, useAccount);
+
+    const outcome = await PromptService.improve(user, prompt, providerId, language, clientIp(req));
+    if (!outcome.success) {
+      throw new ApiException('SERVER_ERROR', 'Prompt improvement failed', outcome.errorMessage);
+    }
+
+    sendSuccess(res, API_ROUTES.improve.response, {
+      improvedPrompt: outcome.improvedPrompt,
+      originalText: prompt,
+      provider: outcome.provider,
+      usage: {
+        tokens: outcome.tokensUsed,
+        cost: outcome.cost
+      }
+    }, { usage: await quotaFor(user.id) });
+  });
+}
+
+// Account routes already speak the v1 envelope
+router.use('/auth', authRouter);
+
+router.get('/user/usage', optionalUser(), asyncHandler(async (req, res) => {
+  const user = await PromptService.resolveUser((req as any).authUser?.id, clientIp(req), deviceIdOf(req));
+  const quota = RateLimiter.getQuotaUsage(user);
+  const msUntilReset = new Date(quota.resetDate).getTime() - Date.now();
+
+  sendSuccess(res, API_ROUTES.usage.response, {
+    ...quota,
+    isLimitReached: quota.limit !== -1 && quota.current >= quota.limit,
+    daysUntilReset: Math.max(0, Math.ceil(msUntilReset / (24 * 60 * 60 * 1000)))
+  }, { usage: quota });
+}));
+
+router.post('/ai/improve',
+  aiLimiter,
+  optionalUser(),
+  validateBody(API_ROUTES.improve.request!),
+  improveHandler(true)
+);
+
+router.post('/ai/improve-anonymous',
+  aiLimiter,
+  validateBody(API_ROUTES.improveAnonymous.request!),
+  improveHandler(false)
+);
+
+// Streams the improvement as Server-Sent Events: token*, then done or error.
+// Failures before the stream starts, such as the quota, are envelopes.
+router.post('/ai/improve/stream',
+  aiLimiter,
+  optionalUser(),
+  validateBody(API_ROUTES.improveStream.request!),
+  asyncHandler(async (req, res) => {
+    const { prompt, provider, language } = req.body as ImproveRequest;
+    const providerId = resolveProvider(provider);
+    const user = await resolveQuotaUser(req, true);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Disable proxy buffering
+    });
+
+    // Stop the upstream request when the client cancels
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    let improvedPrompt = '';
+    let usage = { tokens: 0, cost: 0 };
+    let servedBy = providerId;
+
+    try {
+      const stream = PromptService.streamImprove(user, prompt, providerId, language, clientIp(req), controller.signal);
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+
+        if (chunk.type === 'token') {
+          improvedPrompt += chunk.text;
+          res.write(formatSSE('token', { text: chunk.text }));
+        } else {
+          servedBy = chunk.provider;
+          usage = chunk.usage;
+        }
+      }
+
+      if (controller.signal.aborted) return;
+
+      const updatedUser = await Database.getUserById(user.id);
+      const done: ImproveStreamDone = {
+        improvedPrompt: improvedPrompt.trim(),
+        provider: servedBy,
+        usage: {
+          ...usage,
+          queriesUsed: updatedUser?.queries_today || 0,
+          queriesLimit: updatedUser?.is_premium ? 'unlimited' : RateLimiter.FREE_QUERIES_PER_DAY,
+          isPremium: updatedUser?.is_premium || false
+        }
+      };
+      res.write(formatSSE('done', done));
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        logger.error('Prompt streaming error', { error: error.message, stack: error.stack });
+        res.write(formatSSE('error', { message: 'Enhancement interrupted. Please try again.' }));
+      }
+    } finally {
+      res.end();
+    }
+  })
+);
+
+router.post('/ai/analyze',
+  aiLimiter,
+  optionalUser(),
+  validateBody(API_ROUTES.analyze.request!),
+  asyncHandler(async (req, res) => {
+    const { prompt, provider, language, improvedPrompt } = req.body as AnalyzeRequest;
+    const providerId = resolveProvider(provider);
+    const user = await resolveQuotaUser(req, true);
+
+    const outcome = await PromptService.analyze(user, prompt, providerId, language, clientIp(req), improvedPrompt);
+    if (!outcome.analysis) {
+      // Clients fall back to their local rule-based analysis
+      throw new ApiException('SERVER_ERROR', 'Structured analysis unavailable', { provider: outcome.provider }, 502);
+    }
+
+    sendSuccess(res, API_ROUTES.analyze.response, outcome.analysis, { usage: await quotaFor(user.id) });
+  })
+);
+
+router.get('/payments/pricing', (req, res) => {
+  sendSuccess(res, API_ROUTES.pricing.response, PaymentService.getPricing());
+});
+
+router.post('/payments/create-intent',
+  optionalUser(),
+  validateBody(API_ROUTES.createPaymentIntent.request!),
+  asyncHandler(async (req, res) => {
+    const { planId, email } = req.body as CreatePaymentIntentRequest;
+    const plan = PaymentService.resolvePlanId(planId);
+    if (!plan) {
+      throw new ApiException('VALIDATION_ERROR', 'Invalid plan selected', { planId });
+    }
+
+    const user = await PromptService.resolveUser((req as any).authUser?.id, clientIp(req), deviceIdOf(req));
+    const intent = await PaymentService.createPaymentIntent(user, plan, email, clientIp(req));
+
+    sendSuccess(res, API_ROUTES.createPaymentIntent.response, {
+      id: intent.id,
+      clientSecret: intent.client_secret || '',
+      amount: intent.amount,
+      currency: intent.currency,
+      status: intent.status as PaymentIntent['status']
+    });
+  })
+);
+
+router.post('/payments/confirm',
+  optionalUser(),
+  validateBody(API_ROUTES.confirmPayment.request!),
+  asyncHandler(async (req, res) => {
+    const { paymentIntentId, paymentMethodId } = req.body as ConfirmPaymentRequest;
+    const user = await PromptService.resolveUser((req as any).authUser?.id, clientIp(req), deviceIdOf(req));
+
+    const intent = await PaymentService.confirmPaymentIntent(user, paymentIntentId, paymentMethodId);
+    if (!intent) {
+      throw new ApiException('UNAUTHORIZED', 'Payment does not belong to this user');
+    }
+
+    sendSuccess(res, API_ROUTES.confirmPayment.response, {
+      success: intent.status === 'succeeded',
+      status: intent.status
+    });
+  })
+);
+
+router.post('/library/sync',
+  requireUser(),
+  validateBody(API_ROUTES.librarySync.request!),
+  asyncHandler(async (req, res) => {
+    const request = req.body as LibrarySyncRequest;
+    if (request.changes.length > MAX_SYNC_CHANGES) {
+      throw new ApiException('VALIDATION_ERROR', `At most ${MAX_SYNC_CHANGES} changes per sync`, {
+        received: request.changes.length
+      });
+    }
+
+    const result = await LibraryService.sync((req as any).authUser.id, request);
+    sendSuccess(res, API_ROUTES.librarySync.response, result);
+  })
+);
+
+router.use('/workspaces', workspacesRouter);
+
+// Signed selector updates for the extension; it keeps its bundled ones until something is published
+router.get('/site-definitions', asyncHandler(async (req, res) => {
+  const definitions = await SiteDefinitionService.latest();
+  if (!definitions) {
+    throw new ApiException('VALIDATION_ERROR', 'No site definitions published yet', undefined, 404);
+  }
+
+  res.set('Cache-Control', 'public, max-age=300');
+  sendSuccess(res, API_ROUTES.siteDefinitions.response, definitions);
+}));
+
+router.get('/health', (req, res) => {
+  sendSuccess(res, API_ROUTES.health.response, {
+    status: 'healthy',
+    version: `${API_VERSION} (${process.env.npm_package_version || '1.0.0'})`,
+    timestamp: new Date().toISOString()
+  });
+});
+
+router.use((req, res) => {
+  sendError(res, 'VALIDATION_ERROR', 'Endpoint not found', { path: req.originalUrl }, 404);
+});
+
+// Every v1 failure leaves as an envelope
+router.use((error: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  if (error instanceof ApiException) {
+    return sendError(res, error.code, error.message, error.details, error.status);
+  }
+
+  logger.error('v1 endpoint error', {
+    error: error.message,
+    stack: error.stack,
+    url: req.originalUrl,
+    method: req.method
+  });
+
+  sendError(res, 'SERVER_ERROR', 'An unexpected error occurred. Please try again.');
+});
+
+export { router as v1Router };
@@ -0,0 +1,155 @@
+import express from 'express';
+import {
+  API_ROUTES,
+  AddCollectionItemRequest,
+  CreateCollectionRequest,
+  CreateInviteRequest,
+  CreateWorkspaceRequest,
+  JoinWorkspaceRequest,
+  UpdateMemberRequest
+} from '../contract/apiContract';
+import { requireUser } from '../middleware/userAuth';
+import { requireWorkspace } from '../middleware/workspaceAccess';
+import { WorkspaceService } from '../services/workspaceService';
+import { asyncHandler, sendSuccess, validateBody } from '../utils/apiResponse';
+
+// Team workspaces and their shared collections. Every route needs an account;
+// those under /:workspaceId also check the caller's role in that workspace.
+const router = express.Router();
+
+// Invite links open the join page this server serves, see routes/join.ts.
+// Its address is configured, never taken from the client's Host header.
+function publicUrl(): string {
+  const url = process.env.PUBLIC_URL;
+  if (!url || !/^https?:\/\/[^/\s]+/.test(url)) {
+    throw new Error('PUBLIC_URL environment variable must be set to this server\'s http(s) address to create invite links');
+  }
+  return url.replace(/\/+$/, '');
+}
+
+router.use(requireUser());
+
+router.get('/', asyncHandler(async (req, res) => {
+  const workspaces = await WorkspaceService.list((req as any).authUser.id);
+  sendSuccess(res, API_ROUTES.workspaces.response, workspaces);
+}));
+
+router.post('/',
+  validateBody(API_ROUTES.createWorkspace.request!),
+  asyncHandler(async (req, res) => {
+    const { name } = req.body as CreateWorkspaceRequest;
+    const workspace = await WorkspaceService.create((req as any).authUser.id, name);
+    sendSuccess(res, API_ROUTES.createWorkspace.response, workspace, { status: 201 });
+  })
+);
+
+router.post('/join',
+  validateBody(API_ROUTES.joinWorkspace.request!),
+  asyncHandler(async (req, res) => {
+    const { token } = req.body as JoinWorkspaceRequest;
+    const workspace = await WorkspaceService.join((req as any).authUser.id, token);
+    sendSuccess(res, API_ROUTES.joinWorkspace.response, workspace);
+  })
+);
+
+router.get('/:workspaceId',
+  requireWorkspace('view'),
+  asyncHandler(async (req, res) => {
+    const details = await WorkspaceService.details((req as any).workspaceMember);
+    sendSuccess(res, API_ROUTES.workspace.response, details);
+  })
+);
+
+router.get('/:workspaceId/invites',
+  requireWorkspace('invite'),
+  asyncHandler(async (req, res) => {
+    const invites = await WorkspaceService.invites(req.params.workspaceId);
+    sendSuccess(res, API_ROUTES.invites.response, invites);
+  })
+);
+
+router.post('/:workspaceId/invites',
+  requireWorkspace('invite'),
+  validateBody(API_ROUTES.createInvite.request!),
+  asyncHandler(async (req, res) => {
+    const { role } = req.body as CreateInviteRequest;
+    const invite = await WorkspaceService.createInvite((req as any).workspaceMember, role, publicUrl());
+    sendSuccess(res, API_ROUTES.createInvite.response, invite, { status: 201 });
+  })
+);
+
+router.delete('/:workspaceId/invites/:inviteId',
+  requireWorkspace('invite'),
+  asyncHandler(async (req, res) => {
+    await WorkspaceService.revokeInvite(req.params.workspaceId, req.params.inviteId);
+    sendSuccess(res, API_ROUTES.revokeInvite.response, { revoked: true });
+  })
+);
+
+router.post('/:workspaceId/members/:userId',
+  requireWorkspace('manageMembers'),
+  validateBody(API_ROUTES.updateMember.request!),
+  asyncHandler(async (req, res) => {
+    const { role } = req.body as UpdateMemberRequest;
+    const member = await WorkspaceService.updateMember(req.params.workspaceId, req.params.userId, role);
+    sendSuccess(res, API_ROUTES.updateMember.response, member);
+  })
+);
+
+// Viewers may call this to leave; removing someone else needs an owner
+router.delete('/:workspaceId/members/:userId',
+  requireWorkspace('view'),
+  asyncHandler(async (req, res) => {
+    await WorkspaceService.removeMember((req as any).workspaceMember, req.params.userId);
+    sendSuccess(res, API_ROUTES.removeMember.response, { removed: true });
+  })
+);
+
+router.get('/:workspaceId/collections',
+  requireWorkspace('view'),
+  asyncHandler(async (req, res) => {
+    const collections = await WorkspaceService.collections(req.params.workspaceId);
+    sendSuccess(res, API_ROUTES.collections.response, collections);
+  })
+);
+
+router.post('/:workspaceId/collections',
+  requireWorkspace('edit'),
+  validateBody(API_ROUTES.createCollection.request!),
+  asyncHandler(async (req, res) => {
+    const { name } = req.body as CreateCollectionRequest;
+    const collection = await WorkspaceService.createCollection((req as any).workspaceMember, name);
+    sendSuccess(res, API_ROUTES.createCollection.response, collection, { status: 201 });
+  })
+);
+
+router.delete('/:workspaceId/collections/:collectionId',
+  requireWorkspace('edit'),
+  asyncHandler(async (req, res) => {
+    await WorkspaceService.deleteCollection(req.params.workspaceId, req.params.collectionId);
+    sendSuccess(res, API_ROUTES.deleteCollection.response, { deleted: true });
+  })
+);
+
+router.post('/:workspaceId/collections/:collectionId/items',
+  requireWorkspace('edit'),
+  validateBody(API_ROUTES.addCollectionItem.request!),
+  asyncHandler(async (req, res) => {
+    const item = await WorkspaceService.addItem(
+      (req as any).workspaceMember,
+      req.params.collectionId,
+      req.body as AddCollectionItemRequest
+    );
+    sendSuccess(res, API_ROUTES.addCollectionItem.response, item, { status: 201 });
+  })
+);
+
+router.delete('/:workspaceId/collections/:collectionId/items/:itemId',
+  requireWorkspace('edit'),
+  asyncHandler(async (req, res) => {
+    await WorkspaceService.removeItem(req.params.workspaceId, req.params.collectionId, req.params.itemId);
+    sendSuccess(res, API_ROUTES.removeCollectionItem.response, { removed: true });
+  })
+);
+
+export { router as workspacesRouter };
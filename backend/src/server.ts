@@ -11,6 +11,8 @@ import { paymentRouter } from './routes/payments';
 import { adminRouter } from './routes/admin';
 import { validationRouter } from './routes/validation';
 import { adminLoginRouter } from './routes/adminLogin';
+import { v1Router } from './routes/v1';
+import { joinRouter } from './routes/join';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
 import { 
@@ -69,7 +71,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-extension-id']
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-extension-id', 'x-device-id']
 }));
 
 // Body parsing
@@ -104,6 +106,12 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Page that workspace invite links open
+app.use('/join', joinRouter);
+
+// Versioned API used by the extension and PWA
+app.use('/api/v1', v1Router);
+
 // API routes
 app.use('/api/auth', authRouter);
 app.use('/api/prompts', promptRouter);
@@ -124,6 +132,9 @@ app.use('*', (req, res) => {
 const server = app.listen(PORT, async () => {
   logger.info(`🚀 Prompt Polisher Backend running on port ${PORT}`);
   logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  if (!process.env.PUBLIC_URL) {
+    logger.warn('PUBLIC_URL is not set; workspace invite links cannot be created');
+  }
   
   try {
     await Database.initialize();
@@ -153,4 +164,4 @@ process.on('SIGINT', () => {
   });
 });
 
-export { app };
\ No newline at end of file
+export { app, server };
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { parse, PromptAnalysis, PromptAnalysisSchema } from '../contract/apiContract';
+import { PromptScorer } from '../contract/promptScore';
+
+type ImprovementCategory = keyof PromptAnalysis['improvements'];
+
+const CATEGORIES: ImprovementCategory[] = ['clarity', 'specificity', 'structure', 'examples'];
+
+// Names models commonly use instead of ours
+const CATEGORY_ALIASES: Record<string, ImprovementCategory> = {
+  clarity: 'clarity',
+  clear: 'clarity',
+  specificity: 'specificity',
+  specific: 'specificity',
+  context: 'specificity',
+  detail: 'specificity',
+  details: 'specificity',
+  structure: 'structure',
+  format: 'structure',
+  formatting: 'structure',
+  organization: 'structure',
+  examples: 'examples',
+  example: 'examples'
+};
+
+const MAX_REASONS_PER_CATEGORY = 5;
+const MAX_REASON_LENGTH = 300;
+
+// Turns a provider's JSON answer into a valid PromptAnalysis, repairing what
+// can be repaired (code fences, trailing commas, misnamed keys, 0-100
+// confidence, single strings instead of arrays) and attaching quality scores.
+// Returns null when no usable improved prompt can be recovered. When the
+// improved prompt is given, the answer only has to explain it.
+export class AnalysisParser {
+  static parse(raw: string, originalText: string, improvedText?: string): PromptAnalysis | null {
+    const json = this.extractJSON(raw);
+    if (!json) return null;
+
+    const data = this.tryParse(json) ?? this.tryParse(this.repairJSON(json));
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+
+    const analysis = this.normalize(data as Record<string, unknown>, originalText, improvedText);
+    if (!analysis) return null;
+
+    const result = parse(PromptAnalysisSchema, analysis);
+    return result.ok ? result.value : null;
+  }
+
+  // The outermost {...} block, ignoring prose or markdown fences around it
+  static extractJSON(raw: string): string | null {
+    const text = raw.replace(/```(?:json)?/gi, '');
+    const start = text.indexOf('{');
+    if (start === -1) return null;
+
+    const open: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') inString = true;
+      else if (char === '{') open.push('}');
+      else if (char === '[') open.push(']');
+      else if (char === '}' || char === ']') {
+        open.pop();
+        if (open.length === 0) return text.slice(start, i + 1);
+      }
+    }
+
+    // Truncated output: close whatever is still open and let parsing decide
+    return text.slice(start) + (inString ? '"' : '') + open.reverse().join('');
+  }
+
+  private static repairJSON(json: string): string {
+    return json
+      .replace(/[“”]/g, '"')
+      .replace(/,\s*([}\]])/g, '$1');
+  }
+
+  private static tryParse(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static normalize(data: Record<string, unknown>, originalText: string, improvedText?: string): PromptAnalysis | null {
+    const improvedPrompt = improvedText ?? this.toText(data.improvedPrompt ?? data.improved_prompt ?? data.improved);
+    if (!improvedPrompt) return null;
+
+    const improvements: PromptAnalysis['improvements'] = {
+      clarity: [],
+      specificity: [],
+      structure: [],
+      examples: []
+    };
+
+    const rawImprovements = data.improvements;
+    if (rawImprovements && typeof rawImprovements === 'object' && !Array.isArray(rawImprovements)) {
+      for (const [key, value] of Object.entries(rawImprovements)) {
+        const category = CATEGORY_ALIASES[key.toLowerCase()];
+        if (category) {
+          improvements[category].push(...this.toReasons(value));
+        }
+      }
+    }
+
+    for (const category of CATEGORIES) {
+      improvements[category] = Array.from(new Set(improvements[category])).slice(0, MAX_REASONS_PER_CATEGORY);
+    }
+
+    return {
+      originalText,
+      improvements,
+      suggestedPersona: this.toText(data.suggestedPersona ?? data.persona) || undefined,
+      suggestedFormat: this.toText(data.suggestedFormat ?? data.format) || undefined,
+      improvedPrompt,
+      confidence: this.toConfidence(data.confidence),
+      source: 'llm',
+      // Scored locally rather than trusting the model to grade its own work
+      scores: PromptScorer.compare(originalText, improvedPrompt)
+    };
+  }
+
+  private static toReasons(value: unknown): string[] {
+    const items = Array.isArray(value) ? value : [value];
+    return items
+      .map(item => this.toText(
+        item && typeof item === 'object' ? (item as Record<string, unknown>).reason ?? (item as Record<string, unknown>).text : item
+      ))
+      .filter(Boolean)
+      .map(reason => reason.slice(0, MAX_REASON_LENGTH));
+  }
+
+  private static toText(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+  }
+
+  // Models answer 0-1, 0-100 or "85%"; anything unusable gets a neutral 0.5
+  private static toConfidence(value: unknown): number {
+    const number = typeof value === 'string' ? parseFloat(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) return 0.5;
+
+    const scaled = number > 1 ? number / 100 : number;
+    return Math.min(1, Math.max(0, Math.round(scaled * 100) / 100));
+  }
+}
@@ -0,0 +1,115 @@
+import { Database, LibraryItem } from '../db/database';
+import { LibrarySyncRequest, LibrarySyncResult, SyncRecord } from '../contract/apiContract';
+import { LibrarySync, SYNCED_FIELDS } from '../contract/librarySync';
+import { ApiException } from '../utils/apiResponse';
+
+// Most records returned by one sync; clients page through the rest
+const PAGE_SIZE = 500;
+// Most changes accepted in one sync request
+export const MAX_SYNC_CHANGES = 500;
+// Most prompts an account stores, deleted ones included
+export const MAX_LIBRARY_ITEMS = 5000;
+// Longest a prompt's fields may be as JSON
+export const MAX_FIELDS_LENGTH = 100_000;
+// How far ahead of the server a device's clock may run. Later times are
+// pulled back, or that device would win every merge of the field for good.
+export const MAX_CLOCK_SKEW_MS = 10 * 60 * 1000;
+
+export class LibraryService {
+  // Syncs in progress per account
+  private static running = new Map<string, Promise<unknown>>();
+
+  // Merges the client's changes into the account's library, then returns
+  // everything that changed after the client's cursor
+  static sync(userId: string, request: LibrarySyncRequest): Promise<LibrarySyncResult> {
+    return this.serialize(userId, () => this.merge(userId, request));
+  }
+
+  private static async merge(userId: string, request: LibrarySyncRequest): Promise<LibrarySyncResult> {
+    const changes = request.changes.map(change => this.validate(change, Date.now() + MAX_CLOCK_SKEW_MS));
+
+    const stored = await Database.getLibraryItems(userId, changes.map(change => change.id));
+    const existing = new Map(stored.map(item => [item.id, this.toRecord(item)]));
+
+    const added = new Set(changes.map(change => change.id).filter(id => !existing.has(id)));
+    if (added.size > 0 && await Database.countLibraryItems(userId) + added.size > MAX_LIBRARY_ITEMS) {
+      throw new ApiException('VALIDATION_ERROR', `A library holds at most ${MAX_LIBRARY_ITEMS} prompts`, {
+        limit: MAX_LIBRARY_ITEMS
+      });
+    }
+
+    for (const change of changes) {
+      const current = existing.get(change.id);
+      const merged = LibrarySync.merge(current, change);
+      if (current && LibrarySync.equal(current, merged)) continue;
+
+      await Database.saveLibraryItem({
+        user_id: userId,
+        id: change.id,
+        fields: JSON.stringify(merged.fields),
+        clock: JSON.stringify(merged.clock),
+        deleted_at: merged.deletedAt
+      });
+      existing.set(change.id, merged);
+    }
+
+    const changed = await Database.getLibraryChanges(userId, request.cursor, PAGE_SIZE + 1);
+    const records = changed.slice(0, PAGE_SIZE).map(item => this.toRecord(item));
+
+    return {
+      cursor: records.length > 0 ? records[records.length - 1].revision! : request.cursor,
+      records,
+      hasMore: changed.length > PAGE_SIZE
+    };
+  }
+
+  // Rejects changes that are too large or name fields a prompt does not have,
+  // and times that are not times; pulls times after `latest` back to it
+  private static validate(change: SyncRecord, latest: number): SyncRecord {
+    if (JSON.stringify(change.fields).length > MAX_FIELDS_LENGTH) {
+      throw new ApiException('VALIDATION_ERROR', `A prompt may be at most ${MAX_FIELDS_LENGTH} characters`, { id: change.id });
+    }
+
+    const names = [...Object.keys(change.fields), ...Object.keys(change.clock)];
+    const unknown = names.filter(name => !(SYNCED_FIELDS as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+      throw new ApiException('VALIDATION_ERROR', 'Unknown prompt fields', { id: change.id, fields: [...new Set(unknown)] });
+    }
+
+    const times = [...Object.values(change.clock), ...(change.deletedAt !== undefined ? [change.deletedAt] : [])];
+    if (times.some(time => !Number.isSafeInteger(time) || time < 0)) {
+      throw new ApiException('VALIDATION_ERROR', 'Change times must be whole milliseconds since 1970', { id: change.id });
+    }
+
+    const clock = Object.fromEntries(Object.entries(change.clock).map(([name, time]) => [name, Math.min(time, latest)]));
+    return {
+      id: change.id,
+      fields: change.fields,
+      clock,
+      ...(change.deletedAt !== undefined ? { deletedAt: Math.min(change.deletedAt, latest) } : {})
+    };
+  }
+
+  // Runs one sync per account at a time, so none merges against rows another
+  // is about to overwrite. The backend is a single process over one SQLite
+  // connection, where a transaction would not keep other requests out.
+  private static serialize<T>(userId: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.running.get(userId) ?? Promise.resolve()).then(task);
+    const done = result.catch(() => undefined);
+    this.running.set(userId, done);
+    done.then(() => {
+      if (this.running.get(userId) === done) this.running.delete(userId);
+    });
+    return result;
+  }
+
+  private static toRecord(item: LibraryItem): SyncRecord {
+    return {
+      id: item.id,
+      fields: JSON.parse(item.fields),
+      clock: JSON.parse(item.clock),
+      ...(item.deleted_at ? { deletedAt: item.deleted_at } : {}),
+      revision: item.revision
+    };
+  }
+}
@@ -1,45 +1,44 @@
+import fs from 'fs';
 import { createLogger } from '../utils/logger';
-import { safeFetch } from '../middleware/urlValidation';
+import { PromptAnalysis } from '../contract/apiContract';
+import { BUILTIN_RULE_PACKS, parseRulePack, RuleEngine, RulePack } from '../contract/rulePack';
+import { AnalysisParser } from './analysisParser';
+import { OFFLINE_PROVIDER, ProviderRegistry } from './providers/registry';
+import { BreakerSnapshot } from './providers/circuitBreaker';
+import { CompletionChunk, CompletionRequest, ProviderAdapter, TokenUsage } from './providers/types';
 
 interface LLMResponse {
   improvedPrompt: string;
+  // Provider that actually served the request, OFFLINE_PROVIDER for the rule-based fallback
+  provider: string;
   usage?: {
     tokens: number;
     cost: number;
   };
 }
 
-interface ProviderConfig {
-  apiKey: string;
-  model?: string;
-  baseUrl?: string;
+interface LLMAnalysisResponse {
+  // null when no provider produced a usable analysis; the client falls back to its rules
+  analysis: PromptAnalysis | null;
+  provider: string;
+  usage: {
+    tokens: number;
+    cost: number;
+  };
 }
 
+export type LLMStreamChunk =
+  | { type: 'token'; text: string }
+  | { type: 'done'; provider: string; usage: { tokens: number; cost: number } };
+
 export class LLMProvider {
   private static readonly logger = createLogger();
-  
-  private static readonly OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
-  private static readonly ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
-  
-  private static readonly configs: Record<string, ProviderConfig> = {
-    openai: {
-      apiKey: process.env.OPENAI_API_KEY || '',
-      model: process.env.OPENAI_MODEL || 'gpt-3.5-turbo'
-    },
-    anthropic: {
-      apiKey: process.env.ANTHROPIC_API_KEY || '',
-      model: process.env.ANTHROPIC_MODEL || 'claude-3-haiku-20240307'
-    },
-    local: {
-      apiKey: process.env.LOCAL_API_KEY || '',
-      baseUrl: process.env.LOCAL_API_URL || 'http://localhost:1234',
-      model: process.env.LOCAL_MODEL || 'local'
-    }
-  };
+  private static rulePacks: RulePack[] | null = null;
 
+  // Tries the requested provider, then the fallback chain, then the offline rules
   static async improvePrompt(
     originalPrompt: string,
-    provider: 'openai' | 'anthropic' | 'local' = 'openai',
+    provider?: string,
     language?: string
   ): Promise<LLMResponse> {
     
@@ -52,194 +51,241 @@ export class LLMProvider {
       throw new Error('Prompt text too long (max 10,000 characters)');
     }
 
-    try {
-      switch (provider) {
-        case 'openai':
-          return await this.improveWithOpenAI(originalPrompt, language);
-        case 'anthropic':
-          return await this.improveWithAnthropic(originalPrompt, language);
-        case 'local':
-          return await this.improveWithLocal(originalPrompt, language);
-        default:
-          throw new Error(`Unsupported provider: ${provider}`);
+    for (const adapter of this.candidates(provider)) {
+      const breaker = ProviderRegistry.getBreaker(adapter.id);
+      try {
+        const result = await adapter.complete({
+          ...this.buildRequest(originalPrompt, language),
+          signal: AbortSignal.timeout(30000) // 30 second timeout
+        });
+
+        const improvedPrompt = result.text.trim();
+        if (!improvedPrompt) {
+          throw new Error(`Empty response from ${adapter.id}`);
+        }
+
+        breaker.recordSuccess();
+        return {
+          improvedPrompt,
+          provider: adapter.id,
+          usage: this.toUsage(adapter, result.usage)
+        };
+      } catch (error: any) {
+        breaker.recordFailure(error.message);
+        this.logger.error(`LLM provider error (${adapter.id}):`, {
+          error: error.message,
+          provider: adapter.id,
+          requestedProvider: provider,
+          breaker: breaker.getState(),
+          promptLength: originalPrompt.length
+        });
       }
-    } catch (error: any) {
-      this.logger.error(`LLM provider error (${provider}):`, {
-        error: error.message,
-        provider,
-        promptLength: originalPrompt.length
-      });
-      
-      // Fallback to offline improvement
-      return this.improveWithOfflineRules(originalPrompt, language);
     }
+
+    // Fallback to offline improvement
+    return this.improveWithOfflineRules(originalPrompt, language);
   }
 
-  private static async improveWithOpenAI(prompt: string, language?: string): Promise<LLMResponse> {
-    const config = this.configs.openai;
-    
-    if (!config.apiKey) {
-      throw new Error('OpenAI API key not configured');
+  // Asks the provider chain for a structured PromptAnalysis in JSON mode.
+  // Unparseable answers move on to the next provider without tripping its breaker.
+  // Given an improved prompt, the analysis explains it instead of writing one.
+  static async analyzePrompt(
+    originalPrompt: string,
+    provider?: string,
+    language?: string,
+    improvedPrompt?: string
+  ): Promise<LLMAnalysisResponse> {
+
+    if (!originalPrompt || originalPrompt.trim().length === 0) {
+      throw new Error('Prompt text cannot be empty');
     }
 
-    const systemPrompt = this.buildSystemPrompt(language);
-    
-    const requestBody = {
-      model: config.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt }
-      ],
-      max_tokens: 1000,
-      temperature: 0.3
-    };
+    if (originalPrompt.length > 10000) {
+      throw new Error('Prompt text too long (max 10,000 characters)');
+    }
 
-    const response = await safeFetch(this.OPENAI_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.apiKey}`
-      },
-      body: JSON.stringify(requestBody)
-    });
+    const usage = { tokens: 0, cost: 0 };
+    let servedBy = OFFLINE_PROVIDER;
+
+    for (const adapter of this.candidates(provider)) {
+      const breaker = ProviderRegistry.getBreaker(adapter.id);
+      try {
+        const result = await adapter.complete({
+          system: improvedPrompt === undefined
+            ? this.buildAnalysisSystemPrompt(language)
+            : this.buildExplanationSystemPrompt(language),
+          prompt: improvedPrompt === undefined
+            ? originalPrompt
+            : `Original prompt:\n${originalPrompt}\n\nImproved prompt:\n${improvedPrompt}`,
+          maxTokens: 1500,
+          temperature: 0.2,
+          json: true,
+          signal: AbortSignal.timeout(30000)
+        });
+        breaker.recordSuccess();
+
+        const attempt = this.toUsage(adapter, result.usage);
+        usage.tokens += attempt.tokens;
+        usage.cost += attempt.cost;
+        servedBy = adapter.id;
+
+        const analysis = AnalysisParser.parse(result.text, originalPrompt, improvedPrompt);
+        if (analysis) {
+          return { analysis, provider: adapter.id, usage };
+        }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+        this.logger.warn(`Unusable analysis JSON from ${adapter.id}`, {
+          provider: adapter.id,
+          responseLength: result.text.length
+        });
+      } catch (error: any) {
+        breaker.recordFailure(error.message);
+        this.logger.error(`LLM analysis error (${adapter.id}):`, {
+          error: error.message,
+          provider: adapter.id,
+          requestedProvider: provider,
+          breaker: breaker.getState(),
+          promptLength: originalPrompt.length
+        });
+      }
     }
 
-    const data = await response.json();
-    
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error('No response from OpenAI');
-    }
+    return { analysis: null, provider: servedBy, usage };
+  }
 
-    const improvedPrompt = data.choices[0].message.content.trim();
-    const tokensUsed = data.usage?.total_tokens || 0;
-    const cost = this.calculateOpenAICost(tokensUsed, config.model || 'gpt-3.5-turbo');
+  // Streams the improvement token by token, normalised across providers.
+  // Fails over to the next provider only while nothing has been sent yet.
+  static async *streamImprovement(
+    originalPrompt: string,
+    provider?: string,
+    language?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<LLMStreamChunk> {
 
-    return {
-      improvedPrompt,
-      usage: { tokens: tokensUsed, cost }
-    };
-  }
+    if (!originalPrompt || originalPrompt.trim().length === 0) {
+      throw new Error('Prompt text cannot be empty');
+    }
 
-  private static async improveWithAnthropic(prompt: string, language?: string): Promise<LLMResponse> {
-    const config = this.configs.anthropic;
-    
-    if (!config.apiKey) {
-      throw new Error('Anthropic API key not configured');
+    if (originalPrompt.length > 10000) {
+      throw new Error('Prompt text too long (max 10,000 characters)');
     }
 
-    const systemPrompt = this.buildSystemPrompt(language);
-    
-    const requestBody = {
-      model: config.model,
-      max_tokens: 1000,
-      system: systemPrompt,
-      messages: [
-        { role: 'user', content: prompt }
-      ]
-    };
+    for (const adapter of this.candidates(provider)) {
+      const breaker = ProviderRegistry.getBreaker(adapter.id);
+      let emitted = false;
+      let settled = false;
 
-    const response = await safeFetch(this.ANTHROPIC_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': config.apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify(requestBody)
-    });
+      try {
+        const stream = this.toStreamChunks(adapter, adapter.stream({ ...this.buildRequest(originalPrompt, language), signal }));
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
+        for await (const chunk of this.trimLeading(stream)) {
+          if (chunk.type === 'done') {
+            breaker.recordSuccess();
+            settled = true;
+          }
+          emitted = true;
+          yield chunk;
+        }
+        return;
+      } catch (error: any) {
+        // A cancelled request says nothing about the provider's health
+        if (signal?.aborted) throw error;
+
+        breaker.recordFailure(error.message);
+        settled = true;
+        this.logger.error(`LLM streaming error (${adapter.id}):`, {
+          error: error.message,
+          provider: adapter.id,
+          requestedProvider: provider,
+          breaker: breaker.getState(),
+          promptLength: originalPrompt.length
+        });
+
+        // Once text has reached the client there is nothing sensible to fall back to
+        if (emitted) throw error;
+      } finally {
+        // Also runs when the consumer stops iterating early
+        if (!settled) breaker.release();
+      }
     }
 
-    const data = await response.json();
-    
-    if (!data.content || data.content.length === 0) {
-      throw new Error('No response from Anthropic');
-    }
+    const fallback = this.improveWithOfflineRules(originalPrompt, language);
+    yield { type: 'token', text: fallback.improvedPrompt };
+    yield { type: 'done', provider: fallback.provider, usage: fallback.usage || { tokens: 0, cost: 0 } };
+  }
 
-    const improvedPrompt = data.content[0].text.trim();
-    const inputTokens = data.usage?.input_tokens || 0;
-    const outputTokens = data.usage?.output_tokens || 0;
-    const cost = this.calculateAnthropicCost(inputTokens, outputTokens);
+  // Configured providers in failover order whose circuit currently admits a call
+  private static *candidates(provider?: string): Generator<ProviderAdapter> {
+    for (const id of ProviderRegistry.getFallbackChain(provider)) {
+      const adapter = ProviderRegistry.get(id);
+      if (!adapter || !adapter.isConfigured()) continue;
 
-    return {
-      improvedPrompt,
-      usage: { tokens: inputTokens + outputTokens, cost }
-    };
-  }
+      if (!ProviderRegistry.getBreaker(id).tryAcquire()) {
+        this.logger.debug(`Skipping LLM provider ${id}: circuit open`);
+        continue;
+      }
 
-  private static async improveWithLocal(prompt: string, language?: string): Promise<LLMResponse> {
-    const config = this.configs.local;
-    
-    if (!config.baseUrl) {
-      throw new Error('Local API URL not configured');
+      yield adapter;
     }
+  }
 
-    const systemPrompt = this.buildSystemPrompt(language);
-    
-    const requestBody = {
-      model: config.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt }
-      ],
-      max_tokens: 1000,
+  private static buildRequest(prompt: string, language?: string): CompletionRequest {
+    return {
+      system: this.buildSystemPrompt(language),
+      prompt,
+      maxTokens: 1000,
       temperature: 0.3
     };
+  }
 
-    const response = await safeFetch(`${config.baseUrl}/v1/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` })
-      },
-      body: JSON.stringify(requestBody),
-      signal: AbortSignal.timeout(30000) // 30 second timeout
-    });
+  private static toUsage(adapter: ProviderAdapter, usage: TokenUsage): { tokens: number; cost: number } {
+    return {
+      tokens: usage.inputTokens + usage.outputTokens,
+      cost: ProviderRegistry.calculateCost(adapter, usage)
+    };
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Local API error: ${response.status} - ${errorText}`);
+  // Adapter chunks to stream chunks; usage becomes the final 'done' chunk
+  private static async *toStreamChunks(
+    adapter: ProviderAdapter,
+    stream: AsyncGenerator<CompletionChunk>
+  ): AsyncGenerator<LLMStreamChunk> {
+    let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let received = false;
+    for await (const chunk of stream) {
+      if (chunk.type === 'token') {
+        received = received || chunk.text.trim().length > 0;
+        yield chunk;
+      } else {
+        usage = chunk.usage;
+      }
     }
 
-    const data = await response.json();
-    
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error('No response from local API');
+    if (!received) {
+      throw new Error(`Empty response from ${adapter.id}`);
     }
 
-    const improvedPrompt = data.choices[0].message.content.trim();
+    yield { type: 'done', provider: adapter.id, usage: this.toUsage(adapter, usage) };
+  }
 
-    return {
-      improvedPrompt,
-      usage: { tokens: 0, cost: 0 } // Local is free
-    };
+  // Drops leading whitespace, matching the trim() on full completions
+  private static async *trimLeading(stream: AsyncGenerator<LLMStreamChunk>): AsyncGenerator<LLMStreamChunk> {
+    let started = false;
+    for await (const chunk of stream) {
+      if (chunk.type === 'token' && !started) {
+        const text = chunk.text.replace(/^\s+/, '');
+        if (!text) continue;
+        started = true;
+        yield { type: 'token', text };
+      } else {
+        yield chunk;
+      }
+    }
   }
 
   private static improveWithOfflineRules(prompt: string, language?: string): LLMResponse {
-    // Fallback offline improvement using rule-based approach
-    let improved = prompt;
-    
-    // Basic improvements
-    if (improved.match(/^(help|write|create|make|do)\s/i)) {
-      improved = improved.replace(/^(help|write|create|make|do)\s/i, 'I need you to ');
-    }
-    
-    // Add persona for code-related prompts
-    if (improved.toLowerCase().includes('code') || improved.toLowerCase().includes('function')) {
-      improved = `Act as an expert software engineer.\n\n${improved}`;
-    }
-    
-    // Add structure for short prompts
-    if (prompt.length < 50) {
-      improved += '\n\nPlease provide a detailed response with examples and explanations.';
-    }
+    // Fallback offline improvement using the same rule packs as the clients
+    let improved = RuleEngine.improve(prompt, this.getRulePacks(), language);
     
     // Add language instruction if detected
     if (language && language !== 'en') {
@@ -259,10 +305,36 @@ export class LLMProvider {
 
     return {
       improvedPrompt: improved,
+      provider: OFFLINE_PROVIDER,
       usage: { tokens: 0, cost: 0 }
     };
   }
 
+  // The built-in packs plus any packs listed in OFFLINE_RULE_PACKS (comma-separated
+  // JSON files). Invalid packs are logged and skipped.
+  static getRulePacks(env: NodeJS.ProcessEnv = process.env): RulePack[] {
+    if (this.rulePacks) return this.rulePacks;
+
+    const packs = [...BUILTIN_RULE_PACKS];
+    const files = (env.OFFLINE_RULE_PACKS || '').split(',').map(file => file.trim()).filter(Boolean);
+
+    for (const file of files) {
+      try {
+        const result = parseRulePack(fs.readFileSync(file, 'utf8'));
+        if (result.ok) {
+          packs.push(result.value);
+        } else {
+          this.logger.error('Ignoring invalid rule pack', { file, errors: result.errors.slice(0, 5) });
+        }
+      } catch (error: any) {
+        this.logger.error('Failed to read rule pack', { file, error: error.message });
+      }
+    }
+
+    this.rulePacks = packs;
+    return packs;
+  }
+
   private static buildSystemPrompt(language?: string): string {
     const langInstruction = language && language !== 'en' 
       ? `Please respond in the user's language (${language}).` 
@@ -277,44 +349,84 @@ Guidelines:
 4. Add concrete examples if needed
 5. Maintain the user's intent and tone
 6. Keep improvements concise and practical
+7. Leave pasted material exactly as it is: code blocks, inline code, quoted text, URLs, logs and data
 ${langInstruction}
 
 Respond with only the improved prompt, no explanation or commentary.`;
   }
 
-  private static calculateOpenAICost(tokens: number, model: string): number {
-    const pricing: Record<string, number> = {
-      'gpt-3.5-turbo': 0.002 / 1000,     // $0.002 per 1K tokens
-      'gpt-4': 0.03 / 1000,              // $0.03 per 1K tokens  
-      'gpt-4-turbo': 0.01 / 1000,        // $0.01 per 1K tokens
-      'gpt-4o-mini': 0.00015 / 1000      // $0.00015 per 1K tokens
-    };
-    
-    return tokens * (pricing[model] || pricing['gpt-3.5-turbo']);
+  private static buildAnalysisSystemPrompt(language?: string): string {
+    const langInstruction = language && language !== 'en'
+      ? `Write improvedPrompt and every reason in the user's language (${language}).`
+      : '';
+
+    return `You are an expert prompt engineer. Analyse the user's prompt and improve it.
+
+Respond with a single JSON object and nothing else, using exactly these keys:
+{
+  "improvements": {
+    "clarity": ["why the prompt is unclear and what was changed"],
+    "specificity": ["missing context, constraints or details that were added"],
+    "structure": ["how the request was organised"],
+    "examples": ["examples that were requested or added"]
+  },
+  "suggestedPersona": "an expert role for the assistant, or null",
+  "suggestedFormat": "the output format to ask for, or null",
+  "improvedPrompt": "the full improved prompt",
+  "confidence": 0.0 to 1.0, how much the improved prompt helps
+}
+
+Each list holds short, concrete reasons (at most 3) and may be empty.
+Keep the user's intent and tone.
+Copy pasted material into improvedPrompt unchanged: code blocks, inline code, quoted text, URLs, logs and data.
+${langInstruction}`;
   }
 
-  private static calculateAnthropicCost(inputTokens: number, outputTokens: number): number {
-    // Claude 3 Haiku pricing (as of 2024)
-    const inputCost = inputTokens * (0.00025 / 1000);   // $0.25 per 1M input tokens
-    const outputCost = outputTokens * (0.00125 / 1000); // $1.25 per 1M output tokens
-    
-    return inputCost + outputCost;
+  private static buildExplanationSystemPrompt(language?: string): string {
+    const langInstruction = language && language !== 'en'
+      ? `Write every reason in the user's language (${language}).`
+      : '';
+
+    return `You are an expert prompt engineer. The user sends an original prompt and an improved version of it. Explain what the improved version changes and why it helps.
+
+Respond with a single JSON object and nothing else, using exactly these keys:
+{
+  "improvements": {
+    "clarity": ["why the original is unclear and what was changed"],
+    "specificity": ["missing context, constraints or details that were added"],
+    "structure": ["how the request was organised"],
+    "examples": ["examples that were requested or added"]
+  },
+  "suggestedPersona": "the expert role the improved prompt gives the assistant, or null",
+  "suggestedFormat": "the output format the improved prompt asks for, or null",
+  "confidence": 0.0 to 1.0, how much the improved prompt helps
+}
+
+Each list holds short, concrete reasons (at most 3) and may be empty.
+${langInstruction}`;
   }
 
   static async testConnection(): Promise<boolean> {
     try {
-      // Try each provider in order of preference
-      const providers: Array<'openai' | 'anthropic' | 'local'> = ['openai', 'anthropic', 'local'];
+      // Try each configured provider, default first
+      const defaultId = ProviderRegistry.getDefaultId();
+      const providers = ProviderRegistry.list()
+        .filter(adapter => adapter.isConfigured())
+        .sort((a, b) => Number(b.id === defaultId) - Number(a.id === defaultId));
       
-      for (const provider of providers) {
+      for (const adapter of providers) {
         try {
-          const result = await this.improvePrompt('Test', provider);
-          if (result.improvedPrompt) {
-            this.logger.info(`LLM provider test successful: ${provider}`);
+          const result = await adapter.complete({
+            ...this.buildRequest('Test'),
+            maxTokens: 10,
+            signal: AbortSignal.timeout(30000)
+          });
+          if (result.text) {
+            this.logger.info(`LLM provider test successful: ${adapter.id}`);
             return true;
           }
         } catch (error) {
-          this.logger.warn(`LLM provider test failed: ${provider}`, { error });
+          this.logger.warn(`LLM provider test failed: ${adapter.id}`, { error });
           continue;
         }
       }
@@ -327,26 +439,34 @@ Respond with only the improved prompt, no explanation or commentary.`;
   }
 
   static getProviderStatus(): Record<string, boolean> {
-    return {
-      openai: !!this.configs.openai.apiKey,
-      anthropic: !!this.configs.anthropic.apiKey,
-      local: !!this.configs.local.baseUrl
-    };
+    const status: Record<string, boolean> = {};
+    for (const adapter of ProviderRegistry.list()) {
+      status[adapter.id] = adapter.isConfigured();
+    }
+    return status;
   }
 
-  static async getEstimatedCost(prompt: string, provider: 'openai' | 'anthropic' | 'local'): Promise<number> {
-    // Rough estimation based on prompt length
-    const estimatedTokens = Math.ceil(prompt.length / 4) * 1.5; // Input + output estimation
-    
-    switch (provider) {
-      case 'openai':
-        return this.calculateOpenAICost(estimatedTokens, this.configs.openai.model || 'gpt-3.5-turbo');
-      case 'anthropic':
-        return this.calculateAnthropicCost(estimatedTokens * 0.6, estimatedTokens * 0.4);
-      case 'local':
-        return 0;
-      default:
-        return 0;
+  static getBreakerStatus(): Record<string, BreakerSnapshot> {
+    const status: Record<string, BreakerSnapshot> = {};
+    for (const adapter of ProviderRegistry.list()) {
+      status[adapter.id] = ProviderRegistry.getBreaker(adapter.id).snapshot();
     }
+    return status;
+  }
+
+  static getFallbackChain(): string[] {
+    return [...ProviderRegistry.getFallbackChain(), OFFLINE_PROVIDER];
+  }
+
+  static async getEstimatedCost(prompt: string, provider: string): Promise<number> {
+    const adapter = ProviderRegistry.get(provider);
+    if (!adapter) return 0;
+
+    // Rough estimation based on prompt length: the reply is about as long as the prompt
+    const estimatedTokens = Math.ceil(prompt.length / 4);
+    return ProviderRegistry.calculateCost(adapter, {
+      inputTokens: estimatedTokens + 200, // system prompt
+      outputTokens: estimatedTokens
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,148 @@
+import Stripe from 'stripe';
+import { Database, User } from '../db/database';
+import { PricingPlan } from '../contract/apiContract';
+import { createLogger } from '../utils/logger';
+
+if (!process.env.STRIPE_SECRET_KEY) {
+  throw new Error('STRIPE_SECRET_KEY environment variable is required');
+}
+
+export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: '2023-10-16',
+});
+
+// Pricing configuration
+export const PRICING = {
+  queries_100: {
+    amount: 500, // $5.00
+    queries: 100,
+    name: '100 Queries Pack',
+    description: 'Perfect for regular users'
+  },
+  queries_500: {
+    amount: 2000, // $20.00
+    queries: 500,
+    name: '500 Queries Pack',
+    description: 'Best value for power users'
+  },
+  monthly_premium: {
+    amount: 999, // $9.99/month
+    queries: -1, // Unlimited
+    name: 'Monthly Premium',
+    description: 'Unlimited queries per month'
+  },
+  yearly_premium: {
+    amount: 9999, // $99.99/year
+    queries: -1, // Unlimited
+    name: 'Yearly Premium',
+    description: 'Unlimited queries - save 17%'
+  }
+};
+
+export type PlanId = keyof typeof PRICING;
+
+// Plan ids used by older extension builds
+const PLAN_ALIASES: Record<string, PlanId> = {
+  'premium-monthly': 'monthly_premium',
+  'premium-yearly': 'yearly_premium'
+};
+
+export class PaymentService {
+  private static readonly logger = createLogger();
+
+  static resolvePlanId(planId: string): PlanId | undefined {
+    if (planId in PRICING) return planId as PlanId;
+    return PLAN_ALIASES[planId];
+  }
+
+  static getPricing(): PricingPlan[] {
+    return Object.entries(PRICING).map(([key, value]) => ({
+      id: key,
+      ...value,
+      amount: value.amount / 100 // Convert to dollars for display
+    }));
+  }
+
+  static async createPaymentIntent(
+    user: User,
+    plan: PlanId,
+    email: string | undefined,
+    ipAddress: string
+  ): Promise<Stripe.PaymentIntent> {
+    if (email && !user.email) {
+      await Database.updateUser(user.id, { email });
+    }
+
+    const planDetails = PRICING[plan];
+
+    // Create Stripe customer if not exists
+    let stripeCustomer;
+    if (user.stripe_customer_id) {
+      stripeCustomer = await stripe.customers.retrieve(user.stripe_customer_id);
+    } else {
+      stripeCustomer = await stripe.customers.create({
+        email: email || user.email || undefined,
+        metadata: {
+          userId: user.id,
+          ipAddress
+        }
+      });
+
+      await Database.updateUser(user.id, {
+        stripe_customer_id: stripeCustomer.id
+      });
+    }
+
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: planDetails.amount,
+      currency: 'usd',
+      customer: stripeCustomer.id,
+      metadata: {
+        userId: user.id,
+        plan,
+        queriesPurchased: planDetails.queries.toString(),
+        ipAddress
+      },
+      description: `${planDetails.name} - ${planDetails.description}`,
+      automatic_payment_methods: {
+        enabled: true,
+      },
+    });
+
+    // Store payment record
+    await Database.createPayment({
+      user_id: user.id,
+      stripe_payment_id: paymentIntent.id,
+      amount: planDetails.amount / 100, // Convert to dollars
+      currency: 'usd',
+      status: 'pending',
+      queries_purchased: planDetails.queries
+    });
+
+    this.logger.info(`Payment intent created`, {
+      userId: user.id,
+      plan,
+      amount: planDetails.amount,
+      paymentIntentId: paymentIntent.id
+    });
+
+    return paymentIntent;
+  }
+
+  static async confirmPaymentIntent(
+    user: User,
+    paymentIntentId: string,
+    paymentMethodId: string
+  ): Promise<Stripe.PaymentIntent | null> {
+    const existing = await stripe.paymentIntents.retrieve(paymentIntentId);
+
+    // Only the user who created the intent may confirm it
+    if (existing.metadata.userId !== user.id) {
+      return null;
+    }
+
+    return stripe.paymentIntents.confirm(paymentIntentId, {
+      payment_method: paymentMethodId
+    });
+  }
+}
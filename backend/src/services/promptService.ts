@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Database, User } from '../db/database';
+import { LLMProvider, LLMStreamChunk } from './llmProvider';
+import { createLogger } from '../utils/logger';
+import { PromptAnalysis } from '../contract/apiContract';
+
+export interface ImproveOutcome {
+  success: boolean;
+  improvedPrompt: string;
+  provider: string;
+  cost: number;
+  tokensUsed: number;
+  errorMessage?: string;
+}
+
+export interface AnalyzeOutcome {
+  analysis: PromptAnalysis | null;
+  provider: string;
+  cost: number;
+  tokensUsed: number;
+}
+
+// Prompt improvement shared by the legacy /api/prompts routes and /api/v1
+export class PromptService {
+  private static readonly logger = createLogger();
+
+  // Signed-in accounts are tracked by account, everyone else by IP and
+  // device. A new anonymous row remembers the device that created it.
+  static async resolveUser(authUserId: string | undefined, ipAddress: string, deviceId?: string): Promise<User> {
+    const user = authUserId
+      ? await Database.getUserById(authUserId)
+      : await Database.getAnonymousUser(ipAddress, deviceId);
+    if (user) return user;
+
+    return Database.createUser({
+      id: uuidv4(),
+      ip_address: ipAddress,
+      device_id: authUserId ? undefined : deviceId,
+      queries_today: 0,
+      total_queries: 0,
+      last_query_date: new Date().toISOString().split('T')[0]
+    });
+  }
+
+  // Counts the query, calls the LLM and records usage. Quota must be checked by the caller.
+  static async improve(
+    user: User,
+    text: string,
+    provider: string,
+    language: string | undefined,
+    ipAddress: string
+  ): Promise<ImproveOutcome> {
+    await Database.incrementUserQueries(user.id);
+
+    let improvedPrompt: string;
+    let servedBy = provider;
+    let cost = 0;
+    let tokensUsed = 0;
+    let success = true;
+    let errorMessage: string | undefined;
+
+    try {
+      const result = await LLMProvider.improvePrompt(text, provider, language);
+      improvedPrompt = result.improvedPrompt;
+      servedBy = result.provider;
+      cost = result.usage?.cost || 0;
+      tokensUsed = result.usage?.tokens || 0;
+
+      this.logger.info(`Prompt improved successfully for user ${user.id}`, {
+        userId: user.id,
+        ipAddress,
+        provider: servedBy,
+        requestedProvider: provider,
+        cost,
+        tokensUsed
+      });
+
+    } catch (error: any) {
+      success = false;
+      errorMessage = error.message;
+      improvedPrompt = text; // Return original text on error
+
+      this.logger.error(`Prompt improvement failed for user ${user.id}`, {
+        userId: user.id,
+        ipAddress,
+        provider,
+        error: error.message
+      });
+    }
+
+    await Database.createUsage({
+      user_id: user.id,
+      query_text: text,
+      response_text: improvedPrompt,
+      provider: servedBy,
+      cost,
+      tokens_used: tokensUsed,
+      ip_address: ipAddress,
+      success,
+      error_message: errorMessage
+    });
+
+    return { success, improvedPrompt, provider: servedBy, cost, tokensUsed, errorMessage };
+  }
+
+  // Structured analysis. Explaining an improvement the user already got is
+  // recorded as usage only; one that writes its own improved prompt counts
+  // against the daily quota like improve(). Quota must be checked by the caller.
+  static async analyze(
+    user: User,
+    text: string,
+    provider: string,
+    language: string | undefined,
+    ipAddress: string,
+    improvedPrompt?: string
+  ): Promise<AnalyzeOutcome> {
+    if (improvedPrompt === undefined) {
+      await Database.incrementUserQueries(user.id);
+    }
+
+    const result = await LLMProvider.analyzePrompt(text, provider, language, improvedPrompt);
+    const { analysis } = result;
+
+    if (analysis) {
+      this.logger.info(`Prompt analysed for user ${user.id}`, {
+        userId: user.id,
+        ipAddress,
+        provider: result.provider,
+        requestedProvider: provider,
+        cost: result.usage.cost
+      });
+    } else {
+      this.logger.warn(`Structured analysis unavailable for user ${user.id}`, {
+        userId: user.id,
+        ipAddress,
+        requestedProvider: provider
+      });
+    }
+
+    await Database.createUsage({
+      user_id: user.id,
+      query_text: text,
+      response_text: analysis ? JSON.stringify(analysis) : '',
+      provider: result.provider,
+      cost: result.usage.cost,
+      tokens_used: result.usage.tokens,
+      ip_address: ipAddress,
+      success: !!analysis,
+      error_message: analysis ? undefined : 'No valid structured analysis'
+    });
+
+    return {
+      analysis,
+      provider: result.provider,
+      cost: result.usage.cost,
+      tokensUsed: result.usage.tokens
+    };
+  }
+
+  // Streaming counterpart of improve(); usage is recorded once the stream ends or is cancelled
+  static async *streamImprove(
+    user: User,
+    text: string,
+    provider: string,
+    language: string | undefined,
+    ipAddress: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<LLMStreamChunk> {
+    await Database.incrementUserQueries(user.id);
+
+    let improvedPrompt = '';
+    let servedBy = provider;
+    let cost = 0;
+    let tokensUsed = 0;
+    let success = false;
+    let errorMessage: string | undefined;
+
+    try {
+      for await (const chunk of LLMProvider.streamImprovement(text, provider, language, signal)) {
+        if (chunk.type === 'token') {
+          improvedPrompt += chunk.text;
+        } else {
+          servedBy = chunk.provider;
+          cost = chunk.usage.cost;
+          tokensUsed = chunk.usage.tokens;
+        }
+        yield chunk;
+      }
+      success = true;
+
+    } catch (error: any) {
+      errorMessage = signal?.aborted ? 'Cancelled by client' : error.message;
+      this.logger.error(`Prompt streaming failed for user ${user.id}`, {
+        userId: user.id,
+        ipAddress,
+        provider,
+        error: errorMessage
+      });
+      throw error;
+
+    } finally {
+      // Also runs when the consumer stops iterating early
+      if (!success && !errorMessage) {
+        errorMessage = 'Cancelled by client';
+      }
+
+      await Database.createUsage({
+        user_id: user.id,
+        query_text: text,
+        response_text: improvedPrompt.trim() || text,
+        provider: servedBy,
+        cost,
+        tokens_used: tokensUsed,
+        ip_address: ipAddress,
+        success,
+        error_message: errorMessage
+      });
+    }
+  }
+}
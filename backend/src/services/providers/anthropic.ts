@@ -0,0 +1,85 @@
+import { readSSE } from '../../contract/sse';
+import { BaseAdapter } from './baseAdapter';
+import { CompletionChunk, CompletionRequest, CompletionResult, PricingTable, ProviderSettings } from './types';
+
+// Anthropic Messages API
+export class AnthropicAdapter extends BaseAdapter {
+  private static readonly API_VERSION = '2023-06-01';
+
+  constructor(settings: ProviderSettings, defaults: { model: string; pricing?: PricingTable }) {
+    super(settings, defaults);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(this.endpoint(), this.buildBody(request, false), this.authHeaders(), request.signal);
+    const data = await response.json();
+
+    if (!data.content || data.content.length === 0) {
+      throw new Error(`No response from ${this.id}`);
+    }
+
+    return {
+      text: data.content[0].text,
+      usage: {
+        inputTokens: data.usage?.input_tokens || 0,
+        outputTokens: data.usage?.output_tokens || 0
+      }
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<CompletionChunk> {
+    const response = await this.post(this.endpoint(), this.buildBody(request, true), this.authHeaders(), request.signal);
+    if (!response.body) {
+      throw new Error(`No response body from ${this.id}`);
+    }
+
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const message of readSSE(response.body)) {
+      const data = JSON.parse(message.data);
+
+      switch (data.type) {
+        case 'message_start':
+          inputTokens = data.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_delta':
+          if (data.delta?.text) {
+            yield { type: 'token', text: data.delta.text };
+          }
+          break;
+        case 'message_delta':
+          outputTokens = data.usage?.output_tokens || outputTokens;
+          break;
+        case 'error':
+          throw new Error(`${this.id} API error: ${data.error?.message || 'stream error'}`);
+      }
+    }
+
+    yield { type: 'usage', usage: { inputTokens, outputTokens } };
+  }
+
+  protected endpoint(): string {
+    return `${(this.settings.baseUrl || 'https://api.anthropic.com').replace(/\/$/, '')}/v1/messages`;
+  }
+
+  private authHeaders(): Record<string, string> {
+    return {
+      'x-api-key': this.requireApiKey(),
+      'anthropic-version': this.settings.apiVersion || AnthropicAdapter.API_VERSION
+    };
+  }
+
+  private buildBody(request: CompletionRequest, streaming: boolean): Record<string, unknown> {
+    return {
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.system,
+      messages: [
+        { role: 'user', content: request.prompt }
+      ],
+      ...(streaming && { stream: true })
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { safeFetch } from '../../middleware/urlValidation';
+import {
+  CompletionChunk,
+  CompletionRequest,
+  CompletionResult,
+  PricingTable,
+  ProviderAdapter,
+  ProviderCapabilities,
+  ProviderSettings
+} from './types';
+
+const DEFAULT_CAPABILITIES: ProviderCapabilities = {
+  streaming: true,
+  systemPrompt: true,
+  jsonMode: false
+};
+
+export abstract class BaseAdapter implements ProviderAdapter {
+  readonly id: string;
+  readonly type: string;
+  readonly model: string;
+  readonly capabilities: ProviderCapabilities;
+  readonly pricing: PricingTable;
+
+  constructor(
+    protected readonly settings: ProviderSettings,
+    defaults: { model: string; capabilities?: Partial<ProviderCapabilities>; pricing?: PricingTable }
+  ) {
+    this.id = settings.id;
+    this.type = settings.type;
+    this.model = settings.model || defaults.model;
+    this.capabilities = { ...DEFAULT_CAPABILITIES, ...defaults.capabilities, ...settings.capabilities };
+    this.pricing = { ...defaults.pricing, ...settings.pricing };
+  }
+
+  isConfigured(): boolean {
+    return !!this.settings.apiKey;
+  }
+
+  trustedHosts(): string[] {
+    try {
+      return [new URL(this.endpoint()).hostname];
+    } catch {
+      return [];
+    }
+  }
+
+  abstract complete(request: CompletionRequest): Promise<CompletionResult>;
+
+  // Providers without streaming deliver the whole completion as one token
+  async *stream(request: CompletionRequest): AsyncGenerator<CompletionChunk> {
+    const result = await this.complete(request);
+    yield { type: 'token', text: result.text };
+    yield { type: 'usage', usage: result.usage };
+  }
+
+  protected abstract endpoint(): string;
+
+  protected async post(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) {
+    const response = await safeFetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+        ...this.settings.headers
+      },
+      body: JSON.stringify(body),
+      signal
+    }, this.trustedHosts());
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`${this.id} API error: ${response.status} - ${errorText}`);
+    }
+
+    return response;
+  }
+
+  protected requireApiKey(): string {
+    if (!this.settings.apiKey) {
+      throw new Error(`${this.id} API key not configured`);
+    }
+    return this.settings.apiKey;
+  }
+}
@@ -0,0 +1,125 @@
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before a probe is allowed
+  cooldownMs: number;
+  // Successful probes needed to close a half-open circuit
+  successThreshold: number;
+}
+
+export interface BreakerSnapshot {
+  state: BreakerState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  openedAt?: string;
+  retryAt?: string;
+}
+
+export const DEFAULT_BREAKER_OPTIONS: BreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 30000,
+  successThreshold: 1
+};
+
+// Per-provider circuit breaker: closed -> open after repeated failures,
+// open -> half-open after the cooldown, where a single probe decides
+// whether the circuit closes again or re-opens for another cooldown.
+export class CircuitBreaker {
+  private state: BreakerState = 'closed';
+  private consecutiveFailures = 0;
+  private probeSuccesses = 0;
+  private probeInFlight = false;
+  private totalFailures = 0;
+  private totalSuccesses = 0;
+  private openedAt?: number;
+  private lastFailureAt?: number;
+  private lastError?: string;
+
+  constructor(
+    readonly id: string,
+    private readonly options: BreakerOptions = DEFAULT_BREAKER_OPTIONS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  // Whether a call may go through; moves an expired open circuit to half-open
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (this.now() - (this.openedAt || 0) < this.options.cooldownMs) {
+        return false;
+      }
+      this.state = 'half-open';
+      this.probeSuccesses = 0;
+      this.probeInFlight = false;
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) return false;
+      this.probeInFlight = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.totalSuccesses++;
+    this.consecutiveFailures = 0;
+
+    if (this.state === 'half-open') {
+      this.probeInFlight = false;
+      this.probeSuccesses++;
+      if (this.probeSuccesses >= this.options.successThreshold) {
+        this.state = 'closed';
+        this.openedAt = undefined;
+      }
+    }
+  }
+
+  recordFailure(error?: string): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastFailureAt = this.now();
+    this.lastError = error;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.trip();
+    }
+  }
+
+  // A call that ended without a verdict (e.g. cancelled by the client)
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  getState(): BreakerState {
+    if (this.state === 'open' && this.now() - (this.openedAt || 0) >= this.options.cooldownMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  snapshot(): BreakerSnapshot {
+    const iso = (time?: number) => time === undefined ? undefined : new Date(time).toISOString();
+    return {
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      lastError: this.lastError,
+      lastFailureAt: iso(this.lastFailureAt),
+      openedAt: iso(this.openedAt),
+      retryAt: this.state === 'open' ? iso((this.openedAt || 0) + this.options.cooldownMs) : undefined
+    };
+  }
+
+  private trip(): void {
+    this.state = 'open';
+    this.openedAt = this.now();
+    this.probeInFlight = false;
+    this.probeSuccesses = 0;
+  }
+}
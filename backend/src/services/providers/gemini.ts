@@ -0,0 +1,91 @@
+import { readSSE } from '../../contract/sse';
+import { BaseAdapter } from './baseAdapter';
+import {
+  CompletionChunk,
+  CompletionRequest,
+  CompletionResult,
+  PricingTable,
+  ProviderSettings,
+  TokenUsage
+} from './types';
+
+// Google Gemini generateContent API
+export class GeminiAdapter extends BaseAdapter {
+  constructor(settings: ProviderSettings, defaults: { model: string; pricing?: PricingTable }) {
+    super(settings, { ...defaults, capabilities: { jsonMode: true } });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(this.methodUrl('generateContent'), this.buildBody(request), this.authHeaders(), request.signal);
+    const data = await response.json();
+
+    const text = this.extractText(data);
+    if (!text) {
+      throw new Error(`No response from ${this.id}`);
+    }
+
+    return { text, usage: this.extractUsage(data) };
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<CompletionChunk> {
+    const response = await this.post(this.methodUrl('streamGenerateContent', 'alt=sse'), this.buildBody(request), this.authHeaders(), request.signal);
+    if (!response.body) {
+      throw new Error(`No response body from ${this.id}`);
+    }
+
+    let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const message of readSSE(response.body)) {
+      const data = JSON.parse(message.data);
+
+      const text = this.extractText(data);
+      if (text) {
+        yield { type: 'token', text };
+      }
+      if (data.usageMetadata) {
+        usage = this.extractUsage(data);
+      }
+    }
+
+    yield { type: 'usage', usage };
+  }
+
+  protected endpoint(): string {
+    return (this.settings.baseUrl || 'https://generativelanguage.googleapis.com').replace(/\/$/, '');
+  }
+
+  private methodUrl(method: string, query?: string): string {
+    const apiVersion = this.settings.apiVersion || 'v1beta';
+    const url = `${this.endpoint()}/${apiVersion}/models/${encodeURIComponent(this.model)}:${method}`;
+    return query ? `${url}?${query}` : url;
+  }
+
+  private authHeaders(): Record<string, string> {
+    return { 'x-goog-api-key': this.requireApiKey() };
+  }
+
+  private buildBody(request: CompletionRequest): Record<string, unknown> {
+    return {
+      systemInstruction: { parts: [{ text: request.system }] },
+      contents: [
+        { role: 'user', parts: [{ text: request.prompt }] }
+      ],
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.json && { responseMimeType: 'application/json' })
+      }
+    };
+  }
+
+  private extractText(data: any): string {
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    return parts.map((part: { text?: string }) => part.text || '').join('');
+  }
+
+  private extractUsage(data: any): TokenUsage {
+    return {
+      inputTokens: data.usageMetadata?.promptTokenCount || 0,
+      outputTokens: data.usageMetadata?.candidatesTokenCount || 0
+    };
+  }
+}
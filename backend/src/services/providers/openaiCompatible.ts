@@ -0,0 +1,129 @@
+import { readSSE } from '../../contract/sse';
+import { BaseAdapter } from './baseAdapter';
+import {
+  CompletionChunk,
+  CompletionRequest,
+  CompletionResult,
+  PricingTable,
+  ProviderCapabilities,
+  ProviderSettings
+} from './types';
+
+// OpenAI chat completions, and every server that speaks the same protocol
+// (OpenAI itself, Mistral, LM Studio/Ollama/vLLM style local servers, ...)
+export class OpenAICompatibleAdapter extends BaseAdapter {
+  private readonly requiresApiKey: boolean;
+  private readonly streamUsage: boolean;
+
+  constructor(
+    settings: ProviderSettings,
+    defaults: {
+      baseUrl: string;
+      model: string;
+      pricing?: PricingTable;
+      capabilities?: Partial<ProviderCapabilities>;
+      requiresApiKey?: boolean;
+      streamUsage?: boolean;
+    }
+  ) {
+    super({ ...settings, baseUrl: settings.baseUrl || defaults.baseUrl }, defaults);
+    this.requiresApiKey = defaults.requiresApiKey ?? true;
+    this.streamUsage = defaults.streamUsage ?? false;
+  }
+
+  isConfigured(): boolean {
+    return this.requiresApiKey ? !!this.settings.apiKey : !!this.settings.baseUrl;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await this.post(this.endpoint(), this.buildBody(request, false), this.authHeaders(), request.signal);
+    const data = await response.json();
+
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error(`No response from ${this.id}`);
+    }
+
+    return {
+      text: data.choices[0].message.content,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens || 0,
+        outputTokens: data.usage?.completion_tokens || 0
+      }
+    };
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<CompletionChunk> {
+    const response = await this.post(this.endpoint(), this.buildBody(request, true), this.authHeaders(), request.signal);
+    if (!response.body) {
+      throw new Error(`No response body from ${this.id}`);
+    }
+
+    for await (const message of readSSE(response.body)) {
+      if (message.data === '[DONE]') break;
+
+      const data = JSON.parse(message.data);
+      const text = data.choices?.[0]?.delta?.content;
+      if (text) {
+        yield { type: 'token', text };
+      }
+      if (data.usage) {
+        yield {
+          type: 'usage',
+          usage: {
+            inputTokens: data.usage.prompt_tokens || 0,
+            outputTokens: data.usage.completion_tokens || 0
+          }
+        };
+      }
+    }
+  }
+
+  protected endpoint(): string {
+    return `${this.settings.baseUrl!.replace(/\/$/, '')}/v1/chat/completions`;
+  }
+
+  protected authHeaders(): Record<string, string> {
+    if (this.requiresApiKey) {
+      return { 'Authorization': `Bearer ${this.requireApiKey()}` };
+    }
+    return this.settings.apiKey ? { 'Authorization': `Bearer ${this.settings.apiKey}` } : {};
+  }
+
+  protected buildBody(request: CompletionRequest, streaming: boolean): Record<string, unknown> {
+    return {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt }
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.json && this.capabilities.jsonMode && { response_format: { type: 'json_object' } }),
+      ...(streaming && { stream: true }),
+      ...(streaming && this.streamUsage && { stream_options: { include_usage: true } })
+    };
+  }
+}
+
+// Azure OpenAI: deployment-scoped URLs and an api-key header
+export class AzureOpenAIAdapter extends OpenAICompatibleAdapter {
+  isConfigured(): boolean {
+    return !!this.settings.apiKey && !!this.settings.baseUrl;
+  }
+
+  protected endpoint(): string {
+    const base = (this.settings.baseUrl || '').replace(/\/$/, '');
+    const apiVersion = this.settings.apiVersion || '2024-02-01';
+    return `${base}/openai/deployments/${encodeURIComponent(this.model)}/chat/completions?api-version=${apiVersion}`;
+  }
+
+  protected authHeaders(): Record<string, string> {
+    return { 'api-key': this.requireApiKey() };
+  }
+
+  protected buildBody(request: CompletionRequest, streaming: boolean): Record<string, unknown> {
+    // The deployment in the URL selects the model
+    const { model: _model, ...body } = super.buildBody(request, streaming);
+    return body;
+  }
+}
@@ -0,0 +1,310 @@
+import fs from 'fs';
+import { createLogger } from '../../utils/logger';
+import { AnthropicAdapter } from './anthropic';
+import { BreakerOptions, BreakerSnapshot, CircuitBreaker, DEFAULT_BREAKER_OPTIONS } from './circuitBreaker';
+import { GeminiAdapter } from './gemini';
+import { AzureOpenAIAdapter, OpenAICompatibleAdapter } from './openaiCompatible';
+import { BreakerSettings, PricingTable, ProviderAdapter, ProviderFactory, ProviderSettings, TokenUsage } from './types';
+
+// Default prices in USD per 1K tokens; '*' applies to models not listed
+export const DEFAULT_PRICING: Record<string, PricingTable> = {
+  openai: {
+    'gpt-3.5-turbo': { input: 0.002, output: 0.002 },
+    'gpt-4': { input: 0.03, output: 0.03 },
+    'gpt-4-turbo': { input: 0.01, output: 0.01 },
+    'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+    '*': { input: 0.002, output: 0.002 }
+  },
+  anthropic: {
+    'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 },
+    '*': { input: 0.00025, output: 0.00125 }
+  },
+  gemini: {
+    'gemini-1.5-flash': { input: 0.000075, output: 0.0003 },
+    'gemini-1.5-pro': { input: 0.00125, output: 0.005 }
+  },
+  mistral: {
+    'mistral-small-latest': { input: 0.0002, output: 0.0006 },
+    'mistral-large-latest': { input: 0.002, output: 0.006 }
+  }
+};
+
+export interface ProviderInfo {
+  id: string;
+  type: string;
+  model: string;
+  configured: boolean;
+  capabilities: ProviderAdapter['capabilities'];
+  breaker: BreakerSnapshot;
+}
+
+// Ends every fallback chain: the rule-based improvement needs no provider
+export const OFFLINE_PROVIDER = 'offline';
+
+// Holds adapter factories by type and configured adapters by id
+export class ProviderRegistry {
+  private static readonly logger = createLogger();
+  private static readonly ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/i;
+
+  private static factories = new Map<string, ProviderFactory>();
+  private static providers = new Map<string, ProviderAdapter>();
+  private static breakers = new Map<string, CircuitBreaker>();
+  private static defaultId: string | undefined;
+  private static fallbackChain: string[] | undefined;
+  private static loaded = false;
+
+  static registerType(type: string, factory: ProviderFactory): void {
+    this.factories.set(type, factory);
+  }
+
+  static register(adapter: ProviderAdapter, breaker?: BreakerSettings): void {
+    this.ensureLoaded();
+    this.providers.set(adapter.id, adapter);
+    this.breakers.set(adapter.id, new CircuitBreaker(adapter.id, this.breakerOptions(breaker)));
+  }
+
+  static get(id: string): ProviderAdapter | undefined {
+    this.ensureLoaded();
+    return this.providers.get(id);
+  }
+
+  static has(id: string): boolean {
+    this.ensureLoaded();
+    return this.providers.has(id);
+  }
+
+  static list(): ProviderAdapter[] {
+    this.ensureLoaded();
+    return Array.from(this.providers.values());
+  }
+
+  static describe(): ProviderInfo[] {
+    return this.list().map(adapter => ({
+      id: adapter.id,
+      type: adapter.type,
+      model: adapter.model,
+      configured: adapter.isConfigured(),
+      capabilities: adapter.capabilities,
+      breaker: this.getBreaker(adapter.id).snapshot()
+    }));
+  }
+
+  static getBreaker(id: string): CircuitBreaker {
+    this.ensureLoaded();
+    let breaker = this.breakers.get(id);
+    if (!breaker) {
+      breaker = new CircuitBreaker(id, this.breakerOptions());
+      this.breakers.set(id, breaker);
+    }
+    return breaker;
+  }
+
+  // Providers to try, in order: the requested one, then the configured chain.
+  // Without LLM_FALLBACK_CHAIN the chain is the default provider followed by
+  // the rest in registration order. The offline rules always come last.
+  static getFallbackChain(requested?: string): string[] {
+    this.ensureLoaded();
+    const defaultId = this.getDefaultId();
+    const chain = this.fallbackChain
+      || [defaultId, ...Array.from(this.providers.keys()).filter(id => id !== defaultId)];
+
+    const ids = requested ? [requested, ...chain] : chain;
+    return Array.from(new Set(ids)).filter(id => this.providers.has(id));
+  }
+
+  static getDefaultId(): string {
+    this.ensureLoaded();
+    if (this.defaultId && this.providers.has(this.defaultId)) {
+      return this.defaultId;
+    }
+    const chainHead = this.fallbackChain?.find(id => this.providers.has(id));
+    if (chainHead) return chainHead;
+
+    const configured = this.list().find(adapter => adapter.isConfigured());
+    return configured?.id || 'openai';
+  }
+
+  static calculateCost(adapter: ProviderAdapter, usage: TokenUsage): number {
+    const price = adapter.pricing[adapter.model] || adapter.pricing['*'];
+    if (!price) return 0;
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000;
+  }
+
+  // Replaces the configured providers, e.g. after settings change
+  static configure(settingsList: ProviderSettings[], defaultId?: string, fallbackChain?: string[]): void {
+    this.providers.clear();
+    this.breakers.clear();
+    this.defaultId = defaultId;
+    this.fallbackChain = fallbackChain?.filter(id => id !== OFFLINE_PROVIDER);
+
+    for (const settings of settingsList) {
+      if (settings.enabled === false) continue;
+
+      const factory = this.factories.get(settings.type);
+      if (!factory) {
+        this.logger.error(`Unknown LLM provider type "${settings.type}" for provider "${settings.id}"`);
+        continue;
+      }
+
+      this.providers.set(settings.id, factory(settings));
+      this.breakers.set(settings.id, new CircuitBreaker(settings.id, this.breakerOptions(settings.breaker)));
+    }
+
+    this.loaded = true;
+    this.logger.info('LLM providers configured', {
+      providers: this.describe().map(p => `${p.id}(${p.type}${p.configured ? '' : ', not configured'})`),
+      fallbackChain: [...this.getFallbackChain(), OFFLINE_PROVIDER].join(' -> ')
+    });
+  }
+
+  // Built-in providers from env vars, overridden or extended by LLM_PROVIDERS / LLM_PROVIDERS_FILE
+  static loadSettings(env: NodeJS.ProcessEnv = process.env): ProviderSettings[] {
+    const byId = new Map<string, ProviderSettings>();
+
+    const defaults: ProviderSettings[] = [
+      { id: 'openai', type: 'openai', apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL },
+      { id: 'anthropic', type: 'anthropic', apiKey: env.ANTHROPIC_API_KEY, model: env.ANTHROPIC_MODEL },
+      { id: 'local', type: 'openai-compatible', apiKey: env.LOCAL_API_KEY, baseUrl: env.LOCAL_API_URL || 'http://localhost:1234', model: env.LOCAL_MODEL || 'local' }
+    ];
+    if (env.GEMINI_API_KEY) {
+      defaults.push({ id: 'gemini', type: 'gemini', apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL });
+    }
+    if (env.MISTRAL_API_KEY) {
+      defaults.push({ id: 'mistral', type: 'mistral', apiKey: env.MISTRAL_API_KEY, model: env.MISTRAL_MODEL });
+    }
+    if (env.AZURE_OPENAI_API_KEY && env.AZURE_OPENAI_ENDPOINT) {
+      defaults.push({
+        id: 'azure-openai',
+        type: 'azure-openai',
+        apiKey: env.AZURE_OPENAI_API_KEY,
+        baseUrl: env.AZURE_OPENAI_ENDPOINT,
+        model: env.AZURE_OPENAI_DEPLOYMENT,
+        apiVersion: env.AZURE_OPENAI_API_VERSION
+      });
+    }
+    defaults.forEach(settings => byId.set(settings.id, settings));
+
+    for (const entry of this.readJSONConfig(env)) {
+      const settings = this.parseEntry(entry, env);
+      if (settings) {
+        byId.set(settings.id, { ...byId.get(settings.id), ...settings });
+      }
+    }
+
+    return Array.from(byId.values());
+  }
+
+  private static ensureLoaded(): void {
+    if (this.loaded) return;
+    const chain = process.env.LLM_FALLBACK_CHAIN
+      ?.split(',')
+      .map(id => id.trim())
+      .filter(Boolean);
+    this.configure(this.loadSettings(), process.env.LLM_DEFAULT_PROVIDER, chain);
+  }
+
+  // Env-wide breaker defaults, overridden per provider by its "breaker" settings
+  private static breakerOptions(overrides: BreakerSettings = {}): BreakerOptions {
+    const fromEnv = (name: string, fallback: number) => {
+      const value = parseInt(process.env[name] || '', 10);
+      return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+
+    return {
+      failureThreshold: overrides.failureThreshold
+        ?? fromEnv('LLM_BREAKER_FAILURE_THRESHOLD', DEFAULT_BREAKER_OPTIONS.failureThreshold),
+      cooldownMs: overrides.cooldownMs
+        ?? fromEnv('LLM_BREAKER_COOLDOWN_MS', DEFAULT_BREAKER_OPTIONS.cooldownMs),
+      successThreshold: overrides.successThreshold
+        ?? fromEnv('LLM_BREAKER_SUCCESS_THRESHOLD', DEFAULT_BREAKER_OPTIONS.successThreshold)
+    };
+  }
+
+  private static readJSONConfig(env: NodeJS.ProcessEnv): unknown[] {
+    let raw: string | undefined;
+    try {
+      if (env.LLM_PROVIDERS_FILE) {
+        raw = fs.readFileSync(env.LLM_PROVIDERS_FILE, 'utf8');
+      } else if (env.LLM_PROVIDERS) {
+        raw = env.LLM_PROVIDERS;
+      }
+      if (!raw) return [];
+
+      const parsed = JSON.parse(raw);
+      const entries = Array.isArray(parsed) ? parsed : parsed?.providers;
+      if (!Array.isArray(entries)) {
+        throw new Error('expected an array of providers or { "providers": [...] }');
+      }
+      return entries;
+    } catch (error: any) {
+      this.logger.error('Invalid LLM provider configuration, using env defaults only', {
+        error: error.message
+      });
+      return [];
+    }
+  }
+
+  private static parseEntry(entry: unknown, env: NodeJS.ProcessEnv): ProviderSettings | null {
+    if (typeof entry !== 'object' || entry === null) {
+      this.logger.error('Ignoring LLM provider entry that is not an object');
+      return null;
+    }
+
+    const { apiKeyEnv, ...settings } = entry as ProviderSettings & { apiKeyEnv?: string };
+    if (typeof settings.id !== 'string' || !this.ID_PATTERN.test(settings.id)) {
+      this.logger.error('Ignoring LLM provider entry with invalid id', { id: settings.id });
+      return null;
+    }
+    if (typeof settings.type !== 'string') {
+      this.logger.error('Ignoring LLM provider entry without type', { id: settings.id });
+      return null;
+    }
+
+    // Secrets stay in env; the JSON names the variable holding the key
+    if (apiKeyEnv) {
+      settings.apiKey = env[apiKeyEnv];
+    }
+
+    return settings;
+  }
+}
+
+// Built-in adapter types
+ProviderRegistry.registerType('openai', settings => new OpenAICompatibleAdapter(settings, {
+  baseUrl: 'https://api.openai.com',
+  model: 'gpt-3.5-turbo',
+  pricing: DEFAULT_PRICING.openai,
+  capabilities: { jsonMode: true },
+  streamUsage: true
+}));
+
+ProviderRegistry.registerType('azure-openai', settings => new AzureOpenAIAdapter(settings, {
+  baseUrl: '',
+  model: 'gpt-35-turbo',
+  pricing: DEFAULT_PRICING.openai,
+  capabilities: { jsonMode: true },
+  streamUsage: true
+}));
+
+ProviderRegistry.registerType('mistral', settings => new OpenAICompatibleAdapter(settings, {
+  baseUrl: 'https://api.mistral.ai',
+  model: 'mistral-small-latest',
+  pricing: DEFAULT_PRICING.mistral,
+  capabilities: { jsonMode: true }
+}));
+
+ProviderRegistry.registerType('openai-compatible', settings => new OpenAICompatibleAdapter(settings, {
+  baseUrl: 'http://localhost:1234',
+  model: 'local',
+  requiresApiKey: false
+}));
+
+ProviderRegistry.registerType('anthropic', settings => new AnthropicAdapter(settings, {
+  model: 'claude-3-haiku-20240307',
+  pricing: DEFAULT_PRICING.anthropic
+}));
+
+ProviderRegistry.registerType('gemini', settings => new GeminiAdapter(settings, {
+  model: 'gemini-1.5-flash',
+  pricing: DEFAULT_PRICING.gemini
+}));
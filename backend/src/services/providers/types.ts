@@ -0,0 +1,75 @@
+// Contract every LLM provider adapter implements
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  systemPrompt: boolean;
+  jsonMode: boolean;
+}
+
+// USD per 1K tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export type PricingTable = Record<string, ModelPricing>;
+
+export interface BreakerSettings {
+  failureThreshold?: number;
+  cooldownMs?: number;
+  successThreshold?: number;
+}
+
+// One configured provider, from env defaults or LLM_PROVIDERS JSON
+export interface ProviderSettings {
+  id: string;
+  type: string;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  apiVersion?: string;
+  enabled?: boolean;
+  headers?: Record<string, string>;
+  pricing?: PricingTable;
+  capabilities?: Partial<ProviderCapabilities>;
+  breaker?: BreakerSettings;
+}
+
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  usage: TokenUsage;
+}
+
+export type CompletionChunk =
+  | { type: 'token'; text: string }
+  | { type: 'usage'; usage: TokenUsage };
+
+export interface ProviderAdapter {
+  readonly id: string;
+  readonly type: string;
+  readonly model: string;
+  readonly capabilities: ProviderCapabilities;
+  readonly pricing: PricingTable;
+
+  isConfigured(): boolean;
+  // Hosts this adapter calls, trusted by safeFetch's SSRF checks
+  trustedHosts(): string[];
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncGenerator<CompletionChunk>;
+}
+
+export type ProviderFactory = (settings: ProviderSettings) => ProviderAdapter;
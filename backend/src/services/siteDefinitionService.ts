@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { Database } from '../db/database';
+import { SignedSiteDefinitions } from '../contract/apiContract';
+import { SiteConfig, SiteDefinitionsDocument } from '../contract/siteDefinitions';
+
+export class SiteDefinitionService {
+  private static signingKey: crypto.KeyObject | null = null;
+
+  // The newest published document, or null before the first publish
+  static async latest(): Promise<SignedSiteDefinitions | null> {
+    const record = await Database.getLatestSiteDefinitions();
+    return record ? { document: record.document, signature: record.signature } : null;
+  }
+
+  // Signs and stores the sites as the next version
+  static async publish(sites: SiteConfig[], publishedBy: string): Promise<SignedSiteDefinitions & { version: number }> {
+    const key = this.getSigningKey();
+    const latest = await Database.getLatestSiteDefinitions();
+
+    const payload: SiteDefinitionsDocument = {
+      version: (latest?.version ?? 0) + 1,
+      publishedAt: new Date().toISOString(),
+      sites
+    };
+    const document = JSON.stringify(payload);
+    const signature = crypto
+      .sign('sha256', Buffer.from(document), { key, dsaEncoding: 'ieee-p1363' })
+      .toString('base64');
+
+    await Database.saveSiteDefinitions({ version: payload.version, document, signature, published_by: publishedBy });
+    return { version: payload.version, document, signature };
+  }
+
+  // ECDSA P-256 private key in PEM; newlines may be escaped as \n
+  private static getSigningKey(): crypto.KeyObject {
+    if (this.signingKey) return this.signingKey;
+
+    const pem = process.env.SITE_DEFINITIONS_PRIVATE_KEY;
+    if (!pem) {
+      throw new Error('SITE_DEFINITIONS_PRIVATE_KEY environment variable is required to publish site definitions');
+    }
+
+    const key = crypto.createPrivateKey(pem.replace(/\\n/g, '\n'));
+    if (key.asymmetricKeyType !== 'ec' || key.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+      throw new Error('SITE_DEFINITIONS_PRIVATE_KEY must be an ECDSA P-256 key');
+    }
+
+    this.signingKey = key;
+    return key;
+  }
+}
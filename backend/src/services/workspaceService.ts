@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Collection, CollectionItem, Database, Workspace, WorkspaceInvite, WorkspaceMember } from '../db/database';
+import {
+  AddCollectionItemRequest,
+  ApiCollection,
+  ApiCollectionItem,
+  ApiInvite,
+  ApiPendingInvite,
+  ApiWorkspace,
+  ApiWorkspaceDetails,
+  ApiWorkspaceMember,
+  WorkspaceRole
+} from '../contract/apiContract';
+import { ApiException } from '../utils/apiResponse';
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Team workspaces. Routes check the caller's role with requireWorkspace()
+// before calling in; the rules here are the ones no role can break.
+export class WorkspaceService {
+  static async list(userId: string): Promise<ApiWorkspace[]> {
+    const workspaces = await Database.getUserWorkspaces(userId);
+    return workspaces.map(workspace => this.toWorkspace(workspace, workspace.role, workspace.member_count));
+  }
+
+  static async create(userId: string, name: string): Promise<ApiWorkspace> {
+    const id = uuidv4();
+    await Database.createWorkspace({ id, name: name.trim(), created_by: userId });
+
+    const workspace = await Database.getWorkspace(id);
+    return this.toWorkspace(workspace!, 'owner', 1);
+  }
+
+  static async details(member: WorkspaceMember): Promise<ApiWorkspaceDetails> {
+    const workspace = await Database.getWorkspace(member.workspace_id);
+    const members = await Database.getWorkspaceMembers(member.workspace_id);
+
+    return {
+      ...this.toWorkspace(workspace!, member.role, members.length),
+      members: members.map(entry => this.toMember(entry))
+    };
+  }
+
+  // Only the token's hash is stored, so the link cannot be read back later.
+  // `baseUrl` is where the backend serves the join page.
+  static async createInvite(member: WorkspaceMember, role: WorkspaceRole, baseUrl: string): Promise<ApiInvite> {
+    const id = uuidv4();
+    const token = crypto.randomBytes(24).toString('base64url');
+    const expiresAt = new Date(Date.now() + INVITE_TTL_MS).toISOString();
+
+    await Database.createWorkspaceInvite({
+      id,
+      workspace_id: member.workspace_id,
+      token_hash: this.hashToken(token),
+      role,
+      created_by: member.user_id,
+      expires_at: expiresAt
+    });
+
+    return {
+      id,
+      token,
+      url: `${baseUrl}/join?invite=${token}`,
+      role,
+      expiresAt
+    };
+  }
+
+  static async invites(workspaceId: string): Promise<ApiPendingInvite[]> {
+    const invites = await Database.getPendingWorkspaceInvites(workspaceId);
+    return invites.map(invite => this.toPendingInvite(invite));
+  }
+
+  // The link stops working at once; members who already joined stay
+  static async revokeInvite(workspaceId: string, inviteId: string): Promise<void> {
+    if (!(await Database.revokeWorkspaceInvite(workspaceId, inviteId))) {
+      throw new ApiException('VALIDATION_ERROR', 'Invite not found', undefined, 404);
+    }
+  }
+
+  static async join(userId: string, token: string): Promise<ApiWorkspace> {
+    const invite = await Database.getWorkspaceInviteByHash(this.hashToken(token));
+    if (!invite || invite.revoked_at || new Date(invite.expires_at).getTime() < Date.now()) {
+      throw new ApiException('VALIDATION_ERROR', 'This invite link is invalid or has expired', undefined, 404);
+    }
+
+    // Existing members keep their role
+    await Database.addWorkspaceMember(invite.workspace_id, userId, invite.role);
+    const member = await Database.getWorkspaceMember(invite.workspace_id, userId);
+    const workspace = await Database.getWorkspace(invite.workspace_id);
+    const members = await Database.getWorkspaceMembers(invite.workspace_id);
+    return this.toWorkspace(workspace!, member!.role, members.length);
+  }
+
+  static async updateMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<ApiWorkspaceMember> {
+    const target = await this.requireMember(workspaceId, userId);
+    if (target.role === 'owner' && role !== 'owner') {
+      await this.ensureAnotherOwner(workspaceId);
+    }
+
+    await Database.updateWorkspaceMemberRole(workspaceId, userId, role);
+    return this.toMember({ ...target, role });
+  }
+
+  // Owners remove anyone; every member may remove themselves to leave
+  static async removeMember(actor: WorkspaceMember, userId: string): Promise<void> {
+    if (actor.user_id !== userId && actor.role !== 'owner') {
+      throw new ApiException('UNAUTHORIZED', 'Only owners can remove other members', {
+        role: actor.role,
+        required: 'manageMembers'
+      }, 403);
+    }
+
+    const target = await this.requireMember(actor.workspace_id, userId);
+    if (target.role === 'owner') {
+      await this.ensureAnotherOwner(actor.workspace_id);
+    }
+
+    await Database.removeWorkspaceMember(actor.workspace_id, userId);
+  }
+
+  static async collections(workspaceId: string): Promise<ApiCollection[]> {
+    const collections = await Database.getCollections(workspaceId);
+    const items = await Database.getCollectionItems(workspaceId);
+
+    return collections.map(collection => this.toCollection(
+      collection,
+      items.filter(item => item.collection_id === collection.id)
+    ));
+  }
+
+  static async createCollection(member: WorkspaceMember, name: string): Promise<ApiCollection> {
+    const id = uuidv4();
+    await Database.createCollection({ id, workspace_id: member.workspace_id, name: name.trim(), created_by: member.user_id });
+
+    const collection = await Database.getCollection(member.workspace_id, id);
+    return this.toCollection(collection!, []);
+  }
+
+  static async deleteCollection(workspaceId: string, collectionId: string): Promise<void> {
+    await this.requireCollection(workspaceId, collectionId);
+    await Database.deleteCollection(workspaceId, collectionId);
+  }
+
+  static async addItem(member: WorkspaceMember, collectionId: string, request: AddCollectionItemRequest): Promise<ApiCollectionItem> {
+    await this.requireCollection(member.workspace_id, collectionId);
+
+    const item = await Database.addCollectionItem({
+      id: uuidv4(),
+      collection_id: collectionId,
+      kind: request.kind,
+      prompt: JSON.stringify(request.prompt),
+      created_by: member.user_id
+    });
+    return this.toItem(item);
+  }
+
+  static async removeItem(workspaceId: string, collectionId: string, itemId: string): Promise<void> {
+    await this.requireCollection(workspaceId, collectionId);
+    if (!(await Database.removeCollectionItem(collectionId, itemId))) {
+      throw new ApiException('VALIDATION_ERROR', 'Item not found', undefined, 404);
+    }
+  }
+
+  private static async requireMember(workspaceId: string, userId: string): Promise<WorkspaceMember> {
+    const member = await Database.getWorkspaceMember(workspaceId, userId);
+    if (!member) {
+      throw new ApiException('VALIDATION_ERROR', 'Member not found', undefined, 404);
+    }
+    return member;
+  }
+
+  private static async requireCollection(workspaceId: string, collectionId: string): Promise<Collection> {
+    const collection = await Database.getCollection(workspaceId, collectionId);
+    if (!collection) {
+      throw new ApiException('VALIDATION_ERROR', 'Collection not found', undefined, 404);
+    }
+    return collection;
+  }
+
+  // A workspace always keeps at least one owner
+  private static async ensureAnotherOwner(workspaceId: string): Promise<void> {
+    const members = await Database.getWorkspaceMembers(workspaceId);
+    if (members.filter(member => member.role === 'owner').length < 2) {
+      throw new ApiException('VALIDATION_ERROR', 'A workspace needs at least one owner');
+    }
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static toWorkspace(workspace: Workspace, role: WorkspaceRole, memberCount: number): ApiWorkspace {
+    return {
+      id: workspace.id,
+      name: workspace.name,
+      role,
+      memberCount,
+      createdAt: workspace.created_at
+    };
+  }
+
+  private static toMember(member: WorkspaceMember): ApiWorkspaceMember {
+    return {
+      userId: member.user_id,
+      ...(member.email && { email: member.email }),
+      role: member.role,
+      joinedAt: member.created_at
+    };
+  }
+
+  private static toPendingInvite(invite: WorkspaceInvite): ApiPendingInvite {
+    return {
+      id: invite.id,
+      role: invite.role,
+      ...(invite.email && { createdBy: invite.email }),
+      expiresAt: invite.expires_at,
+      createdAt: invite.created_at
+    };
+  }
+
+  private static toCollection(collection: Collection, items: CollectionItem[]): ApiCollection {
+    return {
+      id: collection.id,
+      name: collection.name,
+      items: items.map(item => this.toItem(item)),
+      createdAt: collection.created_at,
+      updatedAt: collection.updated_at
+    };
+  }
+
+  private static toItem(item: CollectionItem): ApiCollectionItem {
+    return {
+      id: item.id,
+      kind: item.kind,
+      prompt: JSON.parse(item.prompt),
+      ...(item.email && { addedBy: item.email }),
+      createdAt: item.created_at
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  ApiErrorCode,
+  ERROR_STATUS,
+  QuotaUsage,
+  Schema,
+  parse
+} from '../contract/apiContract';
+import { createLogger } from './logger';
+
+const logger = createLogger();
+
+// Error carrying an API error code, turned into an envelope by the v1 error handler
+export class ApiException extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly details?: any,
+    public readonly status: number = ERROR_STATUS[code]
+  ) {
+    super(message);
+    this.name = 'ApiException';
+  }
+}
+
+export function sendSuccess<T>(
+  res: Response,
+  schema: Schema<T>,
+  data: T,
+  options: { status?: number; usage?: QuotaUsage } = {}
+) {
+  // Outgoing payloads are checked against the contract so drift is caught server-side
+  const result = parse(schema, data, '$.data');
+  if (!result.ok) {
+    logger.error('Response does not match API contract', {
+      path: res.req?.originalUrl,
+      errors: result.errors
+    });
+
+    if (process.env.NODE_ENV !== 'production') {
+      throw new ApiException('SERVER_ERROR', 'Response does not match API contract', result.errors);
+    }
+  }
+
+  return res.status(options.status || 200).json({
+    success: true,
+    data,
+    ...(options.usage && { usage: options.usage })
+  });
+}
+
+export function sendError(
+  res: Response,
+  code: ApiErrorCode,
+  message: string,
+  details?: any,
+  status: number = ERROR_STATUS[code]
+) {
+  return res.status(status).json({
+    success: false,
+    error: {
+      code,
+      message,
+      ...(details !== undefined && { details })
+    }
+  });
+}
+
+// Validates req.body against a contract schema
+export function validateBody<T>(schema: Schema<T>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = parse(schema, req.body, '$');
+    if (!result.ok) {
+      return sendError(res, 'VALIDATION_ERROR', 'Validation failed', result.errors);
+    }
+    next();
+  };
+}
+
+// Wraps async handlers so rejections reach the error middleware
+export function asyncHandler(handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, next).catch(next);
+  };
+}
@@ -46,8 +46,7 @@ for size in 16 32 48 96 128 192 512; do
   echo "<!-- ${size}x${size} icon placeholder -->" > dist/pwa/icons/icon-${size}.png
 done
 
-# Copy manifest files
-cp src/extension/manifest.json dist/extension/
+# Copy manifest files (the extension build writes its own from the site registry)
 cp src/shared/manifest.json dist/pwa/manifest.json
 
 # Generate build info
@@ -0,0 +1,319 @@
+import { ConflictResolution, LibraryMerge, MergePlan } from '../utils/libraryMerge'
+import { PromptRevisions } from '../utils/revisions'
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  mine: 'Keep mine',
+  theirs: 'Keep theirs',
+  both: 'Keep both'
+}
+
+// Dry run of a library import: what will be added, which prompts conflict and
+// how each conflict should be settled. Nothing is written until Import is chosen.
+export class ImportPreview {
+  private overlay: HTMLElement | null = null
+  private plan: MergePlan
+  private details: string[]
+  private resolutions: ConflictResolution[]
+  private resolve: ((resolutions: ConflictResolution[] | null) => void) | null = null
+
+  // `details` are extra lines for the summary, e.g. about providers
+  constructor(plan: MergePlan, details: string[] = []) {
+    this.plan = plan
+    this.details = details
+    this.resolutions = plan.conflicts.map(() => 'mine')
+  }
+
+  // Resolves with one resolution per conflict, or null when the import is cancelled
+  public open(): Promise<ConflictResolution[] | null> {
+    this.addPreviewStyles()
+    this.overlay = document.createElement('div')
+    this.overlay.className = 'perfect-prompts-import-overlay'
+    this.overlay.innerHTML = `
+      <div class="import-dialog" role="dialog" aria-label="Import preview">
+        <div class="import-header">
+          <h3>Import preview</h3>
+          <button type="button" class="import-close" data-action="cancel" aria-label="Close">&times;</button>
+        </div>
+        <p class="import-summary">${this.escapeHtml(LibraryMerge.summary(this.plan))}</p>
+        ${this.details.map(detail => `<p class="import-summary">${this.escapeHtml(detail)}</p>`).join('')}
+        ${this.plan.added.length > 0 ? `
+          <div class="import-section">New prompts</div>
+          <ul class="import-added">
+            ${this.plan.added.map(item => `<li>${this.escapeHtml(item.title)}</li>`).join('')}
+          </ul>
+        ` : ''}
+        ${this.plan.conflicts.length > 0 ? `
+          <div class="import-section">
+            Conflicts
+            <span class="import-bulk">
+              ${(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => `
+                <button type="button" data-all="${resolution}">${RESOLUTION_LABELS[resolution]}</button>
+              `).join('')}
+            </span>
+          </div>
+          ${this.plan.conflicts.map((_, index) => this.renderConflict(index)).join('')}
+        ` : ''}
+        <div class="import-actions">
+          <button type="button" class="import-btn secondary" data-action="cancel">Cancel</button>
+          <button type="button" class="import-btn primary" data-action="import">Import</button>
+        </div>
+      </div>
+    `
+    document.body.appendChild(this.overlay)
+    this.setupEvents()
+
+    return new Promise(resolve => {
+      this.resolve = resolve
+    })
+  }
+
+  private renderConflict(index: number): string {
+    const conflict = this.plan.conflicts[index]
+    const changes = PromptRevisions.compare(conflict.mine, conflict.theirs)
+
+    return `
+      <div class="import-conflict">
+        <div class="import-title">${this.escapeHtml(conflict.mine.title)}</div>
+        <div class="import-match">
+          ${conflict.matchedBy === 'id' ? 'Same prompt' : 'Same wording'}, different ${changes.map(change => change.label.toLowerCase()).join(', ')}
+        </div>
+        <details>
+          <summary>Show differences</summary>
+          ${changes.map(change => `
+            <div class="import-field">${change.label}</div>
+            <div class="import-diff">${change.ops.map(op => {
+              const text = this.escapeHtml(op.text)
+              return op.type === 'insert' ? `<ins>${text}</ins>` : op.type === 'delete' ? `<del>${text}</del>` : text
+            }).join('')}</div>
+          `).join('')}
+        </details>
+        <div class="import-choices">
+          ${(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => `
+            <label>
+              <input type="radio" name="conflict-${index}" value="${resolution}" ${this.resolutions[index] === resolution ? 'checked' : ''}>
+              ${RESOLUTION_LABELS[resolution]}
+            </label>
+          `).join('')}
+        </div>
+      </div>
+    `
+  }
+
+  private setupEvents(): void {
+    if (!this.overlay) return
+
+    this.overlay.addEventListener('change', (e) => {
+      const radio = e.target as HTMLInputElement
+      const match = radio.name.match(/^conflict-(\d+)$/)
+      if (match) this.resolutions[Number(match[1])] = radio.value as ConflictResolution
+    })
+
+    this.overlay.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement
+      const all = target.closest<HTMLElement>('[data-all]')
+      if (all) {
+        this.resolutions = this.resolutions.map(() => all.dataset.all as ConflictResolution)
+        this.overlay?.querySelectorAll<HTMLInputElement>(`input[value="${all.dataset.all}"]`).forEach(radio => {
+          radio.checked = true
+        })
+      } else if (target.closest('[data-action="import"]')) {
+        this.close(this.resolutions)
+      } else if (target === this.overlay || target.closest('[data-action="cancel"]')) {
+        this.close(null)
+      }
+    })
+
+    this.overlay.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') this.close(null)
+    })
+  }
+
+  private close(resolutions: ConflictResolution[] | null): void {
+    this.overlay?.remove()
+    this.overlay = null
+    this.resolve?.(resolutions)
+    this.resolve = null
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div')
+    div.textContent = text
+    return div.innerHTML.replace(/"/g, '&quot;')
+  }
+
+  private addPreviewStyles(): void {
+    if (document.getElementById('perfect-prompts-import-styles')) return
+
+    const styles = document.createElement('style')
+    styles.id = 'perfect-prompts-import-styles'
+    styles.textContent = `
+      .perfect-prompts-import-overlay {
+        position: fixed;
+        inset: 0;
+        z-index: 2147483647;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        background: rgba(0, 0, 0, 0.5);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+      }
+
+      .perfect-prompts-import-overlay .import-dialog {
+        width: 90%;
+        max-width: 640px;
+        max-height: 85vh;
+        overflow-y: auto;
+        background: white;
+        color: #1e293b;
+        border-radius: 12px;
+        box-shadow: 0 20px 40px rgba(0, 0, 0, 0.2);
+        padding: 20px;
+        box-sizing: border-box;
+      }
+
+      .perfect-prompts-import-overlay .import-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        margin-bottom: 8px;
+      }
+
+      .perfect-prompts-import-overlay h3 {
+        margin: 0;
+        font-size: 18px;
+        font-weight: 600;
+      }
+
+      .perfect-prompts-import-overlay .import-close {
+        background: none;
+        border: none;
+        font-size: 24px;
+        line-height: 1;
+        color: #64748b;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-import-overlay .import-summary {
+        margin: 4px 0;
+        font-size: 14px;
+        color: #475569;
+      }
+
+      .perfect-prompts-import-overlay .import-section {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        margin-top: 16px;
+        font-size: 12px;
+        font-weight: 500;
+        color: #64748b;
+        text-transform: uppercase;
+        letter-spacing: 0.04em;
+      }
+
+      .perfect-prompts-import-overlay .import-bulk button {
+        font-size: 12px;
+        text-transform: none;
+        letter-spacing: 0;
+        background: none;
+        border: none;
+        color: #4f46e5;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-import-overlay .import-added {
+        margin: 6px 0 0;
+        padding-left: 20px;
+        font-size: 14px;
+      }
+
+      .perfect-prompts-import-overlay .import-conflict {
+        margin-top: 8px;
+        padding: 10px 12px;
+        border: 1px solid #e2e8f0;
+        border-radius: 8px;
+      }
+
+      .perfect-prompts-import-overlay .import-title {
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .perfect-prompts-import-overlay .import-match {
+        font-size: 12px;
+        color: #64748b;
+      }
+
+      .perfect-prompts-import-overlay details {
+        margin-top: 6px;
+        font-size: 13px;
+      }
+
+      .perfect-prompts-import-overlay summary {
+        cursor: pointer;
+        color: #4f46e5;
+      }
+
+      .perfect-prompts-import-overlay .import-field {
+        margin-top: 8px;
+        font-size: 12px;
+        color: #64748b;
+      }
+
+      .perfect-prompts-import-overlay .import-diff {
+        margin-top: 2px;
+        padding: 8px;
+        background: #f8fafc;
+        border-radius: 6px;
+        line-height: 1.5;
+        white-space: pre-wrap;
+      }
+
+      .perfect-prompts-import-overlay .import-diff del {
+        background: #fee2e2;
+        color: #991b1b;
+      }
+
+      .perfect-prompts-import-overlay .import-diff ins {
+        background: #dcfce7;
+        color: #166534;
+        text-decoration: none;
+      }
+
+      .perfect-prompts-import-overlay .import-choices {
+        display: flex;
+        gap: 16px;
+        margin-top: 8px;
+        font-size: 13px;
+      }
+
+      .perfect-prompts-import-overlay .import-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 8px;
+        margin-top: 16px;
+      }
+
+      .perfect-prompts-import-overlay .import-btn {
+        font-size: 14px;
+        font-weight: 500;
+        border: none;
+        border-radius: 8px;
+        padding: 8px 16px;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-import-overlay .import-btn.primary {
+        background: #1a1a1a;
+        color: white;
+      }
+
+      .perfect-prompts-import-overlay .import-btn.secondary {
+        background: #f1f5f9;
+        color: #334155;
+      }
+    `
+
+    document.head.appendChild(styles)
+  }
+}
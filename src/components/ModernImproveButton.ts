@@ -1,15 +1,19 @@
 import { ModernPromptModal } from './ModernPromptModal'
 import { BackendProvider } from '../utils/backendProvider'
+import { LintIssue } from '../utils/promptLinter'
 
 export class ModernImproveButton {
   private button: HTMLElement | null = null
   private targetElement: HTMLElement | null = null
   private modal: ModernPromptModal | null = null
+  private lintIssues: LintIssue[] = []
+  private onDismissLint: ((ruleId: string) => void) | null = null
 
   constructor(targetElement: HTMLElement) {
     this.targetElement = targetElement
     this.createButton()
     this.attachToTarget()
+    this.setupShortcut()
   }
 
   private createButton(): void {
@@ -26,7 +30,9 @@ export class ModernImproveButton {
         </div>
         <span class="improve-text">Improve</span>
         <div class="improve-shortcut">⇧⌘I</div>
+        <span class="improve-lint-badge" title="Prompt hints"></span>
       </div>
+      <div class="improve-lint-panel"></div>
       <div class="improve-tooltip">
         <div class="tooltip-content">
           <strong>Perfect AI Prompts</strong>
@@ -42,6 +48,7 @@ export class ModernImproveButton {
 
     this.addButtonStyles()
     this.setupButtonEvents()
+    this.renderLintIssues()
   }
 
   private attachToTarget(): void {
@@ -79,7 +86,17 @@ export class ModernImproveButton {
     this.button.addEventListener('click', (e) => {
       e.preventDefault()
       e.stopPropagation()
-      this.handleImproveClick()
+
+      // The hint badge and panel have their own actions
+      const target = e.target as HTMLElement
+      const dismiss = target.closest<HTMLElement>('.lint-dismiss')
+      if (dismiss) {
+        this.onDismissLint?.(dismiss.dataset.rule!)
+      } else if (target.closest('.improve-lint-badge')) {
+        this.button?.classList.toggle('lint-open')
+      } else if (!target.closest('.improve-lint-panel')) {
+        this.improve()
+      }
     })
 
     // Hover effects
@@ -90,19 +107,23 @@ export class ModernImproveButton {
     this.button.addEventListener('mouseleave', () => {
       this.button?.classList.remove('hovered')
     })
+  }
 
+  // Registered once per target; the button element itself is recreated after hiding
+  private setupShortcut(): void {
     // Keyboard shortcut (Ctrl+Shift+I or Cmd+Shift+I)
     document.addEventListener('keydown', (e) => {
       if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'i') {
         if (this.isTargetActive()) {
           e.preventDefault()
-          this.handleImproveClick()
+          this.improve()
         }
       }
     })
   }
 
-  private async handleImproveClick(): Promise<void> {
+  // Opens the improve dialog for the target's text
+  public async improve(): Promise<void> {
     if (!this.targetElement) return
 
     // Get text from target element
@@ -121,7 +142,7 @@ export class ModernImproveButton {
     this.hide()
     
     try {
-      this.modal = new ModernPromptModal()
+      this.modal = new ModernPromptModal(this.targetElement)
       await this.modal.show(text)
     } catch (error: any) {
       this.showNotification(`Error: ${error.message}`, 'error')
@@ -174,21 +195,61 @@ export class ModernImproveButton {
     }, 4000)
   }
 
+  // Live lint results for the target; the badge shows their count and opens the list
+  public setLintIssues(issues: LintIssue[], onDismiss: (ruleId: string) => void): void {
+    this.lintIssues = issues
+    this.onDismissLint = onDismiss
+    this.renderLintIssues()
+  }
+
+  private renderLintIssues(): void {
+    const badge = this.button?.querySelector<HTMLElement>('.improve-lint-badge')
+    const panel = this.button?.querySelector<HTMLElement>('.improve-lint-panel')
+    if (!badge || !panel) return
+
+    const count = this.lintIssues.length
+    badge.textContent = String(count)
+    badge.title = `${count} prompt ${count === 1 ? 'hint' : 'hints'}`
+    this.button!.classList.toggle('has-lint', count > 0)
+    if (count === 0) this.button!.classList.remove('lint-open')
+
+    panel.innerHTML = this.lintIssues.map(issue => `
+      <div class="lint-issue ${issue.category}">
+        <span class="lint-message">${this.escapeHtml(issue.message)}</span>
+        <button class="lint-dismiss" data-rule="${this.escapeHtml(issue.ruleId)}" title="Stop showing this hint">Dismiss</button>
+      </div>
+    `).join('')
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div')
+    div.textContent = text
+    return div.innerHTML
+  }
+
   public show(): void {
-    if (this.button) {
-      this.button.style.display = 'block'
-      requestAnimationFrame(() => {
-        this.button?.classList.add('show')
-      })
+    // Hiding removes the button, so bring it back if needed
+    if (!this.button) {
+      this.createButton()
+      this.attachToTarget()
+      return
     }
+
+    this.button.style.display = 'block'
+    requestAnimationFrame(() => {
+      this.button?.classList.add('show')
+    })
   }
 
   public hide(): void {
-    if (this.button) {
-      this.button.classList.remove('show')
+    const button = this.button
+    if (button) {
+      button.classList.remove('show')
       setTimeout(() => {
-        this.button?.remove()
-        this.button = null
+        // Shown again while fading out
+        if (button.classList.contains('show')) return
+        button.remove()
+        if (this.button === button) this.button = null
       }, 300)
     }
   }
@@ -340,6 +401,88 @@ export class ModernImproveButton {
         gap: 8px;
       }
 
+      .perfect-prompts-improve-btn .improve-lint-badge {
+        display: none;
+        min-width: 18px;
+        height: 18px;
+        padding: 0 5px;
+        border-radius: 9px;
+        background: #f59e0b;
+        color: #1a1a1a;
+        font-size: 11px;
+        font-weight: 600;
+        line-height: 18px;
+        text-align: center;
+        box-sizing: border-box;
+      }
+
+      .perfect-prompts-improve-btn.has-lint .improve-lint-badge {
+        display: inline-block;
+      }
+
+      .perfect-prompts-improve-btn .improve-lint-panel {
+        display: none;
+        position: absolute;
+        top: 100%;
+        right: 0;
+        margin-top: 8px;
+        width: 300px;
+        background: white;
+        border: 1px solid #e2e8f0;
+        border-radius: 12px;
+        box-shadow: 0 20px 40px rgba(0, 0, 0, 0.15);
+        padding: 8px;
+        cursor: default;
+      }
+
+      .perfect-prompts-improve-btn.lint-open .improve-lint-panel {
+        display: block;
+      }
+
+      .perfect-prompts-improve-btn.lint-open .improve-tooltip {
+        display: none;
+      }
+
+      .perfect-prompts-improve-btn .lint-issue {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px;
+        border-left: 3px solid #f59e0b;
+        border-radius: 6px;
+      }
+
+      .perfect-prompts-improve-btn .lint-issue.specificity {
+        border-left-color: #3b82f6;
+      }
+
+      .perfect-prompts-improve-btn .lint-issue.structure,
+      .perfect-prompts-improve-btn .lint-issue.examples {
+        border-left-color: #8b5cf6;
+      }
+
+      .perfect-prompts-improve-btn .lint-message {
+        flex: 1;
+        font-size: 13px;
+        color: #1e293b;
+        line-height: 1.4;
+      }
+
+      .perfect-prompts-improve-btn .lint-dismiss {
+        font-size: 11px;
+        color: #64748b;
+        background: none;
+        border: 1px solid #e2e8f0;
+        border-radius: 4px;
+        padding: 2px 6px;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-improve-btn .lint-dismiss:hover {
+        color: #1e293b;
+        border-color: #cbd5e1;
+      }
+
       .perfect-prompts-notification {
         position: fixed;
         top: 20px;
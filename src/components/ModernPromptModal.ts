@@ -1,15 +1,58 @@
+import { PromptAnalysis, PromptDiff, PromptEdit, PromptScoreComparison, ScoreDimension } from '@/types'
+import { PromptScorer } from '../../backend/src/contract/promptScore'
+import { PromptTemplates } from '../../backend/src/contract/promptTemplate'
 import { BackendProvider } from '../utils/backendProvider'
+import { PromptImprover } from '../utils/promptImprover'
+import { TemplateForm } from './TemplateForm'
+
+const CATEGORY_LABELS: Record<PromptDiff['category'], string> = {
+  persona: 'Persona',
+  format: 'Format',
+  examples: 'Examples',
+  structure: 'Structure',
+  clarity: 'Clarity',
+  specificity: 'Specificity'
+}
+
+const DIMENSION_LABELS: Record<ScoreDimension, string> = {
+  clarity: 'Clarity',
+  specificity: 'Specificity',
+  context: 'Context',
+  constraints: 'Constraints',
+  format: 'Format',
+  examples: 'Examples'
+}
 
 export class ModernPromptModal {
   private modal: HTMLElement | null = null
   private isProcessing = false
+  private abortController: AbortController | null = null
+  private analysisRequest = 0
+  private edits: PromptEdit[] = []
+  private acceptedEdits = new Set<string>()
+  private scores: PromptScoreComparison | null = null
+  private targetElement: HTMLElement | null
+
+  // The input the improved prompt goes back into; defaults to whatever has focus when applying
+  constructor(targetElement: HTMLElement | null = null) {
+    this.targetElement = targetElement
+  }
 
-  public async show(originalText: string, improvedText?: string, analysis?: any) {
-    this.modal = this.createModal(originalText, improvedText, analysis)
+  public async show(originalText: string, improvedText?: string, analysis?: PromptAnalysis) {
+    this.modal = this.createModal(originalText, improvedText)
     document.body.appendChild(this.modal)
     
     this.setupEventListeners()
     this.addModernStyles()
+
+    if (improvedText) {
+      this.renderChanges(improvedText)
+      this.setupReview(improvedText)
+    }
+
+    if (analysis) {
+      this.renderAnalysis(analysis)
+    }
     
     // Animate in
     requestAnimationFrame(() => {
@@ -22,7 +65,7 @@ export class ModernPromptModal {
     }
   }
 
-  private createModal(originalText: string, improvedText?: string, analysis?: any): HTMLElement {
+  private createModal(originalText: string, improvedText?: string): HTMLElement {
     const modal = document.createElement('div')
     modal.className = 'perfect-prompts-modal'
     modal.innerHTML = `
@@ -68,10 +111,9 @@ export class ModernPromptModal {
             <div class="prompt-section improved">
               <div class="section-header">
                 <span class="section-label">Enhanced Prompt</span>
-                <div class="enhancement-indicators">
-                  <span class="improvement-badge clarity">Clarity</span>
-                  <span class="improvement-badge structure">Structure</span>
-                  <span class="improvement-badge context">Context</span>
+                <div class="section-tools">
+                  <div class="enhancement-indicators"></div>
+                  <button class="diff-toggle" data-action="toggle-diff" style="display: none">Show result</button>
                 </div>
               </div>
               <div class="prompt-content">
@@ -83,31 +125,23 @@ export class ModernPromptModal {
             </div>
           </div>
 
-          <div class="analysis-section" style="display: ${analysis ? 'block' : 'none'}">
-            <h3>Enhancement Analysis</h3>
-            <div class="analysis-grid">
-              <div class="analysis-item">
-                <span class="analysis-label">Clarity Score</span>
-                <div class="score-bar">
-                  <div class="score-fill" style="width: 85%"></div>
-                </div>
-                <span class="score-text">85%</span>
-              </div>
-              <div class="analysis-item">
-                <span class="analysis-label">Specificity</span>
-                <div class="score-bar">
-                  <div class="score-fill" style="width: 78%"></div>
-                </div>
-                <span class="score-text">78%</span>
-              </div>
-              <div class="analysis-item">
-                <span class="analysis-label">Structure</span>
-                <div class="score-bar">
-                  <div class="score-fill" style="width: 92%"></div>
-                </div>
-                <span class="score-text">92%</span>
+          <div class="changes-section" style="display: none">
+            <div class="changes-header">
+              <h3>Suggested Changes</h3>
+              <div class="changes-actions">
+                <button class="link-btn" data-action="accept-all">Accept all</button>
+                <button class="link-btn" data-action="reject-all">Reject all</button>
               </div>
             </div>
+            <ul class="changes-list"></ul>
+          </div>
+
+          <div class="analysis-section" style="display: none">
+            <div class="analysis-header">
+              <h3>Enhancement Analysis</h3>
+              <span class="analysis-source"></span>
+            </div>
+            <div class="analysis-body"></div>
           </div>
 
           <div class="usage-info">
@@ -163,10 +197,19 @@ export class ModernPromptModal {
   }
 
   private async improvePrompt(originalText: string) {
+    // Only one enhancement in flight at a time
+    this.abortController?.abort()
+    const controller = new AbortController()
+    this.abortController = controller
+    this.resetAnalysis()
+
     try {
       this.setProcessingState(true)
       
-      const result = await BackendProvider.improvePrompt(originalText)
+      const result = await BackendProvider.improvePromptStream(originalText, {
+        signal: controller.signal,
+        onToken: (_token, improvedSoFar) => this.updateImprovedContent(improvedSoFar, true)
+      })
       
       if (result.error) {
         this.showUpgradeRequired(result.usage)
@@ -175,41 +218,321 @@ export class ModernPromptModal {
 
       this.updateImprovedContent(result.improvedPrompt)
       this.updateUsageInfo(result.usage)
+
+      if (!controller.signal.aborted) {
+        this.loadAnalysis(originalText, result.improvedPrompt)
+      }
       
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        if (this.abortController === controller) this.showCancelled()
+        return
+      }
       this.showError(error.message)
     } finally {
-      this.setProcessingState(false)
+      if (this.abortController === controller) {
+        this.abortController = null
+        this.setProcessingState(false)
+      }
     }
   }
 
+  private cancelImprovement() {
+    this.abortController?.abort()
+  }
+
   private setProcessingState(processing: boolean) {
     this.isProcessing = processing
     const improvedSection = this.modal?.querySelector('.improved .prompt-content')
     
+    if (processing) {
+      this.resetChanges()
+      this.resetReview()
+    }
+
     if (processing && improvedSection) {
       improvedSection.innerHTML = `
         <div class="loading-content">
           <div class="spinner"></div>
           <p>Enhancing your prompt...</p>
+          <button class="cancel-btn" data-action="cancel">Cancel</button>
         </div>
       `
     }
   }
 
-  private updateImprovedContent(improvedText: string) {
+  private updateImprovedContent(improvedText: string, streaming = false) {
     const improvedSection = this.modal?.querySelector('.improved .prompt-content')
+
+    // While streaming, update the text in place instead of re-rendering
+    const existing = improvedSection?.querySelector('.text-area.enhanced.streaming')
+    if (streaming && existing) {
+      existing.textContent = improvedText
+      return
+    }
+
     if (improvedSection) {
-      improvedSection.innerHTML = `
+      improvedSection.innerHTML = streaming ? `
+        <div class="text-area enhanced streaming" data-content="improved">${this.escapeHtml(improvedText)}</div>
+        <button class="cancel-btn" data-action="cancel">Stop</button>
+      ` : `
         <div class="text-area enhanced" data-content="improved">${this.escapeHtml(improvedText)}</div>
       `
     }
 
-    // Show analysis section
-    const analysisSection = this.modal?.querySelector('.analysis-section') as HTMLElement
-    if (analysisSection) {
-      analysisSection.style.display = 'block'
+    if (!streaming) {
+      this.renderChanges(improvedText)
+      this.setupReview(improvedText)
+    }
+  }
+
+  // Lists each change of the enhancement so it can be accepted or rejected on its own
+  private setupReview(improvedText: string) {
+    const originalText = this.modal?.querySelector('[data-content="original"]')?.textContent || ''
+    const section = this.modal?.querySelector('.changes-section') as HTMLElement
+    const list = section?.querySelector('.changes-list')
+    if (!section || !list) return
+
+    this.edits = PromptImprover.editsFromDiff(originalText, improvedText)
+    this.acceptedEdits = new Set(this.edits.map(edit => edit.id))
+
+    if (this.edits.length === 0) {
+      section.style.display = 'none'
+      return
+    }
+
+    list.innerHTML = this.edits.map(edit => {
+      const removed = originalText.slice(edit.range[0], edit.range[1])
+      return `
+        <li>
+          <label class="change-item">
+            <input type="checkbox" data-edit-id="${edit.id}" checked>
+            <span class="improvement-badge ${edit.category}">${CATEGORY_LABELS[edit.category]}</span>
+            <span class="change-body">
+              <span class="change-label">${this.escapeHtml(edit.label)}</span>
+              <span class="change-preview">
+                ${removed.trim() ? `<del>${this.escapeHtml(this.truncate(removed))}</del>` : ''}
+                ${edit.text.trim() ? `<ins>${this.escapeHtml(this.truncate(edit.text))}</ins>` : ''}
+              </span>
+            </span>
+          </label>
+        </li>
+      `
+    }).join('')
+
+    section.style.display = 'block'
+  }
+
+  private setEditAccepted(ids: string[], accepted: boolean) {
+    for (const id of ids) {
+      if (accepted) this.acceptedEdits.add(id)
+      else this.acceptedEdits.delete(id)
+
+      const checkbox = this.modal?.querySelector(`[data-edit-id="${id}"]`) as HTMLInputElement
+      if (checkbox) checkbox.checked = accepted
+    }
+    this.updateMergedPrompt()
+  }
+
+  // Rebuilds the enhanced prompt from the accepted changes only
+  private updateMergedPrompt() {
+    const originalText = this.modal?.querySelector('[data-content="original"]')?.textContent || ''
+    const enhanced = this.modal?.querySelector('[data-content="improved"]')
+    if (!enhanced) return
+
+    const merged = PromptImprover.applyEdits(originalText, this.edits, this.acceptedEdits)
+    enhanced.textContent = merged
+    this.renderChanges(merged)
+
+    if (this.scores) {
+      this.scores = { ...this.scores, improved: PromptScorer.score(merged) }
+      this.renderScores()
+    }
+  }
+
+  private resetReview() {
+    this.edits = []
+    this.acceptedEdits.clear()
+    const section = this.modal?.querySelector('.changes-section') as HTMLElement
+    if (section) section.style.display = 'none'
+  }
+
+  private truncate(text: string, max = 80): string {
+    const flat = text.replace(/\s+/g, ' ').trim()
+    return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat
+  }
+
+  // Inline word diff of the enhancement, shown instead of the plain result until toggled
+  private renderChanges(improvedText: string) {
+    const originalText = this.modal?.querySelector('[data-content="original"]')?.textContent || ''
+    const improvedSection = this.modal?.querySelector('.improved .prompt-content')
+    const indicators = this.modal?.querySelector('.enhancement-indicators')
+    const toggle = this.modal?.querySelector('.diff-toggle') as HTMLElement
+    if (!improvedSection) return
+
+    const { ops, hunks, diffs } = PromptImprover.generateInlineDiff(originalText, improvedText)
+
+    if (indicators) {
+      const categories = Array.from(new Set(diffs.map(diff => diff.category)))
+      indicators.innerHTML = categories.length
+        ? categories.map(category => `<span class="improvement-badge ${category}">${CATEGORY_LABELS[category]}</span>`).join('')
+        : '<span class="improvement-badge unchanged">No changes</span>'
+    }
+
+    if (hunks.length === 0) return
+
+    let html = ''
+    let next = 0
+    hunks.forEach((hunk, index) => {
+      for (; next < hunk.ops[0]; next++) html += this.escapeHtml(ops[next].text)
+      next = hunk.ops[1] + 1
+
+      const diff = diffs[index]
+      html += `<span class="diff-hunk ${diff.category}" title="${this.escapeHtml(diff.reason)}">`
+      if (diff.type !== 'addition') html += `<del>${this.escapeHtml(diff.original)}</del>`
+      if (diff.type !== 'deletion') html += `<ins>${this.escapeHtml(diff.improved)}</ins>`
+      html += '</span>'
+    })
+    for (; next < ops.length; next++) html += this.escapeHtml(ops[next].text)
+
+    improvedSection.querySelector('.diff-view')?.remove()
+    improvedSection.insertAdjacentHTML('beforeend', `<div class="text-area diff-view">${html}</div>`)
+    this.showChanges(true)
+
+    if (toggle) toggle.style.display = 'inline-block'
+  }
+
+  private showChanges(show: boolean) {
+    const enhanced = this.modal?.querySelector('.text-area.enhanced') as HTMLElement
+    const diffView = this.modal?.querySelector('.text-area.diff-view') as HTMLElement
+    const toggle = this.modal?.querySelector('.diff-toggle') as HTMLElement
+    if (!enhanced || !diffView) return
+
+    enhanced.style.display = show ? 'none' : 'block'
+    diffView.style.display = show ? 'block' : 'none'
+    if (toggle) toggle.textContent = show ? 'Show result' : 'Show changes'
+  }
+
+  private resetChanges() {
+    const indicators = this.modal?.querySelector('.enhancement-indicators')
+    const toggle = this.modal?.querySelector('.diff-toggle') as HTMLElement
+    if (indicators) indicators.innerHTML = ''
+    if (toggle) toggle.style.display = 'none'
+  }
+
+  // Reasons for the enhancement on screen: structured LLM analysis, or the local rules as fallback
+  private async loadAnalysis(originalText: string, improvedText: string) {
+    const request = ++this.analysisRequest
+    const section = this.modal?.querySelector('.analysis-section') as HTMLElement
+    const body = section?.querySelector('.analysis-body')
+    if (!section || !body) return
+
+    section.style.display = 'block'
+    body.innerHTML = '<div class="analysis-loading"><div class="spinner small"></div><span>Analysing changes...</span></div>'
+
+    const analysis = await BackendProvider.analyzePrompt(originalText, improvedText)
+
+    // Ignore answers for a closed modal or a superseded enhancement
+    if (request !== this.analysisRequest || !this.modal) return
+    this.renderAnalysis(analysis)
+  }
+
+  private resetAnalysis() {
+    this.analysisRequest++
+    this.scores = null
+    const section = this.modal?.querySelector('.analysis-section') as HTMLElement
+    if (section) section.style.display = 'none'
+  }
+
+  private renderAnalysis(analysis: PromptAnalysis) {
+    const section = this.modal?.querySelector('.analysis-section') as HTMLElement
+    const body = section?.querySelector('.analysis-body')
+    const source = section?.querySelector('.analysis-source')
+    if (!section || !body) return
+
+    const categories: Array<[keyof PromptAnalysis['improvements'], string]> = [
+      ['clarity', 'Clarity'],
+      ['specificity', 'Specificity'],
+      ['structure', 'Structure'],
+      ['examples', 'Examples']
+    ]
+    const confidence = Math.round(Math.min(1, Math.max(0, analysis.confidence)) * 100)
+
+    const reasons = categories
+      .filter(([key]) => analysis.improvements[key]?.length)
+      .map(([key, label]) => `
+        <div class="analysis-category">
+          <span class="analysis-label">${label}</span>
+          <ul class="analysis-reasons">
+            ${analysis.improvements[key].map(reason => `<li>${this.escapeHtml(reason)}</li>`).join('')}
+          </ul>
+        </div>
+      `).join('')
+
+    const suggestions = [
+      analysis.suggestedPersona && `<div class="analysis-suggestion"><span class="analysis-label">Persona</span><span>${this.escapeHtml(analysis.suggestedPersona)}</span></div>`,
+      analysis.suggestedFormat && `<div class="analysis-suggestion"><span class="analysis-label">Format</span><span>${this.escapeHtml(analysis.suggestedFormat)}</span></div>`
+    ].filter(Boolean).join('')
+
+    body.innerHTML = `
+      <div class="analysis-grid">
+        <div class="analysis-item">
+          <span class="analysis-label">Confidence</span>
+          <div class="score-bar">
+            <div class="score-fill" style="width: ${confidence}%"></div>
+          </div>
+          <span class="score-text">${confidence}%</span>
+        </div>
+      </div>
+      <div class="quality-scores"></div>
+      ${reasons || '<p class="analysis-empty">No specific issues found in the original prompt.</p>'}
+      ${suggestions}
+    `
+
+    // The after side follows the enhancement on screen, which may differ from the analysed one
+    const enhanced = this.modal?.querySelector('[data-content="improved"]:not(.streaming)')?.textContent
+    const scores = analysis.scores || PromptScorer.compare(analysis.originalText, analysis.improvedPrompt)
+    this.scores = enhanced ? { ...scores, improved: PromptScorer.score(enhanced) } : scores
+    this.renderScores()
+
+    if (source) {
+      source.textContent = analysis.source === 'rules' ? 'Quick check' : 'AI analysis'
     }
+    section.style.display = 'block'
+  }
+
+  // Quality before and after the enhancement, per dimension with the reason for each score
+  private renderScores() {
+    const container = this.modal?.querySelector('.quality-scores')
+    if (!container || !this.scores) return
+
+    const { original, improved } = this.scores
+    const delta = (before: number, after: number) => after === before
+      ? ''
+      : `<span class="score-delta ${after > before ? 'up' : 'down'}">${after > before ? '+' : ''}${after - before}</span>`
+
+    container.innerHTML = `
+      <div class="quality-overall">
+        <span class="analysis-label">Quality</span>
+        <span class="quality-value">${original.overall} → ${improved.overall}</span>
+        ${delta(original.overall, improved.overall)}
+      </div>
+      ${(Object.keys(DIMENSION_LABELS) as ScoreDimension[]).map(dimension => {
+        const before = original.dimensions[dimension]
+        const after = improved.dimensions[dimension]
+        return `
+          <div class="quality-dimension" title="${this.escapeHtml(before.explanation)}">
+            <span class="quality-label">${DIMENSION_LABELS[dimension]}</span>
+            <div class="score-bar compare">
+              <div class="score-fill after" style="width: ${after.score}%"></div>
+              <div class="score-fill before" style="width: ${before.score}%"></div>
+            </div>
+            <span class="quality-numbers">${before.score} → ${after.score}</span>
+            <span class="quality-explanation">${this.escapeHtml(after.explanation)}</span>
+          </div>
+        `
+      }).join('')}
+    `
   }
 
   private updateUsageInfo(usage: any) {
@@ -255,6 +578,18 @@ export class ModernPromptModal {
     }
   }
 
+  private showCancelled() {
+    const improvedSection = this.modal?.querySelector('.improved .prompt-content')
+    if (improvedSection) {
+      improvedSection.innerHTML = `
+        <div class="error-content">
+          <p>Enhancement cancelled</p>
+          <button class="retry-btn" data-action="retry">Try Again</button>
+        </div>
+      `
+    }
+  }
+
   private setupEventListeners() {
     if (!this.modal) return
 
@@ -282,6 +617,38 @@ export class ModernPromptModal {
       }
     })
 
+    // Accept or reject individual changes
+    this.modal.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement
+      if (target.dataset.editId) {
+        this.setEditAccepted([target.dataset.editId], target.checked)
+      }
+    })
+
+    this.modal.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement
+      if (target.dataset.action === 'accept-all' || target.dataset.action === 'reject-all') {
+        this.setEditAccepted(this.edits.map(edit => edit.id), target.dataset.action === 'accept-all')
+      }
+    })
+
+    // Switch between the inline diff and the plain result
+    this.modal.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement
+      if (target.dataset.action === 'toggle-diff') {
+        const diffView = this.modal?.querySelector('.text-area.diff-view') as HTMLElement
+        this.showChanges(diffView?.style.display === 'none')
+      }
+    })
+
+        // Cancel a running enhancement
+    this.modal.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement
+      if (target.dataset.action === 'cancel') {
+        this.cancelImprovement()
+      }
+    })
+
     // Retry
     this.modal.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
@@ -299,6 +666,7 @@ export class ModernPromptModal {
   }
 
   private copyEnhancedPrompt() {
+    if (this.isProcessing) return
     const improvedText = this.modal?.querySelector('[data-content="improved"]')?.textContent
     if (improvedText) {
       navigator.clipboard.writeText(improvedText).then(() => {
@@ -307,19 +675,27 @@ export class ModernPromptModal {
     }
   }
 
-  private applyEnhancement() {
+  private async applyEnhancement() {
+    if (this.isProcessing) return
     const improvedText = this.modal?.querySelector('[data-content="improved"]')?.textContent
     if (improvedText) {
-      // Apply to original input field
-      this.replaceOriginalText(improvedText)
       this.close()
+
+      // Template fields such as the context scaffold are filled in first
+      const rendered = PromptTemplates.hasVariables(improvedText)
+        ? await new TemplateForm(improvedText).open('Apply')
+        : improvedText
+      if (rendered === null) return
+
+      // Apply to original input field
+      this.replaceOriginalText(rendered)
       this.showNotification('Enhancement applied successfully!')
     }
   }
 
   private replaceOriginalText(newText: string) {
-    // Find the active input field and replace its content
-    const activeElement = document.activeElement as HTMLElement
+    // Find the input field and replace its content
+    const activeElement = (this.targetElement ?? document.activeElement) as HTMLElement
     if (activeElement && (activeElement.tagName === 'TEXTAREA' || activeElement.getAttribute('contenteditable'))) {
       if (activeElement.tagName === 'TEXTAREA') {
         (activeElement as HTMLTextAreaElement).value = newText
@@ -355,6 +731,9 @@ export class ModernPromptModal {
   public close() {
     if (!this.modal) return
 
+    this.cancelImprovement()
+    this.analysisRequest++
+
     this.modal.classList.add('hiding')
     setTimeout(() => {
       this.modal?.remove()
@@ -559,6 +938,67 @@ export class ModernPromptModal {
         color: #7c3aed;
       }
 
+      .perfect-prompts-modal .improvement-badge.persona {
+        background: #dcfce7;
+        color: #166534;
+      }
+
+      .perfect-prompts-modal .improvement-badge.format {
+        background: #e0f2fe;
+        color: #0369a1;
+      }
+
+      .perfect-prompts-modal .improvement-badge.examples {
+        background: #fce7f3;
+        color: #9d174d;
+      }
+
+      .perfect-prompts-modal .improvement-badge.specificity {
+        background: #f3e8ff;
+        color: #7c3aed;
+      }
+
+      .perfect-prompts-modal .improvement-badge.unchanged {
+        background: #f1f5f9;
+        color: #64748b;
+      }
+
+      .perfect-prompts-modal .section-tools {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+      }
+
+      .perfect-prompts-modal .diff-toggle {
+        font-size: 12px;
+        color: #16a34a;
+        background: none;
+        border: none;
+        padding: 0;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-modal .diff-toggle:hover {
+        text-decoration: underline;
+      }
+
+      .perfect-prompts-modal .diff-view del {
+        background: #fee2e2;
+        color: #991b1b;
+        text-decoration: line-through;
+      }
+
+      .perfect-prompts-modal .diff-view ins {
+        background: #dcfce7;
+        color: #166534;
+        text-decoration: none;
+      }
+
+      .perfect-prompts-modal .diff-hunk {
+        border-radius: 3px;
+        cursor: help;
+      }
+
       .perfect-prompts-modal .text-area {
         background: white;
         border: 1px solid #e2e8f0;
@@ -663,12 +1103,149 @@ export class ModernPromptModal {
         margin-bottom: 24px;
       }
 
+      .perfect-prompts-modal .changes-section {
+        border: 1px solid #e2e8f0;
+        border-radius: 12px;
+        padding: 20px 24px;
+        margin-bottom: 24px;
+      }
+
+      .perfect-prompts-modal .changes-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: baseline;
+        margin-bottom: 12px;
+      }
+
+      .perfect-prompts-modal .changes-header h3 {
+        margin: 0;
+        color: #1e293b;
+        font-size: 16px;
+      }
+
+      .perfect-prompts-modal .changes-actions {
+        display: flex;
+        gap: 12px;
+      }
+
+      .perfect-prompts-modal .link-btn {
+        font-size: 12px;
+        color: #16a34a;
+        background: none;
+        border: none;
+        padding: 0;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-modal .link-btn:hover {
+        text-decoration: underline;
+      }
+
+      .perfect-prompts-modal .changes-list {
+        list-style: none;
+        margin: 0;
+        padding: 0;
+      }
+
+      .perfect-prompts-modal .change-item {
+        display: flex;
+        align-items: flex-start;
+        gap: 10px;
+        padding: 8px 0;
+        border-top: 1px solid #f1f5f9;
+        cursor: pointer;
+        font-size: 13px;
+        color: #334155;
+      }
+
+      .perfect-prompts-modal .change-item input {
+        margin-top: 3px;
+        accent-color: #16a34a;
+      }
+
+      .perfect-prompts-modal .change-body {
+        display: flex;
+        flex-direction: column;
+        gap: 2px;
+        min-width: 0;
+      }
+
+      .perfect-prompts-modal .change-preview {
+        color: #64748b;
+        overflow-wrap: anywhere;
+      }
+
+      .perfect-prompts-modal .change-preview del {
+        color: #991b1b;
+      }
+
+      .perfect-prompts-modal .change-preview ins {
+        color: #166534;
+        text-decoration: none;
+        margin-left: 4px;
+      }
+
+      .perfect-prompts-modal .change-item input:not(:checked) ~ .change-body {
+        opacity: 0.5;
+      }
+
+      .perfect-prompts-modal .analysis-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: baseline;
+        margin-bottom: 20px;
+      }
+
       .perfect-prompts-modal .analysis-section h3 {
-        margin: 0 0 20px;
+        margin: 0;
         color: #1e293b;
         font-size: 16px;
       }
 
+      .perfect-prompts-modal .analysis-source {
+        font-size: 11px;
+        font-weight: 500;
+        color: #64748b;
+        text-transform: uppercase;
+        letter-spacing: 0.04em;
+      }
+
+      .perfect-prompts-modal .analysis-loading {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        color: #64748b;
+        font-size: 14px;
+      }
+
+      .perfect-prompts-modal .spinner.small {
+        width: 16px;
+        height: 16px;
+        border-width: 2px;
+        margin-bottom: 0;
+      }
+
+      .perfect-prompts-modal .analysis-category,
+      .perfect-prompts-modal .analysis-suggestion {
+        display: flex;
+        gap: 12px;
+        margin-top: 16px;
+        font-size: 14px;
+        color: #334155;
+      }
+
+      .perfect-prompts-modal .analysis-reasons {
+        margin: 0;
+        padding-left: 18px;
+        line-height: 1.5;
+      }
+
+      .perfect-prompts-modal .analysis-empty {
+        margin: 16px 0 0;
+        color: #64748b;
+        font-size: 14px;
+      }
+
       .perfect-prompts-modal .analysis-grid {
         display: grid;
         grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
@@ -709,6 +1286,77 @@ export class ModernPromptModal {
         text-align: right;
       }
 
+      .perfect-prompts-modal .quality-scores {
+        margin-top: 20px;
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+      }
+
+      .perfect-prompts-modal .quality-overall {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        font-size: 14px;
+      }
+
+      .perfect-prompts-modal .quality-value {
+        font-weight: 600;
+        color: #1e293b;
+      }
+
+      .perfect-prompts-modal .score-delta {
+        font-size: 12px;
+        font-weight: 600;
+        padding: 2px 6px;
+        border-radius: 4px;
+      }
+
+      .perfect-prompts-modal .score-delta.up {
+        color: #166534;
+        background: #dcfce7;
+      }
+
+      .perfect-prompts-modal .score-delta.down {
+        color: #991b1b;
+        background: #fee2e2;
+      }
+
+      .perfect-prompts-modal .quality-dimension {
+        display: grid;
+        grid-template-columns: 90px 1fr 64px;
+        align-items: center;
+        column-gap: 12px;
+        font-size: 13px;
+        color: #334155;
+      }
+
+      .perfect-prompts-modal .score-bar.compare {
+        position: relative;
+      }
+
+      .perfect-prompts-modal .score-bar.compare .score-fill {
+        position: absolute;
+        top: 0;
+        left: 0;
+      }
+
+      .perfect-prompts-modal .score-fill.before {
+        background: #94a3b8;
+      }
+
+      .perfect-prompts-modal .quality-numbers {
+        text-align: right;
+        font-variant-numeric: tabular-nums;
+        color: #64748b;
+      }
+
+      .perfect-prompts-modal .quality-explanation {
+        grid-column: 2 / -1;
+        font-size: 12px;
+        color: #64748b;
+      }
+
       .perfect-prompts-modal .usage-info {
         display: flex;
         justify-content: space-between;
@@ -855,6 +1503,28 @@ export class ModernPromptModal {
         margin-top: 12px;
       }
 
+      .perfect-prompts-modal .cancel-btn {
+        background: transparent;
+        color: #64748b;
+        padding: 6px 14px;
+        border: 1px solid #e2e8f0;
+        border-radius: 6px;
+        cursor: pointer;
+        font-weight: 500;
+        margin-top: 12px;
+      }
+
+      .perfect-prompts-modal .text-area.enhanced.streaming::after {
+        content: '▍';
+        margin-left: 2px;
+        color: #22c55e;
+        animation: blink 1s steps(1) infinite;
+      }
+
+      @keyframes blink {
+        50% { opacity: 0; }
+      }
+
       .perfect-prompts-notification {
         position: fixed;
         top: 20px;
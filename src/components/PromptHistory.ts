@@ -0,0 +1,337 @@
+import { PromptLibraryItem, PromptRevision } from '@/types'
+import { PromptRevisions } from '../utils/revisions'
+import { StorageManager } from '../utils/storage'
+
+// Version history of a library prompt: edit it with a note, compare any two
+// revisions as a word diff and restore an older one.
+export class PromptHistory {
+  private overlay: HTMLElement | null = null
+  private prompt: PromptLibraryItem
+  private revisions: PromptRevision[] = []
+  // Indexes into `revisions` (newest first) of the pair being compared
+  private older = 1
+  private newer = 0
+  private changed = false
+  private resolve: ((changed: boolean) => void) | null = null
+
+  constructor(prompt: PromptLibraryItem) {
+    this.prompt = prompt
+  }
+
+  // Resolves when closed; true when the prompt was edited or restored
+  public async open(): Promise<boolean> {
+    this.addHistoryStyles()
+    this.overlay = document.createElement('div')
+    this.overlay.className = 'perfect-prompts-history-overlay'
+    document.body.appendChild(this.overlay)
+
+    this.setupEvents()
+    await this.reload()
+
+    return new Promise(resolve => {
+      this.resolve = resolve
+    })
+  }
+
+  private async reload(): Promise<void> {
+    this.revisions = await StorageManager.getRevisions(this.prompt.id)
+    this.newer = 0
+    this.older = Math.min(1, this.revisions.length - 1)
+    this.render()
+  }
+
+  private render(): void {
+    if (!this.overlay) return
+    const current = this.revisions[0]
+
+    this.overlay.innerHTML = `
+      <div class="history-dialog" role="dialog" aria-label="Version history">
+        <div class="history-header">
+          <h3>Version history</h3>
+          <button type="button" class="history-close" data-action="close" aria-label="Close">&times;</button>
+        </div>
+
+        <form class="history-edit">
+          <input type="text" name="title" value="${this.escapeHtml(current?.title ?? this.prompt.title)}" aria-label="Title">
+          <textarea name="improvedPrompt" rows="5" aria-label="Prompt">${this.escapeHtml(current?.improvedPrompt ?? this.prompt.improvedPrompt)}</textarea>
+          <div class="history-edit-row">
+            <input type="text" name="note" placeholder="What did you change?" aria-label="Note">
+            <button type="submit" class="history-btn primary">Save revision</button>
+          </div>
+        </form>
+
+        <div class="history-list">
+          ${this.revisions.map((revision, index) => `
+            <div class="history-entry">
+              <input type="radio" name="older" value="${index}" ${index === this.older ? 'checked' : ''} aria-label="Compare from">
+              <input type="radio" name="newer" value="${index}" ${index === this.newer ? 'checked' : ''} aria-label="Compare to">
+              <div class="history-meta">
+                <div class="history-note">${this.escapeHtml(revision.note)}</div>
+                <div class="history-date">${new Date(revision.createdAt).toLocaleString()}</div>
+              </div>
+              ${index === 0
+                ? '<span class="history-current">Current</span>'
+                : `<button type="button" class="history-btn secondary" data-restore="${index}">Restore</button>`}
+            </div>
+          `).join('')}
+        </div>
+
+        <div class="history-diff">${this.renderDiff()}</div>
+      </div>
+    `
+  }
+
+  private renderDiff(): string {
+    const older = this.revisions[this.older]
+    const newer = this.revisions[this.newer]
+    if (!older || !newer || this.older === this.newer) {
+      return '<p class="history-empty">Choose two different revisions to compare.</p>'
+    }
+
+    const changes = PromptRevisions.compare(older, newer)
+    if (changes.length === 0) return '<p class="history-empty">These revisions are identical.</p>'
+
+    return changes.map(change => `
+      <div class="history-change">
+        <div class="history-field">${change.label}</div>
+        <div class="history-text">${change.ops.map(op => {
+          const text = this.escapeHtml(op.text)
+          return op.type === 'insert' ? `<ins>${text}</ins>` : op.type === 'delete' ? `<del>${text}</del>` : text
+        }).join('')}</div>
+      </div>
+    `).join('')
+  }
+
+  private setupEvents(): void {
+    if (!this.overlay) return
+
+    this.overlay.addEventListener('click', async (e) => {
+      const target = e.target as HTMLElement
+      if (target === this.overlay || target.closest('[data-action="close"]')) {
+        this.close()
+        return
+      }
+
+      const restore = target.closest<HTMLElement>('[data-restore]')
+      if (restore) {
+        const revision = this.revisions[Number(restore.dataset.restore)]
+        await StorageManager.restoreRevision(revision.id)
+        this.changed = true
+        await this.reload()
+      }
+    })
+
+    this.overlay.addEventListener('change', (e) => {
+      const radio = e.target as HTMLInputElement
+      if (radio.name !== 'older' && radio.name !== 'newer') return
+      this[radio.name] = Number(radio.value)
+      const diff = this.overlay?.querySelector('.history-diff')
+      if (diff) diff.innerHTML = this.renderDiff()
+    })
+
+    this.overlay.addEventListener('submit', async (e) => {
+      e.preventDefault()
+      const form = new FormData(e.target as HTMLFormElement)
+      const note = String(form.get('note') || '').trim()
+      await StorageManager.updatePrompt(this.prompt.id, {
+        title: String(form.get('title') || '').trim() || this.prompt.title,
+        improvedPrompt: String(form.get('improvedPrompt') || '')
+      }, note || 'Edited')
+      this.changed = true
+      await this.reload()
+    })
+
+    this.overlay.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') this.close()
+    })
+  }
+
+  private close(): void {
+    this.overlay?.remove()
+    this.overlay = null
+    this.resolve?.(this.changed)
+    this.resolve = null
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div')
+    div.textContent = text
+    return div.innerHTML.replace(/"/g, '&quot;')
+  }
+
+  private addHistoryStyles(): void {
+    if (document.getElementById('perfect-prompts-history-styles')) return
+
+    const styles = document.createElement('style')
+    styles.id = 'perfect-prompts-history-styles'
+    styles.textContent = `
+      .perfect-prompts-history-overlay {
+        position: fixed;
+        inset: 0;
+        z-index: 2147483647;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        background: rgba(0, 0, 0, 0.5);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+      }
+
+      .perfect-prompts-history-overlay .history-dialog {
+        width: 90%;
+        max-width: 640px;
+        max-height: 85vh;
+        overflow-y: auto;
+        background: white;
+        color: #1e293b;
+        border-radius: 12px;
+        box-shadow: 0 20px 40px rgba(0, 0, 0, 0.2);
+        padding: 20px;
+        box-sizing: border-box;
+      }
+
+      .perfect-prompts-history-overlay .history-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        margin-bottom: 16px;
+      }
+
+      .perfect-prompts-history-overlay h3 {
+        margin: 0;
+        font-size: 18px;
+        font-weight: 600;
+      }
+
+      .perfect-prompts-history-overlay .history-close {
+        background: none;
+        border: none;
+        font-size: 24px;
+        line-height: 1;
+        color: #64748b;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-history-overlay .history-edit {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .perfect-prompts-history-overlay .history-edit-row {
+        display: flex;
+        gap: 8px;
+      }
+
+      .perfect-prompts-history-overlay input[type="text"],
+      .perfect-prompts-history-overlay textarea {
+        font: inherit;
+        font-size: 14px;
+        color: inherit;
+        background: white;
+        border: 1px solid #e2e8f0;
+        border-radius: 8px;
+        padding: 8px 10px;
+        box-sizing: border-box;
+        width: 100%;
+      }
+
+      .perfect-prompts-history-overlay textarea {
+        resize: vertical;
+      }
+
+      .perfect-prompts-history-overlay .history-list {
+        margin-top: 16px;
+        border-top: 1px solid #f1f5f9;
+      }
+
+      .perfect-prompts-history-overlay .history-entry {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 0;
+        border-bottom: 1px solid #f1f5f9;
+      }
+
+      .perfect-prompts-history-overlay .history-meta {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .perfect-prompts-history-overlay .history-note {
+        font-size: 14px;
+      }
+
+      .perfect-prompts-history-overlay .history-date {
+        font-size: 12px;
+        color: #64748b;
+      }
+
+      .perfect-prompts-history-overlay .history-current {
+        font-size: 12px;
+        font-weight: 600;
+        color: #4f46e5;
+      }
+
+      .perfect-prompts-history-overlay .history-diff {
+        margin-top: 16px;
+      }
+
+      .perfect-prompts-history-overlay .history-field {
+        font-size: 12px;
+        font-weight: 500;
+        color: #64748b;
+        text-transform: uppercase;
+        letter-spacing: 0.04em;
+        margin-top: 12px;
+      }
+
+      .perfect-prompts-history-overlay .history-text {
+        margin-top: 4px;
+        padding: 10px;
+        background: #f8fafc;
+        border-radius: 8px;
+        font-size: 13px;
+        line-height: 1.5;
+        white-space: pre-wrap;
+      }
+
+      .perfect-prompts-history-overlay .history-text del {
+        background: #fee2e2;
+        color: #991b1b;
+      }
+
+      .perfect-prompts-history-overlay .history-text ins {
+        background: #dcfce7;
+        color: #166534;
+        text-decoration: none;
+      }
+
+      .perfect-prompts-history-overlay .history-empty {
+        font-size: 13px;
+        color: #64748b;
+      }
+
+      .perfect-prompts-history-overlay .history-btn {
+        font-size: 14px;
+        font-weight: 500;
+        border: none;
+        border-radius: 8px;
+        padding: 8px 16px;
+        cursor: pointer;
+        white-space: nowrap;
+      }
+
+      .perfect-prompts-history-overlay .history-btn.primary {
+        background: #1a1a1a;
+        color: white;
+      }
+
+      .perfect-prompts-history-overlay .history-btn.secondary {
+        background: #f1f5f9;
+        color: #334155;
+      }
+    `
+
+    document.head.appendChild(styles)
+  }
+}
@@ -0,0 +1,182 @@
+import { LintIssue } from '../utils/promptLinter'
+
+// Styles the mirror needs to lay out text exactly like the textarea
+const MIRRORED_PROPERTIES = [
+  'box-sizing', 'width', 'height',
+  'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'border-top-width', 'border-right-width', 'border-bottom-width', 'border-left-width', 'border-style',
+  'font-family', 'font-size', 'font-style', 'font-weight', 'font-variant', 'font-stretch',
+  'line-height', 'letter-spacing', 'word-spacing', 'text-indent', 'text-transform', 'tab-size', 'direction'
+]
+
+// Underlines lint ranges in a chat input without touching the input itself.
+// Chat editors (React textareas, ProseMirror, Quill) rebuild their DOM and
+// would drop or choke on any markup added inside them, so the marks live in a
+// fixed layer on top of the page and are redrawn on scroll and resize.
+export class PromptLintOverlay {
+  private target: HTMLElement
+  private layer: HTMLElement | null = null
+  private issues: LintIssue[] = []
+  private frame = 0
+  private readonly scheduleDraw = () => {
+    cancelAnimationFrame(this.frame)
+    this.frame = requestAnimationFrame(() => this.draw())
+  }
+
+  constructor(target: HTMLElement) {
+    this.target = target
+  }
+
+  public render(issues: LintIssue[]): void {
+    this.issues = issues
+    if (!this.layer) {
+      this.layer = document.createElement('div')
+      this.layer.className = 'perfect-prompts-lint-layer'
+      document.body.appendChild(this.layer)
+      this.addOverlayStyles()
+      window.addEventListener('scroll', this.scheduleDraw, true)
+      window.addEventListener('resize', this.scheduleDraw)
+    }
+    this.draw()
+  }
+
+  // Hides the marks while the text is changing; the next render brings them back
+  public clear(): void {
+    this.issues = []
+    if (this.layer) this.layer.innerHTML = ''
+  }
+
+  public destroy(): void {
+    cancelAnimationFrame(this.frame)
+    window.removeEventListener('scroll', this.scheduleDraw, true)
+    window.removeEventListener('resize', this.scheduleDraw)
+    this.layer?.remove()
+    this.layer = null
+  }
+
+  private draw(): void {
+    if (!this.layer) return
+    this.layer.innerHTML = ''
+
+    const bounds = this.target.getBoundingClientRect()
+    for (const issue of this.issues) {
+      for (const [start, end] of issue.ranges) {
+        for (const rect of this.rectsFor(start, end)) {
+          // Skip lines scrolled out of the input
+          if (rect.bottom < bounds.top || rect.bottom > bounds.bottom || rect.width === 0) continue
+
+          const mark = document.createElement('div')
+          mark.className = `perfect-prompts-lint-mark ${issue.category}`
+          mark.title = issue.message
+          mark.style.left = `${rect.left}px`
+          mark.style.top = `${rect.bottom - 3}px`
+          mark.style.width = `${rect.width}px`
+          this.layer.appendChild(mark)
+        }
+      }
+    }
+  }
+
+  private rectsFor(start: number, end: number): DOMRect[] {
+    if (this.target.tagName === 'TEXTAREA' || this.target.tagName === 'INPUT') {
+      return this.fieldRects(start, end)
+    }
+    return this.editableRects(start, end)
+  }
+
+  // contenteditable: offsets count characters of textContent, like the text the linter saw
+  private editableRects(start: number, end: number): DOMRect[] {
+    const walker = document.createTreeWalker(this.target, NodeFilter.SHOW_TEXT)
+    const range = document.createRange()
+    let offset = 0
+    let started = false
+
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const length = node.textContent?.length ?? 0
+      if (!started && start <= offset + length) {
+        range.setStart(node, start - offset)
+        started = true
+      }
+      if (started && end <= offset + length) {
+        range.setEnd(node, end - offset)
+        return Array.from(range.getClientRects())
+      }
+      offset += length
+    }
+    return []
+  }
+
+  // Form fields expose no text geometry, so lay the text out in an invisible
+  // mirror with the same styles and measure the span there
+  private fieldRects(start: number, end: number): DOMRect[] {
+    const field = this.target as HTMLTextAreaElement | HTMLInputElement
+    const style = window.getComputedStyle(field)
+    const mirror = document.createElement('div')
+    for (const property of MIRRORED_PROPERTIES) {
+      mirror.style.setProperty(property, style.getPropertyValue(property))
+    }
+    mirror.style.position = 'fixed'
+    mirror.style.top = '0'
+    mirror.style.left = '0'
+    mirror.style.visibility = 'hidden'
+    mirror.style.overflow = 'hidden'
+    mirror.style.whiteSpace = field.tagName === 'INPUT' ? 'pre' : 'pre-wrap'
+    mirror.style.overflowWrap = 'break-word'
+
+    const span = document.createElement('span')
+    span.textContent = field.value.slice(start, end)
+    mirror.append(field.value.slice(0, start), span, field.value.slice(end))
+    document.body.appendChild(mirror)
+
+    const origin = mirror.getBoundingClientRect()
+    const bounds = field.getBoundingClientRect()
+    const rects = Array.from(span.getClientRects()).map(rect => new DOMRect(
+      rect.left - origin.left + bounds.left - field.scrollLeft,
+      rect.top - origin.top + bounds.top - field.scrollTop,
+      rect.width,
+      rect.height
+    ))
+
+    mirror.remove()
+    return rects
+  }
+
+  private addOverlayStyles(): void {
+    if (document.getElementById('perfect-prompts-lint-styles')) return
+
+    const styles = document.createElement('style')
+    styles.id = 'perfect-prompts-lint-styles'
+    styles.textContent = `
+      .perfect-prompts-lint-layer {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 0;
+        height: 0;
+        z-index: 2147483645;
+        pointer-events: none;
+      }
+
+      .perfect-prompts-lint-mark {
+        position: fixed;
+        height: 3px;
+        pointer-events: auto;
+        cursor: help;
+        background-image: linear-gradient(45deg, transparent 35%, #f59e0b 35%, #f59e0b 65%, transparent 65%);
+        background-size: 4px 3px;
+        background-repeat: repeat-x;
+      }
+
+      .perfect-prompts-lint-mark.specificity {
+        background-image: linear-gradient(45deg, transparent 35%, #3b82f6 35%, #3b82f6 65%, transparent 65%);
+      }
+
+      .perfect-prompts-lint-mark.structure,
+      .perfect-prompts-lint-mark.examples {
+        background-image: linear-gradient(45deg, transparent 35%, #8b5cf6 35%, #8b5cf6 65%, transparent 65%);
+      }
+    `
+
+    document.head.appendChild(styles)
+  }
+}
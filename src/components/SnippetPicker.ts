@@ -0,0 +1,223 @@
+import { PromptLibraryItem } from '@/types'
+import { PromptTemplates } from '../../backend/src/contract/promptTemplate'
+import { FuzzySearch } from '../utils/fuzzySearch'
+
+const MAX_RESULTS = 8
+
+// Fuzzy-search list of library prompts that opens over a chat input when a
+// snippet trigger is typed. The input keeps focus: the owner forwards its
+// keydown events to handleKey and the list is driven from there.
+export class SnippetPicker {
+  private picker: HTMLElement | null = null
+  private anchor: HTMLElement | null = null
+  private items: PromptLibraryItem[] = []
+  private results: PromptLibraryItem[] = []
+  private selected = 0
+  private onSelect: (item: PromptLibraryItem) => void
+
+  constructor(onSelect: (item: PromptLibraryItem) => void) {
+    this.onSelect = onSelect
+  }
+
+  public get isOpen(): boolean {
+    return this.picker !== null
+  }
+
+  public open(anchor: HTMLElement, items: PromptLibraryItem[], query: string): void {
+    this.items = items
+    this.anchor = anchor
+    if (!this.picker) {
+      this.addPickerStyles()
+      this.picker = document.createElement('div')
+      this.picker.className = 'perfect-prompts-snippet-picker'
+      // Keep focus (and the caret) in the chat input while clicking an entry
+      this.picker.addEventListener('mousedown', (e) => e.preventDefault())
+      this.picker.addEventListener('click', (e) => {
+        const entry = (e.target as HTMLElement).closest<HTMLElement>('[data-index]')
+        if (entry) this.choose(Number(entry.dataset.index))
+      })
+      document.body.appendChild(this.picker)
+    }
+    this.update(query)
+  }
+
+  public update(query: string): void {
+    // Most used first until there is something to search for
+    const byUsage = [...this.items].sort((a, b) => b.usageCount - a.usageCount)
+    this.results = FuzzySearch.search(byUsage, query, [
+      { get: item => item.title, weight: 3 },
+      { get: item => item.tags, weight: 2 },
+      { get: item => item.category, weight: 1.5 },
+      { get: item => item.improvedPrompt, weight: 1 }
+    ], MAX_RESULTS)
+    this.selected = 0
+    this.render(query)
+    this.position()
+  }
+
+  // Handles navigation keys while open; true when the key was used
+  public handleKey(e: KeyboardEvent): boolean {
+    if (!this.picker) return false
+
+    switch (e.key) {
+      case 'ArrowDown':
+        this.select(this.selected + 1)
+        return true
+      case 'ArrowUp':
+        this.select(this.selected - 1)
+        return true
+      case 'Enter':
+      case 'Tab':
+        if (this.results.length === 0) return false
+        this.choose(this.selected)
+        return true
+      case 'Escape':
+        this.close()
+        return true
+      default:
+        return false
+    }
+  }
+
+  public close(): void {
+    this.picker?.remove()
+    this.picker = null
+    this.anchor = null
+    this.results = []
+  }
+
+  private choose(index: number): void {
+    const item = this.results[index]
+    this.close()
+    if (item) this.onSelect(item)
+  }
+
+  private select(index: number): void {
+    if (this.results.length === 0) return
+    this.selected = (index + this.results.length) % this.results.length
+    this.picker?.querySelectorAll('.snippet-entry').forEach((entry, i) => {
+      entry.classList.toggle('selected', i === this.selected)
+      if (i === this.selected) entry.scrollIntoView({ block: 'nearest' })
+    })
+  }
+
+  private render(query: string): void {
+    if (!this.picker) return
+
+    if (this.results.length === 0) {
+      this.picker.innerHTML = `
+        <div class="snippet-empty">
+          ${this.items.length === 0 ? 'Your prompt library is empty' : `No saved prompts match "${this.escapeHtml(query)}"`}
+        </div>
+      `
+      return
+    }
+
+    this.picker.innerHTML = `
+      ${this.results.map((item, index) => `
+        <div class="snippet-entry ${index === this.selected ? 'selected' : ''}" data-index="${index}">
+          <div class="snippet-title">
+            ${this.escapeHtml(item.title)}
+            ${PromptTemplates.hasVariables(item.improvedPrompt) ? '<span class="snippet-badge">Template</span>' : ''}
+          </div>
+          <div class="snippet-preview">${this.escapeHtml(item.improvedPrompt.slice(0, 120))}</div>
+        </div>
+      `).join('')}
+      <div class="snippet-hint">↑↓ to choose · Enter to insert · Esc to close</div>
+    `
+  }
+
+  // Above the input when there is room, since chat inputs sit at the bottom of the page
+  private position(): void {
+    if (!this.picker || !this.anchor) return
+
+    const rect = this.anchor.getBoundingClientRect()
+    const height = this.picker.offsetHeight
+    this.picker.style.left = `${Math.max(8, rect.left)}px`
+    this.picker.style.width = `${Math.min(Math.max(rect.width, 320), 480)}px`
+    this.picker.style.top = rect.top - height - 8 >= 8
+      ? `${rect.top - height - 8}px`
+      : `${rect.bottom + 8}px`
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div')
+    div.textContent = text
+    return div.innerHTML
+  }
+
+  private addPickerStyles(): void {
+    if (document.getElementById('perfect-prompts-snippet-styles')) return
+
+    const styles = document.createElement('style')
+    styles.id = 'perfect-prompts-snippet-styles'
+    styles.textContent = `
+      .perfect-prompts-snippet-picker {
+        position: fixed;
+        z-index: 2147483647;
+        max-height: 360px;
+        overflow-y: auto;
+        background: white;
+        color: #1e293b;
+        border: 1px solid #e2e8f0;
+        border-radius: 12px;
+        box-shadow: 0 20px 40px rgba(0, 0, 0, 0.15);
+        padding: 6px;
+        box-sizing: border-box;
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+      }
+
+      .perfect-prompts-snippet-picker .snippet-entry {
+        padding: 8px 10px;
+        border-radius: 8px;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-snippet-picker .snippet-entry.selected {
+        background: #f1f5f9;
+      }
+
+      .perfect-prompts-snippet-picker .snippet-title {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .perfect-prompts-snippet-picker .snippet-badge {
+        font-size: 10px;
+        font-weight: 600;
+        color: #4f46e5;
+        background: #eef2ff;
+        border-radius: 4px;
+        padding: 1px 5px;
+      }
+
+      .perfect-prompts-snippet-picker .snippet-preview {
+        font-size: 12px;
+        color: #64748b;
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        margin-top: 2px;
+      }
+
+      .perfect-prompts-snippet-picker .snippet-empty {
+        font-size: 13px;
+        color: #64748b;
+        padding: 10px;
+      }
+
+      .perfect-prompts-snippet-picker .snippet-hint {
+        font-size: 11px;
+        color: #94a3b8;
+        padding: 6px 10px 2px;
+        border-top: 1px solid #f1f5f9;
+        margin-top: 4px;
+      }
+    `
+
+    document.head.appendChild(styles)
+  }
+}
@@ -0,0 +1,318 @@
+import { TemplateVariable } from '@/types'
+import { PromptTemplates } from '../../backend/src/contract/promptTemplate'
+
+// Fill-in form for a prompt template: one field per placeholder, a live
+// preview of the rendered prompt and validation before it is used. Works both
+// on chat sites and in the PWA, so it brings its own styles.
+export class TemplateForm {
+  private overlay: HTMLElement | null = null
+  private template: string
+  private variables: TemplateVariable[]
+  private declared: TemplateVariable[]
+  private values: Record<string, string>
+  private submitted = false
+  private resolve: ((rendered: string | null) => void) | null = null
+
+  constructor(template: string, declared: TemplateVariable[] = []) {
+    this.template = template
+    this.declared = declared
+    this.variables = PromptTemplates.variables(template, declared)
+    this.values = PromptTemplates.defaults(this.variables)
+  }
+
+  // Resolves with the rendered prompt, or null when the user cancels
+  public open(actionLabel = 'Insert'): Promise<string | null> {
+    if (this.variables.length === 0) return Promise.resolve(this.template)
+
+    this.addFormStyles()
+    this.overlay = document.createElement('div')
+    this.overlay.className = 'perfect-prompts-template-overlay'
+    this.overlay.innerHTML = `
+      <form class="template-form" novalidate>
+        <div class="template-header">
+          <h3>Fill in the template</h3>
+          <button type="button" class="template-close" data-action="cancel" aria-label="Close">&times;</button>
+        </div>
+        <div class="template-fields">
+          ${this.variables.map(variable => this.renderField(variable)).join('')}
+        </div>
+        <div class="template-preview-label">Preview</div>
+        <div class="template-preview"></div>
+        <div class="template-actions">
+          <button type="button" class="template-btn secondary" data-action="cancel">Cancel</button>
+          <button type="submit" class="template-btn primary">${this.escapeHtml(actionLabel)}</button>
+        </div>
+      </form>
+    `
+    document.body.appendChild(this.overlay)
+
+    this.setupEvents()
+    this.updatePreview()
+    this.overlay.querySelector<HTMLElement>('[data-variable]')?.focus()
+
+    return new Promise(resolve => {
+      this.resolve = resolve
+    })
+  }
+
+  private renderField(variable: TemplateVariable): string {
+    const name = this.escapeHtml(variable.name)
+    const value = this.escapeHtml(this.values[variable.name] ?? '')
+    const label = `${this.escapeHtml(PromptTemplates.label(variable))}${variable.required ? ' <span class="template-required">*</span>' : ''}`
+
+    let input: string
+    switch (variable.type) {
+      case 'multiline':
+        input = `<textarea data-variable="${name}" rows="3">${value}</textarea>`
+        break
+      case 'number':
+        input = `<input type="number" data-variable="${name}" value="${value}"` +
+          `${variable.min !== undefined ? ` min="${variable.min}"` : ''}${variable.max !== undefined ? ` max="${variable.max}"` : ''}>`
+        break
+      case 'enum':
+        input = `
+          <select data-variable="${name}">
+            ${variable.required && variable.default !== undefined ? '' : '<option value="">Choose…</option>'}
+            ${(variable.options ?? []).map(option => `
+              <option value="${this.escapeHtml(option)}" ${option === this.values[variable.name] ? 'selected' : ''}>${this.escapeHtml(option)}</option>
+            `).join('')}
+          </select>
+        `
+        break
+      default:
+        input = `<input type="text" data-variable="${name}" value="${value}"${variable.maxLength !== undefined ? ` maxlength="${variable.maxLength}"` : ''}>`
+    }
+
+    return `
+      <label class="template-field">
+        <span class="template-label">${label}</span>
+        ${input}
+        <span class="template-error" data-error="${name}"></span>
+      </label>
+    `
+  }
+
+  private setupEvents(): void {
+    if (!this.overlay) return
+    const form = this.overlay.querySelector('form')!
+
+    form.addEventListener('input', (e) => {
+      const field = e.target as HTMLInputElement
+      if (!field.dataset.variable) return
+      this.values[field.dataset.variable] = field.value
+      this.updatePreview()
+      if (this.submitted) this.showErrors()
+    })
+
+    form.addEventListener('submit', (e) => {
+      e.preventDefault()
+      this.submit()
+    })
+
+    this.overlay.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement
+      if (target === this.overlay || target.closest('[data-action="cancel"]')) this.close(null)
+    })
+
+    this.overlay.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') this.close(null)
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) this.submit()
+    })
+  }
+
+  private submit(): void {
+    this.submitted = true
+    if (!this.showErrors()) return
+    this.close(PromptTemplates.render(this.template, this.values, this.declared))
+  }
+
+  // Marks invalid fields; true when everything is valid
+  private showErrors(): boolean {
+    const errors = PromptTemplates.validate(this.variables, this.values)
+    this.overlay?.querySelectorAll<HTMLElement>('[data-error]').forEach(element => {
+      element.textContent = errors[element.dataset.error!] ?? ''
+      element.closest('.template-field')?.classList.toggle('invalid', !!errors[element.dataset.error!])
+    })
+
+    const first = Object.keys(errors)[0]
+    if (first) {
+      this.overlay?.querySelector<HTMLElement>(`[data-variable="${CSS.escape(first)}"]`)?.focus()
+    }
+    return !first
+  }
+
+  private updatePreview(): void {
+    const preview = this.overlay?.querySelector('.template-preview')
+    if (preview) preview.textContent = PromptTemplates.render(this.template, this.values, this.declared)
+  }
+
+  private close(rendered: string | null): void {
+    this.overlay?.remove()
+    this.overlay = null
+    this.resolve?.(rendered)
+    this.resolve = null
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div')
+    div.textContent = text
+    return div.innerHTML.replace(/"/g, '&quot;')
+  }
+
+  private addFormStyles(): void {
+    if (document.getElementById('perfect-prompts-template-styles')) return
+
+    const styles = document.createElement('style')
+    styles.id = 'perfect-prompts-template-styles'
+    styles.textContent = `
+      .perfect-prompts-template-overlay {
+        position: fixed;
+        inset: 0;
+        z-index: 2147483647;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        background: rgba(0, 0, 0, 0.5);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif;
+      }
+
+      .perfect-prompts-template-overlay .template-form {
+        width: 90%;
+        max-width: 560px;
+        max-height: 85vh;
+        overflow-y: auto;
+        background: white;
+        color: #1e293b;
+        border-radius: 12px;
+        box-shadow: 0 20px 40px rgba(0, 0, 0, 0.2);
+        padding: 20px;
+        box-sizing: border-box;
+      }
+
+      .perfect-prompts-template-overlay .template-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        margin-bottom: 16px;
+      }
+
+      .perfect-prompts-template-overlay h3 {
+        margin: 0;
+        font-size: 18px;
+        font-weight: 600;
+      }
+
+      .perfect-prompts-template-overlay .template-close {
+        background: none;
+        border: none;
+        font-size: 24px;
+        line-height: 1;
+        color: #64748b;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-template-overlay .template-fields {
+        display: flex;
+        flex-direction: column;
+        gap: 12px;
+      }
+
+      .perfect-prompts-template-overlay .template-field {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+      }
+
+      .perfect-prompts-template-overlay .template-label {
+        font-size: 13px;
+        font-weight: 500;
+      }
+
+      .perfect-prompts-template-overlay .template-required {
+        color: #ef4444;
+      }
+
+      .perfect-prompts-template-overlay input,
+      .perfect-prompts-template-overlay textarea,
+      .perfect-prompts-template-overlay select {
+        font: inherit;
+        font-size: 14px;
+        color: inherit;
+        background: white;
+        border: 1px solid #e2e8f0;
+        border-radius: 8px;
+        padding: 8px 10px;
+        box-sizing: border-box;
+        width: 100%;
+      }
+
+      .perfect-prompts-template-overlay textarea {
+        resize: vertical;
+      }
+
+      .perfect-prompts-template-overlay .template-field.invalid input,
+      .perfect-prompts-template-overlay .template-field.invalid textarea,
+      .perfect-prompts-template-overlay .template-field.invalid select {
+        border-color: #ef4444;
+      }
+
+      .perfect-prompts-template-overlay .template-error {
+        font-size: 12px;
+        color: #ef4444;
+      }
+
+      .perfect-prompts-template-overlay .template-error:empty {
+        display: none;
+      }
+
+      .perfect-prompts-template-overlay .template-preview-label {
+        margin-top: 16px;
+        font-size: 12px;
+        font-weight: 500;
+        color: #64748b;
+        text-transform: uppercase;
+        letter-spacing: 0.04em;
+      }
+
+      .perfect-prompts-template-overlay .template-preview {
+        margin-top: 4px;
+        padding: 10px;
+        background: #f8fafc;
+        border-radius: 8px;
+        font-size: 13px;
+        line-height: 1.5;
+        white-space: pre-wrap;
+        max-height: 160px;
+        overflow-y: auto;
+      }
+
+      .perfect-prompts-template-overlay .template-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 8px;
+        margin-top: 16px;
+      }
+
+      .perfect-prompts-template-overlay .template-btn {
+        font-size: 14px;
+        font-weight: 500;
+        border: none;
+        border-radius: 8px;
+        padding: 8px 16px;
+        cursor: pointer;
+      }
+
+      .perfect-prompts-template-overlay .template-btn.primary {
+        background: #1a1a1a;
+        color: white;
+      }
+
+      .perfect-prompts-template-overlay .template-btn.secondary {
+        background: #f1f5f9;
+        color: #334155;
+      }
+    `
+
+    document.head.appendChild(styles)
+  }
+}
@@ -1,95 +1,93 @@
+import { PromptLibraryItem, SiteConfig } from '@/types'
+import { PromptTemplates } from '../../backend/src/contract/promptTemplate'
 import { ModernImproveButton } from '../components/ModernImproveButton'
+import { PromptLintOverlay } from '../components/PromptLintOverlay'
+import { SnippetPicker } from '../components/SnippetPicker'
+import { TemplateForm } from '../components/TemplateForm'
 import { BackendProvider } from '../utils/backendProvider'
+import { ChatInput } from '../utils/chatInput'
+import { CustomSites } from '../utils/customSites'
+import { PromptLibrary } from '../utils/promptLibrary'
+import { PromptLinter } from '../utils/promptLinter'
+import { RulePacks } from '../utils/rulePacks'
+import { SiteAdapters } from '../utils/siteAdapters'
+import { SiteDefinitions } from '../utils/siteDefinitions'
+import { SnippetTrigger } from '../utils/snippetTrigger'
+
+// Pause in typing before the input is linted again
+const LINT_DEBOUNCE_MS = 400
+
+interface LiveLint {
+  overlay: PromptLintOverlay
+  timer?: ReturnType<typeof setTimeout>
+  stop: () => void
+}
 
 export class SiteIntegration {
   private observer: MutationObserver | null = null
   private activeButtons: Map<HTMLElement, ModernImproveButton> = new Map()
+  private activeLints: Map<HTMLElement, LiveLint> = new Map()
+  private snippetPicker = new SnippetPicker(item => this.insertSnippet(item))
+  // Input the picker is open for and the length of the trigger plus query typed so far
+  private snippetTarget: { element: HTMLElement; length: number } | null = null
+  // Trigger closed with Escape, so further typing after it does not reopen the picker
+  private dismissedTrigger: { element: HTMLElement; start: number } | null = null
+  // Where text from the popup goes; the popup takes focus away from the page
+  private lastFocused: HTMLElement | null = null
+  private scanTimer: ReturnType<typeof setInterval> | null = null
   private isInitialized = false
+  private isEnabled = true
+
+  // Creates the integration for this page and keeps it running across
+  // navigation in single-page chat apps
+  public static start(): SiteIntegration {
+    const integration = new SiteIntegration()
+
+    // Initialize when DOM is ready
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', () => {
+        integration.initialize()
+      })
+    } else {
+      integration.initialize()
+    }
 
-  // Supported sites configuration
-  private siteConfigs = {
-    'chat.openai.com': {
-      name: 'ChatGPT',
-      selectors: [
-        'textarea[placeholder*="message"]',
-        '#prompt-textarea',
-        'textarea[data-id*="root"]',
-        '.ProseMirror'
-      ],
-      waitForLoad: 2000,
-      checkInterval: 1000
-    },
-    'claude.ai': {
-      name: 'Claude',
-      selectors: [
-        'div[contenteditable="true"]',
-        '.ProseMirror',
-        'textarea[placeholder*="Talk to Claude"]'
-      ],
-      waitForLoad: 1500,
-      checkInterval: 1000
-    },
-    'gemini.google.com': {
-      name: 'Gemini',
-      selectors: [
-        'rich-textarea',
-        '.ql-editor',
-        'textarea[placeholder*="Enter a prompt"]'
-      ],
-      waitForLoad: 2000,
-      checkInterval: 1000
-    },
-    'www.perplexity.ai': {
-      name: 'Perplexity',
-      selectors: [
-        'textarea[placeholder*="Ask anything"]',
-        '.relative textarea',
-        '[data-testid="search-input"]'
-      ],
-      waitForLoad: 1500,
-      checkInterval: 1000
-    },
-    'huggingface.co': {
-      name: 'Hugging Face',
-      selectors: [
-        'textarea[placeholder*="Type a message"]',
-        '.chat-input textarea',
-        'textarea[name="prompt"]'
-      ],
-      waitForLoad: 1000,
-      checkInterval: 1500
-    },
-    'character.ai': {
-      name: 'Character.AI',
-      selectors: [
-        'textarea[placeholder*="Type a message"]',
-        '.composer-input textarea',
-        '[data-testid="composer-input"]'
-      ],
-      waitForLoad: 2000,
-      checkInterval: 1000
-    },
-    'poe.com': {
-      name: 'Poe',
-      selectors: [
-        'textarea[class*="GrowingTextArea"]',
-        'textarea[placeholder*="Talk to"]',
-        '.ChatMessageInputView textarea'
-      ],
-      waitForLoad: 1500,
-      checkInterval: 1000
+    // Handle navigation changes (SPA sites)
+    let lastUrl = location.href
+    new MutationObserver(() => {
+      const url = location.href
+      if (url !== lastUrl) {
+        lastUrl = url
+        console.log('Perfect AI Prompts: Navigation detected, reinitializing...')
+        integration.destroy()
+        setTimeout(() => {
+          integration.initialize()
+        }, 1000)
+      }
+    }).observe(document, { subtree: true, childList: true })
+
+    // Export for potential external use
+    ;(window as any).PerfectPrompts = {
+      integration,
+      BackendProvider
     }
+
+    return integration
   }
 
   public async initialize(): Promise<void> {
-    if (this.isInitialized) return
+    if (this.isInitialized || !this.isEnabled) return
 
     // Initialize backend provider
     BackendProvider.initialize()
 
+    // Custom rule packs for the offline improver and live hints, the latest
+    // published selectors and the sites the user added
+    await Promise.all([RulePacks.load(), PromptLinter.load(), SiteDefinitions.load(), CustomSites.load()])
+
     // Get current site config
     const hostname = window.location.hostname
-    const config = this.siteConfigs[hostname as keyof typeof this.siteConfigs]
+    const config = SiteAdapters.forHostname(hostname)
 
     if (!config) {
       console.log('Perfect AI Prompts: Site not supported:', hostname)
@@ -99,7 +97,7 @@ export class SiteIntegration {
     console.log(`Perfect AI Prompts: Initializing for ${config.name}`)
 
     // Wait for page to load
-    await this.waitForPageLoad(config.waitForLoad)
+    await this.waitForPageLoad(config.timing.waitForLoad)
 
     // Start monitoring for text inputs
     this.startInputMonitoring(config)
@@ -125,13 +123,15 @@ export class SiteIntegration {
     })
   }
 
-  private startInputMonitoring(config: any): void {
+  private startInputMonitoring(config: SiteConfig): void {
+    const selectors = SiteAdapters.inputSelectors(config)
+
     // Initial scan
-    this.scanForInputs(config.selectors)
+    this.scanForInputs(selectors)
 
     // Set up mutation observer
     this.observer = new MutationObserver(() => {
-      this.scanForInputs(config.selectors)
+      this.scanForInputs(selectors)
     })
 
     this.observer.observe(document.body, {
@@ -142,9 +142,9 @@ export class SiteIntegration {
     })
 
     // Periodic scan as fallback
-    setInterval(() => {
-      this.scanForInputs(config.selectors)
-    }, config.checkInterval)
+    this.scanTimer = setInterval(() => {
+      this.scanForInputs(selectors)
+    }, config.timing.checkInterval)
   }
 
   private scanForInputs(selectors: string[]): void {
@@ -196,6 +196,8 @@ export class SiteIntegration {
       // Create and attach improve button
       const improveButton = new ModernImproveButton(element)
       this.activeButtons.set(element, improveButton)
+      this.startLiveLint(element, improveButton)
+      this.watchSnippetTrigger(element)
 
       // Listen for element removal to cleanup
       const cleanupObserver = new MutationObserver((mutations) => {
@@ -216,6 +218,7 @@ export class SiteIntegration {
 
       // Focus/blur handlers
       element.addEventListener('focus', () => {
+        this.lastFocused = element
         setTimeout(() => {
           if (document.activeElement === element) {
             improveButton.show()
@@ -236,12 +239,143 @@ export class SiteIntegration {
     }
   }
 
+  // Lints the input locally whenever typing pauses: no backend calls, so hints
+  // never use up the improvement quota
+  private startLiveLint(element: HTMLElement, button: ModernImproveButton): void {
+    const overlay = new PromptLintOverlay(element)
+    const lint: LiveLint = { overlay, stop: () => {} }
+
+    const run = () => {
+      const issues = PromptLinter.lint(this.getInputText(element))
+      overlay.render(issues)
+      button.setLintIssues(issues, async ruleId => {
+        await PromptLinter.dismiss(ruleId)
+        run()
+      })
+      if (issues.length > 0 && document.activeElement === element) button.show()
+    }
+
+    const onInput = () => {
+      overlay.clear()
+      clearTimeout(lint.timer)
+      lint.timer = setTimeout(run, LINT_DEBOUNCE_MS)
+    }
+
+    element.addEventListener('input', onInput)
+    lint.stop = () => {
+      clearTimeout(lint.timer)
+      element.removeEventListener('input', onInput)
+      overlay.destroy()
+    }
+    this.activeLints.set(element, lint)
+
+    // Pre-filled inputs, e.g. a draft restored by the site
+    if (this.getInputText(element).trim()) run()
+  }
+
+  private watchSnippetTrigger(element: HTMLElement): void {
+    element.addEventListener('input', () => {
+      this.updateSnippetPicker(element)
+    })
+
+    element.addEventListener('blur', () => {
+      if (this.snippetTarget?.element === element) this.closeSnippetPicker()
+    })
+  }
+
+  private async updateSnippetPicker(element: HTMLElement): Promise<void> {
+    const before = ChatInput.textBeforeCaret(element)
+    const trigger = SnippetTrigger.find(before)
+    const dismissed = trigger && this.dismissedTrigger?.element === element &&
+      this.dismissedTrigger.start === before!.length - trigger.length
+    if (!trigger || dismissed) {
+      if (this.snippetTarget?.element === element) this.closeSnippetPicker()
+      return
+    }
+
+    const opening = this.snippetTarget?.element !== element
+    this.snippetTarget = { element, length: trigger.length }
+    if (!opening) {
+      this.snippetPicker.update(trigger.query)
+      return
+    }
+
+    let items: PromptLibraryItem[] = []
+    try {
+      items = await PromptLibrary.list()
+    } catch (error) {
+      console.error('Perfect AI Prompts: Failed to load the prompt library:', error)
+    }
+    // Still typing a trigger once the library has loaded?
+    if (this.snippetTarget?.element !== element) return
+
+    this.snippetPicker.open(element, items, SnippetTrigger.find(ChatInput.textBeforeCaret(element))?.query ?? trigger.query)
+    window.addEventListener('keydown', this.handleSnippetKey, true)
+  }
+
+  // Runs before the site's own handlers so Enter picks a snippet instead of sending the message
+  private handleSnippetKey = (e: KeyboardEvent): void => {
+    const target = this.snippetTarget?.element
+    if (!target || !target.contains(e.target as Node)) return
+
+    if (this.snippetPicker.handleKey(e)) {
+      e.preventDefault()
+      e.stopImmediatePropagation()
+
+      if (e.key === 'Escape') {
+        const before = ChatInput.textBeforeCaret(target)
+        if (before !== null) this.dismissedTrigger = { element: target, start: before.length - this.snippetTarget!.length }
+        this.closeSnippetPicker()
+      }
+    }
+  }
+
+  private closeSnippetPicker(): void {
+    window.removeEventListener('keydown', this.handleSnippetKey, true)
+    this.snippetPicker.close()
+    this.snippetTarget = null
+  }
+
+  // Replaces the trigger and query with the chosen prompt; templates are filled in first
+  private async insertSnippet(item: PromptLibraryItem): Promise<void> {
+    const target = this.snippetTarget
+    this.closeSnippetPicker()
+    if (!target) return
+
+    let text = item.improvedPrompt
+    if (PromptTemplates.hasVariables(text)) {
+      const restoreCaret = ChatInput.saveCaret(target.element)
+      const rendered = await new TemplateForm(text, item.variables).open()
+      restoreCaret()
+      if (rendered === null) return
+      text = rendered
+    }
+
+    ChatInput.replaceBeforeCaret(target.element, target.length, text)
+
+    try {
+      await PromptLibrary.incrementUsage(item.id)
+    } catch (error) {
+      console.error('Perfect AI Prompts: Failed to record snippet usage:', error)
+    }
+  }
+
+  private getInputText(element: HTMLElement): string {
+    if (element.tagName === 'TEXTAREA' || element.tagName === 'INPUT') {
+      return (element as HTMLTextAreaElement | HTMLInputElement).value
+    }
+    return element.textContent || ''
+  }
+
   private cleanupButton(element: HTMLElement): void {
     const button = this.activeButtons.get(element)
     if (button) {
       button.hide()
       this.activeButtons.delete(element)
     }
+
+    this.activeLints.get(element)?.stop()
+    this.activeLints.delete(element)
   }
 
   private injectBrandingInfo(): void {
@@ -335,11 +469,38 @@ export class SiteIntegration {
     document.head.appendChild(styles)
   }
 
+  // Opens the improve dialog for an input, by default the one the user was last in
+  public improve(element: Element | null = this.activeInput()): void {
+    const button = element instanceof HTMLElement ? this.activeButtons.get(element) : undefined
+    button?.improve()
+  }
+
+  // The input the user was last in, or else the first one on the page
+  public activeInput(): HTMLElement | null {
+    if (this.lastFocused?.isConnected) return this.lastFocused
+    return Array.from(this.activeButtons.keys()).find(element => element.isConnected) || null
+  }
+
+  // Switches the integration off for this page and back on; returns whether it is on
+  public async toggle(): Promise<boolean> {
+    this.isEnabled = !this.isEnabled
+    if (this.isEnabled) {
+      await this.initialize()
+    } else {
+      this.destroy()
+    }
+    return this.isEnabled
+  }
+
   public destroy(): void {
     if (this.observer) {
       this.observer.disconnect()
       this.observer = null
     }
+    if (this.scanTimer) {
+      clearInterval(this.scanTimer)
+      this.scanTimer = null
+    }
 
     // Cleanup all buttons
     for (const [element, button] of this.activeButtons.entries()) {
@@ -347,6 +508,12 @@ export class SiteIntegration {
     }
     this.activeButtons.clear()
 
+    for (const lint of this.activeLints.values()) {
+      lint.stop()
+    }
+    this.activeLints.clear()
+    this.closeSnippetPicker()
+
     // Remove branding
     document.getElementById('perfect-prompts-branding')?.remove()
     document.getElementById('perfect-prompts-global-styles')?.remove()
@@ -354,49 +521,3 @@ export class SiteIntegration {
     this.isInitialized = false
   }
 }
-
-// Auto-initialize on supported sites
-const integration = new SiteIntegration()
-
-// Initialize when DOM is ready
-if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', () => {
-    integration.initialize()
-  })
-} else {
-  integration.initialize()
-}
-
-// Handle navigation changes (SPA sites)
-let lastUrl = location.href
-new MutationObserver(() => {
-  const url = location.href
-  if (url !== lastUrl) {
-    lastUrl = url
-    console.log('Perfect AI Prompts: Navigation detected, reinitializing...')
-    integration.destroy()
-    setTimeout(() => {
-      integration.initialize()
-    }, 1000)
-  }
-}).observe(document, { subtree: true, childList: true })
-
-// Keyboard shortcut handler (global)
-document.addEventListener('keydown', (e) => {
-  if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'i') {
-    // This will be handled by the active button if target is supported
-    const activeElement = document.activeElement as HTMLElement
-    if (activeElement && (
-      activeElement.tagName === 'TEXTAREA' || 
-      activeElement.getAttribute('contenteditable') === 'true'
-    )) {
-      console.log('Perfect AI Prompts: Global shortcut triggered')
-    }
-  }
-})
-
-// Export for potential external use
-;(window as any).PerfectPrompts = {
-  integration,
-  BackendProvider
-}
\ No newline at end of file
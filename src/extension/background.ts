@@ -1,6 +1,49 @@
-import { ChromeMessage, MessageType } from '@/types'
+import { ChromeMessage, MessageType, PromptLibraryItem, SiteConfig } from '@/types'
+import { BackendService } from '../utils/backendService'
+import { SyncEngine, SyncOptions, SyncOutcome, SyncState } from '../utils/syncEngine'
+import { CustomSites } from '../utils/customSites'
+import { SITE_ADAPTERS, SiteAdapters } from '../utils/siteAdapters'
+import { SiteDefinitions } from '../utils/siteDefinitions'
+
+const SYNC_ALARM = 'library-sync'
+const SYNC_RETRY_ALARM = 'library-sync-retry'
+// Minutes between syncs that pull other devices' changes
+const SYNC_INTERVAL = 15
+// Edits in quick succession go out in one sync
+const SYNC_DEBOUNCE_MS = 2000
+const SITE_DEFINITIONS_ALARM = 'site-definitions'
+// Minutes between checks for newly published site selectors
+const SITE_DEFINITIONS_INTERVAL = 6 * 60
+// The manifest's content script as registered on the user's custom sites
+const CUSTOM_SITES_SCRIPT = 'custom-sites'
+const CONTENT_SCRIPT = 'content.js'
+const CONTENT_STYLES = 'content.css'
 
 class BackgroundService {
+  private librarySync = new SyncEngine(
+    {
+      list: async () => (await chrome.storage.local.get('promptLibrary')).promptLibrary || [],
+      write: (existing, item) => this.writeSyncedPrompt(existing, item),
+      remove: async (existing) => {
+        const { promptLibrary = [] } = await chrome.storage.local.get('promptLibrary')
+        await chrome.storage.local.set({
+          promptLibrary: promptLibrary.filter((item: PromptLibraryItem) => item.id !== existing.id)
+        })
+      }
+    },
+    {
+      load: async () => (await chrome.storage.local.get('librarySync')).librarySync,
+      save: (state: SyncState) => chrome.storage.local.set({ librarySync: state })
+    },
+    request => BackendService.syncLibrary(request)
+  )
+  private syncTimer: ReturnType<typeof setTimeout> | null = null
+  // Cached site definitions, applied before any site config is handed out
+  private siteDefinitions = SiteDefinitions.load()
+  private customSites = CustomSites.load()
+  // Registrations of custom sites run one after another
+  private customSitesUpdate: Promise<void> = Promise.resolve()
+
   constructor() {
     this.setupEventListeners()
     this.initializeExtension()
@@ -27,9 +70,49 @@ class BackgroundService {
     chrome.runtime.onInstalled.addListener((details) => {
       this.handleInstallation(details)
     })
+
+    // Cloud sync: after library edits, on sign-in and every few minutes
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName !== 'local') return
+      if (changes.promptLibrary) {
+        this.scheduleLibrarySync()
+      }
+      if (changes.authSession) {
+        const wasSignedIn = !!changes.authSession.oldValue?.isAuthenticated
+        const isSignedIn = !!changes.authSession.newValue?.isAuthenticated
+        // Another account must not inherit this one's sync state
+        if (wasSignedIn && !isSignedIn) chrome.storage.local.remove('librarySync')
+        if (!wasSignedIn && isSignedIn) this.syncLibrary()
+      }
+      if (changes.customSites) {
+        this.updateCustomSites()
+      }
+    })
+
+    // Custom sites are injected where the user granted access, which they
+    // can also change on the extensions page
+    chrome.permissions.onAdded.addListener(() => this.updateCustomSites())
+    chrome.permissions.onRemoved.addListener(() => this.updateCustomSites())
+
+    chrome.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === SYNC_ALARM || alarm.name === SYNC_RETRY_ALARM) {
+        this.syncLibrary()
+      }
+      if (alarm.name === SITE_DEFINITIONS_ALARM) {
+        this.refreshSiteDefinitions()
+      }
+    })
+
+    chrome.runtime.onStartup.addListener(() => {
+      this.syncLibrary()
+      this.refreshSiteDefinitions()
+    })
   }
 
   private async initializeExtension() {
+    chrome.alarms.create(SYNC_ALARM, { periodInMinutes: SYNC_INTERVAL })
+    chrome.alarms.create(SITE_DEFINITIONS_ALARM, { periodInMinutes: SITE_DEFINITIONS_INTERVAL })
+
     // Create context menu items
     chrome.contextMenus.create({
       id: 'improve-prompt',
@@ -82,6 +165,20 @@ class BackgroundService {
           sendResponse({ success: true })
           break
 
+        case 'GET_LIBRARY':
+          const library = await chrome.storage.local.get('promptLibrary')
+          sendResponse({ success: true, data: library.promptLibrary || [] })
+          break
+
+        case 'INCREMENT_USAGE':
+          await this.incrementUsage(message.data.id)
+          sendResponse({ success: true })
+          break
+
+        case 'SYNC_LIBRARY':
+          sendResponse({ success: true, data: await this.syncLibrary({ force: true }) })
+          break
+
         case 'GET_SETTINGS':
           const settings = await chrome.storage.sync.get('userSettings')
           sendResponse({ success: true, data: settings.userSettings })
@@ -146,6 +243,10 @@ class BackgroundService {
   }
 
   private handleInstallation(details: chrome.runtime.InstalledDetails) {
+    // Installs and updates both start without waiting for the next check
+    this.refreshSiteDefinitions()
+    this.updateCustomSites()
+
     if (details.reason === 'install') {
       // Open options page on first install
       chrome.runtime.openOptionsPage()
@@ -178,13 +279,62 @@ class BackgroundService {
 
   private async saveToLibrary(data: any) {
     // Save to chrome.storage.local
-    const items = await chrome.storage.local.get('promptLibrary') || { promptLibrary: [] }
-    items.promptLibrary.push({
+    const { promptLibrary = [] } = await chrome.storage.local.get('promptLibrary')
+    const now = new Date().toISOString()
+    promptLibrary.push({
       id: Date.now().toString(),
+      usageCount: 0,
       ...data,
-      createdAt: new Date().toISOString()
+      createdAt: now,
+      updatedAt: now
     })
-    await chrome.storage.local.set(items)
+    await chrome.storage.local.set({ promptLibrary })
+  }
+
+  private async incrementUsage(id: string) {
+    const { promptLibrary = [] } = await chrome.storage.local.get('promptLibrary')
+    const prompt = promptLibrary.find((item: any) => item.id === id)
+    if (!prompt) return
+
+    prompt.usageCount = (prompt.usageCount || 0) + 1
+    prompt.updatedAt = new Date().toISOString()
+    await chrome.storage.local.set({ promptLibrary })
+  }
+
+  // Shares the library with the PWA and other browsers signed in to the same account
+  private async syncLibrary(options: SyncOptions = {}): Promise<SyncOutcome | null> {
+    const session = await BackendService.loadSession()
+    if (!session.isAuthenticated) return null
+
+    const outcome = await this.librarySync.sync(options)
+    if (outcome.retryAt) {
+      chrome.alarms.create(SYNC_RETRY_ALARM, { when: outcome.retryAt })
+    }
+    return outcome
+  }
+
+  private scheduleLibrarySync() {
+    if (this.syncTimer) clearTimeout(this.syncTimer)
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null
+      this.syncLibrary({ changes: true })
+    }, SYNC_DEBOUNCE_MS)
+  }
+
+  private async writeSyncedPrompt(existing: PromptLibraryItem | undefined, item: Omit<PromptLibraryItem, 'id'>): Promise<string> {
+    const { promptLibrary = [] } = await chrome.storage.local.get('promptLibrary')
+    const id = existing?.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    // chrome.storage would turn Date objects into {}, so dates are stored as ISO strings
+    const stored = JSON.parse(JSON.stringify({ ...item, id }))
+    const index = promptLibrary.findIndex((prompt: PromptLibraryItem) => prompt.id === id)
+
+    if (index >= 0) {
+      promptLibrary[index] = stored
+    } else {
+      promptLibrary.push(stored)
+    }
+    await chrome.storage.local.set({ promptLibrary })
+    return id
   }
 
   private async detectLanguage(text: string) {
@@ -192,44 +342,60 @@ class BackgroundService {
     return { code: 'en', name: 'English', confidence: 0.9 }
   }
 
-  private async getSiteConfig(url: string) {
-    // Return site-specific configuration
-    const domain = new URL(url).hostname
-    
-    const siteConfigs = {
-      'chat.openai.com': {
-        domain,
-        selectors: {
-          textInputs: ['textarea[placeholder*="message"]', '#prompt-textarea'],
-          contentEditable: ['[contenteditable="true"]'],
-          submitButtons: ['button[data-testid="send-button"]']
-        },
-        insertionMethod: 'replace',
-        position: 'after'
-      },
-      'claude.ai': {
-        domain,
-        selectors: {
-          textInputs: ['div[contenteditable="true"]'],
-          contentEditable: ['div[contenteditable="true"]'],
-          submitButtons: ['button[aria-label="Send Message"]']
-        },
-        insertionMethod: 'replace',
-        position: 'after'
-      },
-      // Default config for other sites
-      default: {
-        domain,
-        selectors: {
-          textInputs: ['textarea', 'input[type="text"]'],
-          contentEditable: ['[contenteditable="true"]']
-        },
-        insertionMethod: 'clipboard',
-        position: 'overlay'
-      }
+  // Selector fixes are published between releases; the bundled ones stay as fallback
+  private async refreshSiteDefinitions() {
+    await this.siteDefinitions
+    const outcome = await SiteDefinitions.refresh()
+    if (outcome === 'rejected') {
+      console.warn('Published site definitions failed verification, keeping version', SiteDefinitions.version())
     }
+  }
 
-    return siteConfigs[domain] || siteConfigs.default
+  private updateCustomSites(): Promise<void> {
+    this.customSitesUpdate = this.customSitesUpdate
+      .then(() => this.registerCustomSites())
+      .catch(error => console.error('Failed to register custom sites:', error))
+    return this.customSitesUpdate
+  }
+
+  // Registers the content script for the custom sites the user granted access to
+  private async registerCustomSites() {
+    await CustomSites.load()
+    const matches = (await CustomSites.granted()).map(site => CustomSites.origin(site.domain))
+
+    const [registered] = await chrome.scripting.getRegisteredContentScripts({ ids: [CUSTOM_SITES_SCRIPT] })
+    if (registered) {
+      await chrome.scripting.unregisterContentScripts({ ids: [CUSTOM_SITES_SCRIPT] })
+    }
+    if (matches.length === 0) return
+
+    await chrome.scripting.registerContentScripts([{
+      id: CUSTOM_SITES_SCRIPT,
+      matches,
+      // A wildcard may cover supported sites, which have their own content script
+      excludeMatches: SiteAdapters.matchPatterns(),
+      js: [CONTENT_SCRIPT],
+      css: [CONTENT_STYLES],
+      runAt: 'document_idle'
+    }])
+
+    // Newly added sites that are already open get it without a reload
+    const added = matches.filter(match => !registered?.matches?.includes(match))
+    if (added.length === 0) return
+    for (const tab of await chrome.tabs.query({ url: added })) {
+      if (!tab.id || !tab.url || SITE_ADAPTERS.some(adapter => adapter.domain === new URL(tab.url!).hostname)) continue
+      const target = { tabId: tab.id }
+      Promise.all([
+        chrome.scripting.insertCSS({ target, files: [CONTENT_STYLES] }),
+        chrome.scripting.executeScript({ target, files: [CONTENT_SCRIPT] })
+      ]).catch(error => console.warn('Could not inject into', tab.url, error))
+    }
+  }
+
+  private async getSiteConfig(url: string): Promise<SiteConfig> {
+    await Promise.all([this.siteDefinitions, this.customSites])
+    const domain = new URL(url).hostname
+    return SiteAdapters.forHostname(domain) || SiteAdapters.fallback(domain)
   }
 }
 
@@ -1,5 +0,0 @@
-// Modern content script that uses the new site integration
-import '../content/siteIntegration'
-
-// The site integration will handle everything automatically
-console.log('Perfect AI Prompts: Modern content script loaded')
\ No newline at end of file
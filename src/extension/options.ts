@@ -1,3 +1,17 @@
+import { SiteConfig } from '@/types'
+import { PromptLinter } from '../utils/promptLinter'
+import { LibraryMerge } from '../utils/libraryMerge'
+import { LibraryFormats, LibraryFormat, ExportFile } from '../utils/libraryFormats'
+import { ImportPreview } from '../components/ImportPreview'
+import { RulePacks } from '../utils/rulePacks'
+import { CustomSites } from '../utils/customSites'
+import { pickInputSelector } from '../utils/elementPicker'
+import { AuthManager } from '../utils/authManager'
+import { BackendService } from '../utils/backendService'
+import { SyncState } from '../utils/syncEngine'
+import { ApiCollection, ApiPendingInvite, ApiWorkspaceDetails, WORKSPACE_ROLES, WorkspaceRole } from '../../backend/src/contract/apiContract'
+import { WorkspacePermissions } from '../../backend/src/contract/workspacePermissions'
+
 class OptionsController {
   private settings: any = {}
   private providers: any[] = []
@@ -9,8 +23,11 @@ class OptionsController {
   private async init() {
     await this.loadSettings()
     await this.loadProviders()
+    await Promise.all([RulePacks.load(), PromptLinter.load(), CustomSites.load()])
     this.updateUI()
     this.setupEventListeners()
+    await this.renderSyncStatus()
+    await this.renderWorkspaces()
   }
 
   private async loadSettings() {
@@ -65,6 +82,8 @@ class OptionsController {
 
     // Update providers list
     this.renderProviders()
+    this.renderRulePacks()
+    this.renderCustomSites()
   }
 
   private renderProviders() {
@@ -115,6 +134,85 @@ class OptionsController {
     })
   }
 
+  private renderRulePacks() {
+    const container = document.getElementById('rule-packs-list')
+    if (!container) return
+
+    const packs = RulePacks.list()
+    if (packs.length === 0) {
+      container.innerHTML = `
+        <div style="text-align: center; padding: 20px; color: #6b7280;">
+          <p>Using the built-in rules only.</p>
+        </div>
+      `
+      return
+    }
+
+    container.innerHTML = packs.map(({ pack, enabled }) => `
+      <div class="provider-card" data-id="${this.escapeHtml(pack.id)}">
+        <div class="provider-header">
+          <div class="provider-name">${this.escapeHtml(pack.name)}</div>
+          <div class="provider-status ${enabled ? 'enabled' : 'disabled'}">
+            ${enabled ? 'Enabled' : 'Disabled'}
+          </div>
+        </div>
+        <div class="rule-pack-meta">
+          v${this.escapeHtml(pack.version)} · ${pack.language ? `${this.escapeHtml(pack.language)} · ` : 'all languages · '}${pack.rules.length} rules${pack.description ? ` · ${this.escapeHtml(pack.description)}` : ''}
+        </div>
+        <div style="margin-top: 12px; display: flex; gap: 8px;">
+          <button class="btn btn-secondary toggle-rule-pack">${enabled ? 'Disable' : 'Enable'}</button>
+          <button class="btn btn-danger remove-rule-pack">Remove</button>
+        </div>
+      </div>
+    `).join('')
+
+    container.querySelectorAll('.toggle-rule-pack').forEach((btn, index) => {
+      btn.addEventListener('click', () => this.toggleRulePack(packs[index].pack.id, !packs[index].enabled))
+    })
+
+    container.querySelectorAll('.remove-rule-pack').forEach((btn, index) => {
+      btn.addEventListener('click', () => this.removeRulePack(packs[index].pack.id))
+    })
+  }
+
+  private async renderCustomSites() {
+    const container = document.getElementById('custom-sites-list')
+    if (!container) return
+
+    const sites = CustomSites.list()
+    if (sites.length === 0) {
+      container.innerHTML = ''
+      return
+    }
+
+    const granted = await CustomSites.granted()
+    container.innerHTML = sites.map(site => {
+      const active = granted.includes(site)
+      return `
+        <div class="provider-card" data-domain="${this.escapeHtml(site.domain)}">
+          <div class="provider-header">
+            <div class="provider-name">${this.escapeHtml(site.name)}</div>
+            <div class="provider-status ${active ? 'enabled' : 'disabled'}">
+              ${active ? 'Active' : 'No access'}
+            </div>
+          </div>
+          <div class="rule-pack-meta">
+            ${this.escapeHtml(site.domain)} · ${site.selectors.textInputs.map(selector => `<code>${this.escapeHtml(selector)}</code>`).join(', ')}
+          </div>
+          <div style="margin-top: 12px; display: flex; gap: 8px;">
+            ${active ? '' : '<button class="btn btn-secondary grant-custom-site">Allow Access</button>'}
+            <button class="btn btn-danger remove-custom-site">Remove</button>
+          </div>
+        </div>
+      `
+    }).join('')
+
+    container.querySelectorAll('.provider-card').forEach((card, index) => {
+      card.querySelector('.grant-custom-site')?.addEventListener('click', () => this.grantCustomSite(sites[index]))
+      card.querySelector('.remove-custom-site')?.addEventListener('click', () => this.removeCustomSite(sites[index]))
+    })
+  }
+
   private setupEventListeners() {
     // Toggle switches
     document.getElementById('toggle-auto-language')?.addEventListener('click', () => {
@@ -142,6 +240,26 @@ class OptionsController {
       this.showAddProviderDialog()
     })
 
+    document.getElementById('import-rule-pack')?.addEventListener('click', () => {
+      document.getElementById('import-rule-pack-file')?.click()
+    })
+
+    document.getElementById('import-rule-pack-file')?.addEventListener('change', (e) => {
+      this.importRulePack(e.target as HTMLInputElement)
+    })
+
+    document.getElementById('restore-lint-hints')?.addEventListener('click', () => {
+      this.restoreLintHints()
+    })
+
+    document.getElementById('pick-custom-site-input')?.addEventListener('click', () => {
+      this.pickCustomSiteInput()
+    })
+
+    document.getElementById('add-custom-site')?.addEventListener('click', () => {
+      this.addCustomSite()
+    })
+
     document.getElementById('export-data')?.addEventListener('click', () => {
       this.exportData()
     })
@@ -154,6 +272,26 @@ class OptionsController {
       this.importData(e.target as HTMLInputElement)
     })
 
+    document.getElementById('sync-sign-in')?.addEventListener('click', () => {
+      this.signIn()
+    })
+
+    document.getElementById('sync-now')?.addEventListener('click', () => {
+      this.syncNow()
+    })
+
+    document.getElementById('sync-sign-out')?.addEventListener('click', () => {
+      this.signOut()
+    })
+
+    document.getElementById('create-workspace')?.addEventListener('click', () => {
+      this.createWorkspace()
+    })
+
+    document.getElementById('join-workspace')?.addEventListener('click', () => {
+      this.joinWorkspace()
+    })
+
     document.getElementById('clear-data')?.addEventListener('click', () => {
       this.clearAllData()
     })
@@ -221,8 +359,149 @@ class OptionsController {
     }
   }
 
+  private async importRulePack(fileInput: HTMLInputElement) {
+    const file = fileInput.files?.[0]
+    if (!file) return
+
+    try {
+      const pack = await RulePacks.import(await file.text())
+      this.renderRulePacks()
+      this.showMessage(`Imported "${pack.name}" with ${pack.rules.length} rules.`, 'success')
+    } catch (error) {
+      console.error('Rule pack import failed:', error)
+      this.showMessage(error instanceof Error ? error.message : 'Import failed. Please check the file format.', 'error')
+    }
+
+    // Reset file input
+    fileInput.value = ''
+  }
+
+  private async toggleRulePack(id: string, enabled: boolean) {
+    await RulePacks.setEnabled(id, enabled)
+    this.renderRulePacks()
+  }
+
+  private async removeRulePack(id: string) {
+    if (confirm('Are you sure you want to remove this rule pack?')) {
+      await RulePacks.remove(id)
+      this.renderRulePacks()
+    }
+  }
+
+  private async restoreLintHints() {
+    const count = PromptLinter.dismissedCount()
+    if (count === 0) {
+      this.showMessage('No hints have been dismissed.', 'success')
+      return
+    }
+
+    await PromptLinter.restoreAll()
+    this.showMessage(`Restored ${count} dismissed ${count === 1 ? 'hint' : 'hints'}.`, 'success')
+  }
+
+  private async addCustomSite() {
+    const domainInput = document.getElementById('custom-site-domain') as HTMLInputElement
+    const nameInput = document.getElementById('custom-site-name') as HTMLInputElement
+    const selectorsInput = document.getElementById('custom-site-selectors') as HTMLTextAreaElement
+
+    let site: SiteConfig
+    try {
+      site = CustomSites.create({
+        name: nameInput.value,
+        domain: domainInput.value,
+        selectors: selectorsInput.value.split('\n')
+      })
+    } catch (error) {
+      this.showMessage(error instanceof Error ? error.message : 'Could not add the site', 'error')
+      return
+    }
+
+    if (!(await this.requestSiteAccess(site.domain))) return
+
+    await CustomSites.save(site)
+    domainInput.value = ''
+    nameInput.value = ''
+    selectorsInput.value = ''
+    await this.renderCustomSites()
+    this.showMessage(`Added ${site.name}. Prompt Polisher now runs on ${site.domain}.`, 'success')
+  }
+
+  // Switches to an open tab of the site and lets the user click its chat input
+  private async pickCustomSiteInput() {
+    let domain: string
+    try {
+      domain = CustomSites.domain((document.getElementById('custom-site-domain') as HTMLInputElement).value)
+    } catch (error) {
+      this.showMessage(error instanceof Error ? error.message : 'Enter the domain first', 'error')
+      return
+    }
+
+    if (!(await this.requestSiteAccess(domain))) return
+
+    const [tab] = await chrome.tabs.query({ url: CustomSites.origin(domain) })
+    if (!tab?.id) {
+      this.showMessage(`Open ${domain} in a tab, then pick again`, 'error')
+      return
+    }
+
+    const optionsTab = await chrome.tabs.getCurrent()
+    let selector: string | null = null
+    try {
+      await chrome.tabs.update(tab.id, { active: true })
+      await chrome.windows.update(tab.windowId, { focused: true })
+      const [result] = await chrome.scripting.executeScript({ target: { tabId: tab.id }, func: pickInputSelector })
+      selector = result?.result ?? null
+    } catch (error) {
+      console.error('Element picker failed:', error)
+      this.showMessage('Could not pick on that page. Enter a selector instead.', 'error')
+    } finally {
+      if (optionsTab?.id) {
+        await chrome.tabs.update(optionsTab.id, { active: true })
+        await chrome.windows.update(optionsTab.windowId, { focused: true })
+      }
+    }
+    if (!selector) return
+
+    const selectorsInput = document.getElementById('custom-site-selectors') as HTMLTextAreaElement
+    const selectors = selectorsInput.value.split('\n').map(line => line.trim()).filter(Boolean)
+    if (!selectors.includes(selector)) selectors.push(selector)
+    selectorsInput.value = selectors.join('\n')
+    this.showMessage(`Picked ${selector}`, 'success')
+  }
+
+  private async grantCustomSite(site: SiteConfig) {
+    if (await this.requestSiteAccess(site.domain)) {
+      await this.renderCustomSites()
+    }
+  }
+
+  private async removeCustomSite(site: SiteConfig) {
+    if (!confirm(`Remove ${site.name}?`)) return
+
+    await CustomSites.remove(site.domain)
+    try {
+      await chrome.permissions.remove({ origins: [CustomSites.origin(site.domain)] })
+    } catch (error) {
+      // Access a required permission also covers cannot be given up
+      console.warn('Could not remove access to', site.domain, error)
+    }
+    await this.renderCustomSites()
+  }
+
+  // Must be the first thing awaited after a click: Chrome only shows the
+  // permission prompt while the click still counts as a user gesture
+  private async requestSiteAccess(domain: string): Promise<boolean> {
+    const granted = await chrome.permissions.request({ origins: [CustomSites.origin(domain)] })
+    if (!granted) {
+      this.showMessage(`Prompt Polisher needs access to ${domain} to work there`, 'error')
+    }
+    return granted
+  }
+
   private async exportData() {
     try {
+      const format = (document.getElementById('export-format') as HTMLSelectElement | null)?.value || 'json'
+
       // Get all data
       const [settingsResponse, libraryResult, providersResult] = await Promise.all([
         this.sendMessage({ type: 'GET_SETTINGS' }),
@@ -238,12 +517,21 @@ class OptionsController {
         version: '1.0.0'
       }
 
+      // The JSON backup has everything; the other formats hold just the prompts
+      const file: ExportFile = format === 'json'
+        ? {
+          name: `prompt-polisher-backup-${new Date().toISOString().split('T')[0]}.json`,
+          type: 'application/json',
+          content: JSON.stringify(exportData, null, 2)
+        }
+        : LibraryFormats.export(exportData.prompts, format as LibraryFormat)
+
       // Create and download file
-      const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' })
+      const blob = new Blob([file.content as BlobPart], { type: file.type })
       const url = URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = `prompt-polisher-backup-${new Date().toISOString().split('T')[0]}.json`
+      a.download = file.name
       a.click()
       URL.revokeObjectURL(url)
 
@@ -255,23 +543,42 @@ class OptionsController {
   }
 
   private async importData(fileInput: HTMLInputElement) {
-    const file = fileInput.files?.[0]
-    if (!file) return
+    const files = Array.from(fileInput.files || [])
+    if (files.length === 0) return
 
     try {
-      const text = await file.text()
-      const data = JSON.parse(text)
+      // A JSON backup, or prompts from Markdown, CSV, JSONL and zip files
+      const warnings: string[] = []
+      const data = files.length === 1 && /\.json$/i.test(files[0].name)
+        ? JSON.parse(await files[0].text())
+        : {
+          prompts: await LibraryFormats.import(await Promise.all(files.map(async file => ({
+            name: file.name,
+            data: new Uint8Array(await file.arrayBuffer())
+          }))), warnings)
+        }
 
       // Validate data structure
       if (!data.settings && !data.prompts && !data.providers) {
         throw new Error('Invalid backup file format')
       }
 
-      // Confirm import
-      const promptCount = data.prompts?.length || 0
-      const providerCount = data.providers?.length || 0
-      
-      if (!confirm(`Import ${promptCount} prompts and ${providerCount} providers? This will merge with existing data.`)) {
+      // Dry run first: show what would change and let conflicts be settled
+      const existing = await chrome.storage.local.get('promptLibrary')
+      const library = existing.promptLibrary || []
+      const plan = LibraryMerge.plan(library, data.prompts || [])
+      const newProviders = (data.providers || []).filter((provider: any) =>
+        !this.providers.some(mine => mine.id === provider.id || mine.name === provider.name)
+      )
+      const details = [
+        ...(newProviders.length > 0 ? [`${newProviders.length} new ${newProviders.length === 1 ? 'provider' : 'providers'}`] : []),
+        ...(data.settings ? ['Settings from the file replace your current settings'] : []),
+        ...warnings
+      ]
+
+      const resolutions = await new ImportPreview(plan, details).open()
+      if (!resolutions) {
+        fileInput.value = ''
         return
       }
 
@@ -282,19 +589,24 @@ class OptionsController {
       }
 
       if (data.prompts) {
-        const existing = await chrome.storage.local.get('promptLibrary')
-        const merged = [...(existing.promptLibrary || []), ...data.prompts]
-        await chrome.storage.local.set({ promptLibrary: merged })
+        const merged = LibraryMerge.apply(library, plan, resolutions, () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`)
+        // chrome.storage would turn Date objects into {}, so dates are stored as ISO strings
+        await chrome.storage.local.set({ promptLibrary: JSON.parse(JSON.stringify(merged)) })
       }
 
-      if (data.providers) {
-        this.providers = [...this.providers, ...data.providers]
+      if (newProviders.length > 0) {
+        this.providers = [...this.providers, ...newProviders]
         await this.saveProviders()
       }
 
       // Update UI
       this.updateUI()
-      this.showMessage(`Import successful! Added ${promptCount} prompts and ${providerCount} providers.`, 'success')
+      const replaced = resolutions.filter(resolution => resolution === 'theirs').length
+      const copies = resolutions.filter(resolution => resolution === 'both').length
+      this.showMessage(
+        `Import successful! ${plan.added.length + copies} prompts added, ${replaced} updated, ${newProviders.length} providers added.`,
+        'success'
+      )
     } catch (error) {
       console.error('Import failed:', error)
       this.showMessage('Import failed. Please check the file format.', 'error')
@@ -304,6 +616,323 @@ class OptionsController {
     fileInput.value = ''
   }
 
+  // Signing in is all it takes: the background syncs whenever the library changes
+  private async signIn() {
+    const email = (document.getElementById('sync-email') as HTMLInputElement).value.trim()
+    const password = (document.getElementById('sync-password') as HTMLInputElement).value
+    if (!email || !password) {
+      this.showMessage('Enter your email and password', 'error')
+      return
+    }
+
+    try {
+      await AuthManager.login(email, password)
+      this.showMessage('Signed in, your library will sync in the background', 'success')
+      await this.renderSyncStatus()
+      await this.renderWorkspaces()
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Sign in failed', 'error')
+    }
+  }
+
+  private async signOut() {
+    // The refresh token is revoked on the server too
+    await BackendService.loadSession()
+    await AuthManager.logout()
+    await chrome.storage.local.remove('activeWorkspace')
+    await this.renderSyncStatus()
+    await this.renderWorkspaces()
+  }
+
+  private async syncNow() {
+    try {
+      const response = await this.sendMessage({ type: 'SYNC_LIBRARY' })
+      if (response.data?.error) {
+        this.showMessage('Sync failed, it will be retried automatically', 'error')
+      } else {
+        this.showMessage(`Library synced (${response.data?.pulled || 0} updates from other devices)`, 'success')
+      }
+    } catch (error) {
+      this.showMessage('Sync failed: ' + (error as Error).message, 'error')
+    }
+    await this.renderSyncStatus()
+  }
+
+  private async renderSyncStatus() {
+    const { authSession, librarySync } = await chrome.storage.local.get(['authSession', 'librarySync'])
+    const signedIn = !!authSession?.isAuthenticated
+    const state = librarySync as SyncState | undefined
+    const status = document.getElementById('sync-status')
+    const signedOut = document.getElementById('sync-signed-out')
+    const account = document.getElementById('sync-signed-in')
+    if (!status || !signedOut || !account) return
+
+    signedOut.style.display = signedIn ? 'none' : 'flex'
+    account.style.display = signedIn ? 'flex' : 'none'
+
+    if (!signedIn) {
+      status.textContent = 'Sign in to share your prompt library with the web app and your other browsers'
+    } else if (state?.retryAt) {
+      const pending = Object.keys(state.outbox).length
+      status.textContent = `${authSession.user?.email || 'Signed in'} • offline, ${pending} change${pending === 1 ? '' : 's'} waiting to sync`
+    } else {
+      const synced = state?.lastSyncedAt ? `last synced ${new Date(state.lastSyncedAt).toLocaleString()}` : 'not synced yet'
+      status.textContent = `${authSession.user?.email || 'Signed in'} • ${synced}`
+    }
+  }
+
+  // Workspaces the account belongs to; what each card offers depends on the role
+  private async renderWorkspaces() {
+    const { authSession } = await chrome.storage.local.get('authSession')
+    const signedIn = !!authSession?.isAuthenticated
+    const status = document.getElementById('team-status')
+    const controls = document.getElementById('team-controls')
+    const container = document.getElementById('workspaces-list')
+    if (!status || !controls || !container) return
+
+    status.style.display = signedIn ? 'none' : 'block'
+    controls.style.display = signedIn ? 'block' : 'none'
+    if (!signedIn) return
+
+    let workspaces: ApiWorkspaceDetails[]
+    let collections: ApiCollection[][]
+    let invites: ApiPendingInvite[][]
+    try {
+      await BackendService.loadSession()
+      const list = await BackendService.getWorkspaces()
+      workspaces = await Promise.all(list.map(workspace => BackendService.getWorkspace(workspace.id)))
+      collections = await Promise.all(list.map(workspace => BackendService.getCollections(workspace.id)))
+      invites = await Promise.all(list.map(workspace =>
+        WorkspacePermissions.can(workspace.role, 'invite') ? BackendService.getInvites(workspace.id) : []
+      ))
+    } catch (error: any) {
+      container.innerHTML = `
+        <div style="text-align: center; padding: 20px; color: #6b7280;">
+          <p>Could not load your workspaces: ${this.escapeHtml(error?.message || 'unknown error')}</p>
+        </div>
+      `
+      return
+    }
+
+    if (workspaces.length === 0) {
+      container.innerHTML = `
+        <div style="text-align: center; padding: 20px; color: #6b7280;">
+          <p>You are not in any workspace yet.</p>
+        </div>
+      `
+      return
+    }
+
+    const userId = authSession.user?.id
+    container.innerHTML = workspaces.map((workspace, index) => this.renderWorkspace(workspace, collections[index], invites[index], userId)).join('')
+
+    container.querySelectorAll<HTMLElement>('.provider-card').forEach(card => {
+      const workspaceId = card.dataset.id!
+
+      card.querySelectorAll<HTMLSelectElement>('.member-role').forEach(select => {
+        select.addEventListener('change', () => this.updateMemberRole(workspaceId, select.dataset.user!, select.value as WorkspaceRole))
+      })
+      card.querySelectorAll<HTMLElement>('.remove-member').forEach(btn => {
+        btn.addEventListener('click', () => this.removeMember(workspaceId, btn.dataset.user!, btn.dataset.user === userId))
+      })
+      card.querySelector('.create-invite')?.addEventListener('click', () => this.createInvite(workspaceId, card))
+      card.querySelectorAll<HTMLElement>('.revoke-invite').forEach(btn => {
+        btn.addEventListener('click', () => this.revokeInvite(workspaceId, btn.dataset.invite!))
+      })
+      card.querySelectorAll<HTMLElement>('.delete-collection').forEach(btn => {
+        btn.addEventListener('click', () => this.deleteCollection(workspaceId, btn.dataset.collection!))
+      })
+      card.querySelector('.create-collection')?.addEventListener('click', () => this.createCollection(workspaceId, card))
+    })
+  }
+
+  private renderWorkspace(workspace: ApiWorkspaceDetails, collections: ApiCollection[], invites: ApiPendingInvite[], userId?: string): string {
+    const canManage = WorkspacePermissions.can(workspace.role, 'manageMembers')
+    const canEdit = WorkspacePermissions.can(workspace.role, 'edit')
+    const roleOptions = (selected: WorkspaceRole) => WORKSPACE_ROLES
+      .map(role => `<option value="${role}"${role === selected ? ' selected' : ''}>${role}</option>`)
+      .join('')
+
+    return `
+      <div class="provider-card" data-id="${workspace.id}">
+        <div class="provider-header">
+          <div class="provider-name">${this.escapeHtml(workspace.name)}</div>
+          <div class="provider-status enabled">${workspace.role}</div>
+        </div>
+
+        <div class="workspace-heading">Members</div>
+        ${workspace.members.map(member => `
+          <div class="workspace-row">
+            <span>${this.escapeHtml(member.email || member.userId)}${member.userId === userId ? ' (you)' : ''}</span>
+            ${canManage
+              ? `<select class="member-role" data-user="${member.userId}">${roleOptions(member.role)}</select>`
+              : `<span class="rule-pack-meta">${member.role}</span>`}
+            ${member.userId === userId
+              ? `<button class="btn btn-secondary remove-member" data-user="${member.userId}">Leave</button>`
+              : canManage ? `<button class="btn btn-danger remove-member" data-user="${member.userId}">Remove</button>` : ''}
+          </div>
+        `).join('')}
+
+        ${WorkspacePermissions.can(workspace.role, 'invite') ? `
+          <div class="workspace-row input-group" style="flex-direction: row;">
+            <input type="text" class="invite-url" readonly placeholder="Invite links expire after 7 days">
+            <select class="invite-role">${roleOptions('editor')}</select>
+            <button class="btn btn-secondary create-invite">Create invite link</button>
+          </div>
+          ${invites.map(invite => `
+            <div class="workspace-row">
+              <span>Invite link for a new ${invite.role}${invite.createdBy ? ` by ${this.escapeHtml(invite.createdBy)}` : ''}</span>
+              <span class="rule-pack-meta">expires ${new Date(invite.expiresAt).toLocaleDateString()}</span>
+              <button class="btn btn-danger revoke-invite" data-invite="${invite.id}">Revoke</button>
+            </div>
+          `).join('')}
+        ` : ''}
+
+        <div class="workspace-heading">Collections</div>
+        ${collections.length === 0 ? '<div class="rule-pack-meta">No collections yet</div>' : ''}
+        ${collections.map(collection => `
+          <div class="workspace-row">
+            <span>${this.escapeHtml(collection.name)}</span>
+            <span class="rule-pack-meta">${collection.items.length} prompt${collection.items.length === 1 ? '' : 's'}</span>
+            ${canEdit ? `<button class="btn btn-danger delete-collection" data-collection="${collection.id}">Delete</button>` : ''}
+          </div>
+        `).join('')}
+        ${canEdit ? `
+          <div class="workspace-row input-group" style="flex-direction: row;">
+            <input type="text" class="collection-name" placeholder="New collection" maxlength="80">
+            <button class="btn btn-secondary create-collection">Add</button>
+          </div>
+        ` : ''}
+      </div>
+    `
+  }
+
+  private async createWorkspace() {
+    const input = document.getElementById('workspace-name') as HTMLInputElement
+    const name = input.value.trim()
+    if (!name) {
+      this.showMessage('Enter a name for the workspace', 'error')
+      return
+    }
+
+    try {
+      await BackendService.createWorkspace(name)
+      input.value = ''
+      this.showMessage(`Created ${name}`, 'success')
+      await this.renderWorkspaces()
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Could not create the workspace', 'error')
+    }
+  }
+
+  private async joinWorkspace() {
+    const input = document.getElementById('invite-link') as HTMLInputElement
+    const token = this.inviteToken(input.value.trim())
+    if (!token) {
+      this.showMessage('Paste an invite link first', 'error')
+      return
+    }
+
+    try {
+      const workspace = await BackendService.joinWorkspace(token)
+      input.value = ''
+      this.showMessage(`Joined ${workspace.name} as ${workspace.role}`, 'success')
+      await this.renderWorkspaces()
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Could not join the workspace', 'error')
+    }
+  }
+
+  // Accepts the whole invite link or just its token
+  private inviteToken(value: string): string {
+    try {
+      return new URL(value).searchParams.get('invite') || value
+    } catch {
+      return value
+    }
+  }
+
+  private async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole) {
+    try {
+      await BackendService.updateMember(workspaceId, userId, role)
+      this.showMessage('Role updated', 'success')
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Could not change the role', 'error')
+    }
+    await this.renderWorkspaces()
+  }
+
+  private async removeMember(workspaceId: string, userId: string, self: boolean) {
+    if (!confirm(self ? 'Leave this workspace?' : 'Remove this member from the workspace?')) return
+
+    try {
+      await BackendService.removeMember(workspaceId, userId)
+      if (self) {
+        const { activeWorkspace } = await chrome.storage.local.get('activeWorkspace')
+        if (activeWorkspace === workspaceId) await chrome.storage.local.remove('activeWorkspace')
+      }
+      await this.renderWorkspaces()
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Could not remove the member', 'error')
+    }
+  }
+
+  private async createInvite(workspaceId: string, card: HTMLElement) {
+    const role = card.querySelector<HTMLSelectElement>('.invite-role')!.value as WorkspaceRole
+
+    try {
+      const invite = await BackendService.createInvite(workspaceId, role)
+      await navigator.clipboard.writeText(invite.url).catch(() => undefined)
+      // Re-rendered so the link shows among the ones that can be revoked
+      await this.renderWorkspaces()
+      const output = document.querySelector<HTMLInputElement>(`.provider-card[data-id="${workspaceId}"] .invite-url`)
+      if (output) {
+        output.value = invite.url
+        output.select()
+      }
+      this.showMessage(`Invite link for a new ${role} copied`, 'success')
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Could not create an invite link', 'error')
+    }
+  }
+
+  // Anyone who already joined through the link stays a member
+  private async revokeInvite(workspaceId: string, inviteId: string) {
+    if (!confirm('Revoke this invite link? It will stop working for anyone who has not joined yet.')) return
+
+    try {
+      await BackendService.revokeInvite(workspaceId, inviteId)
+      this.showMessage('Invite link revoked', 'success')
+      await this.renderWorkspaces()
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Could not revoke the invite link', 'error')
+    }
+  }
+
+  private async createCollection(workspaceId: string, card: HTMLElement) {
+    const input = card.querySelector<HTMLInputElement>('.collection-name')!
+    const name = input.value.trim()
+    if (!name) return
+
+    try {
+      await BackendService.createCollection(workspaceId, name)
+      await this.renderWorkspaces()
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Could not create the collection', 'error')
+    }
+  }
+
+  private async deleteCollection(workspaceId: string, collectionId: string) {
+    if (!confirm('Delete this collection and every prompt shared in it?')) return
+
+    try {
+      await BackendService.deleteCollection(workspaceId, collectionId)
+      await this.renderWorkspaces()
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Could not delete the collection', 'error')
+    }
+  }
+
   private async clearAllData() {
     const confirmed = confirm('Are you sure you want to clear ALL data? This cannot be undone.\\n\\nThis will remove:\\n• All saved prompts\\n• All provider settings\\n• All custom settings')
     
@@ -361,6 +990,12 @@ class OptionsController {
     }, 3000)
   }
 
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div')
+    div.textContent = text
+    return div.innerHTML
+  }
+
   private sendMessage(message: any): Promise<any> {
     return new Promise((resolve, reject) => {
       chrome.runtime.sendMessage(message, (response) => {
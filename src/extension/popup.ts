@@ -1,6 +1,15 @@
+import { PromptTemplates } from '../../backend/src/contract/promptTemplate'
+import { ApiCollection, ApiCollectionItem, ApiWorkspace } from '../../backend/src/contract/apiContract'
+import { WorkspacePermissions } from '../../backend/src/contract/workspacePermissions'
+import { BackendService } from '../utils/backendService'
+
 class PopupController {
   private settings: any = {}
   private stats = { prompts: 0, improvements: 0 }
+  private recentPrompts: any[] = []
+  private workspaces: ApiWorkspace[] = []
+  private activeWorkspace: ApiWorkspace | undefined
+  private collections: ApiCollection[] = []
 
   constructor() {
     this.init()
@@ -12,6 +21,7 @@ class PopupController {
     await this.loadRecentPrompts()
     this.setupEventListeners()
     this.updateUI()
+    await this.loadWorkspaces()
   }
 
   private async loadSettings() {
@@ -50,7 +60,9 @@ class PopupController {
         .sort((a: any, b: any) => new Date(b.updatedAt || b.createdAt).getTime() - new Date(a.updatedAt || a.createdAt).getTime())
         .slice(0, 5)
 
+      this.recentPrompts = recent
       this.renderRecentPrompts(recent)
+      this.renderTemplates(prompts.filter((prompt: any) => PromptTemplates.hasVariables(prompt.improvedPrompt || '')))
     } catch (error) {
       console.error('Failed to load recent prompts:', error)
       this.renderRecentPrompts([])
@@ -65,22 +77,232 @@ class PopupController {
       return
     }
 
+    const shareOptions = this.canShare()
+      ? `<option value="">Share with ${this.escapeHtml(this.activeWorkspace!.name)}...</option>` +
+        this.collections.map(collection => `<option value="${collection.id}">${this.escapeHtml(collection.name)}</option>`).join('')
+      : ''
+
     container.innerHTML = prompts.map(prompt => `
       <div class="prompt-item" data-id="${prompt.id}">
         <div class="prompt-title">${this.truncate(prompt.title, 40)}</div>
         <div class="prompt-category">${prompt.category}</div>
+        ${shareOptions && `<select class="share-select">${shareOptions}</select>`}
       </div>
     `).join('')
 
     // Add click listeners
-    container.querySelectorAll('.prompt-item').forEach(item => {
+    container.querySelectorAll('.prompt-item').forEach((item, index) => {
       item.addEventListener('click', () => {
         const id = item.getAttribute('data-id')
         this.openPromptDetail(id)
       })
+
+      const share = item.querySelector<HTMLSelectElement>('.share-select')
+      share?.addEventListener('click', event => event.stopPropagation())
+      share?.addEventListener('change', () => {
+        if (share.value) this.sharePrompt(prompts[index], share)
+      })
     })
   }
 
+  // Team workspaces need an account; signed out, the popup shows only the personal library
+  private async loadWorkspaces() {
+    const session = await BackendService.loadSession()
+    if (!session.isAuthenticated) return
+
+    try {
+      this.workspaces = await BackendService.getWorkspaces()
+    } catch (error) {
+      console.error('Failed to load workspaces:', error)
+      return
+    }
+
+    const { activeWorkspace } = await chrome.storage.local.get('activeWorkspace')
+    this.activeWorkspace = this.workspaces.find(workspace => workspace.id === activeWorkspace)
+
+    const select = document.getElementById('workspace-select') as HTMLSelectElement
+    select.innerHTML = '<option value="">Personal</option>' + this.workspaces.map(workspace => `
+      <option value="${workspace.id}">${this.escapeHtml(workspace.name)} (${workspace.role})</option>
+    `).join('')
+    select.value = this.activeWorkspace?.id || ''
+    select.addEventListener('change', () => this.switchWorkspace(select.value))
+
+    document.getElementById('workspace-bar')!.style.display = 'block'
+    document.getElementById('library-tabs')!.style.display = 'flex'
+    await this.loadCollections()
+  }
+
+  // The choice is shared with the options page
+  private async switchWorkspace(id: string) {
+    this.activeWorkspace = this.workspaces.find(workspace => workspace.id === id)
+    if (this.activeWorkspace) {
+      await chrome.storage.local.set({ activeWorkspace: id })
+    } else {
+      await chrome.storage.local.remove('activeWorkspace')
+    }
+    await this.loadCollections()
+  }
+
+  private async loadCollections() {
+    this.collections = []
+    if (this.activeWorkspace) {
+      try {
+        this.collections = await BackendService.getCollections(this.activeWorkspace.id)
+      } catch (error) {
+        console.error('Failed to load collections:', error)
+      }
+    }
+
+    this.renderTeamPrompts()
+    this.renderRecentPrompts(this.recentPrompts)
+  }
+
+  private renderTeamPrompts() {
+    const container = document.getElementById('team-prompts')!
+    const workspace = this.activeWorkspace
+
+    if (!workspace) {
+      container.innerHTML = '<div class="empty-state">Choose a workspace above to see<br>the prompts your team shares.</div>'
+      return
+    }
+    if (this.collections.length === 0) {
+      container.innerHTML = '<div class="empty-state">No collections yet.<br>Create one in Settings to start sharing.</div>'
+      return
+    }
+
+    const canEdit = WorkspacePermissions.can(workspace.role, 'edit')
+    const items: ApiCollectionItem[] = []
+    container.innerHTML = this.collections.map(collection => `
+      <div class="collection-name">${this.escapeHtml(collection.name)}</div>
+      ${collection.items.length === 0 ? '<div class="empty-state">Nothing shared here yet</div>' : ''}
+      ${collection.items.map(item => {
+        items.push(item)
+        const details = [item.kind === 'template' ? 'Template' : '', item.prompt.category, item.addedBy || '']
+        return `
+          <div class="prompt-item" data-collection="${collection.id}" title="Insert into the chat">
+            <div class="prompt-title">${this.escapeHtml(this.truncate(item.prompt.title, 40))}</div>
+            <div class="prompt-category">${this.escapeHtml(details.filter(Boolean).join(' • '))}</div>
+            <div class="item-actions">
+              <button class="link-btn" data-action="save">Save to my library</button>
+              ${canEdit ? '<button class="link-btn" data-action="remove">Remove</button>' : ''}
+            </div>
+          </div>
+        `
+      }).join('')}
+    `).join('')
+
+    container.querySelectorAll('.prompt-item').forEach((element, index) => {
+      const item = items[index]
+      const collectionId = element.getAttribute('data-collection')!
+      element.addEventListener('click', () => this.useTemplate({ ...item.prompt, id: item.id }))
+
+      element.querySelector('[data-action="save"]')?.addEventListener('click', event => {
+        event.stopPropagation()
+        this.saveSharedPrompt(item, event.target as HTMLButtonElement)
+      })
+      element.querySelector('[data-action="remove"]')?.addEventListener('click', event => {
+        event.stopPropagation()
+        this.removeSharedPrompt(collectionId, item)
+      })
+    })
+  }
+
+  private canShare(): boolean {
+    return !!this.activeWorkspace &&
+      WorkspacePermissions.can(this.activeWorkspace.role, 'edit') &&
+      this.collections.length > 0
+  }
+
+  private async sharePrompt(prompt: any, select: HTMLSelectElement) {
+    const collection = this.collections.find(entry => entry.id === select.value)
+    select.disabled = true
+
+    try {
+      await BackendService.addCollectionItem(this.activeWorkspace!.id, select.value, {
+        kind: PromptTemplates.hasVariables(prompt.improvedPrompt || '') ? 'template' : 'prompt',
+        prompt: {
+          title: prompt.title,
+          originalPrompt: prompt.originalPrompt,
+          improvedPrompt: prompt.improvedPrompt,
+          category: prompt.category || '',
+          tags: prompt.tags || [],
+          notes: prompt.notes,
+          variables: prompt.variables
+        }
+      })
+      select.options[0].textContent = `Shared to ${collection?.name}`
+      await this.loadCollections()
+    } catch (error) {
+      console.error('Failed to share prompt:', error)
+      select.options[0].textContent = 'Sharing failed, try again'
+    }
+    select.value = ''
+    select.disabled = false
+  }
+
+  // Copies a team prompt into the personal library
+  private async saveSharedPrompt(item: ApiCollectionItem, button: HTMLButtonElement) {
+    try {
+      await this.sendMessage({
+        type: 'SAVE_TO_LIBRARY',
+        data: { ...item.prompt, originalPrompt: item.prompt.originalPrompt || '' }
+      })
+      button.textContent = 'Saved'
+      button.disabled = true
+      await this.loadStats()
+      await this.loadRecentPrompts()
+    } catch (error) {
+      console.error('Failed to save shared prompt:', error)
+    }
+  }
+
+  private async removeSharedPrompt(collectionId: string, item: ApiCollectionItem) {
+    try {
+      await BackendService.removeCollectionItem(this.activeWorkspace!.id, collectionId, item.id)
+      await this.loadCollections()
+    } catch (error) {
+      console.error('Failed to remove shared prompt:', error)
+    }
+  }
+
+  // Library prompts with {{placeholders}}; using one opens the fill-in form on the page
+  private renderTemplates(templates: any[]) {
+    const section = document.getElementById('templates-section')
+    const container = document.getElementById('templates-list')
+    if (!section || !container) return
+
+    section.style.display = templates.length > 0 ? 'block' : 'none'
+    container.innerHTML = templates.map(template => {
+      const fields = PromptTemplates.variables(template.improvedPrompt, template.variables)
+        .map(variable => PromptTemplates.label(variable))
+      return `
+        <div class="prompt-item" data-id="${template.id}" title="Fill in and insert into the chat">
+          <div class="prompt-title">${this.escapeHtml(this.truncate(template.title, 40))}</div>
+          <div class="template-fields">${this.escapeHtml(this.truncate(fields.join(', '), 50))}</div>
+        </div>
+      `
+    }).join('')
+
+    container.querySelectorAll('.prompt-item').forEach((item, index) => {
+      item.addEventListener('click', () => this.useTemplate(templates[index]))
+    })
+  }
+
+  private async useTemplate(template: any) {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      if (tab.id) {
+        chrome.tabs.sendMessage(tab.id, {
+          type: 'USE_TEMPLATE',
+          data: { id: template.id, template: template.improvedPrompt, variables: template.variables }
+        })
+        window.close()
+      }
+    } catch (error) {
+      console.error('Failed to use template:', error)
+    }
+  }
+
   private setupEventListeners() {
     // Quick actions
     document.getElementById('trigger-improve')?.addEventListener('click', () => {
@@ -99,6 +321,10 @@ class PopupController {
       this.openHelp()
     })
 
+    document.querySelectorAll<HTMLElement>('#library-tabs .tab').forEach(tab => {
+      tab.addEventListener('click', () => this.showTab(tab.dataset.tab!))
+    })
+
     // Feature toggles
     document.getElementById('toggle-suggestions')?.addEventListener('click', () => {
       this.toggleFeature('suggestions')
@@ -113,6 +339,15 @@ class PopupController {
     })
   }
 
+  private showTab(name: string) {
+    document.querySelectorAll<HTMLElement>('#library-tabs .tab').forEach(tab => {
+      tab.classList.toggle('active', tab.dataset.tab === name)
+    })
+    document.getElementById('library-heading')!.textContent = name === 'team' ? 'Shared Prompts' : 'Recent Prompts'
+    document.getElementById('recent-prompts')!.style.display = name === 'personal' ? 'block' : 'none'
+    document.getElementById('team-prompts')!.style.display = name === 'team' ? 'block' : 'none'
+  }
+
   private updateUI() {
     // Update toggle states based on settings
     const suggestionsToggle = document.getElementById('toggle-suggestions')
@@ -206,6 +441,12 @@ class PopupController {
     })
   }
 
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div')
+    div.textContent = text
+    return div.innerHTML
+  }
+
   private truncate(text: string, length: number): string {
     return text.length > length ? text.substring(0, length) + '...' : text
   }
@@ -1,7 +1,13 @@
-import { PromptAnalysis, DetectedLanguage, PromptLibraryItem } from '../types'
+import { PromptAnalysis, DetectedLanguage, PromptLibraryItem, PromptScoreComparison, ScoreDimension } from '../types'
+import { PromptScorer } from '../../backend/src/contract/promptScore'
+import { PromptTemplates } from '../../backend/src/contract/promptTemplate'
+import { TemplateForm } from '../components/TemplateForm'
+import { PromptHistory } from '../components/PromptHistory'
 import { LanguageDetector } from '../utils/languageDetector'
 import { PromptImprover } from '../utils/promptImprover'
 import { StorageManager } from '../utils/storage'
+import { RulePacks } from '../utils/rulePacks'
+import { CloudSync } from './cloudSync'
 
 class PromptPolisherApp {
   private currentAnalysis: PromptAnalysis | null = null
@@ -15,7 +21,9 @@ class PromptPolisherApp {
     this.setupEventListeners()
     this.setupPWA()
     this.handleShareTarget()
+    await RulePacks.load()
     await this.loadRecentPrompts()
+    await this.setupCloudSync()
   }
 
   private setupEventListeners() {
@@ -116,8 +124,8 @@ class PromptPolisherApp {
 
     if (text.length > 10) {
       // Detect language
-      const detected = LanguageDetector.detect(text)
-      this.showLanguageDetection(detected)
+      const [detected, ...alternatives] = LanguageDetector.detectAll(text, 3)
+      this.showLanguageDetection(detected, alternatives)
     } else {
       this.hideLanguageDetection()
     }
@@ -196,10 +204,45 @@ class PromptPolisherApp {
       ? improvements.join('')
       : '<li>No specific improvements needed - your prompt looks good!</li>'
 
+    this.displayScores(analysis.scores || PromptScorer.compare(analysis.originalText, analysis.improvedPrompt))
+
     // Scroll to results
     resultsSection.scrollIntoView({ behavior: 'smooth', block: 'start' })
   }
 
+  // Before/after quality per dimension, explaining where the improved prompt still falls short
+  private displayScores(scores: PromptScoreComparison) {
+    const overall = document.getElementById('quality-overall')
+    const dimensions = document.getElementById('quality-dimensions')
+    if (!overall || !dimensions) return
+
+    const labels: Record<ScoreDimension, string> = {
+      clarity: 'Clarity',
+      specificity: 'Specificity',
+      context: 'Context',
+      constraints: 'Constraints',
+      format: 'Format',
+      examples: 'Examples'
+    }
+
+    overall.textContent = `${scores.original.overall} → ${scores.improved.overall}`
+    dimensions.innerHTML = (Object.keys(labels) as ScoreDimension[]).map(dimension => {
+      const before = scores.original.dimensions[dimension]
+      const after = scores.improved.dimensions[dimension]
+      return `
+        <div class="quality-row">
+          <span>${labels[dimension]}</span>
+          <div class="quality-bar">
+            <div class="after" style="width: ${after.score}%"></div>
+            <div class="before" style="width: ${before.score}%"></div>
+          </div>
+          <span class="quality-numbers">${before.score} → ${after.score}</span>
+          <span class="quality-explanation">${after.explanation}</span>
+        </div>
+      `
+    }).join('')
+  }
+
   private async saveToLibrary() {
     if (!this.currentAnalysis) return
 
@@ -213,11 +256,13 @@ class PromptPolisherApp {
         originalPrompt: this.currentAnalysis.originalText,
         improvedPrompt: this.currentAnalysis.improvedPrompt,
         category,
-        tags: []
+        tags: [],
+        scores: this.currentAnalysis.scores
       })
 
       this.showToast('Saved to library! 💾', 'success')
       await this.loadRecentPrompts()
+      await CloudSync.requestSync()
 
     } catch (error) {
       console.error('Error saving to library:', error)
@@ -228,12 +273,16 @@ class PromptPolisherApp {
   private async copyResult() {
     if (!this.currentAnalysis) return
 
+    // Template fields such as the context scaffold are filled in first
+    const text = await new TemplateForm(this.currentAnalysis.improvedPrompt).open('Copy')
+    if (text === null) return
+
     try {
-      await navigator.clipboard.writeText(this.currentAnalysis.improvedPrompt)
+      await navigator.clipboard.writeText(text)
       this.showToast('Copied to clipboard! 📋', 'success')
     } catch (error) {
       // Fallback for older browsers
-      this.fallbackCopyToClipboard(this.currentAnalysis.improvedPrompt)
+      this.fallbackCopyToClipboard(text)
       this.showToast('Copied to clipboard! 📋', 'success')
     }
   }
@@ -269,8 +318,11 @@ class PromptPolisherApp {
 
       container.innerHTML = prompts.map(prompt => `
         <div class="prompt-item" style="background: var(--background); border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.75rem; margin-bottom: 0.5rem; cursor: pointer; transition: all 0.2s;">
-          <div style="font-weight: 500; margin-bottom: 0.25rem; font-size: 0.875rem;">${this.escapeHtml(prompt.title)}</div>
-          <div style="font-size: 0.75rem; color: var(--text-secondary);">${prompt.category} • ${this.formatDate(prompt.createdAt)}</div>
+          <div style="display: flex; justify-content: space-between; gap: 0.5rem; margin-bottom: 0.25rem;">
+            <span style="font-weight: 500; font-size: 0.875rem;">${this.escapeHtml(prompt.title)}</span>
+            <button class="prompt-history" title="Edit and see earlier versions" style="background: none; border: none; color: var(--primary); font-size: 0.75rem; cursor: pointer;">History</button>
+          </div>
+          <div style="font-size: 0.75rem; color: var(--text-secondary);">${prompt.category} • ${this.formatDate(prompt.createdAt)}${PromptTemplates.hasVariables(prompt.improvedPrompt) ? ' • Template' : ''}</div>
         </div>
       `).join('')
 
@@ -279,6 +331,14 @@ class PromptPolisherApp {
         item.addEventListener('click', () => {
           this.loadPrompt(prompts[index])
         })
+
+        item.querySelector('.prompt-history')?.addEventListener('click', async (e) => {
+          e.stopPropagation()
+          if (await new PromptHistory(prompts[index]).open()) {
+            await this.loadRecentPrompts()
+            await CloudSync.requestSync()
+          }
+        })
         
         item.addEventListener('mouseenter', () => {
           item.style.borderColor = 'var(--primary)'
@@ -294,10 +354,21 @@ class PromptPolisherApp {
     }
   }
 
-  private loadPrompt(prompt: PromptLibraryItem) {
+  private async loadPrompt(prompt: PromptLibraryItem) {
     const promptInput = document.getElementById('prompt-input') as HTMLTextAreaElement
+    let text = prompt.originalPrompt
+
+    // Templates are filled in and used as they are
+    if (PromptTemplates.hasVariables(prompt.improvedPrompt)) {
+      const rendered = await new TemplateForm(prompt.improvedPrompt, prompt.variables).open()
+      if (rendered === null) return
+      text = rendered
+      await StorageManager.incrementUsage(prompt.id)
+      await CloudSync.requestSync()
+    }
+
     if (promptInput) {
-      promptInput.value = prompt.originalPrompt
+      promptInput.value = text
       this.handleInputChange()
     }
     
@@ -305,14 +376,89 @@ class PromptPolisherApp {
     window.scrollTo({ top: 0, behavior: 'smooth' })
   }
 
-  private showLanguageDetection(detected: DetectedLanguage) {
+  // Signed in, the library is shared with the extension and other devices
+  private async setupCloudSync() {
+    const form = document.getElementById('sync-form') as HTMLFormElement
+    const syncNow = document.getElementById('sync-now')
+    const signOut = document.getElementById('sync-signout')
+
+    form?.addEventListener('submit', async (e) => {
+      e.preventDefault()
+      const email = (document.getElementById('sync-email') as HTMLInputElement).value.trim()
+      const password = (document.getElementById('sync-password') as HTMLInputElement).value
+
+      try {
+        await CloudSync.signIn(email, password)
+        form.reset()
+        this.showToast('Signed in, syncing your library ☁️', 'success')
+        await this.runCloudSync()
+      } catch (error: any) {
+        this.showToast(error?.message || 'Sign in failed. Please try again.', 'error')
+      }
+    })
+
+    syncNow?.addEventListener('click', () => {
+      this.runCloudSync(true)
+    })
+
+    signOut?.addEventListener('click', async () => {
+      await CloudSync.signOut()
+      await this.renderSyncStatus()
+    })
+
+    window.addEventListener('online', () => {
+      this.runCloudSync()
+    })
+
+    await this.runCloudSync()
+  }
+
+  private async runCloudSync(force = false) {
+    const outcome = await CloudSync.sync({ force })
+    if (outcome && outcome.pulled > 0) {
+      await this.loadRecentPrompts()
+    }
+    if (force && outcome?.error) {
+      this.showToast('Sync failed, will retry automatically', 'error')
+    }
+    await this.renderSyncStatus()
+  }
+
+  private async renderSyncStatus() {
+    const session = await CloudSync.getSession()
+    const state = await StorageManager.syncState().load()
+    const status = document.getElementById('sync-status')
+    const form = document.getElementById('sync-form')
+    const account = document.getElementById('sync-account')
+    if (!status || !form || !account) return
+
+    form.style.display = session ? 'none' : 'flex'
+    account.style.display = session ? 'flex' : 'none'
+
+    if (!session) {
+      status.textContent = 'Sign in to share your library with the browser extension and your other devices.'
+    } else if (state?.retryAt) {
+      const pending = Object.keys(state.outbox).length
+      status.textContent = `${session.user?.email || 'Signed in'} • offline, ${pending} change${pending === 1 ? '' : 's'} waiting to sync`
+    } else {
+      const synced = state?.lastSyncedAt ? `last synced ${new Date(state.lastSyncedAt).toLocaleTimeString()}` : 'not synced yet'
+      status.textContent = `${session.user?.email || 'Signed in'} • ${synced}`
+    }
+  }
+
+  private showLanguageDetection(detected: DetectedLanguage, alternatives: DetectedLanguage[] = []) {
     const detector = document.getElementById('language-detector')
     const languageText = document.getElementById('detected-language')
     const confidenceFill = document.getElementById('confidence-fill')
 
     if (detector && languageText && confidenceFill) {
       detector.style.display = 'flex'
-      languageText.textContent = `${detected.name} (${Math.round(detected.confidence * 100)}% confidence)`
+      // Runner-up languages are only worth showing when they are plausible
+      const runnersUp = alternatives
+        .filter(candidate => candidate.confidence >= 0.1)
+        .map(candidate => `${candidate.name} ${Math.round(candidate.confidence * 100)}%`)
+      languageText.textContent = `${detected.name} (${Math.round(detected.confidence * 100)}% confidence)` +
+        (runnersUp.length > 0 ? ` · also ${runnersUp.join(', ')}` : '')
       confidenceFill.style.width = `${detected.confidence * 100}%`
     }
   }
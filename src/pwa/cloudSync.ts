@@ -0,0 +1,68 @@
+import { AuthSession } from '../types'
+import { BackendService } from '../utils/backendService'
+import { StorageManager } from '../utils/storage'
+import { SyncEngine, SyncOptions, SyncOutcome } from '../utils/syncEngine'
+
+// Background sync tag; the service worker syncs once the device is online
+export const SYNC_TAG = 'save-prompt'
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> }
+}
+
+// The PWA's side of cloud sync, used by both the page and the service worker.
+// Signed out, the library stays local only.
+export class CloudSync {
+  private static engine = new SyncEngine(
+    StorageManager.syncTarget(),
+    StorageManager.syncState(),
+    request => BackendService.syncLibrary(request)
+  )
+
+  public static async getSession(): Promise<AuthSession | undefined> {
+    return StorageManager.getSyncSession()
+  }
+
+  public static async signIn(email: string, password: string): Promise<AuthSession> {
+    const session = await BackendService.login(email, password)
+    await StorageManager.setSyncSession(session)
+    return session
+  }
+
+  public static async signOut(): Promise<void> {
+    const session = await StorageManager.getSyncSession()
+    if (session) BackendService.setSession(session)
+    await BackendService.logout()
+    await StorageManager.setSyncSession(undefined)
+  }
+
+  // Syncs with the account's library; null when signed out
+  public static async sync(options: SyncOptions = {}): Promise<SyncOutcome | null> {
+    const session = await StorageManager.getSyncSession()
+    if (!session?.isAuthenticated) return null
+
+    BackendService.setSession(session)
+    const outcome = await this.engine.sync(options)
+
+    // A renewed token has to outlive this page or worker
+    const current = BackendService.getSession()
+    if (current.token !== session.token) {
+      await StorageManager.setSyncSession(current)
+    }
+    return outcome
+  }
+
+  // After a local change. The service worker runs the sync when the browser
+  // supports background sync, even if the page is closed before it is online.
+  public static async requestSync(): Promise<void> {
+    const registration: SyncRegistration | undefined = 'serviceWorker' in navigator
+      ? await navigator.serviceWorker.getRegistration()
+      : undefined
+
+    if (registration?.sync) {
+      await registration.sync.register(SYNC_TAG)
+    } else {
+      await this.sync({ changes: true })
+    }
+  }
+}
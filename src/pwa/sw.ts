@@ -1,4 +1,6 @@
 // Service Worker for Prompt Polisher PWA
+import { CloudSync, SYNC_TAG } from './cloudSync'
+
 const CACHE_NAME = 'prompt-polisher-v1'
 const STATIC_RESOURCES = [
   '/',
@@ -98,13 +100,16 @@ async function handleShareTarget(request: Request): Promise<Response> {
 
 // Background sync for saving prompts when online
 self.addEventListener('sync', (event) => {
-  if (event.tag === 'save-prompt') {
+  if (event.tag === SYNC_TAG) {
     event.waitUntil(syncSavedPrompts())
   }
 })
 
+// Pushes library changes to the account and pulls other devices' changes.
+// Failing lets the browser retry the sync later.
 async function syncSavedPrompts() {
-  // Implementation would sync local prompts with cloud storage
-  // For now, this is a placeholder for future functionality
-  console.log('Syncing saved prompts...')
+  const outcome = await CloudSync.sync({ force: true })
+  if (outcome?.error) {
+    throw outcome.error
+  }
 }
\ No newline at end of file
@@ -1,16 +1,22 @@
-export interface PromptAnalysis {
-  originalText: string
-  improvements: {
-    clarity: string[]
-    specificity: string[]
-    structure: string[]
-    examples: string[]
-  }
-  suggestedPersona?: string
-  suggestedFormat?: string
-  improvedPrompt: string
-  confidence: number
-}
+import type {
+  ApiEnvelope,
+  ApiErrorCode,
+  ApiUser,
+  PaymentIntent as ApiPaymentIntent,
+  PromptAnalysis as ApiPromptAnalysis,
+  PromptScore,
+  PromptScoreComparison,
+  ScoreDimension,
+  UsageInfo as ApiUsageInfo
+} from '../../backend/src/contract/apiContract'
+import type { RulePack } from '../../backend/src/contract/rulePack'
+import type { TemplateVariable } from '../../backend/src/contract/promptTemplate'
+import type { SiteConfig } from '../../backend/src/contract/siteDefinitions'
+
+// Wire types shared with the backend live in backend/src/contract/apiContract.ts
+export type PromptAnalysis = ApiPromptAnalysis
+export type { PromptScore, PromptScoreComparison, ScoreDimension }
+export type { TemplateVariable }
 
 export interface PromptLibraryItem {
   id: string
@@ -20,11 +26,31 @@ export interface PromptLibraryItem {
   category: string
   tags: string[]
   notes?: string
+  // Quality of the original and improved prompt when it was saved
+  scores?: PromptScoreComparison
+  // Labels and limits for the {{placeholders}} of a template's improvedPrompt
+  variables?: TemplateVariable[]
   createdAt: Date
   updatedAt: Date
   usageCount: number
 }
 
+// Snapshot of a library prompt's content after one edit
+export interface PromptRevision {
+  id: string
+  promptId: string
+  title: string
+  originalPrompt: string
+  improvedPrompt: string
+  category: string
+  tags: string[]
+  notes?: string
+  variables?: TemplateVariable[]
+  // What changed, e.g. "Saved to library" or the editor's own note
+  note: string
+  createdAt: Date
+}
+
 export interface ProviderConfig {
   id: string
   name: string
@@ -48,16 +74,7 @@ export interface UserSettings {
   }
 }
 
-export interface SiteConfig {
-  domain: string
-  selectors: {
-    textInputs: string[]
-    contentEditable: string[]
-    submitButtons?: string[]
-  }
-  insertionMethod: 'replace' | 'append' | 'clipboard'
-  position: 'before' | 'after' | 'overlay'
-}
+export type { SiteConfig }
 
 export interface DetectedLanguage {
   code: string
@@ -71,6 +88,27 @@ export interface PromptDiff {
   improved: string
   reason: string
   category: 'clarity' | 'specificity' | 'structure' | 'persona' | 'format' | 'examples'
+  // Character ranges [start, end) of the change in the original and improved text
+  originalRange?: [number, number]
+  improvedRange?: [number, number]
+}
+
+// A discrete, reversible change: replaces range [start, end) of the original with text
+export interface PromptEdit {
+  id: string
+  category: PromptDiff['category']
+  label: string
+  range: [number, number]
+  text: string
+}
+
+export type { RulePack }
+
+// A user-imported rule pack; the built-in packs are never stored
+export interface InstalledRulePack {
+  pack: RulePack
+  enabled: boolean
+  importedAt: string
 }
 
 export interface ConfirmationOptions {
@@ -87,62 +125,24 @@ export interface BackendConfig {
   timeout?: number
 }
 
-export interface User {
-  id: string
-  email?: string
-  plan: 'free' | 'premium'
-  usage: {
-    current: number
-    limit: number
-    resetDate: string
-  }
-  subscription?: {
-    id: string
-    status: 'active' | 'canceled' | 'expired'
-    expiresAt: string
-  }
-}
+export type User = ApiUser
 
 export interface AuthSession {
   token?: string
+  refreshToken?: string
   user?: User
   isAuthenticated: boolean
   expiresAt?: string
 }
 
-export interface BackendResponse<T = any> {
-  success: boolean
-  data?: T
-  error?: {
-    code: string
-    message: string
-    details?: any
-  }
-  usage?: {
-    current: number
-    limit: number
-    resetDate: string
-  }
-}
+export type BackendResponse<T = any> = ApiEnvelope<T>
 
-export interface PaymentIntent {
-  id: string
-  clientSecret: string
-  amount: number
-  currency: string
-  status: 'requires_payment_method' | 'requires_confirmation' | 'succeeded' | 'canceled'
-}
+export type PaymentIntent = ApiPaymentIntent
 
-export interface UsageInfo {
-  current: number
-  limit: number
-  resetDate: string
-  isLimitReached: boolean
-  daysUntilReset: number
-}
+export type UsageInfo = ApiUsageInfo
 
 export interface BackendError {
-  code: 'RATE_LIMIT' | 'PAYMENT_REQUIRED' | 'UNAUTHORIZED' | 'SERVER_ERROR' | 'NETWORK_ERROR' | 'VALIDATION_ERROR'
+  code: ApiErrorCode
   message: string
   details?: any
   retryAfter?: number
@@ -162,6 +162,10 @@ export type MessageType =
   | 'CREATE_PAYMENT_INTENT'
   | 'LOGOUT_USER'
   | 'REFRESH_TOKEN'
+  | 'USE_TEMPLATE'
+  | 'GET_LIBRARY'
+  | 'INCREMENT_USAGE'
+  | 'SYNC_LIBRARY'
 
 export interface ChromeMessage {
   type: MessageType
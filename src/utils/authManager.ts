@@ -138,4 +138,172 @@ export class AuthManager {
       return await BackendService.getUsageInfo()
     } catch (error) {
       // Return default usage for offline mode
-      return {\n        current: 0,\n        limit: 10,\n        resetDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),\n        isLimitReached: false,\n        daysUntilReset: 1\n      }\n    }\n  }\n\n  private static isTokenNearExpiry(session: AuthSession): boolean {\n    if (!session.expiresAt) return false\n    \n    const expiryTime = new Date(session.expiresAt).getTime()\n    const currentTime = Date.now()\n    const timeUntilExpiry = expiryTime - currentTime\n    \n    // Refresh if token expires within 1 hour\n    return timeUntilExpiry < 60 * 60 * 1000\n  }\n\n  private static async ensureDeviceId(): Promise<string> {\n    if (typeof chrome === 'undefined' || !chrome.storage) {\n      return crypto.randomUUID()\n    }\n\n    try {\n      const result = await chrome.storage.local.get(this.DEVICE_ID_KEY)\n      if (result[this.DEVICE_ID_KEY]) {\n        return result[this.DEVICE_ID_KEY]\n      }\n      \n      const deviceId = crypto.randomUUID()\n      await chrome.storage.local.set({ [this.DEVICE_ID_KEY]: deviceId })\n      return deviceId\n    } catch (error) {\n      console.error('Failed to manage device ID:', error)\n      return crypto.randomUUID()\n    }\n  }\n\n  public static async getDeviceId(): Promise<string> {\n    return this.ensureDeviceId()\n  }\n\n  private static handleAuthError(error: BackendError) {\n    // Log authentication errors for debugging\n    console.error('Authentication error:', error)\n    \n    // Track authentication failures\n    this.trackEvent('auth_error', { \n      code: error.code, \n      message: error.message \n    })\n  }\n\n  private static trackEvent(event: string, data?: any) {\n    // Simple event tracking for analytics\n    if (typeof chrome !== 'undefined' && chrome.storage) {\n      chrome.storage.local.get('analytics').then(result => {\n        const analytics = result.analytics || []\n        analytics.push({\n          event,\n          data,\n          timestamp: new Date().toISOString(),\n          sessionId: this.getSession().user?.id || 'anonymous'\n        })\n        \n        // Keep only last 100 events\n        if (analytics.length > 100) {\n          analytics.splice(0, analytics.length - 100)\n        }\n        \n        chrome.storage.local.set({ analytics })\n      }).catch(error => {\n        console.error('Failed to track event:', error)\n      })\n    }\n  }\n\n  // Helper methods for UI\n  public static getDisplayName(): string {\n    const user = this.getUser()\n    if (!user) return 'Guest'\n    \n    return user.email || `User ${user.id.slice(0, 8)}`\n  }\n\n  public static getPlanDisplayName(): string {\n    const user = this.getUser()\n    if (!user) return 'Free'\n    \n    return user.plan === 'premium' ? 'Premium' : 'Free'\n  }\n\n  public static async canMakeRequest(): Promise<{ allowed: boolean; reason?: string }> {\n    if (!this.isAuthenticated()) {\n      // Anonymous users have limited access\n      try {\n        const usage = await this.getUserUsage()\n        if (usage.isLimitReached) {\n          return {\n            allowed: false,\n            reason: 'Free tier limit reached. Please sign up for more requests.'\n          }\n        }\n        return { allowed: true }\n      } catch (error) {\n        // Allow offline fallback\n        return { allowed: true }\n      }\n    }\n    \n    // Authenticated users\n    const user = this.getUser()!\n    \n    if (user.plan === 'premium') {\n      // Premium users have unlimited access (with reasonable rate limits)\n      return { allowed: true }\n    }\n    \n    // Free tier authenticated users\n    try {\n      const usage = await this.getUserUsage()\n      if (usage.isLimitReached) {\n        return {\n          allowed: false,\n          reason: 'Daily limit reached. Upgrade to premium for unlimited access.'\n        }\n      }\n      return { allowed: true }\n    } catch (error) {\n      // Allow offline fallback\n      return { allowed: true }\n    }\n  }\n\n  // Session persistence helpers\n  public static async clearAllData(): Promise<void> {\n    if (typeof chrome !== 'undefined' && chrome.storage) {\n      try {\n        await chrome.storage.local.clear()\n        await chrome.storage.sync.clear()\n      } catch (error) {\n        console.error('Failed to clear storage:', error)\n      }\n    }\n  }\n\n  public static async exportUserData(): Promise<any> {\n    if (typeof chrome !== 'undefined' && chrome.storage) {\n      try {\n        const local = await chrome.storage.local.get()\n        const sync = await chrome.storage.sync.get()\n        \n        return {\n          local,\n          sync,\n          exportedAt: new Date().toISOString()\n        }\n      } catch (error) {\n        console.error('Failed to export data:', error)\n        return null\n      }\n    }\n    \n    return null\n  }\n}
\ No newline at end of file
+      return {
+        current: 0,
+        limit: 10,
+        resetDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        isLimitReached: false,
+        daysUntilReset: 1
+      }
+    }
+  }
+
+  private static isTokenNearExpiry(session: AuthSession): boolean {
+    if (!session.expiresAt) return false
+    
+    const expiryTime = new Date(session.expiresAt).getTime()
+    const currentTime = Date.now()
+    const timeUntilExpiry = expiryTime - currentTime
+    
+    // Refresh if token expires within 1 hour
+    return timeUntilExpiry < 60 * 60 * 1000
+  }
+
+  private static async ensureDeviceId(): Promise<string> {
+    if (typeof chrome === 'undefined' || !chrome.storage) {
+      return crypto.randomUUID()
+    }
+
+    try {
+      const result = await chrome.storage.local.get(this.DEVICE_ID_KEY)
+      if (result[this.DEVICE_ID_KEY]) {
+        return result[this.DEVICE_ID_KEY]
+      }
+      
+      const deviceId = crypto.randomUUID()
+      await chrome.storage.local.set({ [this.DEVICE_ID_KEY]: deviceId })
+      return deviceId
+    } catch (error) {
+      console.error('Failed to manage device ID:', error)
+      return crypto.randomUUID()
+    }
+  }
+
+  public static async getDeviceId(): Promise<string> {
+    return this.ensureDeviceId()
+  }
+
+  private static handleAuthError(error: BackendError) {
+    // Log authentication errors for debugging
+    console.error('Authentication error:', error)
+    
+    // Track authentication failures
+    this.trackEvent('auth_error', { 
+      code: error.code, 
+      message: error.message 
+    })
+  }
+
+  private static trackEvent(event: string, data?: any) {
+    // Simple event tracking for analytics
+    if (typeof chrome !== 'undefined' && chrome.storage) {
+      chrome.storage.local.get('analytics').then(result => {
+        const analytics = result.analytics || []
+        analytics.push({
+          event,
+          data,
+          timestamp: new Date().toISOString(),
+          sessionId: this.getSession().user?.id || 'anonymous'
+        })
+        
+        // Keep only last 100 events
+        if (analytics.length > 100) {
+          analytics.splice(0, analytics.length - 100)
+        }
+        
+        chrome.storage.local.set({ analytics })
+      }).catch(error => {
+        console.error('Failed to track event:', error)
+      })
+    }
+  }
+
+  // Helper methods for UI
+  public static getDisplayName(): string {
+    const user = this.getUser()
+    if (!user) return 'Guest'
+    
+    return user.email || `User ${user.id.slice(0, 8)}`
+  }
+
+  public static getPlanDisplayName(): string {
+    const user = this.getUser()
+    if (!user) return 'Free'
+    
+    return user.plan === 'premium' ? 'Premium' : 'Free'
+  }
+
+  public static async canMakeRequest(): Promise<{ allowed: boolean; reason?: string }> {
+    if (!this.isAuthenticated()) {
+      // Anonymous users have limited access
+      try {
+        const usage = await this.getUserUsage()
+        if (usage.isLimitReached) {
+          return {
+            allowed: false,
+            reason: 'Free tier limit reached. Please sign up for more requests.'
+          }
+        }
+        return { allowed: true }
+      } catch (error) {
+        // Allow offline fallback
+        return { allowed: true }
+      }
+    }
+    
+    // Authenticated users
+    const user = this.getUser()!
+    
+    if (user.plan === 'premium') {
+      // Premium users have unlimited access (with reasonable rate limits)
+      return { allowed: true }
+    }
+    
+    // Free tier authenticated users
+    try {
+      const usage = await this.getUserUsage()
+      if (usage.isLimitReached) {
+        return {
+          allowed: false,
+          reason: 'Daily limit reached. Upgrade to premium for unlimited access.'
+        }
+      }
+      return { allowed: true }
+    } catch (error) {
+      // Allow offline fallback
+      return { allowed: true }
+    }
+  }
+
+  // Session persistence helpers
+  public static async clearAllData(): Promise<void> {
+    if (typeof chrome !== 'undefined' && chrome.storage) {
+      try {
+        await chrome.storage.local.clear()
+        await chrome.storage.sync.clear()
+      } catch (error) {
+        console.error('Failed to clear storage:', error)
+      }
+    }
+  }
+
+  public static async exportUserData(): Promise<any> {
+    if (typeof chrome !== 'undefined' && chrome.storage) {
+      try {
+        const local = await chrome.storage.local.get()
+        const sync = await chrome.storage.sync.get()
+        
+        return {
+          local,
+          sync,
+          exportedAt: new Date().toISOString()
+        }
+      } catch (error) {
+        console.error('Failed to export data:', error)
+        return null
+      }
+    }
+    
+    return null
+  }
+}
\ No newline at end of file
@@ -1,4 +1,8 @@
-import { PromptAnalysis } from '@/types'
+import { BackendResponse, PromptAnalysis } from '@/types'
+import { BackendService } from './backendService'
+import { PromptImprover } from './promptImprover'
+import { PromptScorer } from '../../backend/src/contract/promptScore'
+import { ImproveStreamEvent, readSSE } from '../../backend/src/contract/sse'
 
 export interface BackendProviderResponse {
   improvedPrompt: string
@@ -12,8 +16,14 @@ export interface BackendProviderResponse {
   error?: string
 }
 
+export interface StreamImproveOptions {
+  provider?: 'openai' | 'anthropic' | 'local'
+  language?: string
+  signal?: AbortSignal
+  onToken?: (text: string, improvedSoFar: string) => void
+}
+
 export class BackendProvider {
-  private static readonly BACKEND_API_URL = process.env.BACKEND_API_URL || 'https://your-railway-url.railway.app/api'
   private static extensionId: string
 
   public static initialize() {
@@ -26,58 +36,24 @@ export class BackendProvider {
     language?: string
   ): Promise<BackendProviderResponse> {
     try {
-      const response = await fetch(`${this.BACKEND_API_URL}/prompts/improve`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-extension-id': this.extensionId
-        },
-        body: JSON.stringify({
-          text: originalPrompt,
-          provider,
-          language
-        })
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        
-        if (response.status === 429) {
-          // Rate limit exceeded
-          return {
-            improvedPrompt: originalPrompt,
-            usage: errorData.usage || {
-              tokens: 0,
-              cost: 0,
-              queriesUsed: errorData.queriesUsed || 5,
-              queriesLimit: errorData.queriesLimit || 5,
-              isPremium: false
-            },
-            error: errorData.message || 'Rate limit exceeded. Upgrade for unlimited access.'
-          }
-        }
-        
-        throw new Error(errorData.error || 'Failed to improve prompt')
-      }
+      const result = BackendService.getSession().isAuthenticated
+        ? await BackendService.improvePrompt(originalPrompt, provider, undefined, language)
+        : await BackendService.improvePromptAnonymous(originalPrompt, provider, undefined, language)
 
-      const data = await response.json()
-      
       return {
-        improvedPrompt: data.improvedPrompt,
-        usage: {
-          tokens: data.usage.tokens,
-          cost: data.usage.cost,
-          queriesUsed: data.usage.queriesUsed,
-          queriesLimit: data.usage.queriesLimit,
-          isPremium: data.usage.isPremium
-        }
+        improvedPrompt: result.improvedPrompt,
+        usage: this.toUsage(result.usage, BackendService.getLastUsage())
       }
     } catch (error: any) {
       console.error('Backend API error:', error)
-      
-      // Don't fallback for rate limit errors
-      if (error.message.includes('Rate limit') || error.message.includes('Usage limit')) {
-        throw error
+
+      if (BackendService.isRateLimitError(error)) {
+        // Quota exhausted: keep the original text and surface the limit
+        return {
+          improvedPrompt: originalPrompt,
+          usage: this.toUsage(undefined, error.details?.usage || BackendService.getLastUsage()),
+          error: error.message || 'Rate limit exceeded. Upgrade for unlimited access.'
+        }
       }
       
       // Fallback to local improvement for other errors
@@ -85,6 +61,94 @@ export class BackendProvider {
     }
   }
 
+  // Streams the improvement over SSE; aborting the signal cancels the request
+  public static async improvePromptStream(
+    originalPrompt: string,
+    options: StreamImproveOptions = {}
+  ): Promise<BackendProviderResponse> {
+    const { provider = 'openai', language, signal, onToken } = options
+    let improvedSoFar = ''
+
+    try {
+      const response = await BackendService.openImproveStream(originalPrompt, provider, language, signal)
+
+      if (response.status === 429) {
+        // Quota exhausted: keep the original text and surface the limit
+        const envelope = await response.json().catch(() => undefined)
+        return {
+          improvedPrompt: originalPrompt,
+          usage: this.toUsage(undefined, envelope?.error?.details?.usage),
+          error: envelope?.error?.message || 'Rate limit exceeded. Upgrade for unlimited access.'
+        }
+      }
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Streaming request failed: ${response.status}`)
+      }
+
+      for await (const message of readSSE(response.body)) {
+        const event = { event: message.event, data: JSON.parse(message.data) } as ImproveStreamEvent
+
+        switch (event.event) {
+          case 'token':
+            improvedSoFar += event.data.text
+            onToken?.(event.data.text, improvedSoFar)
+            break
+          case 'done':
+            return {
+              improvedPrompt: event.data.improvedPrompt,
+              usage: event.data.usage
+            }
+          case 'error':
+            throw new Error(event.data.message)
+        }
+      }
+
+      throw new Error('Stream ended before completion')
+    } catch (error: any) {
+      // Cancellation is the caller's decision, not a failure to recover from
+      if (signal?.aborted) {
+        throw error
+      }
+
+      console.error('Backend streaming error:', error)
+      return this.fallbackToLocal(originalPrompt, language)
+    }
+  }
+
+  // Structured analysis from the backend's LLM; the local rules answer when
+  // the backend is unreachable or the provider's JSON could not be used.
+  // Pass the improvement the user got to have it explained rather than redone.
+  public static async analyzePrompt(originalPrompt: string, improvedPrompt?: string, language?: string): Promise<PromptAnalysis> {
+    try {
+      const analysis = await BackendService.analyzePrompt(originalPrompt, improvedPrompt, language)
+      return {
+        ...analysis,
+        source: analysis.source || 'llm',
+        // Older backends don't score their analyses
+        scores: analysis.scores || PromptScorer.compare(originalPrompt, analysis.improvedPrompt)
+      }
+    } catch (error: any) {
+      console.warn('Structured analysis unavailable, using local rules:', error?.message || error)
+      const analysis = PromptImprover.analyzePrompt(originalPrompt)
+      return { ...analysis, improvedPrompt: improvedPrompt ?? analysis.improvedPrompt, source: 'rules' }
+    }
+  }
+
+  private static toUsage(
+    cost: { tokens: number; cost: number } | undefined,
+    quota: BackendResponse['usage']
+  ): NonNullable<BackendProviderResponse['usage']> {
+    const isPremium = quota?.limit === -1
+    return {
+      tokens: cost?.tokens || 0,
+      cost: cost?.cost || 0,
+      queriesUsed: quota?.current || 0,
+      queriesLimit: isPremium ? 'unlimited' : quota?.limit ?? 5,
+      isPremium
+    }
+  }
+
   private static async fallbackToLocal(originalPrompt: string, language?: string): Promise<BackendProviderResponse> {
     // Import local improvement rules
     const { OfflinePromptImprover } = await import('./offlineRules')
@@ -104,18 +168,14 @@ export class BackendProvider {
 
   public static async getUserUsage(): Promise<any> {
     try {
-      const response = await fetch(`${this.BACKEND_API_URL}/prompts/usage`, {
-        method: 'GET',
-        headers: {
-          'x-extension-id': this.extensionId
+      const usage = await BackendService.getUsageInfo()
+      return {
+        user: {
+          queriesUsed: usage.current,
+          queriesLimit: usage.limit === -1 ? 'unlimited' : usage.limit,
+          isPremium: usage.limit === -1
         }
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to get usage stats')
       }
-
-      return await response.json()
     } catch (error) {
       console.error('Failed to get usage stats:', error)
       return {
@@ -128,22 +188,9 @@ export class BackendProvider {
     }
   }
 
-  public static async createPaymentIntent(plan: string, email?: string): Promise<any> {
+  public static async createPaymentIntent(plan: string): Promise<any> {
     try {
-      const response = await fetch(`${this.BACKEND_API_URL}/payments/create-payment-intent`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-extension-id': this.extensionId
-        },
-        body: JSON.stringify({ plan, email })
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to create payment intent')
-      }
-
-      return await response.json()
+      return await BackendService.createPaymentIntent(plan)
     } catch (error) {
       console.error('Payment intent creation failed:', error)
       throw error
@@ -152,13 +199,7 @@ export class BackendProvider {
 
   public static async getPricing(): Promise<any> {
     try {
-      const response = await fetch(`${this.BACKEND_API_URL}/payments/pricing`)
-      
-      if (!response.ok) {
-        throw new Error('Failed to get pricing')
-      }
-
-      return await response.json()
+      return { pricing: await BackendService.getPricing() }
     } catch (error) {
       console.error('Failed to get pricing:', error)
       return { pricing: [] }
@@ -166,20 +207,19 @@ export class BackendProvider {
   }
 
   public static getUpgradeUrl(): string {
-    return `${this.BACKEND_API_URL.replace('/api', '')}/upgrade`
+    return `${BackendService.getServerUrl()}/upgrade`
   }
 
   public static async testConnection(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.BACKEND_API_URL}/prompts/health`)
-      return response.ok
-    } catch (error) {
-      return false
-    }
+    return BackendService.healthCheck()
+  }
+
+  public static getExtensionId(): string {
+    return this.extensionId
   }
 }
 
 // Initialize on load
 if (typeof chrome !== 'undefined' && chrome.runtime) {
   BackendProvider.initialize()
-}
\ No newline at end of file
+}
@@ -1,8 +1,36 @@
-import { BackendConfig, BackendResponse, BackendError, AuthSession, User, PaymentIntent, UsageInfo, ProviderResponse } from '@/types'
+import { BackendConfig, BackendResponse, BackendError, AuthSession, User, PaymentIntent, UsageInfo, PromptAnalysis } from '@/types'
+import type { ProviderResponse } from './providers'
+import {
+  API_BASE_PATH,
+  API_ROUTES,
+  AddCollectionItemRequest,
+  ApiCollection,
+  ApiCollectionItem,
+  ApiInvite,
+  ApiPendingInvite,
+  ApiWorkspace,
+  ApiWorkspaceDetails,
+  ApiWorkspaceMember,
+  EnvelopeSchema,
+  ImproveResult,
+  LibrarySyncRequest,
+  LibrarySyncResult,
+  PricingPlan,
+  Schema,
+  SessionData,
+  SignedSiteDefinitions,
+  WorkspaceRole,
+  isApiErrorCode,
+  parse,
+  routePath
+} from '../../backend/src/contract/apiContract'
 
 export class BackendService {
+  // Backend origin; every request goes to the versioned API below it
+  private static readonly SERVER_URL = process.env.REACT_APP_BACKEND_URL || 'https://api.prompt-polisher.com'
+
   private static config: BackendConfig = {
-    baseUrl: process.env.REACT_APP_BACKEND_URL || 'https://api.prompt-polisher.com',
+    baseUrl: BackendService.SERVER_URL + API_BASE_PATH,
     timeout: 30000
   }
   
@@ -10,6 +38,17 @@ export class BackendService {
     isAuthenticated: false
   }
 
+  // Quota from the most recent response, for signed-out callers too
+  private static lastUsage: BackendResponse['usage']
+
+  public static getServerUrl(): string {
+    return this.config.baseUrl.replace(API_BASE_PATH, '')
+  }
+
+  public static getLastUsage(): BackendResponse['usage'] {
+    return this.lastUsage
+  }
+
   public static setConfig(config: Partial<BackendConfig>) {
     this.config = { ...this.config, ...config }
   }
@@ -33,8 +72,9 @@ export class BackendService {
         if (result.authSession) {
           this.session = result.authSession
           
-          // Check if session is expired
-          if (this.session.expiresAt && new Date(this.session.expiresAt) < new Date()) {
+          // Expired sessions without a refresh token cannot be recovered
+          const isExpired = this.session.expiresAt && new Date(this.session.expiresAt) < new Date()
+          if (isExpired && !this.session.refreshToken) {
             await this.logout()
             return this.session
           }
@@ -48,18 +88,22 @@ export class BackendService {
 
   private static async makeRequest<T>(
     endpoint: string, 
-    options: RequestInit = {}
+    options: RequestInit = {},
+    schema?: Schema<T>
   ): Promise<BackendResponse<T>> {
     const url = `${this.config.baseUrl}${endpoint}`
     
-    const headers: HeadersInit = {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      ...options.headers
+      ...(options.headers as Record<string, string>)
     }
 
-    // Add auth token if available
+    // Add auth token if available; without one the backend counts usage by device
     if (this.session.token) {
       headers['Authorization'] = `Bearer ${this.session.token}`
+    } else {
+      const deviceId = await this.deviceId()
+      if (deviceId) headers['X-Device-Id'] = deviceId
     }
 
     // Add API key if configured
@@ -75,13 +119,17 @@ export class BackendService {
 
     try {
       const response = await fetch(url, requestOptions)
-      const data = await response.json()
+      const data = await response.json().catch(() => undefined)
+      const envelope = parse(EnvelopeSchema, data)
 
       if (!response.ok) {
+        const envelopeError = envelope.ok ? envelope.value.error : undefined
         const error: BackendError = {
-          code: this.mapStatusToErrorCode(response.status),
-          message: data.error?.message || response.statusText,
-          details: data.error?.details
+          code: envelopeError && isApiErrorCode(envelopeError.code)
+            ? envelopeError.code
+            : this.mapStatusToErrorCode(response.status),
+          message: envelopeError?.message || response.statusText,
+          details: envelopeError?.details
         }
 
         if (response.status === 429) {
@@ -91,15 +139,31 @@ export class BackendService {
         throw error
       }
 
+      if (!envelope.ok) {
+        throw this.contractError(endpoint, envelope.errors)
+      }
+
+      // Check the payload against the shared contract before anyone uses it
+      if (schema) {
+        const payload = parse(schema, envelope.value.data, '$.data')
+        if (!payload.ok) {
+          throw this.contractError(endpoint, payload.errors)
+        }
+      }
+
+      if (envelope.value.usage) {
+        this.lastUsage = envelope.value.usage
+      }
+
       // Update usage info if provided
-      if (data.usage && this.session.user) {
-        this.session.user.usage = data.usage
+      if (envelope.value.usage && this.session.user) {
+        this.session.user.usage = envelope.value.usage
         this.setSession(this.session)
       }
 
-      return data
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
+      return envelope.value as BackendResponse<T>
+    } catch (error: any) {
+      if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
         throw { code: 'NETWORK_ERROR', message: 'Request timeout' } as BackendError
       }
       
@@ -114,6 +178,15 @@ export class BackendService {
     }
   }
 
+  private static contractError(endpoint: string, errors: string[]): BackendError {
+    console.error(`Response from ${endpoint} does not match the API contract:`, errors)
+    return {
+      code: 'SERVER_ERROR',
+      message: 'Unexpected response from server',
+      details: errors
+    }
+  }
+
   private static mapStatusToErrorCode(status: number): BackendError['code'] {
     switch (status) {
       case 401: return 'UNAUTHORIZED'
@@ -129,44 +202,32 @@ export class BackendService {
   }
 
   // Authentication methods
+  // Sends the device id the free tier was used with, so that usage carries over
   public static async register(email: string, password?: string): Promise<AuthSession> {
-    const response = await this.makeRequest<{ user: User; token: string; expiresAt: string }>('/auth/register', {
+    const response = await this.makeRequest(API_ROUTES.register.path, {
       method: 'POST',
-      body: JSON.stringify({ email, password })
-    })
-
-    const session: AuthSession = {
-      token: response.data?.token,
-      user: response.data?.user,
-      isAuthenticated: true,
-      expiresAt: response.data?.expiresAt
-    }
+      body: JSON.stringify({ email, password, deviceId: await this.deviceId() })
+    }, API_ROUTES.register.response)
 
-    this.setSession(session)
-    return session
+    return this.startSession(response.data)
   }
 
   public static async login(email: string, password: string): Promise<AuthSession> {
-    const response = await this.makeRequest<{ user: User; token: string; expiresAt: string }>('/auth/login', {
+    const response = await this.makeRequest(API_ROUTES.login.path, {
       method: 'POST',
       body: JSON.stringify({ email, password })
-    })
+    }, API_ROUTES.login.response)
 
-    const session: AuthSession = {
-      token: response.data?.token,
-      user: response.data?.user,
-      isAuthenticated: true,
-      expiresAt: response.data?.expiresAt
-    }
-
-    this.setSession(session)
-    return session
+    return this.startSession(response.data)
   }
 
   public static async logout(): Promise<void> {
     if (this.session.token) {
       try {
-        await this.makeRequest('/auth/logout', { method: 'POST' })
+        await this.makeRequest(API_ROUTES.logout.path, {
+          method: 'POST',
+          body: JSON.stringify({ refreshToken: this.session.refreshToken })
+        })
       } catch (error) {
         console.error('Logout request failed:', error)
       }
@@ -177,15 +238,25 @@ export class BackendService {
   }
 
   public static async refreshToken(): Promise<AuthSession> {
-    const response = await this.makeRequest<{ user: User; token: string; expiresAt: string }>('/auth/refresh', {
-      method: 'POST'
-    })
+    if (!this.session.refreshToken) {
+      throw { code: 'UNAUTHORIZED', message: 'No refresh token available' } as BackendError
+    }
+
+    const response = await this.makeRequest(API_ROUTES.refresh.path, {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken: this.session.refreshToken })
+    }, API_ROUTES.refresh.response)
+
+    return this.startSession(response.data)
+  }
 
+  private static startSession(payload?: SessionData): AuthSession {
     const session: AuthSession = {
-      token: response.data?.token,
-      user: response.data?.user,
-      isAuthenticated: true,
-      expiresAt: response.data?.expiresAt
+      token: payload?.token,
+      refreshToken: payload?.refreshToken,
+      user: payload?.user,
+      isAuthenticated: !!payload?.token,
+      expiresAt: payload?.expiresAt
     }
 
     this.setSession(session)
@@ -193,7 +264,7 @@ export class BackendService {
   }
 
   public static async getUserInfo(): Promise<User> {
-    const response = await this.makeRequest<User>('/user/profile')
+    const response = await this.makeRequest(API_ROUTES.me.path, {}, API_ROUTES.me.response)
     
     if (response.data && this.session.user) {
       this.session.user = response.data
@@ -204,7 +275,7 @@ export class BackendService {
   }
 
   public static async getUsageInfo(): Promise<UsageInfo> {
-    const response = await this.makeRequest<UsageInfo>('/user/usage')
+    const response = await this.makeRequest(API_ROUTES.usage.path, {}, API_ROUTES.usage.response)
     return response.data!
   }
 
@@ -215,7 +286,7 @@ export class BackendService {
     model?: string,
     language?: string
   ): Promise<ProviderResponse> {
-    const response = await this.makeRequest<ProviderResponse>('/ai/improve', {
+    const response = await this.makeRequest(API_ROUTES.improve.path, {
       method: 'POST',
       body: JSON.stringify({
         prompt: originalPrompt,
@@ -223,18 +294,51 @@ export class BackendService {
         model,
         language
       })
-    })
+    }, API_ROUTES.improve.response)
 
-    return response.data!
+    return this.toProviderResponse(response.data!)
   }
 
-  public static async analyzePrompt(text: string): Promise<any> {
-    const response = await this.makeRequest('/ai/analyze', {
+  // Opens the SSE stream of an improvement; the caller reads the events (see
+  // readSSE). A failure before the stream starts, such as the quota, comes
+  // back as an envelope with the error status.
+  public static async openImproveStream(
+    originalPrompt: string,
+    provider: string = 'openai',
+    language?: string,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return fetch(`${this.config.baseUrl}${API_ROUTES.improveStream.path}`, {
       method: 'POST',
-      body: JSON.stringify({ prompt: text })
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        ...(this.session.token && { 'Authorization': `Bearer ${this.session.token}` })
+      },
+      body: JSON.stringify({
+        prompt: originalPrompt,
+        provider,
+        language,
+        deviceId: this.session.token ? undefined : await this.deviceId()
+      }),
+      signal
     })
+  }
+
+  public static async analyzePrompt(text: string, improvedPrompt?: string, language?: string): Promise<PromptAnalysis> {
+    const response = await this.makeRequest(API_ROUTES.analyze.path, {
+      method: 'POST',
+      body: JSON.stringify({ prompt: text, improvedPrompt, language })
+    }, API_ROUTES.analyze.response)
+
+    return response.data!
+  }
 
-    return response.data
+  private static toProviderResponse(result: ImproveResult): ProviderResponse {
+    return {
+      improvedPrompt: result.improvedPrompt,
+      usage: result.usage
+    }
   }
 
   // Payment methods
@@ -242,10 +346,10 @@ export class BackendService {
     planId: string, 
     currency: string = 'usd'
   ): Promise<PaymentIntent> {
-    const response = await this.makeRequest<PaymentIntent>('/payments/create-intent', {
+    const response = await this.makeRequest(API_ROUTES.createPaymentIntent.path, {
       method: 'POST',
       body: JSON.stringify({ planId, currency })
-    })
+    }, API_ROUTES.createPaymentIntent.response)
 
     return response.data!
   }
@@ -253,23 +357,142 @@ export class BackendService {
   public static async confirmPayment(
     paymentIntentId: string,
     paymentMethodId: string
-  ): Promise<{ success: boolean; subscription?: any }> {
-    const response = await this.makeRequest('/payments/confirm', {
+  ): Promise<{ success: boolean; status: string }> {
+    const response = await this.makeRequest(API_ROUTES.confirmPayment.path, {
       method: 'POST',
       body: JSON.stringify({ paymentIntentId, paymentMethodId })
-    })
+    }, API_ROUTES.confirmPayment.response)
+
+    return response.data!
+  }
+
+  public static async getPricing(): Promise<PricingPlan[]> {
+    const response = await this.makeRequest(API_ROUTES.pricing.path, {}, API_ROUTES.pricing.response)
+    return response.data!
+  }
+
+  // Pushes local library changes and pulls everything after `request.cursor`
+  public static async syncLibrary(request: LibrarySyncRequest): Promise<LibrarySyncResult> {
+    return this.withFreshToken(() => this.makeRequest(API_ROUTES.librarySync.path, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    }, API_ROUTES.librarySync.response))
+  }
 
+  // Latest published site selectors; check the signature with SiteDefinitions before use
+  public static async getSiteDefinitions(): Promise<SignedSiteDefinitions> {
+    const response = await this.makeRequest(API_ROUTES.siteDefinitions.path, {}, API_ROUTES.siteDefinitions.response)
     return response.data!
   }
 
-  public static async cancelSubscription(): Promise<void> {
-    await this.makeRequest('/payments/cancel-subscription', { method: 'POST' })
+  // Team workspace methods
+  public static async getWorkspaces(): Promise<ApiWorkspace[]> {
+    return this.withFreshToken(() => this.makeRequest(API_ROUTES.workspaces.path, {}, API_ROUTES.workspaces.response))
+  }
+
+  public static async createWorkspace(name: string): Promise<ApiWorkspace> {
+    return this.withFreshToken(() => this.makeRequest(API_ROUTES.createWorkspace.path, {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    }, API_ROUTES.createWorkspace.response))
+  }
+
+  // `token` is the invite= parameter of an invite link
+  public static async joinWorkspace(token: string): Promise<ApiWorkspace> {
+    return this.withFreshToken(() => this.makeRequest(API_ROUTES.joinWorkspace.path, {
+      method: 'POST',
+      body: JSON.stringify({ token })
+    }, API_ROUTES.joinWorkspace.response))
+  }
+
+  public static async getWorkspace(workspaceId: string): Promise<ApiWorkspaceDetails> {
+    const path = routePath(API_ROUTES.workspace.path, { workspaceId })
+    return this.withFreshToken(() => this.makeRequest(path, {}, API_ROUTES.workspace.response))
+  }
+
+  public static async createInvite(workspaceId: string, role: WorkspaceRole): Promise<ApiInvite> {
+    const path = routePath(API_ROUTES.createInvite.path, { workspaceId })
+    return this.withFreshToken(() => this.makeRequest(path, {
+      method: 'POST',
+      body: JSON.stringify({ role })
+    }, API_ROUTES.createInvite.response))
+  }
+
+  // Invite links that still work; needs a role that may invite
+  public static async getInvites(workspaceId: string): Promise<ApiPendingInvite[]> {
+    const path = routePath(API_ROUTES.invites.path, { workspaceId })
+    return this.withFreshToken(() => this.makeRequest(path, {}, API_ROUTES.invites.response))
+  }
+
+  public static async revokeInvite(workspaceId: string, inviteId: string): Promise<void> {
+    const path = routePath(API_ROUTES.revokeInvite.path, { workspaceId, inviteId })
+    await this.withFreshToken(() => this.makeRequest(path, { method: 'DELETE' }, API_ROUTES.revokeInvite.response))
+  }
+
+  public static async updateMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<ApiWorkspaceMember> {
+    const path = routePath(API_ROUTES.updateMember.path, { workspaceId, userId })
+    return this.withFreshToken(() => this.makeRequest(path, {
+      method: 'POST',
+      body: JSON.stringify({ role })
+    }, API_ROUTES.updateMember.response))
+  }
+
+  // Removing your own user id leaves the workspace
+  public static async removeMember(workspaceId: string, userId: string): Promise<void> {
+    const path = routePath(API_ROUTES.removeMember.path, { workspaceId, userId })
+    await this.withFreshToken(() => this.makeRequest(path, { method: 'DELETE' }, API_ROUTES.removeMember.response))
+  }
+
+  public static async getCollections(workspaceId: string): Promise<ApiCollection[]> {
+    const path = routePath(API_ROUTES.collections.path, { workspaceId })
+    return this.withFreshToken(() => this.makeRequest(path, {}, API_ROUTES.collections.response))
+  }
+
+  public static async createCollection(workspaceId: string, name: string): Promise<ApiCollection> {
+    const path = routePath(API_ROUTES.createCollection.path, { workspaceId })
+    return this.withFreshToken(() => this.makeRequest(path, {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    }, API_ROUTES.createCollection.response))
+  }
+
+  public static async deleteCollection(workspaceId: string, collectionId: string): Promise<void> {
+    const path = routePath(API_ROUTES.deleteCollection.path, { workspaceId, collectionId })
+    await this.withFreshToken(() => this.makeRequest(path, { method: 'DELETE' }, API_ROUTES.deleteCollection.response))
+  }
+
+  public static async addCollectionItem(
+    workspaceId: string,
+    collectionId: string,
+    item: AddCollectionItemRequest
+  ): Promise<ApiCollectionItem> {
+    const path = routePath(API_ROUTES.addCollectionItem.path, { workspaceId, collectionId })
+    return this.withFreshToken(() => this.makeRequest(path, {
+      method: 'POST',
+      body: JSON.stringify(item)
+    }, API_ROUTES.addCollectionItem.response))
+  }
+
+  public static async removeCollectionItem(workspaceId: string, collectionId: string, itemId: string): Promise<void> {
+    const path = routePath(API_ROUTES.removeCollectionItem.path, { workspaceId, collectionId, itemId })
+    await this.withFreshToken(() => this.makeRequest(path, { method: 'DELETE' }, API_ROUTES.removeCollectionItem.response))
+  }
+
+  // Syncs and the team views run long after sign-in, so an expired token is renewed once
+  private static async withFreshToken<T>(send: () => Promise<BackendResponse<T>>): Promise<T> {
+    try {
+      return (await send()).data!
+    } catch (error) {
+      if (!this.isAuthError(error as BackendError) || !this.session.refreshToken) throw error
+      await this.refreshToken()
+      return (await send()).data!
+    }
   }
 
   // Health check
   public static async healthCheck(): Promise<boolean> {
     try {
-      const response = await this.makeRequest('/health')
+      const response = await this.makeRequest(API_ROUTES.health.path, {}, API_ROUTES.health.response)
       return response.success
     } catch (error) {
       return false
@@ -283,23 +506,9 @@ export class BackendService {
     model?: string,
     language?: string
   ): Promise<ProviderResponse> {
-    // Try to get a device ID for rate limiting
-    let deviceId = ''
-    if (typeof chrome !== 'undefined' && chrome.storage) {
-      try {
-        const result = await chrome.storage.local.get('deviceId')
-        if (!result.deviceId) {
-          deviceId = crypto.randomUUID()
-          await chrome.storage.local.set({ deviceId })
-        } else {
-          deviceId = result.deviceId
-        }
-      } catch (error) {
-        deviceId = crypto.randomUUID()
-      }
-    }
+    const deviceId = await this.deviceId()
 
-    const response = await this.makeRequest<ProviderResponse>('/ai/improve-anonymous', {
+    const response = await this.makeRequest(API_ROUTES.improveAnonymous.path, {
       method: 'POST',
       body: JSON.stringify({
         prompt: originalPrompt,
@@ -308,18 +517,30 @@ export class BackendService {
         language,
         deviceId
       })
-    })
+    }, API_ROUTES.improveAnonymous.response)
 
-    return response.data!
+    return this.toProviderResponse(response.data!)
+  }
+
+  // Identifies this install to the backend; empty outside the extension
+  private static async deviceId(): Promise<string> {
+    if (typeof chrome === 'undefined' || !chrome.storage) return ''
+
+    try {
+      const result = await chrome.storage.local.get('deviceId')
+      if (result.deviceId) return result.deviceId
+
+      const deviceId = crypto.randomUUID()
+      await chrome.storage.local.set({ deviceId })
+      return deviceId
+    } catch (error) {
+      return crypto.randomUUID()
+    }
   }
 
   // Validation helpers
   public static validateResponse<T>(response: any): response is BackendResponse<T> {
-    return (
-      typeof response === 'object' &&
-      response !== null &&
-      typeof response.success === 'boolean'
-    )
+    return parse(EnvelopeSchema, response).ok
   }
 
   public static isAuthError(error: BackendError): boolean {
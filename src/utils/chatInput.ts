@@ -0,0 +1,83 @@
+// Reads and edits the text around the caret of a chat input: a textarea, an
+// input, or a contenteditable editor such as ProseMirror. Edits go through the
+// browser's editing commands or a paste event where possible, so the site's own
+// editor state (React, ProseMirror) sees them like typing and undo still works.
+export class ChatInput {
+  public static isTextField(element: HTMLElement): element is HTMLTextAreaElement | HTMLInputElement {
+    return element.tagName === 'TEXTAREA' || element.tagName === 'INPUT'
+  }
+
+  // Text from the start of the input up to the caret; null when the caret is elsewhere
+  public static textBeforeCaret(element: HTMLElement): string | null {
+    if (this.isTextField(element)) {
+      return element.selectionStart === null ? null : element.value.slice(0, element.selectionStart)
+    }
+
+    const selection = window.getSelection()
+    if (!selection || selection.rangeCount === 0 || !selection.focusNode || !element.contains(selection.focusNode)) {
+      return null
+    }
+    const range = document.createRange()
+    range.selectNodeContents(element)
+    range.setEnd(selection.focusNode, selection.focusOffset)
+    return range.toString()
+  }
+
+  // Remembers the caret, e.g. while a form has focus; the returned function puts it back
+  public static saveCaret(element: HTMLElement): () => void {
+    if (this.isTextField(element)) {
+      const { selectionStart, selectionEnd } = element
+      return () => {
+        element.focus()
+        if (selectionStart !== null) element.setSelectionRange(selectionStart, selectionEnd ?? selectionStart)
+      }
+    }
+
+    const selection = window.getSelection()
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0).cloneRange() : null
+    return () => {
+      element.focus()
+      if (range) {
+        window.getSelection()?.removeAllRanges()
+        window.getSelection()?.addRange(range)
+      }
+    }
+  }
+
+  // Replaces the `length` characters before the caret with `text` (inserts when 0)
+  public static replaceBeforeCaret(element: HTMLElement, length: number, text: string): void {
+    if (this.isTextField(element)) {
+      const end = element.selectionStart ?? element.value.length
+      const start = Math.max(0, end - length)
+      element.focus()
+      element.setSelectionRange(start, end)
+      if (!document.execCommand('insertText', false, text)) {
+        element.setRangeText(text, start, end, 'end')
+        element.dispatchEvent(new Event('input', { bubbles: true }))
+      }
+      return
+    }
+
+    element.focus()
+    const selection = window.getSelection()
+    if (!selection) return
+    selection.collapseToEnd()
+    for (let i = 0; i < length; i++) {
+      selection.modify('extend', 'backward', 'character')
+    }
+
+    // ProseMirror and most rich editors turn a paste into proper paragraphs
+    const data = new DataTransfer()
+    data.setData('text/plain', text)
+    const paste = new ClipboardEvent('paste', { clipboardData: data, bubbles: true, cancelable: true })
+    if (!element.dispatchEvent(paste)) return
+
+    if (!document.execCommand('insertText', false, text)) {
+      const range = selection.getRangeAt(0)
+      range.deleteContents()
+      range.insertNode(document.createTextNode(text))
+      selection.collapseToEnd()
+      element.dispatchEvent(new Event('input', { bubbles: true }))
+    }
+  }
+}
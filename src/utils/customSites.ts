@@ -0,0 +1,133 @@
+import { SiteConfig } from '@/types'
+import { parseSites } from '../../backend/src/contract/siteDefinitions'
+import { SITE_ADAPTERS, SiteAdapters } from './siteAdapters'
+
+const STORAGE_KEY = 'customSites'
+
+// A hostname, optionally behind "*." for all its subdomains
+const DOMAIN_PATTERN = /^(\*\.)?([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)*[a-z0-9]([a-z0-9-]*[a-z0-9])?$/
+
+export interface CustomSiteInput {
+  name: string
+  // Hostname, "*.hostname" or a pasted URL
+  domain: string
+  selectors: string[]
+}
+
+// Chat sites the user added in the options page, such as internal or
+// self-hosted tools. Unlike the bundled sites they are not in the manifest:
+// the options page asks for the site's optional host permission and the
+// background registers the content script for every site it was granted on.
+export class CustomSites {
+  private static sites: SiteConfig[] = []
+  private static listening = false
+
+  public static list(): SiteConfig[] {
+    return [...this.sites]
+  }
+
+  public static async load(): Promise<SiteConfig[]> {
+    try {
+      const { [STORAGE_KEY]: stored } = await chrome.storage.local.get(STORAGE_KEY)
+      this.use(this.sanitize(stored))
+    } catch (error) {
+      console.error('Failed to load custom sites:', error)
+      this.use([])
+    }
+
+    if (!this.listening) {
+      this.listening = true
+      chrome.storage.onChanged.addListener((changes, area) => {
+        if (area === 'local' && changes[STORAGE_KEY]) {
+          this.use(this.sanitize(changes[STORAGE_KEY].newValue))
+        }
+      })
+    }
+
+    return this.list()
+  }
+
+  // Builds the config for a site from the options form. Throws with a message
+  // for the user when the input is not usable.
+  public static create(input: CustomSiteInput): SiteConfig {
+    const domain = this.domain(input.domain)
+    const selectors = input.selectors.map(selector => selector.trim()).filter(Boolean)
+    if (selectors.length === 0) {
+      throw new Error('Add at least one selector for the chat input, or pick the input on the page')
+    }
+    const invalid = selectors.find(selector => !SiteAdapters.isValidSelector(selector))
+    if (invalid) {
+      throw new Error(`"${invalid}" is not a valid CSS selector`)
+    }
+
+    const result = parseSites([{
+      domain,
+      name: input.name.trim() || domain,
+      selectors: { textInputs: selectors, contentEditable: [] },
+      insertionMethod: 'replace',
+      position: 'after',
+      timing: { waitForLoad: 1500, checkInterval: 1000 }
+    }])
+    if (!result.ok) {
+      throw new Error(`Invalid site:\n${result.errors.slice(0, 5).join('\n')}`)
+    }
+    return result.value[0]
+  }
+
+  // The domain a site is stored under, from what the user typed or pasted: the
+  // scheme, port and path of a URL are dropped. Throws when it is not usable.
+  public static domain(value: string): string {
+    const domain = value.trim().toLowerCase()
+      .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+      .replace(/[/?#].*$/, '')
+      .replace(/:\d+$/, '')
+    if (!DOMAIN_PATTERN.test(domain)) {
+      throw new Error(`"${value.trim()}" is not a domain. Use a hostname such as chat.example.com, or *.example.com for all its subdomains.`)
+    }
+    // Wildcards may cover supported sites; those keep their own adapter
+    if (SITE_ADAPTERS.some(adapter => adapter.domain === domain)) {
+      throw new Error(`${domain} is already supported`)
+    }
+    return domain
+  }
+
+  // Adds the site, replacing one with the same domain
+  public static async save(site: SiteConfig): Promise<void> {
+    await this.write([...this.sites.filter(existing => existing.domain !== site.domain), site])
+  }
+
+  public static async remove(domain: string): Promise<void> {
+    await this.write(this.sites.filter(site => site.domain !== domain))
+  }
+
+  // Match pattern for a site's host permission and content script. Self-hosted
+  // tools often run without TLS, so both schemes are covered.
+  public static origin(domain: string): string {
+    return `*://${domain}/*`
+  }
+
+  // Sites whose host permission the user granted and has not revoked since
+  public static async granted(): Promise<SiteConfig[]> {
+    const granted = await Promise.all(this.sites.map(site =>
+      chrome.permissions.contains({ origins: [this.origin(site.domain)] })
+    ))
+    return this.sites.filter((_site, index) => granted[index])
+  }
+
+
+  // Stored sites were validated when added, but storage can be edited by hand
+  private static sanitize(value: unknown): SiteConfig[] {
+    if (!Array.isArray(value)) return []
+    return value.filter(site => parseSites([site]).ok && DOMAIN_PATTERN.test(site.domain))
+  }
+
+  private static use(sites: SiteConfig[]): void {
+    this.sites = sites
+    SiteAdapters.useCustom(sites)
+  }
+
+  private static async write(sites: SiteConfig[]): Promise<void> {
+    this.use(sites)
+    await chrome.storage.local.set({ [STORAGE_KEY]: sites })
+  }
+}
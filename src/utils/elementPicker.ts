@@ -0,0 +1,88 @@
+// Lets the user point at the chat input of a page and returns a CSS selector
+// for it, or null when they press Escape. Runs in the page through
+// chrome.scripting.executeScript, which sends only the function's source, so
+// everything it needs is declared inside it.
+export function pickInputSelector(): Promise<string | null> {
+  const INPUTS = 'textarea, input, [contenteditable], [role="textbox"]'
+  const ATTRIBUTES = ['name', 'placeholder', 'aria-label', 'data-testid', 'data-id']
+
+  const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`
+  const unique = (selector: string) => {
+    try {
+      return document.querySelectorAll(selector).length === 1
+    } catch {
+      return false
+    }
+  }
+
+  // Prefers what the site is least likely to change: an id, then attributes
+  // that describe the input, then its position under the nearest stable parent
+  const selectorFor = (element: Element): string => {
+    const tag = element.tagName.toLowerCase()
+    if (element.id && unique(`[id=${quote(element.id)}]`)) return `[id=${quote(element.id)}]`
+
+    for (const attribute of ATTRIBUTES) {
+      const value = element.getAttribute(attribute)
+      const selector = `${tag}[${attribute}=${quote(value || '')}]`
+      if (value && unique(selector)) return selector
+    }
+    if (element.getAttribute('contenteditable') === 'true' && unique(`${tag}[contenteditable="true"]`)) {
+      return `${tag}[contenteditable="true"]`
+    }
+
+    const parent = element.parentElement
+    if (!parent) return tag
+    const index = Array.from(parent.children).filter(child => child.tagName === element.tagName).indexOf(element) + 1
+    const step = `${tag}:nth-of-type(${index})`
+    return parent === document.body ? `body > ${step}` : `${selectorFor(parent)} > ${step}`
+  }
+
+  return new Promise(resolve => {
+    const highlight = document.createElement('div')
+    highlight.style.cssText = 'position: fixed; z-index: 2147483647; pointer-events: none; border: 2px solid #4f46e5; background: rgba(79, 70, 229, 0.1); border-radius: 4px; display: none;'
+    const banner = document.createElement('div')
+    banner.textContent = 'Prompt Polisher: click the chat input. Press Esc to cancel.'
+    banner.style.cssText = 'position: fixed; z-index: 2147483647; top: 12px; left: 50%; transform: translateX(-50%); padding: 8px 16px; border-radius: 6px; background: #111827; color: #fff; font: 14px -apple-system, BlinkMacSystemFont, sans-serif; pointer-events: none;'
+    document.body.append(highlight, banner)
+
+    let target: Element | null = null
+
+    const onMove = (event: MouseEvent) => {
+      const element = event.target instanceof Element ? event.target : null
+      target = element?.closest(INPUTS) || element
+      if (!target) return
+      const rect = target.getBoundingClientRect()
+      Object.assign(highlight.style, {
+        display: 'block',
+        top: `${rect.top}px`,
+        left: `${rect.left}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`
+      })
+    }
+    // The click must not reach the page, or it would act on what was picked
+    const onClick = (event: MouseEvent) => {
+      event.preventDefault()
+      event.stopPropagation()
+      onMove(event)
+      finish(target ? selectorFor(target) : null)
+    }
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return
+      event.preventDefault()
+      finish(null)
+    }
+    const finish = (selector: string | null) => {
+      document.removeEventListener('mousemove', onMove, true)
+      document.removeEventListener('click', onClick, true)
+      document.removeEventListener('keydown', onKey, true)
+      highlight.remove()
+      banner.remove()
+      resolve(selector)
+    }
+
+    document.addEventListener('mousemove', onMove, true)
+    document.addEventListener('click', onClick, true)
+    document.addEventListener('keydown', onKey, true)
+  })
+}
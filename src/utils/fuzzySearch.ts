@@ -0,0 +1,68 @@
+// Bonuses that make "sq rev" rank "SQL code review" above "A slow query review"
+const MATCH_SCORE = 1
+const CONSECUTIVE_BONUS = 2
+const WORD_START_BONUS = 3
+const PREFIX_BONUS = 4
+
+export interface FuzzyField<T> {
+  get: (item: T) => string | string[] | undefined
+  weight: number
+}
+
+// Typo-tolerant-ish matching for pickers: every query character has to appear in
+// order, and runs, word starts and prefixes rank higher.
+export class FuzzySearch {
+  // 0 when `query` is not a subsequence of `text`, higher for better matches
+  public static score(query: string, text: string): number {
+    const needle = query.toLowerCase()
+    const haystack = text.toLowerCase()
+    if (!needle) return 0
+
+    let score = 0
+    let position = 0
+    let previous = -2
+    for (const char of needle) {
+      const index = haystack.indexOf(char, position)
+      if (index === -1) return 0
+
+      score += MATCH_SCORE
+      if (index === previous + 1) score += CONSECUTIVE_BONUS
+      if (index === 0 || /[\s\-_/.:]/.test(haystack[index - 1])) score += WORD_START_BONUS
+      previous = index
+      position = index + 1
+    }
+
+    if (haystack.startsWith(needle)) score += PREFIX_BONUS
+    // Shorter texts that match equally well are closer to what was typed
+    return score / needle.length + needle.length / Math.max(haystack.length, needle.length)
+  }
+
+  // Items matching every whitespace-separated term in some field, best first.
+  // Each term counts with the weight of the field it matches best.
+  public static search<T>(items: T[], query: string, fields: FuzzyField<T>[], limit = Infinity): T[] {
+    const terms = query.trim().split(/\s+/).filter(Boolean)
+    if (terms.length === 0) return items.slice(0, limit)
+
+    return items
+      .map(item => {
+        const values = fields.map(field => {
+          const value = field.get(item)
+          return { texts: Array.isArray(value) ? value : value ? [value] : [], weight: field.weight }
+        })
+
+        let total = 0
+        for (const term of terms) {
+          const best = Math.max(0, ...values.flatMap(({ texts, weight }) =>
+            texts.map(text => this.score(term, text) * weight)
+          ))
+          if (best === 0) return { item, score: 0 }
+          total += best
+        }
+        return { item, score: total }
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(entry => entry.item)
+  }
+}
@@ -1,143 +1,232 @@
 import { DetectedLanguage } from '@/types'
+import { PromptSegmenter } from '../../backend/src/contract/promptSegmenter'
+import { TRIGRAM_PROFILES } from './languageProfiles'
 
-const LANGUAGE_PATTERNS = {
-  en: {
-    patterns: [
-      /\b(the|and|or|but|in|on|at|to|for|of|with|by)\b/gi,
-      /\b(this|that|these|those|what|when|where|why|how)\b/gi,
-      /\b(I|you|he|she|it|we|they|am|is|are|was|were)\b/gi
-    ],
-    common: ['the', 'and', 'of', 'to', 'a', 'in', 'is', 'it', 'you', 'that']
-  },
-  es: {
-    patterns: [
-      /\b(el|la|los|las|un|una|y|o|pero|en|con|de|por|para)\b/gi,
-      /\b(este|esta|estos|estas|que|cuando|donde|por que|como)\b/gi,
-      /\b(yo|tu|el|ella|nosotros|vosotros|ellos|soy|eres|es|somos)\b/gi
-    ],
-    common: ['de', 'la', 'que', 'el', 'en', 'y', 'a', 'es', 'se', 'no']
-  },
-  fr: {
-    patterns: [
-      /\b(le|la|les|un|une|et|ou|mais|dans|avec|de|par|pour)\b/gi,
-      /\b(ce|cette|ces|que|quand|ou|pourquoi|comment)\b/gi,
-      /\b(je|tu|il|elle|nous|vous|ils|suis|es|est|sommes)\b/gi
-    ],
-    common: ['de', 'le', 'et', 'à', 'un', 'il', 'être', 'et', 'en', 'avoir']
-  },
-  de: {
-    patterns: [
-      /\b(der|die|das|ein|eine|und|oder|aber|in|mit|von|für)\b/gi,
-      /\b(dieser|diese|dieses|was|wann|wo|warum|wie)\b/gi,
-      /\b(ich|du|er|sie|wir|ihr|sie|bin|bist|ist|sind)\b/gi
-    ],
-    common: ['der', 'die', 'und', 'in', 'den', 'von', 'zu', 'das', 'mit', 'sich']
-  },
-  zh: {
-    patterns: [
-      /[\u4e00-\u9fff]/g,
-      /[的|了|是|在|有|和|就|不|与|也|都|这|那]/g
-    ],
-    common: ['的', '了', '是', '在', '有', '和', '就', '不', '与', '也']
-  },
-  ja: {
-    patterns: [
-      /[\u3040-\u309f]/g, // Hiragana
-      /[\u30a0-\u30ff]/g, // Katakana
-      /[\u4e00-\u9faf]/g  // Kanji
-    ],
-    common: ['の', 'に', 'は', 'を', 'が', 'と', 'で', 'て', 'だ', 'である']
-  },
-  pt: {
-    patterns: [
-      /\b(o|a|os|as|um|uma|e|ou|mas|em|com|de|por|para)\b/gi,
-      /\b(este|esta|estes|estas|que|quando|onde|por que|como)\b/gi,
-      /\b(eu|tu|ele|ela|nós|vós|eles|sou|és|é|somos)\b/gi
-    ],
-    common: ['de', 'a', 'o', 'que', 'e', 'do', 'da', 'em', 'um', 'para']
-  }
+// Scripts that identify a single language on their own. Han and kana are handled
+// separately because Japanese mixes both; Latin, Cyrillic and Arabic need trigrams.
+const SINGLE_LANGUAGE_SCRIPTS: Record<string, string> = {
+  Greek: 'el',
+  Hebrew: 'he',
+  Devanagari: 'hi',
+  Thai: 'th',
+  Hangul: 'ko'
+}
+
+const SCRIPT_PATTERNS: Array<{ script: string; pattern: RegExp }> = [
+  { script: 'Latin', pattern: /\p{Script=Latin}/u },
+  { script: 'Cyrillic', pattern: /\p{Script=Cyrillic}/u },
+  { script: 'Arabic', pattern: /\p{Script=Arabic}/u },
+  { script: 'Han', pattern: /\p{Script=Han}/u },
+  { script: 'Kana', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u },
+  ...Object.keys(SINGLE_LANGUAGE_SCRIPTS).map(script => ({ script, pattern: new RegExp(`\\p{Script=${script}}`, 'u') }))
+]
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  it: 'Italian',
+  de: 'German',
+  nl: 'Dutch',
+  sv: 'Swedish',
+  da: 'Danish',
+  no: 'Norwegian',
+  fi: 'Finnish',
+  pl: 'Polish',
+  cs: 'Czech',
+  ro: 'Romanian',
+  hu: 'Hungarian',
+  tr: 'Turkish',
+  id: 'Indonesian',
+  vi: 'Vietnamese',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  bg: 'Bulgarian',
+  ar: 'Arabic',
+  fa: 'Persian',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+  el: 'Greek',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  th: 'Thai'
 }
 
+// Below this many letters the trigram statistics are too thin for Latin text
+const MIN_LATIN_LETTERS = 10
+// Share of kana among CJK characters from which Han-script text counts as Japanese
+const MIN_KANA_SHARE = 0.05
+// Document trigrams compared against the profiles
+const MAX_DOCUMENT_TRIGRAMS = 300
+// Score of a document trigram the profile lacks; present ones score 0..1 by rank
+const MISSING_PENALTY = 0.5
+// Sharpness of the softmax that turns profile scores into probabilities
+const CONFIDENCE_SHARPNESS = 40
+
+const FALLBACK: DetectedLanguage = { code: 'en', name: 'English', confidence: 0.5 }
+
+// Parsed lazily: trigram -> rank for every language of a script
+let rankedProfiles: Record<string, Record<string, Map<string, number>>> | undefined
+
 export class LanguageDetector {
-  private static scoreLanguage(text: string, langCode: string): number {
-    const config = LANGUAGE_PATTERNS[langCode as keyof typeof LANGUAGE_PATTERNS]
-    if (!config) return 0
-
-    let score = 0
-    const textLower = text.toLowerCase()
-    const words = textLower.split(/\s+/)
-    
-    // Check common words
-    for (const word of config.common) {
-      const regex = new RegExp(`\\b${word}\\b`, 'gi')
-      const matches = text.match(regex)
-      if (matches) {
-        score += matches.length * 2 // Higher weight for common words
-      }
+  public static detect(text: string): DetectedLanguage {
+    return this.detectAll(text, 1)[0]
+  }
+
+  // Candidate languages, most likely first. Confidences sum to at most 1 and are split
+  // between scripts by their share of the letters, so mixed-script prompts rank both.
+  public static detectAll(text: string, limit = 5): DetectedLanguage[] {
+    const prose = this.stripNonProse(text || '')
+    const scripts = this.countScripts(prose)
+    const letters = Object.values(scripts).reduce((sum, count) => sum + count, 0)
+
+    if (letters === 0 || (letters === (scripts.Latin || 0) && letters < MIN_LATIN_LETTERS)) {
+      return [{ ...FALLBACK }]
+    }
+
+    const candidates: DetectedLanguage[] = []
+    const add = (code: string, confidence: number) => {
+      const existing = candidates.find(candidate => candidate.code === code)
+      if (existing) existing.confidence += confidence
+      else candidates.push({ code, name: LANGUAGE_NAMES[code] || 'Unknown', confidence })
+    }
+
+    const cjk = (scripts.Han || 0) + (scripts.Kana || 0)
+    if (cjk > 0) {
+      add((scripts.Kana || 0) / cjk >= MIN_KANA_SHARE ? 'ja' : 'zh', cjk / letters)
     }
 
-    // Check patterns
-    for (const pattern of config.patterns) {
-      const matches = text.match(pattern)
-      if (matches) {
-        score += matches.length
+    for (const [script, count] of Object.entries(scripts)) {
+      if (SINGLE_LANGUAGE_SCRIPTS[script]) {
+        add(SINGLE_LANGUAGE_SCRIPTS[script], count / letters)
+      } else if (TRIGRAM_PROFILES[script]) {
+        const share = count / letters
+        for (const [code, probability] of Object.entries(this.classify(prose, script))) {
+          add(code, share * probability)
+        }
       }
     }
 
-    // Normalize by text length
-    return words.length > 0 ? score / words.length : 0
+    return candidates
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, Math.max(limit, 1))
   }
 
-  public static detect(text: string): DetectedLanguage {
-    if (!text || text.trim().length < 10) {
-      return { code: 'en', name: 'English', confidence: 0.5 }
+  // Probability of each language of `script` given the text's trigrams
+  private static classify(text: string, script: string): Record<string, number> {
+    const profiles = this.profiles()[script]
+    const documentRanks = this.documentTrigrams(text, script)
+    if (documentRanks.length === 0) {
+      return Object.fromEntries(Object.keys(profiles).map(code => [code, 1 / Object.keys(profiles).length]))
     }
 
-    const scores: { [key: string]: number } = {}
-    
-    // Score each language
-    for (const langCode of Object.keys(LANGUAGE_PATTERNS)) {
-      scores[langCode] = this.scoreLanguage(text, langCode)
+    // Average per-trigram score: higher in the profile is better, absent counts against
+    const similarities: Record<string, number> = {}
+    for (const [code, profile] of Object.entries(profiles)) {
+      let score = 0
+      for (const trigram of documentRanks) {
+        const profileRank = profile.get(trigram)
+        score += profileRank === undefined ? -MISSING_PENALTY : 1 - profileRank / profile.size
+      }
+      similarities[code] = score / documentRanks.length
     }
 
-    // Find the best match
-    const bestLang = Object.entries(scores).reduce((best, [lang, score]) => 
-      score > best.score ? { lang, score } : best, 
-      { lang: 'en', score: 0 }
+    const best = Math.max(...Object.values(similarities))
+    const weights = Object.entries(similarities).map(([code, similarity]) =>
+      [code, Math.exp(CONFIDENCE_SHARPNESS * (similarity - best))] as const
     )
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0)
+    return Object.fromEntries(weights.map(([code, weight]) => [code, weight / total]))
+  }
 
-    const languageNames: { [key: string]: string } = {
-      en: 'English',
-      es: 'Spanish',
-      fr: 'French', 
-      de: 'German',
-      zh: 'Chinese',
-      ja: 'Japanese',
-      pt: 'Portuguese'
+  // The text's trigrams in `script`, most frequent first; ties keep first-seen order
+  private static documentTrigrams(text: string, script: string): string[] {
+    const pattern = SCRIPT_PATTERNS.find(entry => entry.script === script)!.pattern
+    const words = text.toLowerCase().normalize('NFC')
+      .split(/[^\p{L}\p{M}]+/u)
+      .filter(word => pattern.test(word))
+
+    const counts = new Map<string, number>()
+    for (const word of words) {
+      const padded = ` ${word} `
+      for (let i = 0; i < padded.length - 2; i++) {
+        const trigram = padded.slice(i, i + 3)
+        counts.set(trigram, (counts.get(trigram) || 0) + 1)
+      }
     }
 
-    // Calculate confidence (0-1)
-    const totalScore = Object.values(scores).reduce((sum, score) => sum + score, 0)
-    const confidence = totalScore > 0 ? Math.min(bestLang.score / totalScore, 1) : 0.5
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_DOCUMENT_TRIGRAMS)
+      .map(([trigram]) => trigram)
+  }
 
-    return {
-      code: bestLang.lang,
-      name: languageNames[bestLang.lang] || 'Unknown',
-      confidence: Math.max(confidence, 0.1) // Minimum confidence
+  private static countScripts(text: string): Record<string, number> {
+    const counts: Record<string, number> = {}
+    for (const char of text) {
+      const entry = SCRIPT_PATTERNS.find(({ pattern }) => pattern.test(char))
+      if (entry) counts[entry.script] = (counts[entry.script] || 0) + 1
     }
+    return counts
+  }
+
+  // Pasted code, quotes, URLs and data say nothing about the prompt's language, nor do
+  // e-mail addresses and numbers
+  private static stripNonProse(text: string): string {
+    return PromptSegmenter.mask(text)
+      .replace(/\S+@\S+\.\S+/g, ' ')
+      .replace(/\d+/g, ' ')
+  }
+
+  private static profiles(): Record<string, Record<string, Map<string, number>>> {
+    if (!rankedProfiles) {
+      rankedProfiles = {}
+      for (const [script, languages] of Object.entries(TRIGRAM_PROFILES)) {
+        rankedProfiles[script] = {}
+        for (const [code, profile] of Object.entries(languages)) {
+          rankedProfiles[script][code] = new Map(profile.split('|').map((trigram, rank) => [trigram, rank]))
+        }
+      }
+    }
+    return rankedProfiles
   }
 
   public static getResponseLanguage(detectedLang: string): string {
     const languageInstructions: { [key: string]: string } = {
       en: 'Respond in English',
       es: 'Responde en español',
+      pt: 'Responda em português',
       fr: 'Répondez en français',
+      it: 'Rispondi in italiano',
       de: 'Antworten Sie auf Deutsch',
+      nl: 'Antwoord in het Nederlands',
+      sv: 'Svara på svenska',
+      da: 'Svar på dansk',
+      no: 'Svar på norsk',
+      fi: 'Vastaa suomeksi',
+      pl: 'Odpowiedz po polsku',
+      cs: 'Odpovězte česky',
+      ro: 'Răspunde în limba română',
+      hu: 'Válaszolj magyarul',
+      tr: 'Türkçe yanıt verin',
+      id: 'Jawab dalam bahasa Indonesia',
+      vi: 'Hãy trả lời bằng tiếng Việt',
+      ru: 'Отвечай на русском языке',
+      uk: 'Відповідай українською мовою',
+      bg: 'Отговори на български език',
+      ar: 'أجب باللغة العربية',
+      fa: 'به فارسی پاسخ بده',
       zh: '请用中文回答',
       ja: '日本語で答えてください',
-      pt: 'Responda em português'
+      ko: '한국어로 답변해 주세요',
+      el: 'Απάντησε στα ελληνικά',
+      he: 'ענה בעברית',
+      hi: 'कृपया हिंदी में उत्तर दें',
+      th: 'กรุณาตอบเป็นภาษาไทย'
     }
-    
+
     return languageInstructions[detectedLang] || languageInstructions.en
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+// Character-trigram profiles for LanguageDetector, generated from a few paragraphs of
+// everyday prompt-like text per language. Each profile is the language's most frequent
+// trigrams joined by '|', most frequent first. Text is lowercased, anything that is not
+// a letter becomes a space and a space marks a word boundary.
+export const TRIGRAM_PROFILES: Record<string, Record<string, string>> = {
+  Latin: {
+    en: ' th|the|he | an|nd |and| a | to|ng | wh|e a|e w|for|in |n t| be|e t|ing|or |t t|to | fo| re|ain|er |is |s a|st | in| it|an |d a|d t|ed |en |it |ld |le |one|pla|se | ex| sh| wa|at |e m|hat|on |oul|ple|re |s t|ter|uld| ca| is| li| ma| me| pl| wo| wr|a s|as |ay |can|e i|e s|es |ey |ll |r t|sho|ut |whe|y w| bu| ha| ho| i | mo| te| tr| we| yo|e e|e f|eas|ell|ere|ers|exp|hey|his|hou|ion|ist|ite|l t|lai|lea|ly |me |ne |ort|ou |ow |r a|t i|t s|t w|te |tha|tin|ve |xpl|you| ar| co| ev| fr| he| no| of| on| pr| wi|a l|am |app|cti|d i|d w|day|e c|e d|een|end|ent|est|eve|ew |fun|hel|hen|how|ive|ke |lis|mpl|n w|nes|o b|of |ong|out|pro|r m|r w|rit|ron|rs |ry |s b|s f|tea|thi|tio|tra|ts |use|wee|wou|wri|y a|y i| ab| ap| de| do| ea| em| fa| fu| kn| my| nu| sa| si| st| su| us|a c|a f|abo|act|ad |ait|ake|al |ans|are|art|ase|ast|ave|be |bee|ber|bet|bou|but|che|cle|com|d e|d h|d l|d r|d s|de |del|der|e b|e l|e p|e y|ead|eam|ear|ect|eek|eir|ela|elp|ery|ess|eti|etu|exa|fri|g f|g h|g t|gry|hap|has|hei|her|hes|hon|hor|ide|ien|ill|imp|int|ir |ith|ks |lan|lay|lp |m t|mai|mak|mbe|mer|my |n a|n b|n e|n i|n y|nct|ngr|nin|not|ns |num|o a|o h|o t|omp|ork|ot |p m|pen|ppe|r i|rai|rea|rep|res|ret|rm |rt |rte|ryo|s c',
+    es: ' de| es| un|la | la| y |or |os |de |est|o e| qu|el |un | el| en|as |do |es |que|ue | po| se|a e|en |ent| co| re|a d|e l|na |nci|nte|o p|por|a t|ar |ra |sta|ta |ía | cu| di| ma|a c|ero|me |mo |n c|ndo|no |s c|s p| a | có| fu| ho| in| pa| to|a m|and|ara|con|e a|era|ien|ión|n e|o c|on |pue|r e|res|ro |ría|s d|s e|te |to |una|ón | ex| ha| pr| pu| tr|a l|ado|al |an |ció|cor|cóm|den|dos|e p|e u|er |esp|fun|ist|man|o y|par|per|r l|ras|rde|rec|s h|stá|tod|ued|unc|ómo| ay| cr| li| or| sa| te|a p|a q|a s|a u|a y|aci|ame|ana|ano|ant|be |bir|ca |cil|cio|cre|cri|cto|cuá|dad|deb|e e|e n|e s|ebe|ect|emp|enc|esc|exp|ibi|ica|inc|ion|lan|lar|lic|lis|lo |n d|n p|n s|n t|n u|nde|nes|nto|o a|odo|ona|ono|ord|oy |pli|r c|r u|ran|rar|rib|rme|ron|rre|s a|sar|scr|so |spe|sto|ten|tos|tra|tre|uda|xpl|y d|y u|ás | al| an| ar| as| ca| ce| ci| cl| da| fa| fi| ll| me| mi| no| pe| pl| su| ta| us| va| vi|a f|a h|a r|abl|ada|amb|ane|arm|aro|arí|avo|ayu|can|cer|cia|cua|cul|cur|da |dam|del|dev|e c|e d|e f|e i|e o|e q|e y|eci|eda|egu|elv|ema|ene|err|eti|etr|fav|for|gur|hol|hoy|ia |ide|ier|ill|int|io |ir |l a|l c|l d|l e|l v|las|le |lla|lle|los|lve|mi |mie|mpr|n a|n f|n q|nad|nal|ner|nos|nta|o l|o s|ola|ont|orm|orr|ort',
+    pt: ' qu| e |os | um|que|ue | de|do |o e| es|a e|de | co|nte| ma|a d|ara|est|ra |ão | a | o |e a|e e|es |ta |um | po| re|ar |em |ent|ia |or |s p|so | pa|and|ant|as |com|er |m c|ndo|par|sta|to | me| se|ado|am |con|e m|e o|ela|ma |na |qua|res|ria|ver| el| em| ex| pe| pr| tr|a f|a p|da |e u|esc|eve|la |m e|man|mo |o p|por|sso|te |uan|uma| ac| di| fu| os| to|a a|a m|a o|a u|aco|cre|dos|e c|e d|e n|e p|eir|err|esp|fun|iss|ist|me |men|nci|nto|o a|o c|o q|om |oss|r o|ram|s c|s n|s q|stá|ten|tá |ção| at| cr| cu| er| fa| fe| fo| in| li| na| nã| pl| va| ve| é |a c|a l|a q|a r|a s|al |ame|cio|cur|dev|e f|e q|e s|ece|era|eri|ero|eto|eu |exp|ida|imp|ion|iqu|ir |ira|lan|les|liq|lis|m p|mai|mpl|nta|não|nçã|o i|o m|o n|o o|o v|obr|omo|ona|ont|oso|pel|pla|pli|pos|pre|r e|r u|ran|rde|re |rev|ro |ros|rra|s d|s e|scr|se |sem|sim|spe|tan|tod|tos|tra|tre|xpl|ça | aj| ca| ce| cl| da| en| ho| ne| no| nú| ob| ol| or| si| so| ta| us| vo|ais|aju|alo|ana|ano|ans|ari|art|aso|ata|atr|avo|bre|can|cri|cê |dei|der|des|dig|dis|dor|e i|eci|edo|ele|ema|emp|eti|eça|fav|fei|fer|for|gar|go |ha |iar|ide|iga|igo|il |ime|ina|inc|ing|inh|int|io |is |ito|jet|jud|l p|lar|lat|lor|lá |m a|m f|m s|m t|m u|mar|mas|mer|mes|nal|nar|nde',
+    fr: 'le | qu|nt | le|de |es | un|ent|et | de| et|ne |our|re |e e|er |ur | co|que|r l|e c|e l| re|la |men|on | ma|e m|e u|ion|lle|s e|se |te |ue |un | en| es| il| la| pa| po| à |e p|est|eur|it |onn|t d|une| ex| mo| pr|cti|e d|e q|e r|e s|is |ise|les|n c|pou|qua|st |tio|ui | ce| fo| l | to|ais|and|com|il |ire|jou|leu|lis|mme|nd |nne|ns |out|par|pro|rai|s d|s l|sur|t a|tre|uan|ux | ai| li| pe| se| su| tr| ét|ait|ant|ati|ce |di |e f|ell|eme|en |end|eux|fon|ide|ist|mai|mon|nct|oi |omm|onc|pla|qui|res|s a|s q|t e|t f|t l|t p|t q|ure| a | ar| au| ch| di| el| fa| j | ne| no| pl| ra| ré| so|ain|ale|ans|ard|art|ble|cou|d i|dre|e a|e n|e o|e t|env|epr|exp|i a|ie |ien|ils|in |iqu|l p|lac|liq|ls |mpl|n a|n p|nde|ntr|nvo|odu|ond|ons|ous|pas|peu|ple|pli|pri|r c|rd |ren|rep|reu|rod|rri|rt |s p|sem|son|ssi|ste|t c|t u|til|tou|ts |tte|té |urs|us |ut |uti|xpl|é e|été| al| at| av| bo| cl| cr| d | da| do| dé| fi| hu| m | me| or| où| sa| si| ut| vi| vo| éc|a p|a r|a é|abl|ace|ai |aid|aie|all|as |ass|att|auj|ava|bon|cel|cha|cor|cri|cré|d h|d u|dan|der|des|dev|du |dui|dép|e à|ect|el |ela|ema|era|esp|ess|eta|evr|ez |gen|hal|hon|hui|i e|i j|i m|i p|ier|ige|ili|ill|ime|imp|ine|ive|j a|jet|l s|l é|lan|lez|m a|mar',
+    it: 're |to | e | un|e s| co| pe|per|il |sta| il|e c|er |la |no |ta |un | in|a s|do |ett|le |ne |o a|o s|ti | ch| la| ri| st|are|e p|est|ion|tti| de| pr| qu|a d|and|ce |che|di |e i|he |i e|o c|o p|one| ma| su| è |e d|e u|eve|na |ndo|o e|qua|sto|zio| a | di| se|a l|a m|a p|com|e e|ell|ggi|i a|i p|i s|ia |ome|ore|ra |res|ro | es| fu| mi| pa| po| re| sc| sp| tu|a i|a u|ati|azi|con|da |e a|e f|e r|ent|ere|fun|gio|gli|i c|i n|i u|ice|ien|in |iut|me |mi |n c|nzi|on |ono|par|pos|riv|so |tat|te |tta|uan|ui |unz|ve |ver| ai| ar| as| ci| cr| cu| da| er| fa| le| li| ne| no| pi| sa| si| so| tr|a c|a f|aiu|ale|ano|art|ato|att|bbe|cre|cri|cur|del|e l|e n|ebb|ega|ei |emp|era|erc|eri|ess|ga |ieg|ile|ima|ina|inc|io |ist|l r|li |lis|ll |lla|lor|ma |man|mer|n p|ni |o d|oi |ona|ord|oss|ost|pet|pie|pro|r i|rdi|reb|rim|ris|sar|scr|sem|son|spe|spi|spo|str|tar|tim|tit|tre|tro|tto|tut|tà |ume|una|uoi|usa|utt|vor|zie| af| an| br| ca| do| fo| ha| i | nu| og| or| pu| us| ve|a a|a e|a g|a r|a t|a è|abi|aff|agg|ai |alo|anc|ao |ara|ard|arm|arr|asp|ata|avo|bbi|be |bia|bil|bre|chi|ché|cia|cor|cui|dev|din|dì |e q|e è|end|ene|enz|ero|fav|get|gi |hé |i l|i o|iao|iar|iat|icu|ide|igl|inv|ior|ire|isp|ita|itu|ità|ive|ivi|ivo',
+    de: 'en |er |ein|ie | un| ei|nd |und| di|ich|te | de|die|ine|in |sch|ch |der|n d|n e|ste| au| wi|che|ne |r d|rei| er| sc| si| zu|auf|e f|ist|r s| be| da| fü| wa|e w|ers|n w|ng |rt |sie|ten|ung|ver| ge| le| so| ve|ach|ber|cht|das|e d|e e|ert|es |für|hen|ht |ir |n s|n u|st |t e|uf |wie|ür | mi| se| we|ann|as |ben|den|eit|g u|hre|ier|ig |ion|le |n a|n f|nen|r i|sei|sen|sta|ter|zu | an| es| fu| ha| he| ic| in| is| st|art|ass|d s|de |e a|e b|e g|e h|e i|e l|e m|e s|e v|ell|em |ere|erk|fun|kti|lle|n i|nkt|nn |nte|oll|on |re |ren|rst|ss |ssi|tio|unk|ute|war| ab| bi| fr| hi| ka| li| ma| me| ni| pa| pr| re| vo| wo|ag |all|am |an |att|chi|chr|chu|d e|dem|e p|eib|eis|ern|ese|ess|eut|fen|ge |h a|h d|her|hle|ibe|iel|it |itt|kan|ken|klä|lei|len|lic|lis|ll |llt|lte|lär|mei|men|mir|mit|n k|nie|nst|och|omm|r h|rde|rkl|rüc|s a|s d|s s|sol|sse|t d|t s|t w|t z|tag|tte|tun|uss|äre|ück| al| am| co| du| fa| ih| ku| mü| nu| pl| sa| wu| wü| za| üb|abe|ahl|als|and|ank|ant|are|ark|be |bes|bit|cke|ckg|d n|d w|dig|dir|du |e n|e z|ebe|ede|ehe|ehm|eht|eig|ekt|el |ele|enn|erz|esp|f d|fac|fge|fol|fre|g a|g h|g v|g w|geh|gel|gen|ger|gib|h u|hal|he |heu|hic|hil|hme|hne|hul|hun|ies|il |ilf|inf|ite|kom|l a|l z|ldi|lfe|llo',
+    nl: 'en |de | de|et |een| ee| en| he| wa|aar|er |n e| te|het|te |ver| be| op| ve| vo| zo|ar |at |ing|is |n d|ng |r d| ge| ma|e m|el |n h|oor|ten|voo| in| is| ze|aat|an |in |op |or |rij|t h|ter|ze | da| di| me| pr|dat|der|e v|eer|eg |ere|g e|ijk|je |ken|lij|n p|n v|nie|ste|van| hi| ho| ik| je| le| mo| we|ag |ats|den|e b|e d|e g|e h|e t|e w|ert|g i|hij|ie |ied|ig |ij |ik |it |laa|moe|n i|n z|nde|nne|oe |pla|r h|s d|t i|t v|waa|zou| aa| al| er| hu| ni| pl| st| to| va| vr|aan|ann|cht|dag|del|e l|e z|ede|eid|ele|eli|erk|eru|g w|geb|gin|ijf|ijn|j z|jk |jn |k e|lan|maa|man|n g|n m|n o|n t|n w|oet|ond|ou |oud|pro|r i|r t|rde|rei|rt |rtr|rug|s m|s v|s w|sch|sen|st |t l|tra| co| do| ha| ie| mi| na| om| on| ov| re| sc| tr| ui| wi| zi|aag|ach|ad |agi|al |als|and|ang|ank|ant|art|bed|bee|bet|beu|chr|d w|daa|die|dig|din|dit|dri|e e|e o|e s|ebe|ect|eef|eft|egr|eld|end|eni|erd|erg|eri|ers|es |ess|est|ete|eur|eze|ft |g o|gee|ger|gge|gri|hel|hoe|hri|hul|idd|ide|iet|ike|jf |kel|kke|l d|l o|ldi|le |leg|ls |men|met|mid|n f|n k|n n|naa|nd |nee|nel|nen|nis|ns |nte|och|oeg|om |ome|on |ons|ont|oon|ort|ove|p t|pen|raa|rag|ree|ren|res|rg |rie|rin|rke|roe|rs |rte|s a|sse|t a|t b|t d|t e|t n|t o|t p|t w|t z|tel|tre',
+    sv: 'en | de|för| fö|de | oc|ch |et |ll |och|tt |om |ag |ta |är | ti| va|ar |den|ill|r f|ra | at| sk|att|sta|te |til|var| in| me| vä|er |ing|n f|na |nde|som| en| hä| i | ja| om| på| re| so| vi| är|a v|an |ara|dag|det|el |gen|ig |jag|lle|ner|nin|på |r d|t f|t p|t s|tta|änd|ätt|ör |örs| be| et| fe| hu| ka| ko| nä| si| st| to|a i|a m|a s|ade|e f|e h|e o|era|ett|fel|g o|hän|int|kan|kt |l t|lig|n o|n s|n t|n v|ng |nge|nta|när|one|ort|pen|r t|res|rna|sa |t a|t d|t o|tad|ter|ull|vän| ar| du| ef| fl| fr| ha| he| hj| ku| li| lä| mi| pe| pr| ta| tr| tå| ve|a d|a e|a f|a k|a p|a t|ad |akt|art|ast|at |ber|ck |cka|d s|der|dig|dni|du |e k|e n|e t|e v|eck|ed |eda|eft|ern|ess|etu|fte|g e|g i|g v|ga |gt |h l|har|hjä|hur|i d|ick|iga|igt|ina|ion|ist|jäl|ka |kla|kor|kri|kti|kul|kun|l a|l h|l m|l o|l v|la |lar|le |let|m d|m h|m s|med|men|mma|n d|n h|n k|n ä|nen|nte|ntr|oll|omm|on |ord|r h|r k|r m|r s|r v|rbe|rde|re |red|ret|riv|rkl|rne|rse|rät|sen|sin|skr|sku|ste|tal|tar|tat|tet|tor|tre|tur|und|upp|ur |urn|vad|vec|älp|änt|å m|å v|år |örk| al| bi| bo| bä| ch| da| dä| ex| fa| fo| fu| få| gi| gr| gå| hi| ho| hå| ig| kv| kä| mo| my| må| mö| no| nå| or| pl| ra| rä| sa| se| sl| sä| så| ty| up| ur| än| åt|a a|a b',
+    da: 'en | de|de |er |et |for| fo| og|og |te |den| at| hv|at |ste| en|ar |det|ede|ere| me| vi|e a|hvo|n f|om |r d|vor| er| i | re| sk| ti|ag |der|e m|e v|il |le |lle|nde|ne | in| je| om| to|dag|e d|e h|e o|e s|e t|eg |g f|ge |ig |ing|jeg|kke|lig|n e|n s|nte|or |ors|re |til|var|ven|år | ha| pr| på| si| st| ta| va| ve|all|an |dst|e f|e i|e k|ed |el |g o|gen|i d|igt|kla|lar|ld |m d|med|men|n h|n k|n t|nen|ner|ng |nge|når|one|ord|ork|ort|på |r h|r i|red|res|ret|rne|sin|t d|t i|t o|t p|t v|tal|ter|tte|und|vil| al| be| du| fl| fr| he| hj| ho| ik| ka| ko| ku| li| ma| mi| pe| so| tr| ug|ad |al |art|d e|dan|di |dig|du |e r|e u|end|ene|ent|es |ess|etu|eve|g e|g i|g l|g m|g s|g v|ger|gt |har|hjæ|hol|hva|i s|ids|ige|ikk|ill|ind|ink|ion|ist|ive|jæl|ke |kel|ker|ket|kri|kun|l e|l h|l o|l t|lid|lpe|mme|n b|n o|n r|n v|nin|nke|old|omm|orn|pen|r f|r j|r m|r s|r t|r u|r v|rda|rdi|rer|riv|rkl|rnå|rsi|rte|se |sen|ske|skr|som|t a|t f|t r|ted|ten|tet|tor|tur|uge|urn|vad|ve |ælp| af| an| ar| bl| bu| by| ch| da| e | ef| fa| fe| fu| få| ga| ge| gi| hi| hu| ig| ke| kl| kv| kø| le| læ| mo| må| mø| no| nu| nå| op| pl| ra| ræ| sa| se| sl| sn| su| tå| ud| un| vo| vr| væ| ær|a m|a s|adi|afs|agd|age|ail|ak |akk|akt|ali',
+    no: 'en | de|for| fo|et |er | og|de |ne |og |ste|te |den|e s|il |om | en| sk| ti| me| re|ar |ene|ig |kke|n t|r f|til| hv|det|e f|eg |ere|gen|ing|nte|or |r d|sin| er| i | je| om| på| so| to| ve| vi| å |ag |an |dag|e o|e t|ett|g f|g o|ikk|jeg|le |lig|ll |lle|n s|nde|nen|ng |ors|ort|på |sen|som|t d|ter|tet|tte|ull|var|år | at| he| in| ka| li| nå| si| ta| va|at |e k|e m|e v|ed |enn|g i|g s|hvo|ke |kje|l h|l v|med|n d|n e|n f|n k|n v|ner|nge|nin|når|one|ord|re |ret|t o|tal|ten|tt |ven|vor| be| du| fe| fl| fr| ha| hj| ik| ko| ku| le| må| pe| pr| sj| st| uk|a s|akk|akt|al |all|art|dan|del|di |dni|du |e d|e h|e i|e l|e n|e p|e r|e u|ede|eil|ekk|el |ell|elp|els|end|ent|est|etu|fei|g e|g l|g p|g t|g v|ge |har|hje|hva|i d|i s|ine|ink|int|ist|jel|jen|jon|kan|kel|ket|kk |kla|kri|kti|kul|kun|l e|l m|l o|lar|les|lit|lpe|lse|m d|m h|men|mme|n b|n h|n i|n m|n r|nke|nne|nnl|omm|ork|pen|r h|r p|r s|r t|rda|rdi|red|res|rge|riv|rkl|rne|rsi|rte|se |sje|sjo|skj|skr|sku|t f|t i|t s|t t|ta |tig|tne|tor|tur|uke|und|urn|va |ver|å f|å r| al| ar| av| bu| by| da| e | et| fa| fu| få| fø| ga| gi| gå| hi| ho| hu| ig| kj| kv| ly| mi| mo| mø| no| nu| nø| op| pl| po| ra| sa| se| sl| sn| su| sø| te| tr| tu| ty| tå| un| vo',
+    fi: 'en | ja| se|ja |ta |in |isi|n s|tta|än | mi|at |sta|tä | vi|a m|on | ta|a k|aa |ist|itä|la |lis|lla|si |taa|utt| he| ko| ku| on| si| tä|ett|ill|iva|n k|sen|tap|vat|ä j|ä k| jo| ki| mu| ol| pa| ti|a v|aan|an |apa|een|ine|ivä|lle|mat|mis|n a|n h|n t|nen|nä |oin|oit|oli|se |ti |ttä|vii|ä m|ä s|ää | et| ka| lä| pi| sa| va| vä|a j|a l|a o|a p|a s|ais|ant|aut|dä |eli|ell|hän|i p|iin|ikk|ikä|ise|itt|kä |lee|lli|mik|mil|mut|n j|n l|n p|n v|pah|pal|sel|sii|sin|stä|t t|tie|tti|tää|voi|yst|ä v|äll| ar| ei| hä| ke| li| me| od| ra| sä| vo|a e|a h|a t|aht|aik|ait|ala|all|ama|ark|ava|dot|e o|e t|e v|ei |eim|eit|eks|enn|est|he |hei|hel|htu|i k|i m|i s|idä|iel|iik|iim|ilt|imi|imm|inä|irj|ita|ite|joi|ka |kaa|kai|kii|kir|ko |kok|kol|kse|ksi|kui|kun|lau|le |lin|lit|llo|lmi|loi|lä |läh|me |mit|mma|mmä|n m|na |ni |nne|nni|o j|o t|odo|oko|oll|ost|ott|rja|rjo|s o|sa |saa|ses|sia|siv|ssä|sti|sty|sä |t j|t k|tai|tam|tar|tav|tel|tko|to |tor|tys|tän|uin|uiv|unn|ut |va |väl|väs|vää|ä o|ä r|äis|änä|ät |ään| aa| ai| am| an| as| au| av| di| en| es| fu| ha| hi| hy| ih| il| ju| jä| kä| la| lo| lu| ly| ma| my| ne| no| nä| pe| pu| py| re| su| to| ty| us| uu| vu| ym| yr| ys|a a|a d|a n|a r|a u|a y|aal|aam|aap|aha|ahd',
+    pl: 'nie| po|ie | i | na| pr|cze|dzi|eni| cz| w |na |prz|rzy|sta| do| ja| ni| wy| za|dni|ied|kie|rze|ym | ki| mo| si| to| że|a z|art|ać |ch |dy |e p|e w|e z|edz|ego|em |go |i n|ien|ię |jak|li |pow|się|st |ta |to |tór|wie|y i|yja|zen|zy | by| ci| je| kt| mi| pi| sp| ty| zw|a p|aj |ak |ast|by |cie|eka|ero|est|iał|iu |ić |jes|któ|nap|ni |niu|ny |o n|o p|odn|ost|owi|spo|sz |tał|war|y o|y p|y s|ygo|zwr|óry|śni|ść | al| dz| li| ma| o | od| op| pe| ra| sw| sz| tr| wi| ws| z | ze|a c|a s|a w|aca|ach|aki|ale|ali|ani|api|arz|awi|ałe|aśn|był|ca |czy|dar|do |e t|eby|edy|ek |god|i a|i j|i m|i p|i w|ias|iej|iem|ier|ij |ion|ist|ięk|j c|ja |jaś|ję |ka |ki |le |m w|mia|moc|naj|nij|nik|nym|o a|o c|o k|o s|o z|oni|opó|owa|ołu|ość|pie|pis|pom|pos|poł|pra|pro|póź|rac|raw|roz|ry |swo|szy|t n|t p|tek|tki|trz|tyg|u p|uję|unk|w k|waż|wni|wra|wyd|wyj|y b|yda|ył |z d|z p|za |zac|ze |zek|zer|ześ|zia|zyj|óźn|ą w|ć l|ł o|ło |łu |ły |źni|że |żeb| a | ar| ba| bł| ca| ch| co| dl| e | fu| gd| gł| hi| kl| ko| kr| kw| la| lu| mu| os| ot| pl| pu| ro| rz| sl| ta| te| up| wa| wc| zm| zn| zo| zr| zł| ła| źl|a b|a f|a j|a k|a l|a m|a n|a o|a ż|acu|acz|ada|adn|adą|ail|ajd|ajl|ajw|ako|al |aln|ami|ana|ano|apo|apr|ard|asn|asz|atn',
+    cs: ' a | na| př| se| po|ní |se | ja|na |to | by| ne|ch |e p|jak|li | je| pr| vy| za| zp|a p|ak |e v|em |je |la |pře| kd| kt| mě| sn| to| tý| vr| če|a n|at |by |byl|cí |dí |e s|ení|it |kdy|kte|ký |m s|moc|mu |o s|o t|ost|pro|při|sta|sto|ter|vět|í a|ěl |řes| ab| al| ce| ch| mo| mu| o | od| pe| sv| tr| ud| už| v | ve| zá| čt| ře|a b|a l|a s|a v|a z|aby|ale|avi|dne|dno|dou|dy |děn|e m|e t|edn|edo|eré|est|ezn|ho |hod|i m|i n|ist|jed|k z|kaz|kov|l z|le |led|lo |luv|lán|m a|m v|mlu|měl|nap|ne |nej|ni |no |ný |ným|o a|o n|oc |och|omo|osl|ou |ova|ožd|pen|piš|pom|pos|pož|pra|prá|rac|rav|sla|sna|svě|t n|ta |ti |tl |tli|tro|tvr|týd|u p|už |vit|vra|vrt|vys|výc|ysv|za |zaj|zpo|áne|átk|ém |í p|í v|ím |ý a|ý u|ých|ým |ček|čtv|ění|ětl|řek|š m|ší |ždě|že | ah| br| co| dn| do| dě| e | fa| fu| hi| hl| ho| js| kr| li| lé| ma| mi| ml| má| mí| mů| ni| nu| ná| ně| om| op| pl| pá| re| rá| s | sc| si| st| te| tó| tř| un| up| vl| vě| vř| vš| z | zk| úv| čl| čí| šp| že|a c|a j|a m|a r|a t|a č|a ř|a ž|ace|ací|adn|ado|adí|aho|ail|aji|ají|ako|akt|aké|aký|ali|alo|aly|am |ane|aní|api|aps|asn|atn|ave|avý|azi|azn|ašt|aží|b j|brz|bu |byc|c d|ce |cel|cen|ces|cet|chn|cho|cht|chu|chy|chů|co |ct |d p|de |dej|dem|den|dje|dny',
+    ro: 're | să| în|și | și|are|să | de| pe|i s|te | ma|e p|ent|tre| ca| pr| tr|e c|ea |ntr|ți | a | ce| sc| un|car|că |de |e d|i c|mai|or |ru |tru|un |în |ă a| câ| nu| o | re| va|ai |au |cer|e m|ere|est|ine|le |nte|nu |pen|pre|t c|tă |ul |înt| aj| ar| as| au| aș| cu| că| es| ex| mu| pl| to|a a|a s|aju|ar |ast|at |ază|ce |ci |cân|dar|din|e a|e e|e i|ele|eni|ero|esp|i a|i e|i p|i î|ia |ie |ime|imi|int|ist|men|mul|mân|n c|nd |nea|ntâ|pe |pri|ptă|rea|res|rim|scu|ste|tat|u a|u ș|ui |unc|va |ză |ând|ă m|ă o|ă p|ă s|ămâ| am| bu| ci| cl| da| di| er| fa| fi| in| me| mă| or| po| pu| ra| sp| vo| șt|a c|a f|a m|a o|a p|a r|a î|apt|ară|așt|bui|bun|chi|cri|cu |cut|des|e g|e s|e î|e ș|eaz|ebu|eca|eri|esc|etu|exp|eze|i b|i f|i n|i t|i u|ică|ii |in |inc|it |iu |l p|lec|lic|lor|lă |m c|mes|mă |n a|n s|nce|nci|ne |ni |nim|nă |oar|on |ori|os |oți|ple|pli|r t|ra |reb|reg|ret|rie|rne|rzi|ră |s b|scr|spr|spu|st |sta|str|stă|săp|t a|t d|t ș|ta |tea|ter|tim|tor|tri|tur|târ|tăm|u o|u v|ult|upă|urn|ut |uți|vor|vre|xpl|ze |zi |ârz|ă c|ă e|ă v|ăpt|ște|ști|ța | ac| ad| at| ba| bi| cr| du| e | ea| ec| ev| fl| fo| fu| go| gr| i | is| jo| le| li| lo| mo| ni| oa| ob| pă| ro| ră| s | se| si| su| te| ul| uș| ve| vi| vr| ze',
+    hu: ' a | és|t a|és | el|el |gy |ek |en |k a| le| me| mi|et | ké|egy|ell|em |ett|hog|l k|leg|ogy|t m| eg| ho| ke| se| sz| vi|a h|a l|ak |e v|ele|es |kel|kor|len|meg|n a|ssz|t e|ten|tt |ért| az| be| ma| mé| ne| pé| vá| ér| ír|a m|a p|a v|agy|an |ará|bb |eg |eze|gya|iko|iss|ket|ki |kés|l a|l é|ll |m h|mik|nak|ne |nek|nk |nte|nye|nün|om |or |pén|r a|ra |rj |rt |rté|s t|sza|szé|t é|ta |tek|tos|tén|tés|tör|vis|vár|át |ény|ésé|ört|ünk| ah| am| cs| de| ha| kö| mo| ro| te| tö| ut| vo|a d|a j|a k|a s|a t|abb|aho|at |ato|az |b e|b m|bes|d e|de |den|dta|dul|egé|egí|eke|ely|elő|enk|enn|enü|er |ese|esz|eté|eve|get|gos|gye|gít|hat|ia |ind|it |ja |k d|k m|kér|l m|let|lle|lye|m s|mag|mel|mer|mi |mon|még|n m|nat|nem|ni |nki|nne|nto|on |ond|ont|os |osa|rom|ros|ráz|ről|s b|s k|s é|seg|sel|sem|sen|sse|st |sz |szi|sér|t k|te |tte|tud|ték|tér|vez|yar|yen|yet|zd |zet|zél|ágo|ára|áro|ázd|ént|énz|éss|ést|ész|írj|íte|üre|ől |őtt| ab| ad| ak| an| ba| bi| bo| ci| di| do| dé| eh| em| en| er| es| ez| fe| fo| fá| fü| he| hi| há| hé| in| is| ja| je| ka| ki| ko| kü| li| mó| nu| ny| né| ol| pe| po| pr| re| rö| so| ti| tu| té| tü| ud| va| ve| át| éh| új| üg| ür| ős|a a|a b|a e|a f|a n|a r|a é|a ü|aad|ad |adn|adt|ait|aki',
+    tr: ' bi| ve|bir|ir |ve |en | ge| ya|ama|in |nı |ını| ha| ol|ası|eri|kle|lar|yor| ne| sa|bil|e b|ekl|sın| aç| bu|an |anl|arı|da |e p|ede|edi|ger|iyo|la |lay|le |n y|nda|ne |r d| ko| so| sı|a b|aya|az |açı|den|dür|eki|i v|lan|led|ler|lma|lış|mam|mas|n b|n ö|ola|olm|onu|oru|r m|rin|rke|rla|rı |son|ta |un |unu|yaz|çık|önd|ın |ınd|ırl| be| de| dö| dü| ed| ek| er| gi| iç| kı| na| pe| ra| sö| ta| yo| za| ço| ön|a f|a k|a s|a v|a y|aba|aca|aft|aha|ak |aka|akk|ara|ard|ayl|aç |ağı|be |bek|bun|cağ|cik|der|di |dil|dön|düğ|dım|e g|e k|e n|e s|e t|e y|e z|eci|ele|emi|end|er |ere|erk|fta|fır|gec|haf|hak|hat|i a|i b|i s|ile|ilg|ili|ilm|im |ine|ini|iri|irk|ist|iz |içi|iği|kal|ken|kkı|kla|kon|kın|lam|lgi|lir|m e|m s|ma |man|me |mem|miz|n a|n g|n i|n n|n s|n ç|nas|nde|ndü|ned|ni |nla|nlı|nu |or |per|pla|r e|r g|r v|r ü|rak|ray|rdı|rek|ri |rim|rme|rum|sab|söy|sıl|te |tme|u h|um |ya |yan|yar|yin|yla|yle|yon|z g|zam|çin|öne|öyl|üm |ür |üğü|ğin|ğın|ı b|ı h|ıkl|ır |ıyo|ış | al| am| an| bo| bü| cu| da| di| e | en| et| fo| fı| gö| gü| he| hâ| il| in| is| iy| ka| ki| ku| li| lü| ma| me| mi| mü| ok| pa| pl| po| pr| se| sl| te| to| tr| tü| ye| yi| yö| ça| çe| çü| öd| öz| öğ| üs| üç| şe|a a|a e|a o|a t|a ç|abi|abı',
+    id: 'an | me|ang|kan|ng |ya | da|dan| te|men| se|a m|ah |nya| sa|apa|eng| ke| ya|at |yan| di| ka| pe|aka|ela|mba|ter| ha| ti|a d|aya|lah|mem|n m|n t|say| ma|emb|eri|g s|ka |n s|nga|ngg|pa |ran| be| in|a s|a t|ahu|ak |ala|ali|ana|ara|ari|ban|dah|eka|enu|ere|eta|gan|ggu|gu |h d|har|i k|i t|ika|ma |mer|n a|n b|na |ntu|pen|per|r d|ri |ta |tan|tik|ung| ak| ap| ba| bi| de| je| la| mi| ta|a a|a f|a k|a u|a y|ada|agi|al |ama|amb|any|ar |art|as |asi|ata|bal|ber|da |dak|den|ema|era|gem|gi |h k|ida|ike|ima|ing|ini|is |jel|ket|lam|las|min|n d|n k|n n|n p|nge|ni |ora|pan|pat|rek|rim|sal|sed|t s|tah|tid|u m|uan| ar| at| fu| ju| ko| ku| na| or| pa| ra| so| un|a b|a p|aba|adi|aha|ahk|ai |aik|ami|amu|ant|api|aru|ask|ba |bai|bar|bat|bis|car|di |dia|dib|dik|e k|ebe|eda|elu|emp|ena|enc|end|epa|erb|erj|erl|esa|fun|g j|g m|g t|gka|gsi|h m|hal|han|hka|hu |i i|i m|i p|i s|ia |ian|iba|ih |ik |iki|ila|im |iny|isa|jad|k a|k t|kam|kap|ke |kel|kit|kua|l p|l t|lan|lap|lik|lis|mah|man|mas|n h|n y|nda|ngi|ngk|ngs|nta|nun|ong|pag|pi |rah|rak|rap|rba|ren|rik|rja|rla|rti|rus|sa |sel|si |sih|ska|sti|t t|tam|tap|tas|tet|tu |tuk|u d|uda|uk |uli|unt|uru|uta|yak| ad| an| ca| em| fa| gu| it| ki| le| li| mu| ni| no| pr| re| sl',
+    vi: 'ng | th| ch| tr| và| kh|và | nh|ết |ch |g t|nh | gi| tô|i n|iết|n c|ào |ông| họ| ng| nà| nó|hôn|i b|i t|khô|n t|tôi|ôi |ần | cá| củ| ph| sa| về| đã|a v|ang|c t|của|họ |i v|n b|n v|o c|o h|ra |về |ác |áo |ên |đã |ều |ời |ủa | bi| bà| bá| bạ| hà| ki| lỗ| mộ| ra| sá| sự| vi| xả|a t|biế|báo|bạn|chu|các|g h|g đ|gườ|h t|hi |hàn|hưn|hứ |i c|i k|i s|iều|khi|lỗi|m t|một|n k|n l|n n|ngư|như|nào|nó |o n|sự |t m|t t|thứ|u t|viế|xảy|y r|ài |ày |ách|ói |ưng|ười|ạn |ải |ảy |ẫn |ện |ỗi |ột | bị| có| cô| cả| gì| gử| ho| hã| kế| là| mọ| qu| sẽ| số| sử| ti| tu| vì| vẫ| xi| đa| đi| đó| đư| để|ai |ao |ay |bài|bị |c v|cho|chí|chú|chờ|có |g c|g n|g v|g x|giả|gì |gửi|h h|h m|h s|hiề|hiệ|ho |huy|hãy|híc|hín|hún|hần|hờ |i đ|in |iải|iền|iện|m n|mọi|n g|này|nói|o đ|p t|phầ|rướ|rả |rễ |sao|sẽ |số |t c|t n|t đ|thí|thú|tiề|tra|trư|trả|trễ|tuầ|uần|vào|vì |vẫn|xin|y v|à g|à h|à t|àm |àng|ành|ân |ã x|ãy |ình|ích|ính|ó p|úng|đan|đượ|để |ơi |ước|ược|ại |ả v|ảm |ất |ầu |ền |ọi |ọng|ớc |ợc |ửi |ự c|ực | ai| ba| bả| bộ| bự| cu| cầ| cố| da| dễ| dờ| em| ga| hi| hè| hô| hơ| hầ| hế| li| lê| lý| lạ| lị| lớ| mu| mà| mì| mù| mệ| mở| na| nă| nơ| nữ| rà| rõ| rấ| rằ| sâ| sớ| ta| tà| tá| tư| tạ| tố| tự| vă| vị| xá| áp| đả| đầ| đế'
+  },
+  Cyrillic: {
+    ru: ' по| ко| и | не|ть |на |то | на| он| вс|и н|ли |но |ото|тор| за| чт|ак |не |ой |оль|что| бы| в | до| но| пр| эт|а п|ави|ать|в к|вит|да |ет |и г|ить|кот|ни |ным|о п|ом |оро|пра|рав|сь |ым |ь н|это|я в| бо| во| го| зн| ка| об| от| то| я |а в|а д|а о|ает|бол|бы |воз|вра|все|гда|го |дел|е в|е з|е н|е т|за |звр|зна|й к|как|ког|льн|льш|ми |о в|о н|обы|огд|ое |озв|он |она|ори|пис|ром|ста|сто|т в|тел|ь п| ве| вы| де| жд| ис| ле| мо| пл| св| ск| сп| та| че|а с|аде|ажи|ал |ала|анд|апи|аща|бъя|был|быт|вер|во |вои|вст|ден|дер|дол|е п|е с|его|еде|ей |ели|ель|ене|ени|ере|ерж|ест|жал|же |зад|и д|и и|и о|и п|и с|и т|и у|иво|иль|ись|ите|ия |й н|ке |ко |ком|кто|ку |ла |лат|лив|луч|лым|ль |м и|м п|ман|му |нап|нед|нес|ние|ной|нят|о з|о и|о к|о э|объ|овк|ово|ого|одн|олж|ома|омо|они|оня|оры|отп|ошл|пла|пом|пон|при|про|ращ|рил|ров|сво|сег|ска|сни|ся |та |так|тал|тер|тны|тоб|тов|той|том|тпр|у к|уже|уст|чит|ше |ъяс|ыми|ых |ь о|ь с|ь т|ьно|ясн|ятн|ёт | вм| гл| др| ещ| же| зл| из| ин| кв| кл| лу| лю| мн| ни| ну| о | ош| пе| пи| пу| пы| пя| ра| ру| с | сд| се| си| сл| со| ст| те| тр| ты| тё| ув| уж| ус| ут| фа| фу| хо| ци| чи|а б|а з|а л|а ч|а э|авн|авш|авь|аза|айд|акт|али|алс|алу|ам |ана|ано|арт|аси|асы|ась',
+    uk: ' по|ти | на| і |на |ні | як|ли | за| ко|ає |ся | ви| во| не| що|а п|вер|вон|и в|им |му |не |ни |ому|пов| бу| ві| до| пр| ти| то| че|ати|енн|и н|и с|и т|ий |ку |но |пом|том|три|ть |і н|іст| ал| в | го| зн| пе| я |ави|але|бул|в я|е з|е п|за |зна|и п|ити|й к|кол|ком|ле |ння|ня |о н|о п|ове|одн|оли|она|пер|рим|ро |рта|ска|сни|ста|тів|у в|що |я з|яки|і я|ів |ій |іль| бі| вс| зр| й | мо| пі| св| ск| сп| та| те| тр| ус| це| чи|а в|а д|ак |ала|ано|апи|атр|б ц|біл|вир|вої|вто|від|він|віт|гол|дні|доп|е в|е н|е т|ека|ені|ере|ерт|жні|зат|зро|и з|и м|и щ|иви|ижн|иль|има|их |й н|ка |кий|ла |лас|лив|лис|льн|льш|м і|має|мог|міс|нам|нап|ним|нні|ній|о в|о к|о т|об |ого|оло|омо|они|опо|ори|оро|отр|ояс|ої |пис|пор|пот|поя|пра|при|про|рав|ран|ри |рил|ряд|сво|сла|сть|так|тал|тат|тиж|то |тор|трі|у п|у я|ули|усі|це |ці |чек|щоб|ь л|ьог|я в|я к|я і|як |яко|ясн|є н|і а|і д|і й|і с|ін |іт | би| вв| ве| вр| вт| гр| др| дя| з | зв| зу| кв| ке| кл| кі| ла| ле| ли| лю| лі| ма| ме| мі| ну| ні| од| ос| от| п | пл| ра| се| си| сл| ст| сь| у | уж| фа| фу| хо| ци| ць| ці| чо| чі| ша| ще| щи| ят| іс|а б|а з|а л|а о|а с|а т|а ц|а щ|ав |аве|авс|ага|аді|ажи|аза|ай |айд|айк|акт|ал |али|ам |ама|анд|ани|анн|анц|арт|аск|ася',
+    bg: 'да | да| за|то | и | ко| по| се|а н|за | на|ва |на |ни |се |та | пр| то| тр|а п|е п|но | ка| че|а д|а з|а и|а с|е с|ите|кой|о с|те | до| си|а в|ен |и д|и с|и т|ия |ка |не |о в|ове|ще | в | въ| гр| е | из| мо| но| об| сл| ще|а б|а к|а ч|бва|во |вър|доб|е з|е и|е т|ест|ете|и н|и п|им |ият|йто|как|ког|мес|ова|ога|ойт|ото|пра|пре|рия|ряб|си |сни|сто|т п|тел|тен|тов|три|тря|ха |чет|ът |ябв|ясн|ят | бъ| вр| вс| зн| ис| кр| му| не| ня| от| па| пе| ра| ст| съ| тя| ув| ча|а г|а м|а т|а щ|авя|ада|ажи|ай |ак |ака|акъ|ал |ано|апи|ари|ат |ата|ати|ащо|бав|бъд|бяс|в к|вер|вет|връ|га |гне|гре|де |дми|е д|е н|е о|едм|еки|ели|ени|есн|ето|еш |еше|защ|зна|и г|и и|и к|и м|и у|иво|ие |инт|ист|к с|кал|ки |ко |кра|кът|лад|лед|лен|ли |лко|луч|ля |лят|м с|миц|му |нап|нат|нов|о и|о к|о о|о п|о т|обя|ово|ой |омо|оре|ори|от |пар|пис|пиш|пов|пом|при|ра |рав|раз|рат|ред|реш|ри |рим|рит|ръщ|ря |сед|ска|сла|сле|сна|сно|сте|т к|т т|тия|тор|тък|тя |ува|учи|чак|че |ше |ща |ъде|ък |ъща|я в|я з|я т|ята| бе| би| бл| бя| вл| вм| гл| го| дн| ек| зд| ин| кл| ле| ли| ля| ма| ми| мн| ни| ну| оп| ос| ощ| пи| пл| пъ| ре| ръ| с | са| сп| ср| су| та| тъ| ум| уч| фа| фу| хв| хо| це| чи| яд| яс|а л|а о|а р|а у|а ф|а х|а ц|аба|аве'
+  },
+  Arabic: {
+    ar: ' ال|الت|لى |ن ا| إل| من|لك |م ا|مة |ير | أن| عن| في|أن |إلى|الم|ة م|ة و|لا |ما |من |يد |يف | ذل| سي| عل| ما| مت| مس| وا|ا ب|ال |الأ|الر|الق|ة أ|ة ب|تي |حدث|د ا|ذلك|ر ع|ر و|رة |ع م|على|عن |قال|ك ا|ل ا|ل ي|له |مسا|ن أ|ها |هم |وال|وم |ون |ية |ين |يوم| أح| أر| أف| أم| با| بع| تأ| تع| حا| خط| لك| لل| مر| مع| مق| وأ| وم| يع| يو|أحد|أخر|أخي|أمو|ئة |ا ا|ا ت|ا ع|ا م|ا و|اح |اد |اشر|اعد|الة|الج|الخ|الذ|اله|ام |بال|بين|ة إ|ة ا|ة ل|ت ف|تأخ|تظر|تعي|تما|تى |ح ا|خير|د أ|د م|داد|دث |ذا |ذي |ر ل|را |رح |رسا|ريد|ريق|ساع|سال|شرح|صيف|ظهر|ع ا|عدت|عرف|عيد|ف أ|فضل|في |فيه|قائ|قة |كون|كيف|لة |لتي|لجم|لذي|لكن|لم |لمد|لنا|م ل|متى|مدي|مع |مقا|موا|ن ت|ن ف|ن و|ن ي|نتظ|هر |هل |وا |ى ا|ى س|يع |يعر|يل |يلا| أت| أخ| أس| إع| إن| اس| اش| اع| اك| ان| بح| بد| بر| بص| بي| تا| تظ| تك| تم| ثل| جز| حد| خا| دا| رس| زل| شك| صف| طر| عم| فا| فض| قا| قب| قص| قل| قو| قي| كا| كت| كل| كي| لأ| لإ| لا| لم| لن| مه| نب| نش| هذ| هل| هي| وإ| وت| وج| وخ| ود| وس| وص| وغ| وق| وك| ول| يج| يح| يك| يم| ين|ءة |أ م|أت |أتأ|أجي|أحا|أخب|أرق|أري|أسا|أسب|أضف|أفض|أفه|أكد|أنه|إرس|إصل|إعد|إلك|إنه|ئح |ئعي|ئق |ئمة|ئيس|ا أ|ا ج|ا ز|ا ك|ا ل|ا ه|ا ي|اءة|ائح|ائع|ائق|ائم|ابة|ابي|اتم|اث |اثة|اجة|اجت|ادر|ادق|اذا|ار |ارغ|اري|اس |است|اصة|اضب|اضح|اطئ|اع |اعت|افئ',
+    fa: 'می |ند | و |ای | بر|ست |ه ب| با| کن| را| می|را |ی ک| اس| ای| در| که|که | به| تا| من|است|برا|به |ته |رای|ه د| دا| گر| یک|ا ب|اند|اه |ت م|د ا|د ب|دان|دند|ده |ر ا|مه |نه |ه ا|ی ا|ی ب|ی د|ین |یک | آن| ام| تو| حر| رو| مق| نم| پی| کم|آن |اده|ار |اره|اشت|ان |اید|این|با |بار|ت و|ت ک|خوا|ر م|رست|ره |ش ر|فت |لی |منت|ن ب|نمی|نی |ه ر|ه و|ه پ|ه ک|پیش|کنی|ی م|ید |یر |یش |یم | از| اش| اع| بد| بف| بن| جا| حا| خو| دو| شد| مش| ها| هف| هم| پو| چی| کی|ا ر|اخی|از |افت|اما|انه|انی|باه|بای|بده|بنو|ت خ|تاب|تاخ|تان|تبا|تری|تظر|توض|ح ب|حال|حرف|خیر|داد|دار|در |درب|دم |دن |دها|ر ب|ر س|ربا|ردا|رسن|روی|ری |ستا|سلا|سه |ش ا|شت |شتب|شتر|شد |ضیح|ظر |عدا|فته|فر |فه |لش |له |م ا|م ب|ما |مان|مقد|من |ن ا|ن ح|ن ر|ن م|ن ه|ن و|ن ک|نتظ|ندن|نوی|نیم|ه ت|ه ج|ه م|ه ه|ه چ|ها |های|هفت|همه|و د|و م|و چ|و ک|و گ|وان|واه|وز |وضی|ولش|ون |وی |ویس|پول|ک م|کت |کمک|کن |کند|کی |گرد|ی آ|ی ت|ی خ|ی ر|ی گ|یح | آم| آی| ات| اص| اض| اف| او| بز| بع| بو| بگ| بی| تر| جل| جم| حو| خا| خس| خط| خی| دق| ده| رس| رف| زد| زو| سا| سع| سف| سل| سه| سک| شه| شو| صا| صب| صف| عذ| عص| فص| فه| قط| قو| لح| لط| ما| مح| مد| مر| مط| مم| نک| نگ| هن| هی| وق| پا| پن| چر| چط| چن| چه| چو| چگ| کر| کس| کو| گذ| گز| گف|آما|آید|ئن |ا آ|ا ا|ا ت|ا ح|ا د|ا ص|ا ق|ا م|ا پ|ا گ|ا ی|ابت'
+  }
+}
@@ -0,0 +1,300 @@
+import { PromptLibraryItem } from '@/types'
+import { Zip, ZipEntry } from './zip'
+
+export type LibraryFormat = 'markdown' | 'csv' | 'jsonl' | 'zip'
+
+export interface ExportFile {
+  name: string
+  type: string
+  content: string | Uint8Array
+}
+
+export interface ImportFile {
+  name: string
+  data: Uint8Array
+}
+
+// Column order of CSV exports; imports go by header name, so other tools'
+// column orders (and a few common alternative names) work too
+const CSV_COLUMNS = [
+  'id', 'title', 'category', 'tags', 'originalPrompt', 'improvedPrompt',
+  'notes', 'usageCount', 'createdAt', 'updatedAt', 'variables'
+] as const
+const CSV_ALIASES: Record<string, string> = {
+  name: 'title',
+  prompt: 'improvedPrompt',
+  text: 'improvedPrompt',
+  original: 'originalPrompt'
+}
+// Tags share one CSV cell
+const TAG_SEPARATOR = '; '
+// Cells a spreadsheet would evaluate, optionally behind quotes added on export.
+// Tab and carriage return count too: some spreadsheets skip them first.
+const FORMULA_START = /^'*[=+\-@\t\r]/
+
+// The library in formats other tools and people can work with: a Markdown file
+// per prompt (front-matter plus the prompt as the body, diffable in git), CSV
+// for spreadsheets, JSONL for scripts, and a zip bundle of all three.
+export class LibraryFormats {
+  public static export(items: PromptLibraryItem[], format: LibraryFormat, date = new Date()): ExportFile {
+    const stamp = date.toISOString().split('T')[0]
+    const markdown = items.map(item => ({ name: `prompts/${this.fileName(item)}`, content: this.toMarkdown(item) }))
+
+    switch (format) {
+      case 'csv':
+        return { name: `prompt-library-${stamp}.csv`, type: 'text/csv', content: this.toCsv(items) }
+      case 'jsonl':
+        return { name: `prompt-library-${stamp}.jsonl`, type: 'application/x-ndjson', content: this.toJsonl(items) }
+      case 'markdown':
+        return { name: `prompt-library-markdown-${stamp}.zip`, type: 'application/zip', content: Zip.create(markdown, date) }
+      default:
+        return {
+          name: `prompt-library-${stamp}.zip`,
+          type: 'application/zip',
+          content: Zip.create([
+            ...markdown,
+            { name: 'library.csv', content: this.toCsv(items) },
+            { name: 'library.jsonl', content: this.toJsonl(items) }
+          ], date)
+        }
+    }
+  }
+
+  // Prompts from .md, .csv, .jsonl and .zip files. A bundle is read from its
+  // JSONL file, which keeps everything, then its CSV, then its Markdown files.
+  // What could only be imported in part is described in `warnings`.
+  public static async import(files: ImportFile[], warnings: string[] = []): Promise<PromptLibraryItem[]> {
+    const decoder = new TextDecoder()
+    const entries: ZipEntry[] = []
+    for (const file of files) {
+      if (/\.zip$/i.test(file.name)) {
+        entries.push(...await Zip.read(file.data))
+      } else {
+        entries.push({ name: file.name, content: decoder.decode(file.data) })
+      }
+    }
+
+    // A bundle holds the same prompts in every format
+    if (files.some(file => /\.zip$/i.test(file.name))) {
+      const jsonl = entries.filter(entry => /\.jsonl$/i.test(entry.name))
+      const csv = entries.filter(entry => /\.csv$/i.test(entry.name))
+      if (jsonl.length > 0) return jsonl.flatMap(entry => this.fromJsonl(entry.content))
+      if (csv.length > 0) return csv.flatMap(entry => this.fromCsv(entry.content, warnings, entry.name))
+    }
+
+    return entries.flatMap(entry => {
+      if (/\.jsonl$/i.test(entry.name)) return this.fromJsonl(entry.content)
+      if (/\.csv$/i.test(entry.name)) return this.fromCsv(entry.content, warnings, entry.name)
+      if (/\.(md|markdown)$/i.test(entry.name)) return [this.fromMarkdown(entry.content, entry.name)]
+      return []
+    })
+  }
+
+  public static toMarkdown(item: PromptLibraryItem): string {
+    const frontMatter: Record<string, unknown> = {
+      id: String(item.id),
+      title: item.title,
+      category: item.category,
+      tags: item.tags,
+      usageCount: item.usageCount,
+      createdAt: new Date(item.createdAt).toISOString(),
+      updatedAt: new Date(item.updatedAt).toISOString(),
+      notes: item.notes,
+      original: item.originalPrompt,
+      variables: item.variables
+    }
+
+    // JSON values are valid YAML, and keep multi-line text on one line
+    const lines = Object.entries(frontMatter)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    return `---\n${lines.join('\n')}\n---\n${item.improvedPrompt}\n`
+  }
+
+  // Also reads hand-written files: plain YAML scalars and lists, or no front-matter at all
+  public static fromMarkdown(text: string, fileName = ''): PromptLibraryItem {
+    const source = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n')
+    const match = source.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/)
+    const body = (match ? match[2] : source).replace(/\n$/, '')
+    const { original, ...meta } = match ? this.parseFrontMatter(match[1]) : {} as Record<string, any>
+    const heading = body.match(/^#\s+(.+)$/m)?.[1]
+
+    return this.normalize({
+      ...meta,
+      title: meta.title ?? heading ?? fileName.replace(/^.*\//, '').replace(/\.(md|markdown)$/i, ''),
+      originalPrompt: original ?? meta.originalPrompt,
+      improvedPrompt: body
+    })
+  }
+
+  public static toCsv(items: PromptLibraryItem[]): string {
+    const rows = items.map(item => CSV_COLUMNS.map(column => {
+      switch (column) {
+        case 'tags': return item.tags.join(TAG_SEPARATOR)
+        case 'createdAt':
+        case 'updatedAt': return new Date(item[column]).toISOString()
+        case 'variables': return item.variables ? JSON.stringify(item.variables) : ''
+        default: return String(item[column] ?? '')
+      }
+    }))
+
+    return [[...CSV_COLUMNS], ...rows].map(row => row.map(cell => this.csvCell(cell)).join(',')).join('\r\n') + '\r\n'
+  }
+
+  // A row whose variables cell is not valid JSON is imported without
+  // variables, and a warning names the row as a spreadsheet numbers it
+  public static fromCsv(text: string, warnings: string[] = [], fileName = 'CSV'): PromptLibraryItem[] {
+    const [header, ...rows] = this.parseCsv(text.replace(/^\uFEFF/, ''))
+    if (!header) return []
+    const columns = header.map(name => {
+      const key = name.trim()
+      return CSV_ALIASES[key.toLowerCase()] ?? CSV_COLUMNS.find(column => column.toLowerCase() === key.toLowerCase()) ?? key
+    })
+
+    return rows.flatMap((row, index) => {
+      if (!row.some(cell => cell.trim())) return []
+
+      const raw: Record<string, unknown> = {}
+      columns.forEach((column, i) => {
+        if (row[i] !== undefined && row[i] !== '') raw[column] = this.csvValue(row[i])
+      })
+      if (typeof raw.tags === 'string') raw.tags = raw.tags.split(TAG_SEPARATOR.trim()).map(tag => tag.trim()).filter(Boolean)
+      if (typeof raw.variables === 'string') {
+        try {
+          raw.variables = JSON.parse(raw.variables)
+        } catch {
+          delete raw.variables
+          warnings.push(`${fileName} row ${index + 2}: variables are not valid JSON and were left out`)
+        }
+      }
+      return [this.normalize(raw)]
+    })
+  }
+
+  public static toJsonl(items: PromptLibraryItem[]): string {
+    return items.map(item => JSON.stringify(item)).join('\n') + (items.length > 0 ? '\n' : '')
+  }
+
+  public static fromJsonl(text: string): PromptLibraryItem[] {
+    return text.split('\n').filter(line => line.trim()).map(line => this.normalize(JSON.parse(line)))
+  }
+
+  // Stable names so a library kept in git only shows real changes
+  public static fileName(item: PromptLibraryItem): string {
+    const slug = item.title
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60)
+    return `${slug || 'prompt'}-${item.id}.md`
+  }
+
+  // Fills in what other tools leave out and turns text values into their types
+  private static normalize(raw: Record<string, any>): PromptLibraryItem {
+    const improvedPrompt = String(raw.improvedPrompt ?? '')
+    const createdAt = raw.createdAt ? new Date(raw.createdAt) : new Date()
+
+    return {
+      ...raw,
+      id: String(raw.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`),
+      title: String(raw.title || improvedPrompt.slice(0, 50)),
+      originalPrompt: String(raw.originalPrompt ?? ''),
+      improvedPrompt,
+      category: String(raw.category || 'General'),
+      tags: Array.isArray(raw.tags) ? raw.tags.map(String) : raw.tags ? [String(raw.tags)] : [],
+      notes: raw.notes === undefined || raw.notes === '' ? undefined : String(raw.notes),
+      usageCount: Number(raw.usageCount) || 0,
+      createdAt,
+      updatedAt: raw.updatedAt ? new Date(raw.updatedAt) : createdAt
+    }
+  }
+
+  private static parseFrontMatter(text: string): Record<string, any> {
+    const meta: Record<string, any> = {}
+    let listKey: string | null = null
+
+    for (const line of text.split('\n')) {
+      const item = line.match(/^\s+-\s*(.*)$/)
+      if (item && listKey) {
+        meta[listKey].push(this.parseScalar(item[1]))
+        continue
+      }
+
+      const pair = line.match(/^([\w-]+):\s*(.*)$/)
+      if (!pair) continue
+      listKey = pair[2] === '' ? pair[1] : null
+      meta[pair[1]] = listKey ? [] : this.parseScalar(pair[2])
+    }
+
+    return meta
+  }
+
+  private static parseScalar(value: string): any {
+    const trimmed = value.trim()
+    try {
+      return JSON.parse(trimmed)
+    } catch {
+      // Flow list of bare words, [a, b], or a bare or single-quoted string
+      if (/^\[.*\]$/.test(trimmed)) {
+        return trimmed.slice(1, -1).split(',').map(part => this.parseScalar(part)).filter(part => part !== '')
+      }
+      return trimmed.replace(/^'(.*)'$/, '$1').replace(/''/g, "'")
+    }
+  }
+
+  // Spreadsheets run cells starting with = + - @ as formulas, so those get a
+  // leading ' that makes them plain text. Cells that already start with quotes
+  // before such a character get one more, so imports can take exactly one off.
+  private static csvCell(value: string): string {
+    const text = FORMULA_START.test(value) ? `'${value}` : value
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  // Undoes the quote csvCell adds in front of formulas
+  private static csvValue(cell: string): string {
+    return cell.startsWith('\'') && FORMULA_START.test(cell) ? cell.slice(1) : cell
+  }
+
+  // RFC 4180: quoted cells may hold commas, quotes ("") and line breaks
+  private static parseCsv(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ''
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          cell += char
+        }
+      } else if (char === '"') {
+        quoted = true
+      } else if (char === ',') {
+        row.push(cell)
+        cell = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++
+        row.push(cell)
+        rows.push(row)
+        row = []
+        cell = ''
+      } else {
+        cell += char
+      }
+    }
+
+    if (cell || row.length > 0) {
+      row.push(cell)
+      rows.push(row)
+    }
+    return rows
+  }
+}
@@ -0,0 +1,121 @@
+import { PromptLibraryItem } from '@/types'
+import { PromptRevisions, RevisionField } from './revisions'
+
+export type ConflictResolution = 'mine' | 'theirs' | 'both'
+
+// An imported prompt that is already in the library with different content
+export interface MergeConflict<T extends PromptLibraryItem = PromptLibraryItem> {
+  mine: T
+  theirs: T
+  fields: RevisionField[]
+  matchedBy: 'id' | 'content'
+}
+
+// What an import would do, worked out without changing anything
+export interface MergePlan<T extends PromptLibraryItem = PromptLibraryItem> {
+  added: T[]
+  unchanged: T[]
+  conflicts: MergeConflict<T>[]
+}
+
+// Added to the title of the imported copy when both versions are kept
+const COPY_SUFFIX = ' (imported)'
+
+// Merging an exported library into the current one. Items are the same when
+// they share an ID and creation time (an autoincrement ID alone could belong to
+// an unrelated prompt in someone else's library) or the same wording.
+export class LibraryMerge {
+  public static plan<T extends PromptLibraryItem>(mine: T[], theirs: T[]): MergePlan<T> {
+    const byIdentity = new Map(mine.map(item => [this.identity(item), item]))
+    const byContent = new Map(mine.map(item => [this.contentHash(item), item]))
+    const plan: MergePlan<T> = { added: [], unchanged: [], conflicts: [] }
+
+    for (const item of theirs) {
+      const sameId = byIdentity.get(this.identity(item))
+      const match = sameId || byContent.get(this.contentHash(item))
+      if (!match) {
+        plan.added.push(item)
+        continue
+      }
+
+      const fields = PromptRevisions.changedFields(match, item)
+      if (fields.length === 0) {
+        plan.unchanged.push(item)
+      } else {
+        plan.conflicts.push({ mine: match, theirs: item, fields, matchedBy: sameId ? 'id' : 'content' })
+      }
+    }
+
+    return plan
+  }
+
+  // Applies a plan to an in-memory library such as the extension's. Conflicts
+  // without a resolution keep mine; `createId` replaces IDs that are taken.
+  public static apply<T extends PromptLibraryItem>(
+    mine: T[],
+    plan: MergePlan<T>,
+    resolutions: ConflictResolution[],
+    createId: () => string
+  ): T[] {
+    const result = [...mine]
+    const ids = new Set(mine.map(item => String(item.id)))
+    const add = (item: T) => {
+      const id = ids.has(String(item.id)) ? createId() : item.id
+      ids.add(String(id))
+      result.push({ ...item, id })
+    }
+
+    plan.added.forEach(add)
+    plan.conflicts.forEach((conflict, index) => {
+      const resolution = resolutions[index] || 'mine'
+      if (resolution === 'theirs') {
+        const position = result.indexOf(conflict.mine)
+        if (position !== -1) {
+          result[position] = { ...conflict.mine, ...PromptRevisions.content(conflict.theirs), updatedAt: new Date() }
+        }
+      } else if (resolution === 'both') {
+        add(this.copy(conflict.theirs))
+      }
+    })
+
+    return result
+  }
+
+  // The imported side of a keep-both conflict, told apart by its title
+  public static copy<T extends PromptLibraryItem>(item: T): T {
+    return { ...item, title: item.title + COPY_SUFFIX }
+  }
+
+  // Hash of the wording, ignoring case and whitespace differences
+  public static contentHash(item: Pick<PromptLibraryItem, 'originalPrompt' | 'improvedPrompt'>): string {
+    const normalize = (text: string) => (text || '').toLowerCase().replace(/\s+/g, ' ').trim()
+    return this.hash(`${normalize(item.originalPrompt)}\u0000${normalize(item.improvedPrompt)}`)
+  }
+
+  public static summary(plan: MergePlan): string {
+    const parts = [
+      `${plan.added.length} new`,
+      `${plan.conflicts.length} ${plan.conflicts.length === 1 ? 'conflict' : 'conflicts'}`,
+      `${plan.unchanged.length} already in your library`
+    ]
+    return parts.join(', ')
+  }
+
+  private static identity(item: PromptLibraryItem): string {
+    return `${item.id}@${new Date(item.createdAt).getTime()}`
+  }
+
+  // 53-bit cyrb53 string hash; collisions only need to be unlikely, not impossible
+  private static hash(text: string): string {
+    let h1 = 0xdeadbeef
+    let h2 = 0x41c6ce57
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charCodeAt(i)
+      h1 = Math.imul(h1 ^ char, 2654435761)
+      h2 = Math.imul(h2 ^ char, 1597334677)
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+  }
+}
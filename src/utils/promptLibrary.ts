@@ -0,0 +1,44 @@
+import { PromptLibraryItem } from '@/types'
+import { StorageManager } from './storage'
+
+// The saved prompts, wherever they live. The PWA keeps them in IndexedDB via
+// StorageManager. In the extension they belong to the background worker:
+// IndexedDB in a content script would be the chat site's own database, so
+// content scripts ask the background for them instead.
+export class PromptLibrary {
+  public static async list(): Promise<PromptLibraryItem[]> {
+    if (!this.inExtension()) return StorageManager.getPrompts()
+
+    const items: any[] = await this.sendMessage({ type: 'GET_LIBRARY' })
+    return items.map(item => ({
+      ...item,
+      tags: item.tags || [],
+      usageCount: item.usageCount || 0,
+      createdAt: new Date(item.createdAt),
+      updatedAt: new Date(item.updatedAt || item.createdAt)
+    }))
+  }
+
+  public static async incrementUsage(id: string): Promise<void> {
+    if (!this.inExtension()) return StorageManager.incrementUsage(id)
+    await this.sendMessage({ type: 'INCREMENT_USAGE', data: { id } })
+  }
+
+  private static inExtension(): boolean {
+    return typeof chrome !== 'undefined' && !!chrome.runtime?.id
+  }
+
+  private static sendMessage(message: any): Promise<any> {
+    return new Promise((resolve, reject) => {
+      chrome.runtime.sendMessage(message, (response) => {
+        if (chrome.runtime.lastError) {
+          reject(chrome.runtime.lastError)
+        } else if (response?.success) {
+          resolve(response.data)
+        } else {
+          reject(new Error(response?.error || 'No response from the extension'))
+        }
+      })
+    })
+  }
+}
@@ -0,0 +1,130 @@
+import { PromptSegmenter } from '../../backend/src/contract/promptSegmenter'
+import { PackRule, RuleCategory, RuleEngine } from '../../backend/src/contract/rulePack'
+import { LanguageDetector } from './languageDetector'
+import { RulePacks } from './rulePacks'
+
+const STORAGE_KEY = 'dismissedLintRules'
+
+// Longer matches (e.g. "and ... also" across a paragraph) are reported for the
+// whole prompt rather than underlined
+const MAX_UNDERLINE_LENGTH = 40
+
+export interface LintIssue {
+  ruleId: string
+  category: RuleCategory
+  message: string
+  // [start, end) spans of the text to underline; empty when the issue is about the whole prompt
+  ranges: Array<[number, number]>
+}
+
+// As-you-type hints for chat inputs, built from the same rule packs as the
+// offline improver. Runs entirely locally, so linting never counts against the
+// improvement quota. Rules the user dismissed are kept in chrome.storage.local
+// (localStorage in the PWA) and skipped everywhere.
+export class PromptLinter {
+  private static dismissed = new Set<string>()
+  private static listening = false
+
+  // Issues of the improvement rules that match, highest priority first.
+  // Persona and format rules are suggestions for the improver, not problems.
+  public static lint(text: string): LintIssue[] {
+    if (!text.trim()) return []
+
+    const language = RulePacks.languageFor(LanguageDetector.detect(text))
+    const result = RuleEngine.run(text, RulePacks.active(), language)
+    const rules = new Map(RuleEngine.rules(RulePacks.active(), language).map(rule => [rule.id, rule]))
+    const instructions = PromptSegmenter.mask(text)
+
+    const issues: LintIssue[] = []
+    for (const id of result.matched) {
+      const rule = rules.get(id)
+      if (!rule?.suggestion || rule.category === 'persona' || rule.category === 'format') continue
+      if (this.dismissed.has(id)) continue
+
+      issues.push({
+        ruleId: id,
+        category: rule.category,
+        message: rule.suggestion,
+        ranges: this.rangesOf(rule, instructions)
+      })
+    }
+    return issues
+  }
+
+  public static isDismissed(ruleId: string): boolean {
+    return this.dismissed.has(ruleId)
+  }
+
+  public static dismissedCount(): number {
+    return this.dismissed.size
+  }
+
+  public static async load(): Promise<void> {
+    try {
+      this.dismissed = this.sanitize(await this.read())
+    } catch (error) {
+      console.error('Failed to load dismissed hints:', error)
+      this.dismissed = new Set()
+    }
+
+    if (!this.listening && this.hasChromeStorage()) {
+      this.listening = true
+      chrome.storage.onChanged.addListener((changes, area) => {
+        if (area === 'local' && changes[STORAGE_KEY]) {
+          this.dismissed = this.sanitize(changes[STORAGE_KEY].newValue)
+        }
+      })
+    }
+  }
+
+  public static async dismiss(ruleId: string): Promise<void> {
+    this.dismissed.add(ruleId)
+    await this.write()
+  }
+
+  // Brings back every dismissed hint
+  public static async restoreAll(): Promise<void> {
+    this.dismissed.clear()
+    await this.write()
+  }
+
+  // Every short match of the rule's pattern in the instructions. Pasted material is
+  // blanked in `instructions`, so nothing inside it is ever underlined.
+  private static rangesOf(rule: PackRule, instructions: string): Array<[number, number]> {
+    if (!rule.when.pattern) return []
+
+    const ranges: Array<[number, number]> = []
+    for (const match of instructions.matchAll(new RegExp(rule.when.pattern, `${rule.when.flags ?? ''}g`))) {
+      const start = match.index!
+      const end = start + match[0].trimEnd().length
+      if (end > start && end - start <= MAX_UNDERLINE_LENGTH) ranges.push([start, end])
+    }
+    return ranges
+  }
+
+  private static sanitize(value: unknown): Set<string> {
+    return new Set(Array.isArray(value) ? value.filter(id => typeof id === 'string') : [])
+  }
+
+  private static async read(): Promise<unknown> {
+    if (this.hasChromeStorage()) {
+      const result = await chrome.storage.local.get(STORAGE_KEY)
+      return result[STORAGE_KEY]
+    }
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  }
+
+  private static async write(): Promise<void> {
+    const ids = [...this.dismissed]
+    if (this.hasChromeStorage()) {
+      await chrome.storage.local.set({ [STORAGE_KEY]: ids })
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(ids))
+    }
+  }
+
+  private static hasChromeStorage(): boolean {
+    return typeof chrome !== 'undefined' && !!chrome.storage?.local
+  }
+}
@@ -0,0 +1,80 @@
+import { PromptLibraryItem, PromptRevision } from '@/types'
+import { WordDiff, DiffOp } from './wordDiff'
+
+// The parts of a library prompt that are versioned; usage counts and scores are not
+export const REVISION_FIELDS = ['title', 'originalPrompt', 'improvedPrompt', 'category', 'tags', 'notes', 'variables'] as const
+
+export type RevisionField = typeof REVISION_FIELDS[number]
+
+export interface RevisionChange {
+  field: RevisionField
+  label: string
+  ops: DiffOp[]
+}
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  title: 'Title',
+  originalPrompt: 'Original prompt',
+  improvedPrompt: 'Improved prompt',
+  category: 'Category',
+  tags: 'Tags',
+  notes: 'Notes',
+  variables: 'Template fields'
+}
+
+// Snapshots and comparisons for the version history of library prompts.
+// StorageManager stores the snapshots; the history panel shows the changes.
+export class PromptRevisions {
+  public static snapshot(prompt: PromptLibraryItem, note: string, createdAt = new Date()): Omit<PromptRevision, 'id'> {
+    return {
+      promptId: prompt.id,
+      title: prompt.title,
+      originalPrompt: prompt.originalPrompt,
+      improvedPrompt: prompt.improvedPrompt,
+      category: prompt.category,
+      tags: [...prompt.tags],
+      notes: prompt.notes,
+      variables: prompt.variables,
+      note,
+      createdAt
+    }
+  }
+
+  // The versioned fields of a revision or prompt, ready to write onto another prompt
+  public static content(source: Pick<PromptLibraryItem, RevisionField>): Pick<PromptLibraryItem, RevisionField> {
+    const { title, originalPrompt, improvedPrompt, category, tags, notes, variables } = source
+    return { title, originalPrompt, improvedPrompt, category, tags: [...tags], notes, variables }
+  }
+
+  public static changedFields(
+    before: Pick<PromptLibraryItem, RevisionField>,
+    after: Pick<PromptLibraryItem, RevisionField>
+  ): RevisionField[] {
+    return REVISION_FIELDS.filter(field => this.text(field, before) !== this.text(field, after))
+  }
+
+  // Word diffs of every field that differs between two revisions, in field order
+  public static compare(
+    older: Pick<PromptLibraryItem, RevisionField>,
+    newer: Pick<PromptLibraryItem, RevisionField>
+  ): RevisionChange[] {
+    return this.changedFields(older, newer).map(field => ({
+      field,
+      label: FIELD_LABELS[field],
+      ops: WordDiff.diff(this.text(field, older), this.text(field, newer))
+    }))
+  }
+
+  private static text(field: RevisionField, prompt: Pick<PromptLibraryItem, RevisionField>): string {
+    switch (field) {
+      case 'tags':
+        return prompt.tags.join(', ')
+      case 'variables':
+        return (prompt.variables ?? []).map(variable =>
+          `${variable.name} (${variable.type}${variable.required ? '' : ', optional'})`
+        ).join(', ')
+      default:
+        return prompt[field] ?? ''
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { DetectedLanguage, InstalledRulePack, RulePack } from '@/types'
+import { BUILTIN_RULE_PACKS, parseRulePack } from '../../backend/src/contract/rulePack'
+
+const STORAGE_KEY = 'rulePacks'
+
+// Detection on short prompts is shaky; below this the English packs are safer
+const MIN_LANGUAGE_CONFIDENCE = 0.5
+
+// Keeps the user's imported rule packs. The extension stores them in
+// chrome.storage.local so every context sees the same packs; the PWA falls
+// back to localStorage.
+export class RulePacks {
+  private static installed: InstalledRulePack[] = []
+  private static listening = false
+
+  // Packs for the rule engine: the built-in packs, then enabled custom packs in import order
+  public static active(): RulePack[] {
+    return [...BUILTIN_RULE_PACKS, ...this.installed.filter(item => item.enabled).map(item => item.pack)]
+  }
+
+  // Language whose packs should run for a detected language
+  public static languageFor(detected: DetectedLanguage): string {
+    return detected.confidence >= MIN_LANGUAGE_CONFIDENCE ? detected.code : 'en'
+  }
+
+  public static list(): InstalledRulePack[] {
+    return [...this.installed]
+  }
+
+  public static async load(): Promise<InstalledRulePack[]> {
+    try {
+      this.installed = this.sanitize(await this.read())
+    } catch (error) {
+      console.error('Failed to load rule packs:', error)
+      this.installed = []
+    }
+
+    if (!this.listening && this.hasChromeStorage()) {
+      this.listening = true
+      chrome.storage.onChanged.addListener((changes, area) => {
+        if (area === 'local' && changes[STORAGE_KEY]) {
+          this.installed = this.sanitize(changes[STORAGE_KEY].newValue)
+        }
+      })
+    }
+
+    return this.list()
+  }
+
+  // Validates and stores a pack, replacing an installed pack with the same id.
+  // Throws with the validation errors when the pack is invalid.
+  public static async import(json: string): Promise<RulePack> {
+    const result = parseRulePack(json)
+    if (!result.ok) {
+      throw new Error(`Invalid rule pack:\n${result.errors.slice(0, 5).join('\n')}`)
+    }
+
+    const pack = result.value
+    if (BUILTIN_RULE_PACKS.some(builtin => builtin.id === pack.id)) {
+      throw new Error(`Invalid rule pack:\n$.id: "${pack.id}" is reserved for the built-in rules`)
+    }
+
+    const item: InstalledRulePack = { pack, enabled: true, importedAt: new Date().toISOString() }
+    const index = this.installed.findIndex(existing => existing.pack.id === pack.id)
+    if (index >= 0) {
+      this.installed[index] = item
+    } else {
+      this.installed.push(item)
+    }
+
+    await this.write()
+    return pack
+  }
+
+  public static async setEnabled(id: string, enabled: boolean): Promise<void> {
+    const item = this.installed.find(existing => existing.pack.id === id)
+    if (!item) return
+
+    item.enabled = enabled
+    await this.write()
+  }
+
+  public static async remove(id: string): Promise<void> {
+    this.installed = this.installed.filter(item => item.pack.id !== id)
+    await this.write()
+  }
+
+  // Stored packs were validated on import, but storage can be edited by hand
+  private static sanitize(value: unknown): InstalledRulePack[] {
+    if (!Array.isArray(value)) return []
+    return value.filter(item => item && typeof item === 'object' && parseRulePack(item.pack).ok)
+  }
+
+  private static async read(): Promise<unknown> {
+    if (this.hasChromeStorage()) {
+      const result = await chrome.storage.local.get(STORAGE_KEY)
+      return result[STORAGE_KEY]
+    }
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  }
+
+  private static async write(): Promise<void> {
+    if (this.hasChromeStorage()) {
+      await chrome.storage.local.set({ [STORAGE_KEY]: this.installed })
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.installed))
+    }
+  }
+
+  private static hasChromeStorage(): boolean {
+    return typeof chrome !== 'undefined' && !!chrome.storage?.local
+  }
+}
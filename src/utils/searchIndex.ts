@@ -0,0 +1,210 @@
+import { PromptLibraryItem } from '@/types'
+
+export type IndexedField = 'title' | 'tags' | 'category' | 'body'
+
+// One row of the inverted index: `term` occurs `count` times in `field` of a prompt
+export interface IndexEntry {
+  term: string
+  promptId: string
+  field: IndexedField
+  count: number
+}
+
+export interface UsageFilter {
+  op: '>' | '>=' | '<' | '<=' | '='
+  value: number
+}
+
+export interface SearchQuery {
+  terms: string[]
+  tags: string[]
+  category?: string
+  used?: UsageFilter
+}
+
+// A vocabulary term a query term matched, and how well (1 for an exact match)
+export interface TermMatch {
+  term: string
+  quality: number
+}
+
+// Title beats tags beats body text
+export const FIELD_BOOSTS: Record<IndexedField, number> = {
+  title: 3,
+  tags: 2,
+  category: 1.5,
+  body: 1
+}
+
+const PREFIX_QUALITY = 0.7
+const FUZZY_QUALITY = 0.5
+// How much a well-used prompt is lifted over an equally relevant unused one
+const USAGE_WEIGHT = 0.15
+// Scripts without spaces between words are indexed one character at a time
+const CJK_RANGES = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff'
+const CJK_CHAR = new RegExp(`[${CJK_RANGES}]`, 'u')
+const CJK_SPLIT = new RegExp(`[${CJK_RANGES}]|[^${CJK_RANGES}]+`, 'gu')
+const FILTER = /^(tag|category|used):(.+)$/i
+const USAGE = /^(>=|<=|>|<|=)?(\d+)$/
+
+// Tokenizing, query parsing and ranking for the prompt library's inverted index.
+// StorageManager keeps the index rows in Dexie; everything here is pure.
+export class SearchIndex {
+  public static tokenize(text: string): string[] {
+    const words = text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .match(/[\p{L}\p{N}]+/gu) || []
+
+    return words.flatMap(word => CJK_CHAR.test(word) ? this.splitCjk(word) : [word])
+  }
+
+  public static entries(prompt: PromptLibraryItem): IndexEntry[] {
+    const fields: Record<IndexedField, string> = {
+      title: prompt.title,
+      tags: prompt.tags.join(' '),
+      category: prompt.category,
+      body: [prompt.originalPrompt, prompt.improvedPrompt, prompt.notes || ''].join(' ')
+    }
+
+    return (Object.keys(fields) as IndexedField[]).flatMap(field => {
+      const counts = new Map<string, number>()
+      for (const term of this.tokenize(fields[field])) {
+        counts.set(term, (counts.get(term) || 0) + 1)
+      }
+      return [...counts].map(([term, count]) => ({ term, promptId: prompt.id, field, count }))
+    })
+  }
+
+  // Splits `tag:`, `category:` and `used:` filters from the search terms.
+  // Filter values may be quoted to include spaces: category:"Creative writing"
+  public static parse(query: string): SearchQuery {
+    const parsed: SearchQuery = { terms: [], tags: [] }
+    const tokens = query.match(/\S+:"[^"]*"|"[^"]*"|\S+/g) || []
+
+    for (const token of tokens) {
+      const filter = token.match(FILTER)
+      const value = filter?.[2].replace(/^"|"$/g, '').trim()
+      const usage = value?.match(USAGE)
+
+      if (filter && value && filter[1].toLowerCase() === 'tag') {
+        parsed.tags.push(value.toLowerCase())
+      } else if (filter && value && filter[1].toLowerCase() === 'category') {
+        parsed.category = value.toLowerCase()
+      } else if (filter && usage) {
+        parsed.used = { op: (usage[1] || '=') as UsageFilter['op'], value: Number(usage[2]) }
+      } else {
+        parsed.terms.push(...this.tokenize(token))
+      }
+    }
+
+    return parsed
+  }
+
+  public static matchesFilters(prompt: PromptLibraryItem, query: SearchQuery): boolean {
+    const tags = prompt.tags.map(tag => tag.toLowerCase())
+    if (!query.tags.every(tag => tags.includes(tag))) return false
+    if (query.category && prompt.category.toLowerCase() !== query.category) return false
+    if (query.used && !this.compare(prompt.usageCount, query.used)) return false
+    return true
+  }
+
+  // Indexed terms a query term stands for: itself, longer words it starts, and
+  // near misses (one typo, two for long words)
+  public static expand(term: string, vocabulary: string[]): TermMatch[] {
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0
+
+    return vocabulary.flatMap(candidate => {
+      if (candidate === term) return [{ term: candidate, quality: 1 }]
+      if (candidate.startsWith(term)) {
+        return [{ term: candidate, quality: PREFIX_QUALITY * (0.5 + 0.5 * term.length / candidate.length) }]
+      }
+      if (maxDistance > 0 && Math.abs(candidate.length - term.length) <= maxDistance &&
+        this.editDistance(term, candidate, maxDistance) <= maxDistance) {
+        return [{ term: candidate, quality: FUZZY_QUALITY }]
+      }
+      return []
+    })
+  }
+
+  // Relevance of each prompt that matches every query term. `matches` holds
+  // the expansions of each query term and `entries` the index rows for them.
+  public static score(matches: TermMatch[][], entries: IndexEntry[], documentCount: number): Map<string, number> {
+    const rows = new Map<string, IndexEntry[]>()
+    for (const entry of entries) {
+      if (!rows.has(entry.term)) rows.set(entry.term, [])
+      rows.get(entry.term)!.push(entry)
+    }
+
+    let scores: Map<string, number> | null = null
+    for (const expansions of matches) {
+      const best = new Map<string, number>()
+      for (const { term, quality } of expansions) {
+        const postings = rows.get(term) || []
+        const documents = new Set(postings.map(entry => entry.promptId)).size
+        // Rare terms tell more about a prompt than ones every prompt contains
+        const idf = Math.log(1 + documentCount / Math.max(documents, 1))
+
+        for (const entry of postings) {
+          const value = quality * idf * FIELD_BOOSTS[entry.field] * (1 + Math.log(entry.count))
+          best.set(entry.promptId, Math.max(best.get(entry.promptId) || 0, value))
+        }
+      }
+
+      const previous: Map<string, number> | null = scores
+      scores = new Map()
+      for (const [id, value] of best) {
+        if (previous && !previous.has(id)) continue
+        scores.set(id, (previous?.get(id) || 0) + value)
+      }
+    }
+
+    return scores || new Map()
+  }
+
+  // Best first, with usage lifting relevance; by usage alone when nothing was searched
+  public static rank(prompts: PromptLibraryItem[], scores?: Map<string, number>): PromptLibraryItem[] {
+    const rankOf = (prompt: PromptLibraryItem) => scores
+      ? (scores.get(prompt.id) || 0) * (1 + USAGE_WEIGHT * Math.log1p(prompt.usageCount))
+      : prompt.usageCount
+
+    return [...prompts].sort((a, b) =>
+      rankOf(b) - rankOf(a) || new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    )
+  }
+
+  private static compare(count: number, { op, value }: UsageFilter): boolean {
+    switch (op) {
+      case '>': return count > value
+      case '>=': return count >= value
+      case '<': return count < value
+      case '<=': return count <= value
+      default: return count === value
+    }
+  }
+
+  private static splitCjk(word: string): string[] {
+    return word.match(CJK_SPLIT) || []
+  }
+
+  // Levenshtein distance, giving up once it is certain to exceed `limit`
+  private static editDistance(a: string, b: string, limit: number): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i]
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        )
+      }
+      if (Math.min(...current) > limit) return limit + 1
+      previous = current
+    }
+
+    return previous[b.length]
+  }
+}
@@ -0,0 +1,173 @@
+import { SiteConfig } from '@/types'
+
+// Every supported chat site. The background, both content scripts and the
+// extension manifest (host permissions and content-script matches, see
+// applyToManifest) all read this list, so adding a site here is enough.
+// Published site definitions (see SiteDefinitions) can replace an entry's
+// selectors and timing without a release. Sites users add themselves (see
+// CustomSites) are injected at runtime instead of through the manifest.
+export const SITE_ADAPTERS: readonly SiteConfig[] = [
+  {
+    domain: 'chat.openai.com',
+    name: 'ChatGPT',
+    selectors: {
+      textInputs: ['textarea[placeholder*="message"]', 'textarea[data-id*="root"]'],
+      contentEditable: ['#prompt-textarea', '.ProseMirror'],
+      submitButtons: ['button[data-testid="send-button"]']
+    },
+    insertionMethod: 'replace',
+    position: 'after',
+    timing: { waitForLoad: 2000, checkInterval: 1000 }
+  },
+  {
+    domain: 'claude.ai',
+    name: 'Claude',
+    selectors: {
+      textInputs: ['textarea[placeholder*="Talk to Claude"]'],
+      contentEditable: ['div[contenteditable="true"]', '.ProseMirror'],
+      submitButtons: ['button[aria-label="Send Message"]']
+    },
+    insertionMethod: 'replace',
+    position: 'after',
+    timing: { waitForLoad: 1500, checkInterval: 1000 }
+  },
+  {
+    domain: 'gemini.google.com',
+    name: 'Gemini',
+    selectors: {
+      textInputs: ['textarea[placeholder*="Enter a prompt"]'],
+      contentEditable: ['rich-textarea', '.ql-editor']
+    },
+    insertionMethod: 'replace',
+    position: 'after',
+    timing: { waitForLoad: 2000, checkInterval: 1000 }
+  },
+  {
+    domain: 'www.perplexity.ai',
+    name: 'Perplexity',
+    selectors: {
+      textInputs: ['textarea[placeholder*="Ask anything"]', '.relative textarea', '[data-testid="search-input"]'],
+      contentEditable: []
+    },
+    insertionMethod: 'replace',
+    position: 'after',
+    timing: { waitForLoad: 1500, checkInterval: 1000 }
+  },
+  {
+    domain: 'huggingface.co',
+    name: 'Hugging Face',
+    selectors: {
+      textInputs: ['textarea[placeholder*="Type a message"]', '.chat-input textarea', 'textarea[name="prompt"]'],
+      contentEditable: []
+    },
+    insertionMethod: 'replace',
+    position: 'after',
+    timing: { waitForLoad: 1000, checkInterval: 1500 }
+  },
+  {
+    domain: 'character.ai',
+    name: 'Character.AI',
+    selectors: {
+      textInputs: ['textarea[placeholder*="Type a message"]', '.composer-input textarea', '[data-testid="composer-input"]'],
+      contentEditable: []
+    },
+    insertionMethod: 'replace',
+    position: 'after',
+    timing: { waitForLoad: 2000, checkInterval: 1000 }
+  },
+  {
+    domain: 'poe.com',
+    name: 'Poe',
+    selectors: {
+      textInputs: ['textarea[class*="GrowingTextArea"]', 'textarea[placeholder*="Talk to"]', '.ChatMessageInputView textarea'],
+      contentEditable: []
+    },
+    insertionMethod: 'replace',
+    position: 'after',
+    timing: { waitForLoad: 1500, checkInterval: 1000 }
+  }
+]
+
+// The manifest fields generated from the registry
+interface ManifestHosts {
+  host_permissions?: string[]
+  content_scripts?: Array<{ matches?: string[] }>
+  web_accessible_resources?: Array<{ matches?: string[] }>
+}
+
+export class SiteAdapters {
+  private static published: SiteConfig[] = []
+  private static custom: SiteConfig[] = []
+
+  public static forHostname(hostname: string): SiteConfig | undefined {
+    return this.published.find(adapter => adapter.domain === hostname) ||
+      SITE_ADAPTERS.find(adapter => adapter.domain === hostname) ||
+      this.custom.find(site => this.matchesDomain(site.domain, hostname))
+  }
+
+  // Custom sites only apply to pages no bundled or published entry covers
+  public static useCustom(sites: SiteConfig[]): void {
+    this.custom = [...sites]
+  }
+
+  // A domain is an exact hostname or, for custom sites, "*." plus a hostname
+  // to cover it and all its subdomains, as in match patterns
+  public static matchesDomain(domain: string, hostname: string): boolean {
+    if (!domain.startsWith('*.')) return domain === hostname
+    const base = domain.slice(2)
+    return hostname === base || hostname.endsWith(`.${base}`)
+  }
+
+  // Overrides bundled entries with published ones. Sites the manifest does not
+  // cover are dropped: the extension has no access to them until a release.
+  public static usePublished(sites: SiteConfig[]): void {
+    this.published = sites.filter(site => SITE_ADAPTERS.some(adapter => adapter.domain === site.domain))
+  }
+
+  // Best guess for a page no adapter covers: any text box, result via the clipboard
+  public static fallback(domain: string): SiteConfig {
+    return {
+      domain,
+      name: domain,
+      selectors: {
+        textInputs: ['textarea', 'input[type="text"]'],
+        contentEditable: ['[contenteditable="true"]']
+      },
+      insertionMethod: 'clipboard',
+      position: 'overlay',
+      timing: { waitForLoad: 1000, checkInterval: 1000 }
+    }
+  }
+
+  // Input selectors of both kinds, text inputs first. Ones this browser cannot
+  // parse are left out so a bad entry does not stop the scan for the rest.
+  public static inputSelectors(config: SiteConfig): string[] {
+    return [...config.selectors.textInputs, ...config.selectors.contentEditable]
+      .filter(selector => this.isValidSelector(selector))
+  }
+
+  public static isValidSelector(selector: string): boolean {
+    try {
+      document.createDocumentFragment().querySelector(selector)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  public static matchPatterns(): string[] {
+    return SITE_ADAPTERS.map(adapter => `https://${adapter.domain}/*`)
+  }
+
+  // Copy of the manifest with its host lists set from the registry; the
+  // extension build writes this, and a test keeps the checked-in one current
+  public static applyToManifest<T extends ManifestHosts>(manifest: T): T {
+    const matches = this.matchPatterns()
+    return {
+      ...manifest,
+      host_permissions: matches,
+      content_scripts: manifest.content_scripts?.map(script => ({ ...script, matches })),
+      web_accessible_resources: manifest.web_accessible_resources?.map(resource => ({ ...resource, matches }))
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { SignedSiteDefinitions } from '../../backend/src/contract/apiContract'
+import {
+  SITE_DEFINITIONS_KEY,
+  SITE_DEFINITIONS_SIGNATURE,
+  SiteDefinitionsDocument,
+  parseSiteDefinitions
+} from '../../backend/src/contract/siteDefinitions'
+import { BackendService } from './backendService'
+import { SiteAdapters } from './siteAdapters'
+
+const STORAGE_KEY = 'siteDefinitions'
+
+// Base64 SPKI of the key the backend signs with, set at build time. Without it
+// nothing published is trusted and the bundled sites are used.
+const PUBLIC_KEY: string = import.meta.env.VITE_SITE_DEFINITIONS_PUBLIC_KEY || ''
+
+export type SiteDefinitionsRefresh = 'updated' | 'current' | 'rejected' | 'unavailable'
+
+// Keeps the newest signed site definitions in chrome.storage.local and hands
+// their sites to SiteAdapters. The background refreshes them; every context
+// loads them and follows updates. Anything that fails verification, including
+// a cached copy, is ignored in favour of what is already in use, down to the
+// bundled sites.
+export class SiteDefinitions {
+  private static current: SiteDefinitionsDocument | undefined
+  private static listening = false
+
+  public static version(): number {
+    return this.current?.version ?? 0
+  }
+
+  public static async load(publicKey = PUBLIC_KEY): Promise<SiteDefinitionsDocument | undefined> {
+    try {
+      const { [STORAGE_KEY]: cached } = await chrome.storage.local.get(STORAGE_KEY)
+      if (cached) await this.apply(cached, publicKey)
+    } catch (error) {
+      console.error('Failed to load site definitions:', error)
+    }
+
+    if (!this.listening) {
+      this.listening = true
+      chrome.storage.onChanged.addListener((changes, area) => {
+        if (area === 'local' && changes[STORAGE_KEY]?.newValue) {
+          this.apply(changes[STORAGE_KEY].newValue, publicKey)
+        }
+      })
+    }
+
+    return this.current
+  }
+
+  // Fetches the latest document and keeps it if it verifies and is newer
+  public static async refresh(publicKey = PUBLIC_KEY): Promise<SiteDefinitionsRefresh> {
+    let signed: SignedSiteDefinitions
+    try {
+      signed = await BackendService.getSiteDefinitions()
+    } catch (error) {
+      return 'unavailable'
+    }
+
+    const document = await this.verify(signed, publicKey)
+    if (!document) return 'rejected'
+    // An older document, even correctly signed, must not undo a fix
+    if (document.version <= this.version()) return 'current'
+
+    this.use(document)
+    await chrome.storage.local.set({ [STORAGE_KEY]: signed })
+    return 'updated'
+  }
+
+  // The parsed document when the signature holds, otherwise null
+  public static async verify(signed: SignedSiteDefinitions, publicKey = PUBLIC_KEY): Promise<SiteDefinitionsDocument | null> {
+    if (!publicKey) return null
+
+    try {
+      const key = await crypto.subtle.importKey('spki', this.fromBase64(publicKey), SITE_DEFINITIONS_KEY, false, ['verify'])
+      const valid = await crypto.subtle.verify(
+        SITE_DEFINITIONS_SIGNATURE,
+        key,
+        this.fromBase64(signed.signature),
+        new TextEncoder().encode(signed.document)
+      )
+      if (!valid) return null
+    } catch (error) {
+      return null
+    }
+
+    const parsed = parseSiteDefinitions(signed.document)
+    return parsed.ok ? parsed.value : null
+  }
+
+  private static async apply(signed: SignedSiteDefinitions, publicKey: string): Promise<void> {
+    const document = await this.verify(signed, publicKey)
+    if (document && document.version > this.version()) {
+      this.use(document)
+    }
+  }
+
+  private static use(document: SiteDefinitionsDocument): void {
+    this.current = document
+    SiteAdapters.usePublished(document.sites)
+  }
+
+  private static fromBase64(value: string): ArrayBuffer {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0)).buffer
+  }
+}
@@ -0,0 +1,28 @@
+// Typed at the start of a line or after a space, these open the snippet picker;
+// whatever follows on the same line is the search query
+const SNIPPET_TRIGGERS = ['/pp ', ';;']
+const MAX_SNIPPET_QUERY_LENGTH = 40
+
+export interface SnippetTriggerMatch {
+  // Characters before the caret taken by the trigger and the query
+  length: number
+  query: string
+}
+
+export class SnippetTrigger {
+  // The last trigger before the caret and what was typed after it
+  public static find(before: string | null): SnippetTriggerMatch | null {
+    if (before === null) return null
+
+    let best: SnippetTriggerMatch | null = null
+    for (const trigger of SNIPPET_TRIGGERS) {
+      const index = before.lastIndexOf(trigger)
+      if (index === -1 || (index > 0 && !/\s/.test(before[index - 1]))) continue
+
+      const query = before.slice(index + trigger.length)
+      if (query.includes('\n') || query.length > MAX_SNIPPET_QUERY_LENGTH) continue
+      if (!best || before.length - index < best.length) best = { length: before.length - index, query }
+    }
+    return best
+  }
+}
@@ -1,10 +1,18 @@
 import Dexie, { Table } from 'dexie'
-import { PromptLibraryItem, UserSettings, ProviderConfig } from '@/types'
+import { AuthSession, PromptLibraryItem, PromptRevision, UserSettings, ProviderConfig } from '@/types'
+import { PromptScorer } from '../../backend/src/contract/promptScore'
+import { SearchIndex, IndexEntry } from './searchIndex'
+import { PromptRevisions } from './revisions'
+import { LibraryMerge, MergePlan, ConflictResolution } from './libraryMerge'
+import { SyncState, SyncStateStore, SyncTarget } from './syncEngine'
 
 export class PromptPolisherDB extends Dexie {
   prompts!: Table<PromptLibraryItem>
   settings!: Table<UserSettings & { id: string }>
   providers!: Table<ProviderConfig>
+  searchIndex!: Table<IndexEntry & { id?: number }>
+  revisions!: Table<PromptRevision>
+  sync!: Table<{ id: string; value: unknown }>
 
   constructor() {
     super('PromptPolisherDB')
@@ -14,25 +22,64 @@ export class PromptPolisherDB extends Dexie {
       settings: '++id',
       providers: '++id, name, enabled'
     })
+
+    // Inverted index over the prompt library, see SearchIndex
+    this.version(2).stores({
+      searchIndex: '++id, term, promptId'
+    }).upgrade(async tx => {
+      const prompts: PromptLibraryItem[] = await tx.table('prompts').toArray()
+      await tx.table('searchIndex').bulkAdd(prompts.flatMap(prompt => SearchIndex.entries(prompt)))
+    })
+
+    // Version history; existing prompts start out with their current content
+    this.version(3).stores({
+      revisions: '++id, promptId, createdAt'
+    }).upgrade(async tx => {
+      const prompts: PromptLibraryItem[] = await tx.table('prompts').toArray()
+      await tx.table('revisions').bulkAdd(prompts.map(prompt =>
+        PromptRevisions.snapshot(prompt, 'Saved to library', prompt.updatedAt)
+      ))
+    })
+
+    // Cloud sync state and the account session, shared with the service worker
+    this.version(4).stores({
+      sync: 'id'
+    })
   }
 }
 
 export const db = new PromptPolisherDB()
 
+// The contents of an exported backup file
+export interface LibraryBackup {
+  prompts?: PromptLibraryItem[]
+  revisions?: PromptRevision[]
+  settings?: UserSettings
+  providers?: ProviderConfig[]
+}
+
 export class StorageManager {
   private static readonly SETTINGS_KEY = 'user-settings'
+  private static readonly SYNC_STATE_KEY = 'library'
+  private static readonly SYNC_SESSION_KEY = 'session'
 
   // Prompt Library Management
   public static async savePrompt(item: Omit<PromptLibraryItem, 'id' | 'createdAt' | 'updatedAt' | 'usageCount'>): Promise<string> {
     const now = new Date()
     const prompt: Omit<PromptLibraryItem, 'id'> = {
       ...item,
+      scores: item.scores || PromptScorer.compare(item.originalPrompt, item.improvedPrompt),
       createdAt: now,
       updatedAt: now,
       usageCount: 0
     }
     
-    const id = await db.prompts.add(prompt as PromptLibraryItem)
+    const id = await db.transaction('rw', db.prompts, db.searchIndex, db.revisions, async () => {
+      const id = await db.prompts.add(prompt as PromptLibraryItem)
+      await this.indexPrompt({ ...prompt, id } as PromptLibraryItem)
+      await this.addRevision({ ...prompt, id } as PromptLibraryItem, 'Saved to library', now)
+      return id
+    })
     return id.toString()
   }
 
@@ -44,30 +91,79 @@ export class StorageManager {
     return query.toArray()
   }
 
+  // Ranked search over the inverted index. Besides words (matched by prefix and
+  // with a typo or two) the query may hold tag:, category: and used:>5 filters.
   public static async searchPrompts(searchTerm: string): Promise<PromptLibraryItem[]> {
-    const term = searchTerm.toLowerCase()
-    return db.prompts
-      .filter(prompt => 
-        prompt.title.toLowerCase().includes(term) ||
-        prompt.originalPrompt.toLowerCase().includes(term) ||
-        prompt.improvedPrompt.toLowerCase().includes(term) ||
-        prompt.tags.some(tag => tag.toLowerCase().includes(term)) ||
-        prompt.category.toLowerCase().includes(term) ||
-        (prompt.notes && prompt.notes.toLowerCase().includes(term))
-      )
-      .toArray()
+    const query = SearchIndex.parse(searchTerm)
+
+    if (query.terms.length === 0) {
+      const prompts = await db.prompts.toArray()
+      return SearchIndex.rank(prompts.filter(prompt => SearchIndex.matchesFilters(prompt, query)))
+    }
+
+    const vocabulary = await db.searchIndex.orderBy('term').uniqueKeys() as string[]
+    const matches = query.terms.map(term => SearchIndex.expand(term, vocabulary))
+    if (matches.some(expansions => expansions.length === 0)) return []
+
+    const [entries, documentCount] = await Promise.all([
+      db.searchIndex.where('term').anyOf(matches.flat().map(match => match.term)).toArray(),
+      db.prompts.count()
+    ])
+    const scores = SearchIndex.score(matches, entries, documentCount)
+    const prompts = await db.prompts.bulkGet([...scores.keys()])
+
+    return SearchIndex.rank(
+      prompts.filter((prompt): prompt is PromptLibraryItem => !!prompt && SearchIndex.matchesFilters(prompt, query)),
+      scores
+    )
   }
 
   public static async getPromptsByCategory(category: string): Promise<PromptLibraryItem[]> {
     return db.prompts.where('category').equals(category).toArray()
   }
 
-  public static async updatePrompt(id: string, updates: Partial<PromptLibraryItem>): Promise<void> {
-    await db.prompts.update(id, { ...updates, updatedAt: new Date() })
+  // Every change to the wording, tags or fields is kept as a revision with `note`
+  public static async updatePrompt(id: string, updates: Partial<PromptLibraryItem>, note = 'Edited'): Promise<void> {
+    await db.transaction('rw', db.prompts, db.searchIndex, db.revisions, async () => {
+      const before = await db.prompts.get(id)
+      const now = new Date()
+      // Changes synced from another device bring their own updatedAt
+      await db.prompts.update(id, { updatedAt: now, ...updates })
+      const prompt = await db.prompts.get(id)
+      if (!before || !prompt) return
+
+      await db.searchIndex.where('promptId').equals(id).delete()
+      await this.indexPrompt(prompt)
+      if (PromptRevisions.changedFields(before, prompt).length > 0) {
+        await this.addRevision(prompt, note, now)
+      }
+    })
   }
 
   public static async deletePrompt(id: string): Promise<void> {
-    await db.prompts.delete(id)
+    await db.transaction('rw', db.prompts, db.searchIndex, db.revisions, async () => {
+      await db.prompts.delete(id)
+      await db.searchIndex.where('promptId').equals(id).delete()
+      await db.revisions.where('promptId').equals(id).delete()
+    })
+  }
+
+  // Newest first; the first revision is the prompt as it is now
+  public static async getRevisions(promptId: string): Promise<PromptRevision[]> {
+    const revisions = await db.revisions.where('promptId').equals(promptId).sortBy('createdAt')
+    return revisions.reverse()
+  }
+
+  // Brings back an older wording as a new revision, so nothing in between is lost
+  public static async restoreRevision(revisionId: string): Promise<void> {
+    const revision = await db.revisions.get(revisionId)
+    if (!revision) throw new Error('Revision not found')
+
+    await this.updatePrompt(
+      revision.promptId,
+      PromptRevisions.content(revision),
+      `Restored the version from ${new Date(revision.createdAt).toLocaleString()}`
+    )
   }
 
   public static async incrementUsage(id: string): Promise<void> {
@@ -80,6 +176,57 @@ export class StorageManager {
     }
   }
 
+  private static async indexPrompt(prompt: PromptLibraryItem): Promise<void> {
+    await db.searchIndex.bulkAdd(SearchIndex.entries(prompt))
+  }
+
+  private static async addRevision(prompt: PromptLibraryItem, note: string, createdAt: Date): Promise<void> {
+    await db.revisions.add(PromptRevisions.snapshot(prompt, note, createdAt) as PromptRevision)
+  }
+
+  // Cloud sync: the library as seen by SyncEngine, which keeps search and history up to date
+  public static syncTarget(): SyncTarget {
+    return {
+      list: () => db.prompts.toArray(),
+      write: async (existing, item) => {
+        if (existing) {
+          await this.updatePrompt(existing.id, item, 'Synced from another device')
+          return existing.id
+        }
+        return db.transaction('rw', db.prompts, db.searchIndex, db.revisions, async () => {
+          const id = await db.prompts.add(item as PromptLibraryItem) as string
+          await this.indexPrompt({ ...item, id })
+          await this.addRevision({ ...item, id }, 'Synced from another device', new Date())
+          return id
+        })
+      },
+      remove: existing => this.deletePrompt(existing.id)
+    }
+  }
+
+  public static syncState(): SyncStateStore {
+    return {
+      load: async () => (await db.sync.get(this.SYNC_STATE_KEY))?.value as SyncState | undefined,
+      save: async state => {
+        await db.sync.put({ id: this.SYNC_STATE_KEY, value: state })
+      }
+    }
+  }
+
+  // The PWA's account session lives here so the service worker can sync too
+  public static async getSyncSession(): Promise<AuthSession | undefined> {
+    return (await db.sync.get(this.SYNC_SESSION_KEY))?.value as AuthSession | undefined
+  }
+
+  // Signing out also forgets the sync state, so another account starts afresh
+  public static async setSyncSession(session: AuthSession | undefined): Promise<void> {
+    if (session?.isAuthenticated) {
+      await db.sync.put({ id: this.SYNC_SESSION_KEY, value: session })
+    } else {
+      await db.sync.bulkDelete([this.SYNC_SESSION_KEY, this.SYNC_STATE_KEY])
+    }
+  }
+
   // Settings Management
   public static async getSettings(): Promise<UserSettings> {
     const settings = await db.settings.get(this.SETTINGS_KEY)
@@ -133,30 +280,89 @@ export class StorageManager {
   }
 
   // Export/Import
-  public static async exportData(): Promise<{ prompts: PromptLibraryItem[], settings: UserSettings, providers: ProviderConfig[] }> {
-    const [prompts, settings, providers] = await Promise.all([
+  public static async exportData(): Promise<Required<LibraryBackup>> {
+    const [prompts, revisions, settings, providers] = await Promise.all([
       this.getPrompts(),
+      db.revisions.orderBy('createdAt').toArray(),
       this.getSettings(), 
       this.getProviders()
     ])
     
-    return { prompts, settings, providers }
+    return { prompts, revisions, settings, providers }
   }
 
-  public static async importData(data: { prompts?: PromptLibraryItem[], settings?: UserSettings, providers?: ProviderConfig[] }): Promise<void> {
-    if (data.prompts) {
-      await db.prompts.clear()
-      await db.prompts.bulkAdd(data.prompts)
+  // What importing `data` would add and where it conflicts, without changing anything
+  public static async previewImport(data: LibraryBackup): Promise<MergePlan> {
+    return LibraryMerge.plan(await db.prompts.toArray(), this.revivePrompts(data.prompts || []))
+  }
+
+  // Merges a backup into the library without removing anything. `resolutions`
+  // answers the conflicts from previewImport in order; unanswered ones keep mine.
+  public static async importData(data: LibraryBackup, resolutions: ConflictResolution[] = []): Promise<MergePlan> {
+    const prompts = this.revivePrompts(data.prompts || [])
+    const revisions = new Map<string, PromptRevision[]>()
+    for (const revision of data.revisions || []) {
+      // Dates arrive as strings from JSON and would sort apart from stored ones
+      const revived = { ...revision, createdAt: new Date(revision.createdAt) }
+      revisions.set(String(revision.promptId), [...(revisions.get(String(revision.promptId)) || []), revived])
     }
+
+    const plan = await db.transaction('rw', db.prompts, db.searchIndex, db.revisions, async () => {
+      const plan = LibraryMerge.plan(await db.prompts.toArray(), prompts)
+
+      for (const prompt of plan.added) {
+        await this.addImportedPrompt(prompt, revisions.get(String(prompt.id)))
+      }
+      for (const [index, conflict] of plan.conflicts.entries()) {
+        const resolution = resolutions[index] || 'mine'
+        if (resolution === 'theirs') {
+          await this.updatePrompt(conflict.mine.id, PromptRevisions.content(conflict.theirs), 'Replaced by an imported version')
+        } else if (resolution === 'both') {
+          await this.addImportedPrompt(LibraryMerge.copy(conflict.theirs))
+        }
+      }
+      return plan
+    })
     
     if (data.settings) {
       await this.updateSettings(data.settings)
     }
     
     if (data.providers) {
-      await db.providers.clear()
-      await db.providers.bulkAdd(data.providers)
+      const existing = new Set((await this.getProviders()).map(provider => provider.id))
+      await db.providers.bulkAdd(data.providers.filter(provider => !existing.has(provider.id)))
     }
+
+    return plan
+  }
+
+  // Imported prompts get a new ID, bringing their history along when the backup has it
+  private static async addImportedPrompt(prompt: PromptLibraryItem, revisions: PromptRevision[] = []): Promise<void> {
+    const item: Partial<PromptLibraryItem> = { ...prompt }
+    delete item.id
+    const id = await db.prompts.add(item as PromptLibraryItem) as string
+    const added = { ...prompt, id }
+    await this.indexPrompt(added)
+
+    if (revisions.length === 0) {
+      await this.addRevision(added, 'Imported', new Date())
+      return
+    }
+    await db.revisions.bulkAdd(revisions.map(revision => {
+      const copy: Partial<PromptRevision> = { ...revision, promptId: id }
+      delete copy.id
+      return copy as PromptRevision
+    }))
+  }
+
+  private static revivePrompts(prompts: PromptLibraryItem[]): PromptLibraryItem[] {
+    return prompts.map(prompt => ({
+      ...prompt,
+      tags: prompt.tags || [],
+      usageCount: prompt.usageCount || 0,
+      createdAt: new Date(prompt.createdAt),
+      updatedAt: new Date(prompt.updatedAt || prompt.createdAt)
+    }))
   }
 
   // Category Management
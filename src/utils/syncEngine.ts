@@ -0,0 +1,221 @@
+import { PromptLibraryItem } from '@/types'
+import { LibrarySyncRequest, LibrarySyncResult, SyncRecord } from '../../backend/src/contract/apiContract'
+import { LibrarySync } from '../../backend/src/contract/librarySync'
+
+// Where this device keeps its library: Dexie in the PWA, chrome.storage in the extension
+export interface SyncTarget {
+  list(): Promise<PromptLibraryItem[]>
+  // Stores a prompt that changed on another device, replacing `existing` when
+  // given, and returns its local id
+  write(existing: PromptLibraryItem | undefined, item: Omit<PromptLibraryItem, 'id'>): Promise<PromptLibraryItem['id']>
+  remove(existing: PromptLibraryItem): Promise<void>
+}
+
+export interface SyncState {
+  // Highest server revision applied here
+  cursor: number
+  // The library as this device last saw it, by sync id. Local edits are found
+  // by comparing the library against it.
+  records: Record<string, SyncRecord>
+  // Sync id of each local prompt, by local id
+  ids: Record<string, string>
+  // Changes the server has not accepted yet, by sync id
+  outbox: Record<string, SyncRecord>
+  // Failed attempts since the last successful sync
+  attempts: number
+  retryAt?: number
+  lastSyncedAt?: number
+}
+
+export interface SyncStateStore {
+  load(): Promise<SyncState | undefined>
+  save(state: SyncState): Promise<void>
+}
+
+export type SyncTransport = (request: LibrarySyncRequest) => Promise<LibrarySyncResult>
+
+export interface SyncOptions {
+  // Only contact the server when there are local changes to push
+  changes?: boolean
+  // Ignore the retry backoff, e.g. when the browser reports being back online
+  force?: boolean
+}
+
+export interface SyncOutcome {
+  pushed: number
+  pulled: number
+  // The server could not be reached; the changes stay queued until `retryAt`
+  error?: unknown
+  retryAt?: number
+}
+
+// Changes sent per request, below the server's limit
+const BATCH_SIZE = 200
+const RETRY_BASE_MS = 30 * 1000
+const RETRY_MAX_MS = 60 * 60 * 1000
+
+// Keeps the local library in step with the account's library on the server.
+// Each run records what changed since the last one (edited fields stamped with
+// their time, deleted prompts as tombstones), pushes that from a persisted
+// outbox and merges whatever other devices changed, see LibrarySync.
+export class SyncEngine {
+  private target: SyncTarget
+  private state: SyncStateStore
+  private transport: SyncTransport
+
+  constructor(target: SyncTarget, state: SyncStateStore, transport: SyncTransport) {
+    this.target = target
+    this.state = state
+    this.transport = transport
+  }
+
+  // Runs one sync; the page and the service worker of the PWA never overlap
+  public async sync(options: SyncOptions = {}): Promise<SyncOutcome> {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined
+    return locks ? await locks.request('prompt-library-sync', () => this.run(options)) : this.run(options)
+  }
+
+  public static initialState(): SyncState {
+    return { cursor: 0, records: {}, ids: {}, outbox: {}, attempts: 0 }
+  }
+
+  // Exponential backoff after `attempts` failures, capped at an hour
+  public static retryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS)
+  }
+
+  // The synced part of a prompt, with dates as ISO strings
+  public static toFields(item: PromptLibraryItem): Record<string, unknown> {
+    const fields: Partial<PromptLibraryItem> = { ...item }
+    delete fields.id
+    return JSON.parse(JSON.stringify(fields))
+  }
+
+  public static toItem(fields: Record<string, unknown>): Omit<PromptLibraryItem, 'id'> {
+    const item = fields as unknown as PromptLibraryItem
+    return {
+      ...item,
+      tags: item.tags || [],
+      usageCount: item.usageCount || 0,
+      createdAt: new Date(item.createdAt),
+      updatedAt: new Date(item.updatedAt || item.createdAt)
+    }
+  }
+
+  private async run(options: SyncOptions): Promise<SyncOutcome> {
+    const now = Date.now()
+    const state = (await this.state.load()) || SyncEngine.initialState()
+    const items = new Map((await this.target.list()).map(item => [String(item.id), item]))
+    this.track(state, items, now)
+    await this.state.save(state)
+
+    if (options.changes && Object.keys(state.outbox).length === 0) return { pushed: 0, pulled: 0 }
+    if (!options.force && state.retryAt && state.retryAt > now) {
+      return { pushed: 0, pulled: 0, retryAt: state.retryAt }
+    }
+
+    let pushed = 0
+    let pulled = 0
+    try {
+      let hasMore = true
+      while (hasMore || Object.keys(state.outbox).length > 0) {
+        const batch = Object.values(state.outbox).slice(0, BATCH_SIZE)
+        const result = await this.transport({ cursor: state.cursor, changes: batch })
+
+        batch.forEach(change => delete state.outbox[change.id])
+        pushed += batch.length
+        pulled += await this.apply(state, items, result.records)
+        state.cursor = result.cursor
+        hasMore = result.hasMore
+        await this.state.save(state)
+      }
+
+      state.attempts = 0
+      state.retryAt = undefined
+      state.lastSyncedAt = Date.now()
+      await this.state.save(state)
+      return { pushed, pulled }
+    } catch (error) {
+      state.attempts += 1
+      state.retryAt = Date.now() + SyncEngine.retryDelay(state.attempts)
+      await this.state.save(state)
+      return { pushed, pulled, error, retryAt: state.retryAt }
+    }
+  }
+
+  // Queues every local edit and delete since the last run
+  private track(state: SyncState, items: Map<string, PromptLibraryItem>, now: number): void {
+    const present = new Set<string>()
+
+    for (const [localId, item] of items) {
+      const id = state.ids[localId] || (state.ids[localId] = this.createId())
+      present.add(id)
+
+      const base = state.records[id]
+      const fields = SyncEngine.toFields(item)
+      const changed = base && !LibrarySync.isDeleted(base)
+        ? LibrarySync.changedFields(base.fields, fields)
+        : Object.keys(fields)
+      if (changed.length === 0) continue
+
+      // Stamped with the prompt's own edit time, so an offline edit does not
+      // beat a later one from another device just because it synced later
+      const edited = new Date(item.updatedAt).getTime() || now
+      const change: SyncRecord = { id, fields: {}, clock: {} }
+      for (const name of changed) {
+        change.fields[name] = fields[name]
+        change.clock[name] = Math.max(edited, (base?.clock[name] ?? 0) + 1)
+      }
+      this.queue(state, change)
+    }
+
+    for (const [localId, id] of Object.entries(state.ids)) {
+      if (present.has(id)) continue
+      const base = state.records[id]
+      const latest = Math.max(0, ...Object.values(base?.clock || {}))
+      this.queue(state, { id, fields: {}, clock: {}, deletedAt: Math.max(now, latest) })
+      delete state.ids[localId]
+    }
+  }
+
+  private queue(state: SyncState, change: SyncRecord): void {
+    state.outbox[change.id] = LibrarySync.merge(state.outbox[change.id], change)
+    state.records[change.id] = LibrarySync.merge(state.records[change.id], change)
+  }
+
+  // Merges records from the server into the local library; returns how many changed it
+  private async apply(state: SyncState, items: Map<string, PromptLibraryItem>, records: SyncRecord[]): Promise<number> {
+    const localIds = new Map(Object.entries(state.ids).map(([localId, id]) => [id, localId]))
+    let changed = 0
+
+    for (const remote of records) {
+      const base = state.records[remote.id]
+      const merged = LibrarySync.merge(base, remote)
+      state.records[remote.id] = merged
+      if (base && LibrarySync.equal(base, merged)) continue
+
+      const localId = localIds.get(remote.id)
+      const existing = localId !== undefined ? items.get(localId) : undefined
+      if (LibrarySync.isDeleted(merged)) {
+        if (!existing) continue
+        await this.target.remove(existing)
+        items.delete(localId!)
+        delete state.ids[localId!]
+      } else {
+        const item = SyncEngine.toItem(merged.fields)
+        const id = String(await this.target.write(existing, item))
+        items.set(id, { ...item, id })
+        state.ids[id] = remote.id
+      }
+      changed++
+    }
+
+    return changed
+  }
+
+  private createId(): string {
+    return typeof crypto !== 'undefined' && crypto.randomUUID
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+  }
+}
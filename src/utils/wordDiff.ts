@@ -0,0 +1,200 @@
+export type DiffOpType = 'equal' | 'insert' | 'delete'
+
+export interface DiffOp {
+  type: DiffOpType
+  text: string
+}
+
+// A run of changes, with character ranges into both texts
+export interface DiffHunk {
+  type: 'addition' | 'deletion' | 'modification'
+  original: string
+  improved: string
+  originalRange: [number, number]
+  improvedRange: [number, number]
+  // Indexes into the ops list this hunk was built from
+  ops: [number, number]
+}
+
+// CJK scripts have no spaces between words, so each character is a token
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}'
+const TOKEN_PATTERN = new RegExp(
+  `\\s+|[${CJK}]|(?:(?![${CJK}])[\\p{L}\\p{M}\\p{N}_'’])+|\\S`,
+  'gu'
+)
+
+// Beyond this many edits the texts are treated as rewritten wholesale
+const MAX_EDIT_DISTANCE = 1000
+
+// Word-level diff using Myers' O(ND) algorithm
+export class WordDiff {
+  public static tokenize(text: string): string[] {
+    return text.match(TOKEN_PATTERN) || []
+  }
+
+  public static diff(original: string, improved: string): DiffOp[] {
+    return this.diffTokens(this.tokenize(original), this.tokenize(improved))
+  }
+
+  public static diffTokens(a: string[], b: string[]): DiffOp[] {
+    // Common prefix and suffix never need the search
+    let start = 0
+    while (start < a.length && start < b.length && a[start] === b[start]) start++
+
+    let endA = a.length
+    let endB = b.length
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+      endA--
+      endB--
+    }
+
+    const ops: DiffOp[] = []
+    this.push(ops, 'equal', a.slice(0, start))
+    for (const op of this.myers(a.slice(start, endA), b.slice(start, endB))) {
+      this.push(ops, op.type, [op.text])
+    }
+    this.push(ops, 'equal', a.slice(endA))
+
+    return ops
+  }
+
+  // Groups changes into hunks. Whitespace-only equal runs between two changes
+  // are absorbed so that "a b c" -> "x y z" is one modification, not three.
+  public static hunks(ops: DiffOp[]): DiffHunk[] {
+    const hunks: DiffHunk[] = []
+    let originalPos = 0
+    let improvedPos = 0
+    let current: DiffHunk | null = null
+    let hasInsert = false
+    let hasDelete = false
+
+    const close = () => {
+      if (!current) return
+      current.type = hasInsert && hasDelete ? 'modification' : hasInsert ? 'addition' : 'deletion'
+      hunks.push(current)
+      current = null
+      hasInsert = false
+      hasDelete = false
+    }
+
+    ops.forEach((op, index) => {
+      const isGap = op.type === 'equal' && current !== null && !op.text.trim() && ops[index + 1] && ops[index + 1].type !== 'equal'
+
+      if (op.type === 'equal' && !isGap) {
+        close()
+      } else {
+        if (!current) {
+          current = {
+            type: 'modification',
+            original: '',
+            improved: '',
+            originalRange: [originalPos, originalPos],
+            improvedRange: [improvedPos, improvedPos],
+            ops: [index, index]
+          }
+        }
+
+        const hunk: DiffHunk = current
+        if (op.type !== 'insert') {
+          hunk.original += op.text
+          hunk.originalRange[1] = originalPos + op.text.length
+        }
+        if (op.type !== 'delete') {
+          hunk.improved += op.text
+          hunk.improvedRange[1] = improvedPos + op.text.length
+        }
+        hunk.ops[1] = index
+        hasInsert = hasInsert || op.type === 'insert'
+        hasDelete = hasDelete || op.type === 'delete'
+      }
+
+      if (op.type !== 'insert') originalPos += op.text.length
+      if (op.type !== 'delete') improvedPos += op.text.length
+    })
+    close()
+
+    return hunks
+  }
+
+  private static myers(a: string[], b: string[]): DiffOp[] {
+    const n = a.length
+    const m = b.length
+    if (n === 0) return m ? [{ type: 'insert', text: b.join('') }] : []
+    if (m === 0) return [{ type: 'delete', text: a.join('') }]
+
+    const limit = Math.min(n + m, MAX_EDIT_DISTANCE)
+    const offset = limit + 1
+    const v = new Int32Array(2 * limit + 3)
+    const trace: Int32Array[] = []
+
+    for (let d = 0; d <= limit; d++) {
+      trace.push(v.slice())
+
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+          ? v[k + 1 + offset]
+          : v[k - 1 + offset] + 1
+        let y = x - k
+
+        while (x < n && y < m && a[x] === b[y]) {
+          x++
+          y++
+        }
+        v[k + offset] = x
+
+        if (x >= n && y >= m) {
+          return this.backtrack(trace, a, b, offset)
+        }
+      }
+    }
+
+    return [
+      { type: 'delete', text: a.join('') },
+      { type: 'insert', text: b.join('') }
+    ]
+  }
+
+  private static backtrack(trace: Int32Array[], a: string[], b: string[], offset: number): DiffOp[] {
+    const ops: DiffOp[] = []
+    let x = a.length
+    let y = b.length
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const v = trace[d]
+      const k = x - y
+      const prevK = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]) ? k + 1 : k - 1
+      const prevX = v[prevK + offset]
+      const prevY = prevX - prevK
+
+      while (x > prevX && y > prevY) {
+        ops.push({ type: 'equal', text: a[x - 1] })
+        x--
+        y--
+      }
+
+      if (d > 0) {
+        if (x === prevX) {
+          ops.push({ type: 'insert', text: b[y - 1] })
+        } else {
+          ops.push({ type: 'delete', text: a[x - 1] })
+        }
+        x = prevX
+        y = prevY
+      }
+    }
+
+    return ops.reverse()
+  }
+
+  // Appends tokens, merging with the previous op of the same type
+  private static push(ops: DiffOp[], type: DiffOpType, tokens: string[]) {
+    if (tokens.length === 0) return
+    const text = tokens.join('')
+    const last = ops[ops.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      ops.push({ type, text })
+    }
+  }
+}
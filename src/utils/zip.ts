@@ -0,0 +1,134 @@
+export interface ZipEntry {
+  name: string
+  content: string
+}
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+// Bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800
+const STORED = 0
+const DEFLATED = 8
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+// Minimal zip archives of text files for library bundles. Writes uncompressed
+// entries, which every unzip tool reads; reads stored and deflated entries so
+// archives re-zipped by other tools still import.
+export class Zip {
+  public static create(entries: ZipEntry[], date = new Date()): Uint8Array {
+    const encoder = new TextEncoder()
+    const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)
+    const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    const locals: Uint8Array[] = []
+    const centrals: Uint8Array[] = []
+    let offset = 0
+
+    for (const entry of entries) {
+      const name = encoder.encode(entry.name)
+      const data = encoder.encode(entry.content)
+      const crc = this.crc32(data)
+
+      const local = new DataView(new ArrayBuffer(30))
+      local.setUint32(0, LOCAL_HEADER, true)
+      local.setUint16(4, 20, true)
+      local.setUint16(6, UTF8_FLAG, true)
+      local.setUint16(8, STORED, true)
+      local.setUint16(10, time, true)
+      local.setUint16(12, day, true)
+      local.setUint32(14, crc, true)
+      local.setUint32(18, data.length, true)
+      local.setUint32(22, data.length, true)
+      local.setUint16(26, name.length, true)
+      locals.push(new Uint8Array(local.buffer), name, data)
+
+      const central = new DataView(new ArrayBuffer(46))
+      central.setUint32(0, CENTRAL_HEADER, true)
+      central.setUint16(4, 20, true)
+      central.setUint16(6, 20, true)
+      central.setUint16(8, UTF8_FLAG, true)
+      central.setUint16(10, STORED, true)
+      central.setUint16(12, time, true)
+      central.setUint16(14, day, true)
+      central.setUint32(16, crc, true)
+      central.setUint32(20, data.length, true)
+      central.setUint32(24, data.length, true)
+      central.setUint16(28, name.length, true)
+      central.setUint32(42, offset, true)
+      centrals.push(new Uint8Array(central.buffer), name)
+
+      offset += 30 + name.length + data.length
+    }
+
+    const directorySize = centrals.reduce((size, part) => size + part.length, 0)
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+    end.setUint16(8, entries.length, true)
+    end.setUint16(10, entries.length, true)
+    end.setUint32(12, directorySize, true)
+    end.setUint32(16, offset, true)
+
+    return this.concat([...locals, ...centrals, new Uint8Array(end.buffer)])
+  }
+
+  public static async read(archive: Uint8Array): Promise<ZipEntry[]> {
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+    const decoder = new TextDecoder()
+
+    // The end record sits at the very end, after an optional comment
+    let end = archive.length - 22
+    while (end >= 0 && view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) end--
+    if (end < 0) throw new Error('Not a zip archive')
+
+    const count = view.getUint16(end + 10, true)
+    let position = view.getUint32(end + 16, true)
+    const entries: ZipEntry[] = []
+
+    for (let i = 0; i < count; i++) {
+      if (view.getUint32(position, true) !== CENTRAL_HEADER) throw new Error('Damaged zip archive')
+      const method = view.getUint16(position + 10, true)
+      const compressedSize = view.getUint32(position + 20, true)
+      const nameLength = view.getUint16(position + 28, true)
+      const extraLength = view.getUint16(position + 30, true)
+      const commentLength = view.getUint16(position + 32, true)
+      const localOffset = view.getUint32(position + 42, true)
+      const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength))
+      position += 46 + nameLength + extraLength + commentLength
+
+      if (name.endsWith('/')) continue
+      if (method !== STORED && method !== DEFLATED) throw new Error(`Unsupported compression in ${name}`)
+
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+      const data = archive.subarray(dataStart, dataStart + compressedSize)
+      entries.push({ name, content: decoder.decode(method === DEFLATED ? await this.inflate(data) : data) })
+    }
+
+    return entries
+  }
+
+  private static async inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Response(data as BodyInit).body!.pipeThrough(new DecompressionStream('deflate-raw' as CompressionFormat))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  }
+
+  private static crc32(data: Uint8Array): number {
+    let crc = 0xffffffff
+    for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+    return (crc ^ 0xffffffff) >>> 0
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+      result.set(part, offset)
+      offset += part.length
+    }
+    return result
+  }
+}
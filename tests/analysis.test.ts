@@ -0,0 +1,153 @@
+import { describe, test, expect, vi, afterEach } from 'vitest'
+import { AnalysisParser } from '../backend/src/services/analysisParser'
+import { BackendProvider } from '../src/utils/backendProvider'
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+
+const llmAnalysis = {
+  originalText: 'write code',
+  improvements: {
+    clarity: ['The task does not say which language to use'],
+    specificity: [],
+    structure: [],
+    examples: []
+  },
+  suggestedPersona: 'Act as a senior TypeScript engineer',
+  improvedPrompt: 'Act as a senior TypeScript engineer. Write a function that...',
+  confidence: 0.8,
+  source: 'llm'
+}
+
+describe('BackendProvider.analyzePrompt', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('returns the structured analysis from the backend', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({ success: true, data: llmAnalysis })))
+
+    const analysis = await BackendProvider.analyzePrompt('write code')
+
+    expect(analysis.source).toBe('llm')
+    expect(analysis.improvements.clarity).toEqual(['The task does not say which language to use'])
+    expect(analysis.suggestedPersona).toBe('Act as a senior TypeScript engineer')
+  })
+
+  test('falls back to the local rules when structured analysis is unavailable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({
+      success: false,
+      error: { code: 'SERVER_ERROR', message: 'Structured analysis unavailable' }
+    }, 502)))
+
+    const analysis = await BackendProvider.analyzePrompt('write code')
+
+    expect(analysis.source).toBe('rules')
+    expect(analysis.originalText).toBe('write code')
+    expect(analysis.improvements.specificity.length).toBeGreaterThan(0)
+  })
+
+  test('falls back when the backend returns data that breaks the contract', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({
+      success: true,
+      data: { ...llmAnalysis, improvements: 'clearer please' }
+    })))
+
+    const analysis = await BackendProvider.analyzePrompt('write code')
+
+    expect(analysis.source).toBe('rules')
+  })
+
+  test('asks for an explanation of the improvement on screen', async () => {
+    const fetch = vi.fn(async () => jsonResponse({ success: false, error: { code: 'SERVER_ERROR', message: 'down' } }, 502))
+    vi.stubGlobal('fetch', fetch)
+
+    const analysis = await BackendProvider.analyzePrompt('write code', 'Write a TypeScript function that parses CSV')
+
+    expect(JSON.parse((fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body as string))
+      .toMatchObject({ prompt: 'write code', improvedPrompt: 'Write a TypeScript function that parses CSV' })
+    // The local rules explain the same improvement rather than their own
+    expect(analysis.improvedPrompt).toBe('Write a TypeScript function that parses CSV')
+  })
+})
+
+describe('AnalysisParser', () => {
+  const answer = {
+    improvements: { clarity: ['Names the language'], specificity: [], structure: [], examples: [] },
+    improvedPrompt: 'Write a TypeScript function that parses CSV',
+    confidence: 0.8
+  }
+
+  test('reads JSON wrapped in prose and code fences', () => {
+    const raw = `Here is the analysis:\n\`\`\`json\n${JSON.stringify(answer)}\n\`\`\`\nLet me know!`
+    const analysis = AnalysisParser.parse(raw, 'write code')
+
+    expect(analysis).toMatchObject({
+      originalText: 'write code',
+      improvedPrompt: answer.improvedPrompt,
+      improvements: { clarity: ['Names the language'] },
+      confidence: 0.8,
+      source: 'llm'
+    })
+    expect(analysis?.scores?.improved.overall).toBeGreaterThan(analysis!.scores!.original.overall)
+  })
+
+  test('repairs trailing commas and smart quotes', () => {
+    const raw = '{ “improvedPrompt”: "Explain closures with an example", "improvements": { "clarity": ["Says what to explain",], }, }'
+    expect(AnalysisParser.parse(raw, 'closures?')?.improvements.clarity).toEqual(['Says what to explain'])
+  })
+
+  test('recovers truncated output', () => {
+    const raw = '{"improved_prompt": "Summarise the report in five bullet points", "improvements": {"structure": ["Asks for bul'
+    const analysis = AnalysisParser.parse(raw, 'summarise')
+
+    expect(analysis?.improvedPrompt).toBe('Summarise the report in five bullet points')
+    expect(analysis?.improvements.structure).toEqual(['Asks for bul'])
+  })
+
+  test('maps the key names models use instead of ours', () => {
+    const analysis = AnalysisParser.parse(JSON.stringify({
+      improved: 'Act as an editor and shorten this text to 100 words',
+      persona: 'Editor',
+      format: 'Plain text',
+      improvements: {
+        Clear: 'States the goal',
+        context: [{ reason: 'Adds the word limit' }],
+        formatting: [{ text: 'Asks for plain text' }],
+        example: ['Shows the expected length'],
+        tone: ['Ignored']
+      }
+    }), 'shorten this')
+
+    expect(analysis).toMatchObject({
+      suggestedPersona: 'Editor',
+      suggestedFormat: 'Plain text',
+      improvements: {
+        clarity: ['States the goal'],
+        specificity: ['Adds the word limit'],
+        structure: ['Asks for plain text'],
+        examples: ['Shows the expected length']
+      }
+    })
+  })
+
+  test('scales confidence given as a percentage', () => {
+    const parse = (confidence: unknown) =>
+      AnalysisParser.parse(JSON.stringify({ ...answer, confidence }), 'write code')?.confidence
+
+    expect(parse(85)).toBe(0.85)
+    expect(parse('70%')).toBe(0.7)
+    expect(parse(150)).toBe(1)
+    expect(parse(-3)).toBe(0)
+    expect(parse('high')).toBe(0.5)
+  })
+
+  test('keeps the given improved prompt and rejects answers without one', () => {
+    const explained = AnalysisParser.parse(JSON.stringify({ ...answer, improvedPrompt: undefined }), 'write code', 'The streamed prompt')
+    expect(explained?.improvedPrompt).toBe('The streamed prompt')
+
+    expect(AnalysisParser.parse(JSON.stringify({ ...answer, improvedPrompt: '' }), 'write code')).toBeNull()
+    expect(AnalysisParser.parse('I cannot help with that.', 'write code')).toBeNull()
+    expect(AnalysisParser.parse('[1, 2]', 'write code')).toBeNull()
+  })
+})
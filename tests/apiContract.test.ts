@@ -0,0 +1,143 @@
+import { describe, test, expect, vi, afterEach } from 'vitest'
+import {
+  API_BASE_PATH,
+  API_ROUTES,
+  EnvelopeSchema,
+  ImproveRequestSchema,
+  parse,
+  routePath
+} from '../backend/src/contract/apiContract'
+import { WorkspacePermissions } from '../backend/src/contract/workspacePermissions'
+import { BackendService } from '../src/utils/backendService'
+
+const jsonResponse = (body: any, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+
+const session = {
+  user: {
+    id: 'user-1',
+    email: 'test@example.com',
+    plan: 'free',
+    usage: { current: 1, limit: 5, resetDate: '2024-01-02T00:00:00.000Z' }
+  },
+  token: 'access',
+  refreshToken: 'refresh',
+  expiresAt: '2024-01-01T02:00:00.000Z'
+}
+
+describe('API contract schemas', () => {
+  test('accepts a valid improve request', () => {
+    const result = parse(ImproveRequestSchema, { prompt: 'Write a poem', provider: 'openai' })
+    expect(result.ok).toBe(true)
+  })
+
+  test('reports every invalid field with its path', () => {
+    const result = parse(ImproveRequestSchema, { prompt: '', provider: 42 })
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.errors).toHaveLength(2)
+      expect(result.errors[0]).toContain('$.prompt')
+      expect(result.errors[1]).toContain('$.provider')
+    }
+  })
+
+  test('rejects envelopes with unknown error codes', () => {
+    const result = parse(EnvelopeSchema, {
+      success: false,
+      error: { code: 'TEAPOT', message: 'nope' }
+    })
+    expect(result.ok).toBe(false)
+  })
+
+  test('validates nested session payloads', () => {
+    expect(parse(API_ROUTES.login.response, session).ok).toBe(true)
+    expect(parse(API_ROUTES.login.response, { ...session, user: { id: 'user-1' } }).ok).toBe(false)
+  })
+
+  test('fills in route params', () => {
+    expect(routePath(API_ROUTES.removeCollectionItem.path, { workspaceId: 'w 1', collectionId: 'c', itemId: 'i/2' }))
+      .toBe('/workspaces/w%201/collections/c/items/i%2F2')
+  })
+
+  test('grants workspace actions by role', () => {
+    expect(WorkspacePermissions.can('owner', 'manageMembers')).toBe(true)
+    expect(WorkspacePermissions.can('editor', 'edit')).toBe(true)
+    expect(WorkspacePermissions.can('editor', 'invite')).toBe(false)
+    expect(WorkspacePermissions.can('viewer', 'view')).toBe(true)
+    expect(WorkspacePermissions.can('viewer', 'edit')).toBe(false)
+    expect(WorkspacePermissions.can(undefined, 'view')).toBe(false)
+  })
+})
+
+describe('BackendService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    BackendService.setSession({ isAuthenticated: false })
+  })
+
+  test('sends requests to the versioned API', async () => {
+    const fetchMock = vi.fn(async () => jsonResponse({ success: true, data: session }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await BackendService.login('test@example.com', 'password123')
+
+    expect(fetchMock.mock.calls[0][0]).toContain(`${API_BASE_PATH}/auth/login`)
+    expect(result.isAuthenticated).toBe(true)
+    expect(result.refreshToken).toBe('refresh')
+  })
+
+  test('rejects payloads that do not match the contract', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({
+      success: true,
+      data: { improvedPrompt: 'Better prompt' }
+    })))
+
+    await expect(BackendService.improvePrompt('Write a poem')).rejects.toMatchObject({
+      code: 'SERVER_ERROR',
+      message: 'Unexpected response from server'
+    })
+  })
+
+  test('maps envelope errors to BackendError codes', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({
+      success: false,
+      error: { code: 'PAYMENT_REQUIRED', message: 'Upgrade required' }
+    }, 403)))
+
+    await expect(BackendService.getUsageInfo()).rejects.toMatchObject({
+      code: 'PAYMENT_REQUIRED',
+      message: 'Upgrade required'
+    })
+  })
+
+  test('falls back to the HTTP status for non-envelope errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({ error: 'Too many' }, 429)))
+
+    await expect(BackendService.getUsageInfo()).rejects.toMatchObject({
+      code: 'RATE_LIMIT',
+      retryAfter: 60
+    })
+  })
+
+  test('records quota usage from successful responses', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => jsonResponse({
+      success: true,
+      data: {
+        improvedPrompt: 'Better prompt',
+        originalText: 'Write a poem',
+        provider: 'openai',
+        usage: { tokens: 10, cost: 0.001 }
+      },
+      usage: { current: 2, limit: 5, resetDate: '2024-01-02T00:00:00.000Z' }
+    })))
+
+    const result = await BackendService.improvePrompt('Write a poem')
+
+    expect(result.improvedPrompt).toBe('Better prompt')
+    expect(BackendService.getLastUsage()?.current).toBe(2)
+  })
+})
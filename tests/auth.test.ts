@@ -0,0 +1,213 @@
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+import type { RefreshToken, User } from '../backend/src/db/database'
+import { serve, TestServer } from './backendServer'
+
+process.env.JWT_SECRET = 'test-secret-that-is-at-least-32-characters'
+process.env.BCRYPT_ROUNDS = '4'
+
+// The users and refresh_tokens tables
+const db = vi.hoisted(() => {
+  const users = new Map<string, User>()
+  const tokens = new Map<string, RefreshToken>()
+  const now = () => new Date().toISOString()
+  return {
+    users,
+    tokens,
+    Database: {
+      getUserById: async (id: string) => users.get(id),
+      getUserByEmail: async (email: string) => [...users.values()].find(user => user.email === email),
+      getAnonymousUserByDevice: async (ip: string, deviceId: string) => [...users.values()].find(user =>
+        user.ip_address === ip && user.device_id === deviceId && !user.email && !user.password_hash
+      ),
+      getAnonymousUser: async (ip: string, deviceId?: string) => [...users.values()].find(user =>
+        user.ip_address === ip && user.device_id === deviceId && !user.email && !user.password_hash
+      ),
+      createUser: async (data: Partial<User>) => {
+        const user = {
+          total_queries: 0, queries_today: 0, is_premium: false, last_query_date: '',
+          ...data, created_at: now(), updated_at: now()
+        } as User
+        users.set(user.id, user)
+        return user
+      },
+      updateUser: async (id: string, data: Partial<User>) => {
+        users.set(id, { ...users.get(id)!, ...data, updated_at: now() })
+      },
+      createRefreshToken: async (data: Pick<RefreshToken, 'id' | 'user_id' | 'token_hash' | 'expires_at'>) => {
+        tokens.set(data.id, { ...data, created_at: now() })
+      },
+      getRefreshTokenByHash: async (hash: string) => [...tokens.values()].find(token => token.token_hash === hash),
+      revokeRefreshToken: async (id: string) => {
+        const token = tokens.get(id)!
+        token.revoked_at ??= now()
+      },
+      revokeUserRefreshTokens: async (userId: string) => {
+        for (const token of tokens.values()) {
+          if (token.user_id === userId) token.revoked_at ??= now()
+        }
+      }
+    }
+  }
+})
+
+vi.mock('../backend/src/db/database', () => ({ Database: db.Database }))
+
+const { authRouter } = await import('../backend/src/routes/auth')
+
+let server: TestServer
+
+beforeAll(async () => {
+  server = await serve({ '/auth': authRouter })
+})
+
+afterAll(() => {
+  server.close()
+})
+
+beforeEach(() => {
+  db.users.clear()
+  db.tokens.clear()
+})
+
+const post = (path: string, body: unknown) => server.request('POST', `/auth${path}`, body)
+
+// Someone who used the free tier from this machine without an account
+function anonymousUser(deviceId?: string): User {
+  const user = {
+    id: `anonymous-${deviceId ?? 'no-device'}`,
+    ip_address: '127.0.0.1',
+    device_id: deviceId,
+    total_queries: 42,
+    queries_today: 3,
+    is_premium: false,
+    last_query_date: '',
+    created_at: '',
+    updated_at: ''
+  }
+  db.users.set(user.id, user)
+  return user
+}
+
+const credentials = { email: 'ada@example.com', password: 'correct horse battery' }
+
+describe('POST /auth/register', () => {
+  test('creates an account and a session', async () => {
+    const { status, body } = await post('/register', credentials)
+
+    expect(status).toBe(201)
+    expect(body.data.user).toMatchObject({ email: credentials.email, plan: 'free' })
+    expect(body.data.token).toBeTruthy()
+    expect(db.users.size).toBe(1)
+    expect([...db.users.values()][0].password_hash).not.toBe(credentials.password)
+  })
+
+  test('links the anonymous user of the device that signs up', async () => {
+    const anonymous = anonymousUser('device-1')
+
+    const { body } = await post('/register', { ...credentials, deviceId: 'device-1' })
+
+    expect(body.data.user.id).toBe(anonymous.id)
+    expect(db.users.get(anonymous.id)).toMatchObject({ email: credentials.email, total_queries: 42 })
+  })
+
+  test('does not take over an anonymous user by IP alone', async () => {
+    const other = anonymousUser('device-1')
+    const legacy = anonymousUser()
+
+    const withoutDevice = await post('/register', credentials)
+    const otherDevice = await post('/register', { ...credentials, email: 'eve@example.com', deviceId: 'device-2' })
+
+    for (const { body } of [withoutDevice, otherDevice]) {
+      expect([other.id, legacy.id]).not.toContain(body.data.user.id)
+    }
+    expect(db.users.get(other.id)?.email).toBeUndefined()
+    expect(db.users.get(legacy.id)?.email).toBeUndefined()
+  })
+
+  test('rejects taken emails and weak passwords', async () => {
+    await post('/register', credentials)
+
+    expect((await post('/register', credentials)).status).toBe(409)
+    expect((await post('/register', { email: 'bob@example.com', password: 'short' })).body.error.code).toBe('VALIDATION_ERROR')
+  })
+})
+
+describe('POST /auth/login', () => {
+  test('accepts the right password only, without saying which part was wrong', async () => {
+    await post('/register', credentials)
+
+    const ok = await post('/login', credentials)
+    const wrongPassword = await post('/login', { ...credentials, password: 'wrong password' })
+    const unknownEmail = await post('/login', { ...credentials, email: 'nobody@example.com' })
+
+    expect(ok.status).toBe(200)
+    expect(ok.body.data.user.email).toBe(credentials.email)
+    expect(wrongPassword.status).toBe(401)
+    expect(unknownEmail.body).toEqual(wrongPassword.body)
+  })
+})
+
+describe('POST /auth/refresh', () => {
+  test('rotates the refresh token', async () => {
+    const { body: session } = await post('/register', credentials)
+
+    const first = await post('/refresh', { refreshToken: session.data.refreshToken })
+    expect(first.status).toBe(200)
+    expect(first.body.data.refreshToken).not.toBe(session.data.refreshToken)
+
+    const second = await post('/refresh', { refreshToken: first.body.data.refreshToken })
+    expect(second.status).toBe(200)
+  })
+
+  test('revokes every session when a used refresh token comes back', async () => {
+    const { body: session } = await post('/register', credentials)
+    const { body: rotated } = await post('/refresh', { refreshToken: session.data.refreshToken })
+    const { body: otherDevice } = await post('/login', credentials)
+
+    // The old token was stolen and replayed
+    expect((await post('/refresh', { refreshToken: session.data.refreshToken })).status).toBe(401)
+
+    expect((await post('/refresh', { refreshToken: rotated.data.refreshToken })).status).toBe(401)
+    expect((await post('/refresh', { refreshToken: otherDevice.data.refreshToken })).status).toBe(401)
+  })
+
+  test('rejects tokens that were not issued as refresh tokens', async () => {
+    const { body: session } = await post('/register', credentials)
+
+    expect((await post('/refresh', { refreshToken: session.data.token })).status).toBe(401)
+    expect((await post('/refresh', { refreshToken: 'not-a-token' })).status).toBe(401)
+  })
+})
+
+describe('POST /auth/user', () => {
+  test('finds the anonymous user of the IP and device, never an account', async () => {
+    await post('/register', credentials)
+    const anonymous = anonymousUser('device-1')
+
+    expect((await post('/user', { deviceId: 'device-1' })).body.user.id).toBe(anonymous.id)
+
+    const { body } = await post('/user', {})
+    const account = [...db.users.values()].find(user => user.email === credentials.email)!
+    expect([account.id, anonymous.id]).not.toContain(body.user.id)
+    expect(db.users.get(body.user.id)).toMatchObject({ ip_address: '127.0.0.1', device_id: undefined })
+  })
+})
+
+describe('POST /auth/update-email', () => {
+  test('changes the email of the signed-in account only', async () => {
+    const { body } = await post('/register', credentials)
+    const anonymous = anonymousUser()
+
+    expect((await post('/update-email', { email: 'eve@example.com' })).status).toBe(401)
+    expect(db.users.get(anonymous.id)?.email).toBeUndefined()
+
+    const updated = await server.request('POST', '/auth/update-email', { email: 'ada@example.org' }, body.data.token)
+    expect(updated.status).toBe(200)
+    expect(db.users.get(body.data.user.id)?.email).toBe('ada@example.org')
+
+    await post('/register', { ...credentials, email: 'bob@example.com' })
+    const taken = await server.request('POST', '/auth/update-email', { email: 'bob@example.com' }, body.data.token)
+    expect(taken.status).toBe(409)
+    expect(db.users.get(body.data.user.id)?.email).toBe('ada@example.org')
+  })
+})
@@ -0,0 +1,53 @@
+import { createRequire } from 'module'
+import type { Server } from 'http'
+import type { AddressInfo } from 'net'
+import { resolve } from 'path'
+import { ApiException, sendError } from '../backend/src/utils/apiResponse'
+
+// Only failures of the code under test are worth printing
+process.env.LOG_LEVEL ??= 'error'
+
+// Express is a dependency of the backend, not of the extension
+const express = createRequire(resolve(__dirname, '../backend/package.json'))('express')
+
+export interface TestServer {
+  origin: string
+  request(method: string, path: string, body?: unknown, token?: string): Promise<{ status: number; body: any }>
+  close(): void
+}
+
+// Serves backend routers on a free local port, mounted the way server.ts mounts
+// them. Errors leave as envelopes, as from the v1 router's error handler.
+export async function serve(routes: Record<string, unknown>): Promise<TestServer> {
+  const app = express()
+  app.use(express.json())
+  for (const [path, router] of Object.entries(routes)) app.use(path, router)
+  app.use((error: Error, _req: unknown, res: any, _next: unknown) => {
+    if (error instanceof ApiException) return sendError(res, error.code, error.message, error.details, error.status)
+    sendError(res, 'SERVER_ERROR', 'An unexpected error occurred. Please try again.')
+  })
+
+  return connect(app.listen(0, '127.0.0.1'))
+}
+
+// Talks to a server that is listening or about to, such as the one server.ts starts
+export async function connect(server: Server): Promise<TestServer> {
+  if (!server.listening) await new Promise(resolve => server.once('listening', resolve))
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    origin,
+    async request(method, path, body, token) {
+      const response = await fetch(`${origin}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      })
+      return { status: response.status, body: await response.json() }
+    },
+    close: () => server.close()
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, test, expect, vi } from 'vitest'
+import { ChatInput } from '../src/utils/chatInput'
+import { SnippetTrigger } from '../src/utils/snippetTrigger'
+
+function textarea(value: string, caret = value.length): HTMLTextAreaElement {
+  document.body.innerHTML = '<textarea></textarea>'
+  const element = document.querySelector('textarea')!
+  element.value = value
+  element.setSelectionRange(caret, caret)
+  return element
+}
+
+describe('SnippetTrigger', () => {
+  test('finds a trigger at the start of a line or after whitespace', () => {
+    expect(SnippetTrigger.find('/pp ')).toEqual({ length: 4, query: '' })
+    expect(SnippetTrigger.find('Please ;;review')).toEqual({ length: 8, query: 'review' })
+    expect(SnippetTrigger.find('First line\n/pp code rev')).toEqual({ length: 12, query: 'code rev' })
+  })
+
+  test('ignores triggers inside words, across lines or with long queries', () => {
+    expect(SnippetTrigger.find(null)).toBeNull()
+    expect(SnippetTrigger.find('a;;b')).toBeNull()
+    expect(SnippetTrigger.find('https://example.com/pp ')).toBeNull()
+    expect(SnippetTrigger.find(';;review\nmore')).toBeNull()
+    expect(SnippetTrigger.find(`;;${'x'.repeat(41)}`)).toBeNull()
+    expect(SnippetTrigger.find(`;;${'x'.repeat(40)}`)?.query).toHaveLength(40)
+  })
+
+  test('uses the trigger closest to the caret', () => {
+    expect(SnippetTrigger.find(';;one /pp two')).toEqual({ length: 7, query: 'two' })
+    expect(SnippetTrigger.find('/pp one ;;two')).toEqual({ length: 5, query: 'two' })
+  })
+})
+
+describe('ChatInput', () => {
+  test('reads the text before the caret of a textarea', () => {
+    expect(ChatInput.textBeforeCaret(textarea('Write ;;rev and more', 11))).toBe('Write ;;rev')
+  })
+
+  test('reads the text before the caret of a contenteditable editor', () => {
+    document.body.innerHTML = '<div contenteditable="true"><p>First</p><p>Second ;;sql</p></div><span>outside</span>'
+    const editor = document.querySelector('div')!
+    const text = editor.querySelectorAll('p')[1].firstChild!
+
+    window.getSelection()!.collapse(text, 7)
+    expect(ChatInput.textBeforeCaret(editor)).toBe('FirstSecond ')
+
+    window.getSelection()!.collapse(document.querySelector('span')!.firstChild!, 3)
+    expect(ChatInput.textBeforeCaret(editor)).toBeNull()
+  })
+
+  test('replaces the trigger before the caret and tells the site about it', () => {
+    // jsdom has no editing commands, like browsers that lack insertText
+    document.execCommand = vi.fn(() => false)
+    const element = textarea('Hi ;;rev there', 8)
+    const input = vi.fn()
+    element.addEventListener('input', input)
+
+    ChatInput.replaceBeforeCaret(element, 5, 'Review this code')
+
+    expect(element.value).toBe('Hi Review this code there')
+    expect(element.selectionStart).toBe(19)
+    expect(input).toHaveBeenCalled()
+  })
+
+  test('puts the caret back after another element had focus', () => {
+    const element = textarea('Hello world', 5)
+    const restore = ChatInput.saveCaret(element)
+
+    document.body.insertAdjacentHTML('beforeend', '<input>')
+    const other = document.querySelector('input')!
+    other.focus()
+    element.setSelectionRange(0, 0)
+
+    restore()
+    expect(document.activeElement).toBe(element)
+    expect(element.selectionStart).toBe(5)
+  })
+})
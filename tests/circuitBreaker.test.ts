@@ -0,0 +1,156 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
+import { LLMProvider } from '../backend/src/services/llmProvider'
+import { CircuitBreaker } from '../backend/src/services/providers/circuitBreaker'
+import { OFFLINE_PROVIDER, ProviderRegistry } from '../backend/src/services/providers/registry'
+import { CompletionRequest, ProviderAdapter, ProviderSettings } from '../backend/src/services/providers/types'
+
+describe('CircuitBreaker', () => {
+  let time = 0
+  const breaker = (options = { failureThreshold: 3, cooldownMs: 1000, successThreshold: 1 }) =>
+    new CircuitBreaker('test', options, () => time)
+
+  beforeEach(() => {
+    time = 0
+  })
+
+  test('opens after the configured number of consecutive failures', () => {
+    const circuit = breaker()
+
+    circuit.recordFailure('timeout')
+    circuit.recordFailure('timeout')
+    circuit.recordSuccess()
+    circuit.recordFailure('timeout')
+    circuit.recordFailure('timeout')
+    expect(circuit.tryAcquire()).toBe(true)
+
+    circuit.recordFailure('HTTP 500')
+    expect(circuit.getState()).toBe('open')
+    expect(circuit.tryAcquire()).toBe(false)
+    expect(circuit.snapshot()).toMatchObject({ consecutiveFailures: 3, totalFailures: 5, lastError: 'HTTP 500', retryAt: new Date(1000).toISOString() })
+  })
+
+  test('lets a single probe through once the cooldown is over', () => {
+    const circuit = breaker({ failureThreshold: 1, cooldownMs: 1000, successThreshold: 1 })
+    circuit.recordFailure()
+
+    time = 999
+    expect(circuit.tryAcquire()).toBe(false)
+
+    time = 1000
+    expect(circuit.getState()).toBe('half-open')
+    expect(circuit.tryAcquire()).toBe(true)
+    // Everyone else waits for the probe
+    expect(circuit.tryAcquire()).toBe(false)
+
+    circuit.recordSuccess()
+    expect(circuit.getState()).toBe('closed')
+    expect(circuit.tryAcquire()).toBe(true)
+  })
+
+  test('re-opens for another cooldown when the probe fails', () => {
+    const circuit = breaker({ failureThreshold: 1, cooldownMs: 1000, successThreshold: 1 })
+    circuit.recordFailure()
+
+    time = 1500
+    expect(circuit.tryAcquire()).toBe(true)
+    circuit.recordFailure('still down')
+
+    expect(circuit.getState()).toBe('open')
+    time = 2499
+    expect(circuit.tryAcquire()).toBe(false)
+    time = 2500
+    expect(circuit.tryAcquire()).toBe(true)
+  })
+
+  test('needs several successful probes when configured, and frees a cancelled probe', () => {
+    const circuit = breaker({ failureThreshold: 1, cooldownMs: 1000, successThreshold: 2 })
+    circuit.recordFailure()
+    time = 1000
+
+    expect(circuit.tryAcquire()).toBe(true)
+    circuit.release()
+    expect(circuit.tryAcquire()).toBe(true)
+    circuit.recordSuccess()
+    expect(circuit.getState()).toBe('half-open')
+
+    expect(circuit.tryAcquire()).toBe(true)
+    circuit.recordSuccess()
+    expect(circuit.getState()).toBe('closed')
+  })
+})
+
+describe('LLMProvider failover', () => {
+  // Providers that answer with their id, or fail while listed in `down`
+  const down = new Set<string>()
+  const calls: string[] = []
+
+  ProviderRegistry.registerType('scripted', (settings: ProviderSettings): ProviderAdapter => ({
+    id: settings.id,
+    type: settings.type,
+    model: 'scripted',
+    capabilities: { streaming: false, systemPrompt: true, jsonMode: false },
+    pricing: {},
+    isConfigured: () => true,
+    trustedHosts: () => [],
+    complete: async (_request: CompletionRequest) => {
+      calls.push(settings.id)
+      if (down.has(settings.id)) throw new Error(`${settings.id} is down`)
+      return { text: `Improved by ${settings.id}`, usage: { inputTokens: 10, outputTokens: 20 } }
+    },
+    async *stream() {}
+  }))
+
+  const breaker = { failureThreshold: 2, cooldownMs: 60_000 }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    down.clear()
+    calls.length = 0
+    ProviderRegistry.configure([
+      { id: 'primary', type: 'scripted', breaker },
+      { id: 'secondary', type: 'scripted', breaker }
+    ], 'primary')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('fails over to the next provider and skips one whose circuit is open', async () => {
+    down.add('primary')
+
+    expect((await LLMProvider.improvePrompt('Write a poem')).provider).toBe('secondary')
+    expect((await LLMProvider.improvePrompt('Write a poem')).provider).toBe('secondary')
+    expect(ProviderRegistry.getBreaker('primary').getState()).toBe('open')
+
+    calls.length = 0
+    expect((await LLMProvider.improvePrompt('Write a poem')).provider).toBe('secondary')
+    expect(calls).toEqual(['secondary'])
+  })
+
+  test('probes the failed provider again after the cooldown', async () => {
+    down.add('primary')
+    await LLMProvider.improvePrompt('Write a poem')
+    await LLMProvider.improvePrompt('Write a poem')
+
+    down.delete('primary')
+    vi.advanceTimersByTime(60_000)
+
+    const result = await LLMProvider.improvePrompt('Write a poem')
+    expect(result.provider).toBe('primary')
+    expect(ProviderRegistry.getBreaker('primary').getState()).toBe('closed')
+  })
+
+  test('uses the offline rules when every circuit is open', async () => {
+    down.add('primary').add('secondary')
+    await LLMProvider.improvePrompt('Write a poem')
+    await LLMProvider.improvePrompt('Write a poem')
+
+    calls.length = 0
+    const result = await LLMProvider.improvePrompt('Write a poem')
+
+    expect(result.provider).toBe(OFFLINE_PROVIDER)
+    expect(result.improvedPrompt).toContain('write a poem')
+    expect(calls).toEqual([])
+  })
+})
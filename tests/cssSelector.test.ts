@@ -0,0 +1,28 @@
+import { describe, test, expect } from 'vitest'
+import { isCssSelector } from '../backend/src/contract/cssSelector'
+import { SITE_ADAPTERS, SiteAdapters } from '../src/utils/siteAdapters'
+
+describe('isCssSelector', () => {
+  test('accepts the selectors sites are found with', () => {
+    const selectors = [
+      ...SITE_ADAPTERS.flatMap(adapter => [...SiteAdapters.inputSelectors(adapter), ...adapter.selectors.submitButtons ?? []]),
+      'div[contenteditable="true"]',
+      'input[type=text i]',
+      '[data-x=\'it\\\'s\']',
+      '#prompt-textarea > p:not(.placeholder, [hidden])',
+      'form:has(> textarea) button ~ span + b',
+      'li:nth-child(2n + 1)::before',
+      '.\\31 23, *'
+    ]
+    for (const selector of selectors) {
+      expect([selector, isCssSelector(selector)]).toEqual([selector, true])
+      expect(() => document.querySelector(selector)).not.toThrow()
+    }
+  })
+
+  test('rejects what querySelectorAll would throw on', () => {
+    for (const selector of ['', ' ', 'div[c"true"]', 'div { color: red }', 'a; b', 'a,', '> a', 'a >', ':is()', 'a:nth-child(2', '[x', '#', '.1a', 'a)', 'a\'b']) {
+      expect([selector, isCssSelector(selector)]).toEqual([selector, false])
+    }
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, test, expect, afterEach } from 'vitest'
+import { CustomSites } from '../src/utils/customSites'
+import { pickInputSelector } from '../src/utils/elementPicker'
+import { SiteAdapters } from '../src/utils/siteAdapters'
+
+describe('CustomSites', () => {
+  afterEach(() => SiteAdapters.useCustom([]))
+
+  test('builds a site from the options form', () => {
+    const site = CustomSites.create({
+      name: ' Internal Chat ',
+      domain: 'http://Chat.Corp.Example:8080/c/123',
+      selectors: ['textarea#prompt', '', '  [data-testid="composer"] ']
+    })
+
+    expect(site).toMatchObject({
+      domain: 'chat.corp.example',
+      name: 'Internal Chat',
+      selectors: { textInputs: ['textarea#prompt', '[data-testid="composer"]'], contentEditable: [] },
+      insertionMethod: 'replace'
+    })
+    expect(CustomSites.origin(site.domain)).toBe('*://chat.corp.example/*')
+  })
+
+  test('rejects unusable domains and selectors', () => {
+    expect(CustomSites.domain('*.corp.example')).toBe('*.corp.example')
+    expect(() => CustomSites.domain('*')).toThrow('is not a domain')
+    expect(() => CustomSites.domain('chat.*.example')).toThrow('is not a domain')
+    expect(() => CustomSites.domain('https://claude.ai/new')).toThrow('claude.ai is already supported')
+
+    const input = { name: '', domain: 'chat.corp.example', selectors: [] as string[] }
+    expect(() => CustomSites.create(input)).toThrow('at least one selector')
+    expect(() => CustomSites.create({ ...input, selectors: ['textarea[name='] })).toThrow('not a valid CSS selector')
+  })
+
+  test('adapts pages on the domain and, for wildcards, its subdomains', () => {
+    const exact = CustomSites.create({ name: 'Exact', domain: 'chat.corp.example', selectors: ['textarea'] })
+    const wildcard = CustomSites.create({ name: 'Wildcard', domain: '*.llm.example', selectors: ['textarea'] })
+    const openai = CustomSites.create({ name: 'Everything', domain: '*.openai.com', selectors: ['textarea'] })
+    SiteAdapters.useCustom([exact, wildcard, openai])
+
+    expect(SiteAdapters.forHostname('chat.corp.example')?.name).toBe('Exact')
+    expect(SiteAdapters.forHostname('corp.example')).toBeUndefined()
+    expect(SiteAdapters.forHostname('llm.example')?.name).toBe('Wildcard')
+    expect(SiteAdapters.forHostname('team.eu.llm.example')?.name).toBe('Wildcard')
+    expect(SiteAdapters.forHostname('notllm.example')).toBeUndefined()
+    // Supported sites keep their own adapter
+    expect(SiteAdapters.forHostname('chat.openai.com')?.name).toBe('ChatGPT')
+  })
+})
+
+describe('pickInputSelector', () => {
+  const click = (element: Element) => {
+    element.dispatchEvent(new MouseEvent('mousemove', { bubbles: true }))
+    element.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }))
+  }
+
+  test('returns a selector that finds only the clicked input', async () => {
+    document.body.innerHTML = `
+      <main>
+        <textarea placeholder="Search"></textarea>
+        <form><div><textarea placeholder="Message the assistant"></textarea></div></form>
+      </main>
+    `
+    const picked = pickInputSelector()
+    click(document.querySelector('form textarea')!)
+
+    const selector = await picked
+    expect(selector).toBe('textarea[placeholder="Message the assistant"]')
+    expect(document.querySelectorAll(selector!)).toHaveLength(1)
+  })
+
+  test('falls back to the position and picks the input around the clicked element', async () => {
+    document.body.innerHTML = `
+      <div class="composer"><div contenteditable="true"><p>old</p></div></div>
+      <div class="composer"><div contenteditable="true"><p>new</p></div></div>
+    `
+    const picked = pickInputSelector()
+    click(document.querySelectorAll('p')[1])
+
+    const selector = await picked
+    expect(document.querySelector(selector!)).toBe(document.querySelectorAll('[contenteditable]')[1])
+    // Nothing of the picker is left on the page
+    expect(document.body.children).toHaveLength(2)
+  })
+
+  test('resolves with null on Escape', async () => {
+    const picked = pickInputSelector()
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))
+    expect(await picked).toBeNull()
+  })
+})
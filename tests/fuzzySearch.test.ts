@@ -0,0 +1,42 @@
+import { describe, test, expect } from 'vitest'
+import { FuzzySearch } from '../src/utils/fuzzySearch'
+
+interface Item {
+  title: string
+  tags: string[]
+}
+
+const items: Item[] = [
+  { title: 'Weekly status email', tags: ['team'] },
+  { title: 'SQL code review', tags: ['database', 'review'] },
+  { title: 'A slow query review', tags: [] },
+  { title: 'Blog post outline', tags: ['writing'] }
+]
+
+const fields = [
+  { get: (item: Item) => item.title, weight: 2 },
+  { get: (item: Item) => item.tags, weight: 1 }
+]
+
+describe('FuzzySearch', () => {
+  test('matches characters in order only', () => {
+    expect(FuzzySearch.score('sqr', 'SQL code review')).toBeGreaterThan(0)
+    expect(FuzzySearch.score('rqs', 'SQL code review')).toBe(0)
+  })
+
+  test('ranks prefixes and word starts above scattered matches', () => {
+    expect(FuzzySearch.score('sq', 'SQL code review')).toBeGreaterThan(FuzzySearch.score('sq', 'a slow query review'))
+    expect(FuzzySearch.score('cr', 'code review')).toBeGreaterThan(FuzzySearch.score('cr', 'scratch'))
+  })
+
+  test('needs every term to match some field', () => {
+    expect(FuzzySearch.search(items, 'sq rev', fields).map(item => item.title))
+      .toEqual(['SQL code review', 'A slow query review'])
+    expect(FuzzySearch.search(items, 'review database', fields).map(item => item.title)).toEqual(['SQL code review'])
+    expect(FuzzySearch.search(items, 'xyz', fields)).toEqual([])
+  })
+
+  test('keeps the given order for an empty query', () => {
+    expect(FuzzySearch.search(items, '  ', fields, 2)).toEqual(items.slice(0, 2))
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'vitest'
+import { LanguageDetector } from '../src/utils/languageDetector'
+
+describe('LanguageDetector trigram profiles', () => {
+  test('tells closely related languages apart', () => {
+    expect(LanguageDetector.detect('Escribe una función que ordene una lista de números').code).toBe('es')
+    expect(LanguageDetector.detect('Escreva uma função que ordene uma lista de números').code).toBe('pt')
+    expect(LanguageDetector.detect('Напиши функцию, которая сортирует список чисел').code).toBe('ru')
+    expect(LanguageDetector.detect('Напиши функцію, яка сортує список чисел').code).toBe('uk')
+    expect(LanguageDetector.detect('اكتب دالة تقوم بترتيب قائمة من الأرقام').code).toBe('ar')
+    expect(LanguageDetector.detect('یک تابع بنویس که فهرستی از اعداد را مرتب کند').code).toBe('fa')
+  })
+
+  test('separates Japanese from Chinese by kana', () => {
+    expect(LanguageDetector.detect('写一个对数字列表进行排序的函数').code).toBe('zh')
+    expect(LanguageDetector.detect('数値のリストを並べ替える関数を書いてください').code).toBe('ja')
+  })
+
+  test('detects single-script languages even when short', () => {
+    expect(LanguageDetector.detect('Γράψε ένα ποίημα').code).toBe('el')
+    expect(LanguageDetector.detect('안녕하세요').code).toBe('ko')
+  })
+
+  test('ignores code blocks, inline code and URLs', () => {
+    const text = 'Erkläre mir bitte, was dieser Code macht und warum er langsam ist:\n' +
+      '```js\nconst result = items.filter(item => item.isActive).map(item => item.name)\n```\n' +
+      'Siehe auch `Array.prototype.map` und https://developer.mozilla.org/en-US/docs/Web'
+
+    expect(LanguageDetector.detect(text).code).toBe('de')
+  })
+
+  test('returns ranked candidates', () => {
+    const candidates = LanguageDetector.detectAll('Skriv en funktion som sorterar en lista med tal', 3)
+
+    expect(candidates).toHaveLength(3)
+    expect(candidates[0].code).toBe('sv')
+    expect(candidates.map(c => c.code)).toContain('no')
+    expect(candidates[0].confidence).toBeGreaterThanOrEqual(candidates[1].confidence)
+    expect(candidates[1].confidence).toBeGreaterThanOrEqual(candidates[2].confidence)
+  })
+
+  test('splits confidence between scripts in mixed prompts', () => {
+    const candidates = LanguageDetector.detectAll('Translate this sentence into English please: 这个函数返回一个排序后的列表')
+
+    expect(candidates.slice(0, 2).map(c => c.code).sort()).toEqual(['en', 'zh'])
+  })
+
+  test('keeps short English prompts in English', () => {
+    for (const text of ['Help me code a function', 'Write a blog post about dogs', 'Make a good plan for my business']) {
+      expect(LanguageDetector.detect(text).code).toBe('en')
+    }
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, test, expect } from 'vitest'
+import { LibraryFormats } from '../src/utils/libraryFormats'
+import { Zip } from '../src/utils/zip'
+import { PromptLibraryItem } from '../src/types'
+
+const library: PromptLibraryItem[] = [
+  {
+    id: '1700000000000',
+    title: 'SQL code review',
+    originalPrompt: 'review my sql',
+    improvedPrompt: 'Review this SQL query for "slow joins", missing indexes,\nand injection risks.\n\n- Explain each issue',
+    category: 'Programming',
+    tags: ['sql', 'code review'],
+    notes: 'Ask for tests too,\nthen an EXPLAIN plan',
+    variables: [{ name: 'dialect', type: 'enum', required: true, options: ['postgres', 'mysql'] }],
+    createdAt: new Date('2024-01-02T03:04:05.000Z'),
+    updatedAt: new Date('2024-02-03T04:05:06.000Z'),
+    usageCount: 7
+  },
+  {
+    id: '1700000000001',
+    title: 'Café newsletter',
+    originalPrompt: '',
+    improvedPrompt: 'Write a short newsletter about our new menu',
+    category: 'Writing',
+    tags: [],
+    createdAt: new Date('2024-03-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-03-01T00:00:00.000Z'),
+    usageCount: 0
+  }
+]
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+describe('LibraryFormats', () => {
+  test('round-trips Markdown files', () => {
+    const restored = library.map(item => LibraryFormats.fromMarkdown(LibraryFormats.toMarkdown(item)))
+    expect(restored).toEqual(library)
+  })
+
+  test('round-trips CSV with quotes, commas and line breaks', () => {
+    expect(LibraryFormats.fromCsv(LibraryFormats.toCsv(library))).toEqual(library)
+  })
+
+  test('writes formulas to CSV as plain text', () => {
+    const item: PromptLibraryItem = {
+      ...library[1],
+      title: '=HYPERLINK("https://evil.example","Open")',
+      improvedPrompt: '@SUM(A1:A9)',
+      notes: '\'=already quoted',
+      tags: ['+1', '-draft'],
+      originalPrompt: '\t=cmd|\' /C calc\'!A0',
+      category: '\r=1+1'
+    }
+    const csv = LibraryFormats.toCsv([item])
+
+    expect(csv).toContain('"\'=HYPERLINK(""https://evil.example"",""Open"")"')
+    expect(csv).toContain(',\'@SUM(A1:A9),')
+    expect(csv).toContain(',\'\'=already quoted,')
+    expect(csv).toContain(',\'+1; -draft,')
+    expect(csv).toContain(',\'\t=cmd|\' /C calc\'!A0,')
+    expect(csv).toContain(',"\'\r=1+1",')
+    expect(LibraryFormats.fromCsv(csv)).toEqual([item])
+  })
+
+  test('imports CSV rows with broken variables without them, and says which', async () => {
+    const csv = 'title,improvedPrompt,variables\r\nGood,Hello {{name}},"[{""name"":""name""}]"\r\nBroken,Hi {{who}},"[{name: who}"\r\n'
+    const warnings: string[] = []
+    const items = await LibraryFormats.import([{ name: 'prompts.csv', data: encode(csv) }], warnings)
+
+    expect(items.map(item => item.title)).toEqual(['Good', 'Broken'])
+    expect(items[0].variables).toEqual([{ name: 'name' }])
+    expect(items[1]).not.toHaveProperty('variables')
+    expect(warnings).toEqual(['prompts.csv row 3: variables are not valid JSON and were left out'])
+  })
+
+  test('round-trips JSONL', () => {
+    expect(LibraryFormats.fromJsonl(LibraryFormats.toJsonl(library))).toEqual(library)
+  })
+
+  test('round-trips the zip bundle', async () => {
+    const bundle = LibraryFormats.export(library, 'zip', new Date('2024-04-01T12:00:00Z'))
+    const names = (await Zip.read(bundle.content as Uint8Array)).map(entry => entry.name)
+
+    expect(bundle.name).toBe('prompt-library-2024-04-01.zip')
+    expect(names).toEqual([
+      'prompts/sql-code-review-1700000000000.md',
+      'prompts/cafe-newsletter-1700000000001.md',
+      'library.csv',
+      'library.jsonl'
+    ])
+    expect(await LibraryFormats.import([{ name: bundle.name, data: bundle.content as Uint8Array }])).toEqual(library)
+  })
+
+  test('reads hand-written Markdown and CSV from other tools', async () => {
+    const [markdown, csv] = await LibraryFormats.import([
+      { name: 'notes/standup.md', data: encode('---\ntitle: Standup summary\ntags:\n  - team\n  - daily\n---\nSummarize these notes\n') },
+      { name: 'prompts.csv', data: encode('﻿Name,Prompt,Tags\r\nTranslate,Translate to French,lang; fr\r\n') }
+    ])
+
+    expect(markdown).toMatchObject({ title: 'Standup summary', tags: ['team', 'daily'], improvedPrompt: 'Summarize these notes', usageCount: 0 })
+    expect(csv).toMatchObject({ title: 'Translate', improvedPrompt: 'Translate to French', tags: ['lang', 'fr'] })
+  })
+})
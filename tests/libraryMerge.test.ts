@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest'
+import { LibraryMerge } from '../src/utils/libraryMerge'
+import { PromptLibraryItem } from '../src/types'
+
+const prompt = (id: string, fields: Partial<PromptLibraryItem> = {}): PromptLibraryItem => ({
+  id,
+  title: `Prompt ${id}`,
+  originalPrompt: `original ${id}`,
+  improvedPrompt: `Improved prompt number ${id}`,
+  category: 'General',
+  tags: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  usageCount: 0,
+  ...fields
+})
+
+const mine = [prompt('1'), prompt('2'), prompt('3')]
+
+describe('LibraryMerge', () => {
+  test('sorts incoming prompts into new, unchanged and conflicting', () => {
+    const plan = LibraryMerge.plan(mine, [
+      prompt('1'),
+      prompt('2', { title: 'Renamed' }),
+      prompt('9')
+    ])
+
+    expect(plan.unchanged.map(item => item.id)).toEqual(['1'])
+    expect(plan.added.map(item => item.id)).toEqual(['9'])
+    expect(plan.conflicts).toHaveLength(1)
+    expect(plan.conflicts[0]).toMatchObject({ fields: ['title'], matchedBy: 'id' })
+  })
+
+  test('matches by wording when IDs differ', () => {
+    const theirs = prompt('42', {
+      originalPrompt: 'Original 3',
+      improvedPrompt: '  improved PROMPT number 3 ',
+      tags: ['shared'],
+      createdAt: new Date('2024-03-01')
+    })
+    const plan = LibraryMerge.plan(mine, [theirs])
+
+    expect(plan.conflicts[0]).toMatchObject({ mine: mine[2], matchedBy: 'content' })
+  })
+
+  test('treats a reused ID from another library as a different prompt', () => {
+    const plan = LibraryMerge.plan(mine, [prompt('1', { improvedPrompt: 'Something else', createdAt: new Date('2024-05-01') })])
+
+    expect(plan.added).toHaveLength(1)
+    expect(plan.conflicts).toHaveLength(0)
+  })
+
+  test('applies keep-mine, keep-theirs and keep-both without losing anything', () => {
+    const plan = LibraryMerge.plan(mine, [
+      prompt('1', { title: 'Theirs 1' }),
+      prompt('2', { title: 'Theirs 2' }),
+      prompt('3', { title: 'Theirs 3' }),
+      prompt('3', { improvedPrompt: 'Brand new', createdAt: new Date('2024-06-01') })
+    ])
+    let next = 100
+    const merged = LibraryMerge.apply(mine, plan, ['mine', 'theirs', 'both'], () => String(next++))
+
+    expect(merged.map(item => [item.id, item.title])).toEqual([
+      ['1', 'Prompt 1'],
+      ['2', 'Theirs 2'],
+      ['3', 'Prompt 3'],
+      ['100', 'Prompt 3'],
+      ['101', 'Theirs 3 (imported)']
+    ])
+    expect(mine.map(item => item.title)).toEqual(['Prompt 1', 'Prompt 2', 'Prompt 3'])
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest'
+import type { LibraryItem } from '../backend/src/db/database'
+import { LibrarySyncRequestSchema, parse, SyncRecord } from '../backend/src/contract/apiContract'
+import { LibraryService, MAX_CLOCK_SKEW_MS, MAX_FIELDS_LENGTH, MAX_LIBRARY_ITEMS } from '../backend/src/services/libraryService'
+
+// The library table of one test, with a pause in every query so that
+// concurrent syncs interleave the way they would on a busy server
+const db = vi.hoisted(() => {
+  const items = new Map<string, LibraryItem>()
+  const pause = () => new Promise(resolve => setTimeout(resolve, 5))
+  return {
+    items,
+    extra: { count: 0 },
+    Database: {
+      getLibraryItems: async (userId: string, ids: string[]) => {
+        await pause()
+        return [...items.values()].filter(item => item.user_id === userId && ids.includes(item.id))
+      },
+      countLibraryItems: async (userId: string) =>
+        [...items.values()].filter(item => item.user_id === userId).length + db.extra.count,
+      getLibraryChanges: async (userId: string, since: number, limit: number) =>
+        [...items.values()]
+          .filter(item => item.user_id === userId && item.revision > since)
+          .sort((a, b) => a.revision - b.revision)
+          .slice(0, limit),
+      saveLibraryItem: async (data: Pick<LibraryItem, 'user_id' | 'id' | 'fields' | 'clock' | 'deleted_at'>) => {
+        await pause()
+        const revision = Math.max(0, ...[...items.values()].filter(item => item.user_id === data.user_id).map(item => item.revision)) + 1
+        items.set(`${data.user_id}/${data.id}`, { ...data, revision, updated_at: new Date().toISOString() })
+      }
+    }
+  }
+})
+
+vi.mock('../backend/src/db/database', () => ({ Database: db.Database }))
+
+const change = (id: string, fields: Record<string, unknown>, time: number): SyncRecord => ({
+  id,
+  fields,
+  clock: Object.fromEntries(Object.keys(fields).map(name => [name, time]))
+})
+
+describe('LibraryService.sync', () => {
+  beforeEach(() => {
+    db.items.clear()
+    db.extra.count = 0
+  })
+
+  test('merges concurrent syncs of one account instead of losing an edit', async () => {
+    await LibraryService.sync('user-1', { cursor: 0, changes: [change('p1', { title: 'Draft', tags: [] }, 1)] })
+
+    await Promise.all([
+      LibraryService.sync('user-1', { cursor: 1, changes: [change('p1', { title: 'Renamed' }, 2)] }),
+      LibraryService.sync('user-1', { cursor: 1, changes: [change('p1', { tags: ['sql'] }, 3)] })
+    ])
+
+    const stored = db.items.get('user-1/p1')!
+    expect(JSON.parse(stored.fields)).toEqual({ title: 'Renamed', tags: ['sql'] })
+    expect(stored.revision).toBe(3)
+  })
+
+  test('keeps syncing an account after a rejected request', async () => {
+    const huge = change('p1', { improvedPrompt: 'x'.repeat(MAX_FIELDS_LENGTH) }, 1)
+
+    await expect(LibraryService.sync('user-1', { cursor: 0, changes: [huge] })).rejects.toThrow('at most')
+    const result = await LibraryService.sync('user-1', { cursor: 0, changes: [change('p2', { title: 'Small' }, 1)] })
+
+    expect(result.records.map(record => record.id)).toEqual(['p2'])
+    expect(db.items.has('user-1/p1')).toBe(false)
+  })
+
+  test('caps the prompts stored per account', async () => {
+    await LibraryService.sync('user-1', { cursor: 0, changes: [change('p1', { title: 'First' }, 1)] })
+    db.extra.count = MAX_LIBRARY_ITEMS - 1
+
+    // Edits to stored prompts still go through once the library is full
+    await LibraryService.sync('user-1', { cursor: 0, changes: [change('p1', { title: 'Edited' }, 2)] })
+    await expect(LibraryService.sync('user-1', { cursor: 0, changes: [change('p2', { title: 'One more' }, 2)] }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR', details: { limit: MAX_LIBRARY_ITEMS } })
+    expect(JSON.parse(db.items.get('user-1/p1')!.fields).title).toBe('Edited')
+  })
+
+  test('rejects clocks that are not times', () => {
+    const result = parse(LibrarySyncRequestSchema, {
+      cursor: 0,
+      changes: [{ id: 'p1', fields: { title: 'T' }, clock: { title: '9999999999999' } }]
+    })
+
+    expect(result.ok ? [] : result.errors).toEqual(['$.changes[0].clock.title: expected number, got string'])
+  })
+
+  test('pulls times from the future back so later edits still win', async () => {
+    const now = Date.now()
+    await LibraryService.sync('user-1', {
+      cursor: 0,
+      changes: [{ ...change('p1', { title: 'Forever' }, 9e15), deletedAt: 9e15 }]
+    })
+
+    const stored = db.items.get('user-1/p1')!
+    expect(JSON.parse(stored.clock).title).toBeLessThanOrEqual(Date.now() + MAX_CLOCK_SKEW_MS)
+    expect(stored.deleted_at).toBeLessThanOrEqual(Date.now() + MAX_CLOCK_SKEW_MS)
+
+    await LibraryService.sync('user-1', { cursor: 0, changes: [change('p1', { title: 'Edited' }, now + 2 * MAX_CLOCK_SKEW_MS)] })
+    expect(JSON.parse(db.items.get('user-1/p1')!.fields).title).toBe('Edited')
+  })
+
+  test('rejects times that are not whole milliseconds and fields a prompt does not have', async () => {
+    for (const time of [-1, 1.5]) {
+      await expect(LibraryService.sync('user-1', { cursor: 0, changes: [change('p1', { title: 'T' }, time)] }))
+        .rejects.toThrow('whole milliseconds')
+    }
+    await expect(LibraryService.sync('user-1', { cursor: 0, changes: [{ id: 'p1', fields: {}, clock: {}, deletedAt: -5 }] }))
+      .rejects.toThrow('whole milliseconds')
+
+    await expect(LibraryService.sync('user-1', { cursor: 0, changes: [change('p1', { title: 'T', junk1: 1, junk2: 2 }, 1)] }))
+      .rejects.toMatchObject({ code: 'VALIDATION_ERROR', details: { id: 'p1', fields: ['junk1', 'junk2'] } })
+    expect(db.items.size).toBe(0)
+  })
+})
@@ -58,6 +58,15 @@ describe('OfflinePromptImprover', () => {
     )).toBe(false)
   })
 
+  test('needsImprovement uses the rules of the prompt\'s language', () => {
+    expect(OfflinePromptImprover.needsImprovement('Ayúdame a escribir algo bueno para mi jefe')).toBe(true)
+    expect(OfflinePromptImprover.needsImprovement('Écris quelque chose de bien pour mon équipe')).toBe(true)
+
+    expect(OfflinePromptImprover.needsImprovement(
+      'Quiero que actúes como desarrollador senior y escribas una función en Python que calcule los números de Fibonacci con memoización. El objetivo es usarla en producción.'
+    )).toBe(false)
+  })
+
   test('getSuggestions provides helpful feedback', () => {
     const suggestions = OfflinePromptImprover.getSuggestions('Help me with stuff')
     
@@ -96,4 +105,13 @@ describe('OfflinePromptImprover', () => {
     expect(totalImprovements).toBeLessThan(2)
     expect(result.confidence).toBeLessThan(0.5) // Low confidence in need for improvement
   })
-})
\ No newline at end of file
+})
+describe('OfflinePromptImprover in other languages', () => {
+  test('uses the rule pack for the detected language', () => {
+    const result = OfflinePromptImprover.improvePrompt('Hilf mir mit etwas')
+
+    expect(result.improvements.clarity).toContain('Ersetze vage Begriffe durch konkrete Details')
+    expect(result.improvedPrompt).toContain('Kontext: {{kontext:multiline}}')
+    expect(result.improvedPrompt).not.toContain('Context:')
+  })
+})
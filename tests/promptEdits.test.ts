@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest'
+import { PromptImprover } from '../src/utils/promptImprover'
+
+describe('PromptImprover edits', () => {
+  const prompt = 'help me write a cover letter'
+
+  test('generates discrete edits that reproduce the improved prompt', () => {
+    const edits = PromptImprover.generateEdits(prompt)
+    const ids = edits.map(edit => edit.id)
+
+    expect(ids).toContain('persona')
+    expect(ids).toContain('context')
+    expect(PromptImprover.applyEdits(prompt, edits).trim()).toBe(PromptImprover.analyzePrompt(prompt).improvedPrompt)
+  })
+
+  test('applies only the accepted edits', () => {
+    const edits = PromptImprover.generateEdits(prompt)
+    const persona = edits.find(edit => edit.id === 'persona')!
+
+    expect(PromptImprover.applyEdits(prompt, edits, new Set())).toBe(prompt)
+    expect(PromptImprover.applyEdits(prompt, edits, new Set(['persona']))).toBe(persona.text + prompt)
+
+    const withoutContext = PromptImprover.applyEdits(prompt, edits, new Set(edits.filter(e => e.id !== 'context').map(e => e.id)))
+    expect(withoutContext).not.toContain('Context')
+  })
+
+  test('skips edits that overlap an earlier one', () => {
+    const merged = PromptImprover.applyEdits('abcdef', [
+      { id: 'a', category: 'clarity', label: '', range: [1, 4], text: 'X' },
+      { id: 'b', category: 'clarity', label: '', range: [2, 5], text: 'Y' },
+      { id: 'c', category: 'format', label: '', range: [6, 6], text: '!' }
+    ])
+
+    expect(merged).toBe('aXef!')
+  })
+
+  test('edits from a diff rebuild either side', () => {
+    const original = 'write a poem about cats'
+    const improved = 'Act as a poet.\n\nwrite a short poem about cats\n\nUse rhyming couplets.'
+    const edits = PromptImprover.editsFromDiff(original, improved)
+
+    expect(edits.length).toBe(3)
+    expect(PromptImprover.applyEdits(original, edits)).toBe(improved)
+    expect(PromptImprover.applyEdits(original, edits, new Set([edits[1].id]))).toBe('write a short poem about cats')
+  })
+})
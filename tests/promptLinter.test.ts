@@ -0,0 +1,50 @@
+import { afterEach, describe, test, expect } from 'vitest'
+import { PromptLinter } from '../src/utils/promptLinter'
+
+describe('PromptLinter', () => {
+  afterEach(async () => {
+    await PromptLinter.restoreAll()
+  })
+
+  test('underlines every vague word', () => {
+    const text = 'I want you to explain stuff about databases and other things I should know'
+    const issue = PromptLinter.lint(text).find(issue => issue.ruleId === 'vague-terms')
+
+    expect(issue).toBeDefined()
+    expect(issue!.ranges.map(([start, end]) => text.slice(start, end))).toEqual(['stuff', 'things'])
+  })
+
+  test('reports whole-prompt issues without ranges', () => {
+    const issue = PromptLinter.lint('Write code').find(issue => issue.ruleId === 'too-short')
+
+    expect(issue).toBeDefined()
+    expect(issue!.ranges).toEqual([])
+  })
+
+  test('leaves out persona and format suggestions', () => {
+    const issues = PromptLinter.lint('Compare Python and Rust for writing a web server, I need a clear answer')
+
+    expect(issues.every(issue => issue.category !== 'persona' && issue.category !== 'format')).toBe(true)
+  })
+
+  test('ignores vague words in pasted material', () => {
+    const text = 'I need you to fix this function so it returns the right result:\n```\nconst stuff = getThings()\n```'
+    const issue = PromptLinter.lint(text).find(issue => issue.ruleId === 'vague-terms')
+
+    expect(issue).toBeUndefined()
+  })
+
+  test('skips dismissed rules', async () => {
+    const text = 'Help me write something nice'
+    expect(PromptLinter.lint(text).some(issue => issue.ruleId === 'vague-terms')).toBe(true)
+
+    await PromptLinter.dismiss('vague-terms')
+
+    expect(PromptLinter.isDismissed('vague-terms')).toBe(true)
+    expect(PromptLinter.lint(text).some(issue => issue.ruleId === 'vague-terms')).toBe(false)
+  })
+
+  test('finds nothing in an empty input', () => {
+    expect(PromptLinter.lint('   ')).toEqual([])
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'vitest'
+import { SCORE_DIMENSIONS } from '../backend/src/contract/apiContract'
+import { PromptScorer } from '../backend/src/contract/promptScore'
+import { PromptImprover } from '../src/utils/promptImprover'
+
+describe('PromptScorer', () => {
+  test('rates every dimension from 0 to 100 with an explanation', () => {
+    const score = PromptScorer.score('Write a blog post')
+
+    for (const dimension of SCORE_DIMENSIONS) {
+      const { score: value, explanation } = score.dimensions[dimension]
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThanOrEqual(100)
+      expect(explanation.length).toBeGreaterThan(0)
+    }
+    expect(score.overall).toBeGreaterThanOrEqual(0)
+    expect(score.overall).toBeLessThanOrEqual(100)
+  })
+
+  test('ranks vague prompts below detailed ones', () => {
+    const vague = PromptScorer.score('make me something good about stuff')
+    const detailed = PromptScorer.score(
+      'Act as a nutritionist. I am training for my first marathon, so I need a 7-day meal plan. ' +
+      'Keep each day under 2500 calories and avoid nuts. Format it as a table with one row per day, ' +
+      'for example: Monday | oatmeal | salad | salmon.'
+    )
+
+    expect(vague.overall).toBeLessThan(30)
+    expect(detailed.overall).toBeGreaterThan(70)
+    for (const dimension of SCORE_DIMENSIONS) {
+      expect(detailed.dimensions[dimension].score).toBeGreaterThan(vague.dimensions[dimension].score)
+    }
+    expect(vague.dimensions.clarity.explanation).toMatch(/vague/i)
+  })
+
+  test('rates each dimension on its own signals', () => {
+    const base = 'Write a short story about a lighthouse keeper'
+
+    expect(PromptScorer.score(`${base}. Format it as three numbered sections.`).dimensions.format.score)
+      .toBeGreaterThan(PromptScorer.score(base).dimensions.format.score)
+    expect(PromptScorer.score(`${base}. It must stay under 300 words.`).dimensions.constraints.score)
+      .toBeGreaterThan(PromptScorer.score(base).dimensions.constraints.score)
+    expect(PromptScorer.score(`${base}, for example in the style of Jules Verne.`).dimensions.examples.score)
+      .toBeGreaterThan(PromptScorer.score(base).dimensions.examples.score)
+  })
+
+  test('gives unfilled placeholders only partial credit', () => {
+    const placeholder = PromptScorer.score('Context: [Please provide relevant background information]\nWrite a blog post')
+    const filled = PromptScorer.score('Context: our bakery is opening a second shop\nWrite a blog post')
+
+    expect(filled.dimensions.context.score).toBeGreaterThan(placeholder.dimensions.context.score)
+    expect(placeholder.dimensions.context.explanation).toMatch(/placeholder/)
+    expect(PromptScorer.score('Context: {{context:multiline}}\nWrite a blog post').dimensions.context)
+      .toEqual(placeholder.dimensions.context)
+  })
+})
+
+describe('scores in PromptAnalysis', () => {
+  test('compares the original with the improved prompt', () => {
+    const analysis = PromptImprover.analyzePrompt('Write a Python function to sort a list')
+
+    expect(analysis.scores).toBeDefined()
+    expect(analysis.scores!.original).toEqual(PromptScorer.score(analysis.originalText))
+    expect(analysis.scores!.improved).toEqual(PromptScorer.score(analysis.improvedPrompt))
+    expect(analysis.scores!.improved.overall).toBeGreaterThan(analysis.scores!.original.overall)
+  })
+
+  test('confidence reflects how much the prompt has to gain', () => {
+    const weak = PromptImprover.analyzePrompt('Help')
+    const strong = PromptImprover.analyzePrompt(
+      'Act as a senior developer. Write a Python function to sort a list using merge sort. Include type hints and examples.'
+    )
+
+    expect(weak.confidence).toBeGreaterThan(strong.confidence)
+    expect(weak.confidence).toBe(PromptScorer.improvementNeed(weak.scores!.original))
+  })
+})
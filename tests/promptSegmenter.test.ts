@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'vitest'
+import { PromptSegmenter } from '../backend/src/contract/promptSegmenter'
+import { RuleEngine } from '../backend/src/contract/rulePack'
+import { OfflinePromptImprover } from '../src/utils/offlineRules'
+
+const kinds = (text: string) => PromptSegmenter.segment(text).map(segment => [segment.kind, segment.text])
+
+describe('PromptSegmenter', () => {
+  test('segments cover the text exactly', () => {
+    const text = 'Fix this:\n```py\nprint("hi")\n```\nSee https://example.com and `x = 1`.'
+    const segments = PromptSegmenter.segment(text)
+
+    expect(segments.map(segment => segment.text).join('')).toBe(text)
+    segments.forEach(segment => expect(text.slice(segment.start, segment.end)).toBe(segment.text))
+  })
+
+  test('finds fenced and inline code, URLs and quotes', () => {
+    expect(kinds('Fix this:\n```py\nprint("hi")\n```\nSee https://example.com/a?b=1, then call `run()`.')).toEqual([
+      ['instruction', 'Fix this:\n'],
+      ['code', '```py\nprint("hi")\n```'],
+      ['instruction', '\nSee '],
+      ['url', 'https://example.com/a?b=1'],
+      ['instruction', ', then call '],
+      ['inline-code', '`run()`'],
+      ['instruction', '.']
+    ])
+    expect(kinds('Translate “make it better” and\n> quoted stuff\ninto French')).toEqual([
+      ['instruction', 'Translate '],
+      ['quote', '“make it better”'],
+      ['instruction', ' and\n'],
+      ['quote', '> quoted stuff'],
+      ['instruction', '\ninto French']
+    ])
+  })
+
+  test('finds JSON, logs and stack traces', () => {
+    const json = '{\n  "data": [1, 2],\n  "ok": true\n}'
+    const trace = 'TypeError: x is undefined\n    at render (app.js:12:5)\n    at main (app.js:40:3)'
+
+    expect(kinds(`Why is this invalid?\n${json}\nThanks`)).toEqual([
+      ['instruction', 'Why is this invalid?\n'],
+      ['data', json],
+      ['instruction', '\nThanks']
+    ])
+    expect(kinds(`Why does it crash?\n${trace}`)[1]).toEqual(['data', trace])
+  })
+
+  test('leaves ordinary prose and placeholders alone', () => {
+    const text = 'Write a blog post about dogs.\n1. Keep it short\n2. Use [your tone] here'
+    expect(kinds(text)).toEqual([['instruction', text]])
+  })
+
+  test('mask keeps positions and line breaks', () => {
+    const text = 'Use `a\u{1F600}b` here\n```\nx\n```'
+    const masked = PromptSegmenter.mask(text)
+
+    expect(masked).toHaveLength(text.length)
+    // The emoji is two UTF-16 code units, so it becomes two spaces
+    expect(masked).toBe(`Use ${' '.repeat(6)} here\n   \n \n   `)
+  })
+})
+
+describe('rule analysis around pasted material', () => {
+  const code = '```js\nfunction getData() { return stuff.things }\n```'
+
+  test('words in pasted code trigger no rules', () => {
+    const result = RuleEngine.run(`Please refactor this so that it reads better for the team:\n${code}`)
+
+    expect(result.matched).not.toContain('persona-code')
+    expect(result.matched).not.toContain('vague-terms')
+  })
+
+  test('rewrites keep pasted material byte-for-byte', () => {
+    const text = `Can you explain "help me with stuff" and why\n${code}\nfails?`
+    const improved = RuleEngine.improve(text)
+
+    expect(improved).toContain(code)
+    expect(improved).toContain('"help me with stuff"')
+    expect(improved).toMatch(/^Act as an expert teacher/)
+  })
+
+  test('needsImprovement ignores pasted code', () => {
+    const detailed = 'I want you to review the following function and point out any bugs in the error handling'
+
+    expect(OfflinePromptImprover.needsImprovement(detailed)).toBe(false)
+    expect(OfflinePromptImprover.needsImprovement(`${detailed}:\n${code}`)).toBe(false)
+  })
+})
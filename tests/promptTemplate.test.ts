@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest'
+import { PromptTemplates } from '../backend/src/contract/promptTemplate'
+import { RuleEngine } from '../backend/src/contract/rulePack'
+
+describe('PromptTemplates', () => {
+  test('reads typed placeholders with defaults', () => {
+    const template = 'Explain {{topic}} to {{audience:enum(beginners|experts)=beginners}} in {{count:number(1..10)=3}} points, ' +
+      'in a {{tone?}} tone. Notes: {{notes?:multiline}} ({{topic}} again)'
+
+    expect(PromptTemplates.variables(template)).toEqual([
+      { name: 'topic', type: 'text', required: true },
+      { name: 'audience', type: 'enum', required: false, default: 'beginners', options: ['beginners', 'experts'] },
+      { name: 'count', type: 'number', required: false, default: '3', min: 1, max: 10 },
+      { name: 'tone', type: 'text', required: false },
+      { name: 'notes', type: 'multiline', required: false }
+    ])
+  })
+
+  test('lets declared variables add labels and limits', () => {
+    const [language] = PromptTemplates.variables('Translate this into {{language}}', [
+      { name: 'language', type: 'enum', required: true, label: 'Target language', options: ['French', 'German'] }
+    ])
+
+    expect(PromptTemplates.label(language)).toBe('Target language')
+    expect(language.options).toEqual(['French', 'German'])
+    expect(PromptTemplates.label({ name: 'desired_outcome', type: 'text', required: false })).toBe('Desired outcome')
+  })
+
+  test('validates required fields, numbers and enum values', () => {
+    const variables = PromptTemplates.variables('{{topic}} {{count:number(1..10)}} {{audience:enum(beginners|experts)}} {{tone?}}')
+
+    expect(PromptTemplates.validate(variables, { topic: '', count: '12', audience: 'kids' })).toEqual({
+      topic: 'Topic is required',
+      count: 'Count must be at most 10',
+      audience: 'Audience must be one of beginners, experts'
+    })
+    expect(PromptTemplates.validate(variables, { topic: 'SQL', count: 'many', audience: 'experts' }))
+      .toEqual({ count: 'Count must be a number' })
+    expect(PromptTemplates.validate(variables, { topic: 'SQL', count: '5', audience: 'experts' })).toEqual({})
+  })
+
+  test('renders values and defaults', () => {
+    const rendered = PromptTemplates.render(
+      'Write {{count:number=3}} tips about {{topic}} for {{audience}}.',
+      { topic: 'testing', audience: 'new developers' }
+    )
+
+    expect(rendered).toBe('Write 3 tips about testing for new developers.')
+    expect(PromptTemplates.hasVariables(rendered)).toBe(false)
+  })
+
+  test('drops labelled lines whose optional field was left empty', () => {
+    const template = 'Context: {{context:multiline}}\nConstraints: {{constraints?:multiline}}\nDesired outcome: {{desired_outcome?}}'
+
+    expect(PromptTemplates.render(template, { context: 'A small bakery', desired_outcome: 'More orders' }))
+      .toBe('Context: A small bakery\nDesired outcome: More orders')
+  })
+
+  test('leaves placeholders in pasted code alone', () => {
+    const template = 'Explain this {{framework:enum(Vue|Angular)}} component to {{audience}}:\n' +
+      '```html\n<p>{{ message }}</p>\n```\nAlso why `{{ count }} items` updates, and "{{topic}}".'
+
+    expect(PromptTemplates.variables(template).map(variable => variable.name)).toEqual(['framework', 'audience', 'topic'])
+    expect(PromptTemplates.render(template, { framework: 'Vue', audience: 'a junior developer', topic: 'reactivity' })).toBe(
+      'Explain this Vue component to a junior developer:\n```html\n<p>{{ message }}</p>\n```\n' +
+      'Also why `{{ count }} items` updates, and "reactivity".'
+    )
+
+    const snippet = 'Why does this not render?\n```vue\n<template>\n  <p>{{ message }}</p>\n</template>\n```'
+    expect(PromptTemplates.hasVariables(snippet)).toBe(false)
+    expect(PromptTemplates.render(snippet, {})).toBe(snippet)
+  })
+
+  test('turns the improver context scaffold into fields', () => {
+    const improved = RuleEngine.improve('Write code')
+    const variables = PromptTemplates.variables(improved)
+
+    expect(variables.map(variable => variable.name)).toEqual(['context', 'constraints', 'desired_outcome'])
+    expect(variables[0]).toMatchObject({ type: 'multiline', required: true })
+    expect(PromptTemplates.validate(variables, {})).toEqual({ context: 'Context is required' })
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, test, expect } from 'vitest'
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { OFFLINE_PROVIDER, ProviderRegistry } from '../backend/src/services/providers/registry'
+import { ProviderSettings } from '../backend/src/services/providers/types'
+
+const settingsById = (settings: ProviderSettings[]) => Object.fromEntries(settings.map(entry => [entry.id, entry]))
+
+describe('ProviderRegistry.loadSettings', () => {
+  test('starts from the built-in providers and their env vars', () => {
+    const settings = settingsById(ProviderRegistry.loadSettings({ OPENAI_API_KEY: 'sk-openai', MISTRAL_API_KEY: 'sk-mistral' }))
+
+    expect(Object.keys(settings)).toEqual(['openai', 'anthropic', 'local', 'mistral'])
+    expect(settings.openai).toMatchObject({ type: 'openai', apiKey: 'sk-openai' })
+    expect(settings.local).toMatchObject({ type: 'openai-compatible', baseUrl: 'http://localhost:1234' })
+  })
+
+  test('lets LLM_PROVIDERS override built-ins and add providers, with keys read from env', () => {
+    const settings = settingsById(ProviderRegistry.loadSettings({
+      OPENAI_API_KEY: 'sk-openai',
+      GROQ_KEY: 'sk-groq',
+      LLM_PROVIDERS: JSON.stringify([
+        { id: 'openai', type: 'openai', model: 'gpt-4o-mini' },
+        { id: 'groq', type: 'openai-compatible', baseUrl: 'https://api.groq.com/openai', apiKeyEnv: 'GROQ_KEY' }
+      ])
+    }))
+
+    expect(settings.openai).toMatchObject({ model: 'gpt-4o-mini', apiKey: 'sk-openai' })
+    expect(settings.groq).toEqual({
+      id: 'groq', type: 'openai-compatible', baseUrl: 'https://api.groq.com/openai', apiKey: 'sk-groq'
+    })
+  })
+
+  test('reads { "providers": [...] } from LLM_PROVIDERS_FILE', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'providers-')), 'providers.json')
+    writeFileSync(file, JSON.stringify({ providers: [{ id: 'ollama', type: 'openai-compatible', model: 'llama3' }] }))
+
+    const settings = settingsById(ProviderRegistry.loadSettings({ LLM_PROVIDERS_FILE: file, LLM_PROVIDERS: '[]' }))
+    expect(settings.ollama).toMatchObject({ model: 'llama3' })
+  })
+
+  test('skips invalid entries and falls back to the built-ins on malformed JSON', () => {
+    const ids = (LLM_PROVIDERS: string) => ProviderRegistry.loadSettings({ LLM_PROVIDERS }).map(entry => entry.id)
+    const builtIn = ['openai', 'anthropic', 'local']
+
+    expect(ids(JSON.stringify([
+      'openai',
+      null,
+      { id: 'has space', type: 'openai' },
+      { id: '-leading-dash', type: 'openai' },
+      { id: 'x'.repeat(51), type: 'openai' },
+      { id: 'no-type' },
+      { id: 'valid_one-2', type: 'gemini' }
+    ]))).toEqual([...builtIn, 'valid_one-2'])
+    expect(ids('[{ "id": "broken", ')).toEqual(builtIn)
+    expect(ids('{ "id": "not-a-list", "type": "openai" }')).toEqual(builtIn)
+  })
+})
+
+describe('ProviderRegistry.getFallbackChain', () => {
+  const providers: ProviderSettings[] = [
+    { id: 'openai', type: 'openai', apiKey: 'sk-openai' },
+    { id: 'anthropic', type: 'anthropic', apiKey: 'sk-anthropic' },
+    { id: 'local', type: 'openai-compatible' },
+    { id: 'disabled', type: 'openai', apiKey: 'sk', enabled: false },
+    { id: 'unknown', type: 'no-such-type' }
+  ]
+
+  test('tries the default first, then the rest in order', () => {
+    ProviderRegistry.configure(providers, 'anthropic')
+
+    expect(ProviderRegistry.list().map(adapter => adapter.id)).toEqual(['openai', 'anthropic', 'local'])
+    expect(ProviderRegistry.getFallbackChain()).toEqual(['anthropic', 'openai', 'local'])
+    expect(ProviderRegistry.getFallbackChain('local')).toEqual(['local', 'anthropic', 'openai'])
+  })
+
+  test('follows LLM_FALLBACK_CHAIN, dropping unknown providers and offline', () => {
+    ProviderRegistry.configure(providers, undefined, ['local', 'missing', OFFLINE_PROVIDER, 'openai'])
+
+    expect(ProviderRegistry.getDefaultId()).toBe('local')
+    expect(ProviderRegistry.getFallbackChain()).toEqual(['local', 'openai'])
+    expect(ProviderRegistry.getFallbackChain('anthropic')).toEqual(['anthropic', 'local', 'openai'])
+    expect(ProviderRegistry.getFallbackChain('disabled')).toEqual(['local', 'openai'])
+  })
+
+  test('defaults to the first configured provider when the default is unknown', () => {
+    ProviderRegistry.configure([{ id: 'local', type: 'openai-compatible' }, ...providers.slice(0, 2)], 'missing')
+
+    // local needs no key, so it counts as configured
+    expect(ProviderRegistry.getDefaultId()).toBe('local')
+    // With nothing configured, requests name openai and fail over to offline
+    ProviderRegistry.configure(providers.slice(1, 2).map(entry => ({ ...entry, apiKey: undefined })))
+    expect(ProviderRegistry.getDefaultId()).toBe('openai')
+  })
+})
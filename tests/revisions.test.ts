@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest'
+import { PromptRevisions } from '../src/utils/revisions'
+import { PromptLibraryItem, PromptRevision } from '../src/types'
+
+const prompt: PromptLibraryItem = {
+  id: '7',
+  title: 'Code review',
+  originalPrompt: 'review my code',
+  improvedPrompt: 'Review this Python function for bugs.',
+  category: 'Programming',
+  tags: ['python'],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  usageCount: 4
+}
+
+const revision = (fields: Partial<PromptLibraryItem>, note = 'Edited'): PromptRevision => ({
+  ...PromptRevisions.snapshot({ ...prompt, ...fields }, note, new Date('2024-02-01')),
+  id: note
+})
+
+describe('PromptRevisions', () => {
+  test('snapshots the versioned fields only', () => {
+    const snapshot = PromptRevisions.snapshot(prompt, 'Saved to library')
+
+    expect(snapshot).toMatchObject({ promptId: '7', title: 'Code review', tags: ['python'], note: 'Saved to library' })
+    expect(snapshot).not.toHaveProperty('usageCount')
+  })
+
+  test('ignores usage and timestamps when looking for changes', () => {
+    expect(PromptRevisions.changedFields(prompt, { ...prompt, usageCount: 9, updatedAt: new Date() } as PromptLibraryItem)).toEqual([])
+    expect(PromptRevisions.changedFields(prompt, { ...prompt, tags: ['python', 'security'] })).toEqual(['tags'])
+  })
+
+  test('diffs every changed field word by word', () => {
+    const changes = PromptRevisions.compare(
+      revision({}, 'first'),
+      revision({ improvedPrompt: 'Review this Python function for security bugs.', tags: ['python', 'security'] }, 'second')
+    )
+
+    expect(changes.map(change => change.label)).toEqual(['Improved prompt', 'Tags'])
+    expect(changes[0].ops.filter(op => op.type === 'insert').map(op => op.text).join('')).toContain('security')
+  })
+
+  test('restores the content of a revision', () => {
+    const older = revision({ title: 'Old title' })
+
+    expect(PromptRevisions.content(older)).toMatchObject({ title: 'Old title', improvedPrompt: prompt.improvedPrompt })
+    expect(PromptRevisions.changedFields({ ...prompt, ...PromptRevisions.content(older) }, older)).toEqual([])
+  })
+})
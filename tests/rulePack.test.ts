@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'vitest'
+import { BUILTIN_RULE_PACKS, CORE_RULE_PACK, RuleEngine, RulePack, parseRulePack } from '../backend/src/contract/rulePack'
+
+const pack = (rules: unknown[], id = 'custom'): RulePack => {
+  const result = parseRulePack({ id, name: 'Custom', version: '1.0.0', rules })
+  if (!result.ok) throw new Error(result.errors.join('\n'))
+  return result.value
+}
+
+describe('parseRulePack', () => {
+  test('accepts the core pack', () => {
+    expect(parseRulePack(CORE_RULE_PACK).ok).toBe(true)
+  })
+
+  test('reports every problem with its path', () => {
+    const result = parseRulePack(JSON.stringify({
+      id: 'bad',
+      name: 'Bad',
+      version: '1',
+      rules: [
+        { id: 'a', category: 'tone', priority: 1, when: { pattern: 'x' }, suggestion: 'x' },
+        { id: 'b', category: 'clarity', priority: 1, when: { pattern: '(' }, suggestion: 'x' },
+        { id: 'c', category: 'clarity', priority: 1, when: { pattern: 'x', flags: 'g' }, suggestion: 'x' },
+        { id: 'd', category: 'clarity', priority: 1, when: {}, suggestion: 'x' },
+        { id: 'e', category: 'clarity', priority: 1, when: { maxLength: 5 } },
+        { id: 'f', category: 'clarity', priority: 1, when: { maxLength: 5 }, fix: { action: 'replace', template: '' } }
+      ]
+    }))
+
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.errors).toEqual([
+      expect.stringContaining('$.rules[0].category'),
+      '$.rules[1].when.pattern: invalid regular expression',
+      '$.rules[2].when.flags: flags may only contain i, m, s and u',
+      expect.stringContaining('$.rules[3].when: needs at least one'),
+      '$.rules[4]: needs a suggestion, a fix or both',
+      '$.rules[5].fix: replace needs when.pattern'
+    ])
+  })
+
+  test('rejects invalid JSON and duplicate rule ids', () => {
+    expect(parseRulePack('{ nope')).toEqual({ ok: false, errors: ['$: not valid JSON'] })
+
+    const rule = { id: 'a', category: 'clarity', priority: 1, when: { maxLength: 5 }, suggestion: 'x' }
+    const result = parseRulePack({ id: 'p', name: 'P', version: '1', rules: [rule, rule] })
+    expect(result.ok ? [] : result.errors).toEqual(['$.rules[1].id: duplicate rule id "a"'])
+  })
+})
+
+describe('RuleEngine', () => {
+  test('applies fixes with templates and reports suggestions by priority', () => {
+    const result = RuleEngine.run('Help me plan a trip', [pack([
+      { id: 'short', category: 'specificity', priority: 1, when: { maxLength: 100 }, suggestion: 'Say more' },
+      { id: 'opening', category: 'clarity', priority: 9, when: { pattern: '^(help) me', flags: 'i' }, suggestion: 'Be direct', fix: { action: 'replace', template: 'I need you to {{1|lower}} me' } },
+      { id: 'tone', category: 'format', priority: 1, when: { pattern: 'trip' }, fix: { action: 'append', template: 'Keep it brief.' } }
+    ])])
+
+    expect(result.suggestions).toEqual(['Be direct', 'Say more'])
+    expect(result.improvements.clarity).toEqual(['Be direct'])
+    expect(result.suggestedFormat).toBe('Keep it brief.')
+    expect(RuleEngine.applyEdits('Help me plan a trip', result.edits)).toBe('I need you to help me plan a trip\n\nKeep it brief.')
+  })
+
+  test('applies only the highest priority rule of a group', () => {
+    const custom = pack([
+      { id: 'general', category: 'persona', group: 'persona', priority: 1, when: { pattern: 'tax' }, fix: { action: 'prepend', template: 'Act as an accountant.' } },
+      { id: 'specific', category: 'persona', group: 'persona', priority: 5, when: { pattern: 'tax' }, fix: { action: 'prepend', template: 'Act as a tax advisor.' } }
+    ])
+
+    expect(RuleEngine.improve('file my tax return', [custom])).toBe('Act as a tax advisor.\n\nfile my tax return')
+  })
+
+  test('later packs override or disable core rules by id', () => {
+    const text = 'Help me debug this function'
+    expect(RuleEngine.run(text).suggestedPersona).toBe('Act as an experienced software engineer.')
+
+    const custom = pack([
+      { id: 'persona-code', category: 'persona', group: 'persona', priority: 5, when: { pattern: 'debug', flags: 'i' }, fix: { action: 'prepend', template: 'Act as a debugging specialist.' } },
+      { id: 'direct-request', category: 'clarity', priority: 8, when: { maxLength: 1 }, enabled: false }
+    ])
+    const improved = RuleEngine.improve(text, [CORE_RULE_PACK, custom])
+
+    expect(improved.startsWith('Act as a debugging specialist.\n\nHelp me debug')).toBe(true)
+    expect(improved).not.toContain('I need you to')
+  })
+})
+
+describe('language packs', () => {
+  test('every built-in pack is valid and covers the same rule ids', () => {
+    const ids = CORE_RULE_PACK.rules.map(rule => rule.id).sort()
+
+    for (const builtin of BUILTIN_RULE_PACKS) {
+      expect(parseRulePack(builtin)).toMatchObject({ ok: true })
+      expect(builtin.rules.map(rule => rule.id).sort()).toEqual(ids)
+    }
+  })
+
+  test('finds weak openers and vague terms and localises the scaffold in German', () => {
+    const result = RuleEngine.run('Hilf mir mit etwas', BUILTIN_RULE_PACKS, 'de')
+
+    expect(result.improvements.clarity).toContain('Formuliere eine klare, direkte Anfrage')
+    expect(result.improvements.clarity).toContain('Ersetze vage Begriffe durch konkrete Details')
+    expect(RuleEngine.applyEdits('Hilf mir mit etwas', result.edits)).toContain('Kontext: {{kontext:multiline}}')
+  })
+
+  test('uses localised persona and format cues in French', () => {
+    const result = RuleEngine.run('Écris un article de blog qui compare Vue et React pour mon équipe', BUILTIN_RULE_PACKS, 'fr')
+
+    expect(result.suggestedPersona).toBe("Agis en tant qu'écrivain et éditeur professionnel.")
+    expect(result.suggestedFormat).toBe('Compare les différentes options avec leurs avantages et inconvénients.')
+  })
+
+  test('matches Chinese prompts without word boundaries', () => {
+    expect(RuleEngine.improve('帮我写一个排序函数', BUILTIN_RULE_PACKS, 'zh')).toBe(
+      '请扮演一位经验丰富的软件工程师。\n\n我需要你帮我写一个排序函数\n\n背景：{{背景:multiline}}\n限制条件：{{限制条件?:multiline}}\n期望结果：{{期望结果?}}'
+    )
+  })
+
+  test('falls back to English when no pack covers the language', () => {
+    expect(RuleEngine.improve('Help me code a function', BUILTIN_RULE_PACKS, 'it')).toBe(
+      RuleEngine.improve('Help me code a function', BUILTIN_RULE_PACKS, 'en')
+    )
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'vitest'
+import { SearchIndex } from '../src/utils/searchIndex'
+import { PromptLibraryItem } from '../src/types'
+
+const prompt = (id: string, fields: Partial<PromptLibraryItem>): PromptLibraryItem => ({
+  id,
+  title: '',
+  originalPrompt: '',
+  improvedPrompt: '',
+  category: 'General',
+  tags: [],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  usageCount: 0,
+  ...fields
+})
+
+const library = [
+  prompt('1', { title: 'Database migration plan', tags: ['sql'], improvedPrompt: 'Plan a safe schema migration' }),
+  prompt('2', { title: 'Weekly status email', tags: ['team'], improvedPrompt: 'Summarize the database work this week', usageCount: 12 }),
+  prompt('3', { title: 'Blog outline', tags: ['writing', 'database'], category: 'Writing', improvedPrompt: 'Outline a post' })
+]
+
+const search = (query: string) => {
+  const parsed = SearchIndex.parse(query)
+  const entries = library.flatMap(item => SearchIndex.entries(item))
+  const vocabulary = [...new Set(entries.map(entry => entry.term))]
+  const matches = parsed.terms.map(term => SearchIndex.expand(term, vocabulary))
+  const scores = SearchIndex.score(matches, entries, library.length)
+  const found = library.filter(item => scores.has(item.id) && SearchIndex.matchesFilters(item, parsed))
+  return SearchIndex.rank(found, scores).map(item => item.id)
+}
+
+describe('SearchIndex', () => {
+  test('splits filters from search terms', () => {
+    expect(SearchIndex.parse('tag:SQL category:"Creative writing" used:>5 Migration plan')).toEqual({
+      terms: ['migration', 'plan'],
+      tags: ['sql'],
+      category: 'creative writing',
+      used: { op: '>', value: 5 }
+    })
+    expect(SearchIndex.parse('used:3').used).toEqual({ op: '=', value: 3 })
+  })
+
+  test('indexes words per field and CJK text per character', () => {
+    const entries = SearchIndex.entries(library[0])
+
+    expect(entries).toContainEqual({ term: 'migration', promptId: '1', field: 'title', count: 1 })
+    expect(entries).toContainEqual({ term: 'migration', promptId: '1', field: 'body', count: 1 })
+    expect(SearchIndex.tokenize('写一篇 Café 报告')).toEqual(['写', '一', '篇', 'cafe', '报', '告'])
+  })
+
+  test('matches prefixes and typos', () => {
+    const vocabulary = ['database', 'data', 'migration', 'outline']
+
+    expect(SearchIndex.expand('data', vocabulary).map(match => match.term)).toEqual(['database', 'data'])
+    expect(SearchIndex.expand('migraton', vocabulary).map(match => match.term)).toEqual(['migration'])
+    expect(SearchIndex.expand('dat', ['cat'])).toEqual([])
+  })
+
+  test('ranks title matches above tag and body matches', () => {
+    expect(search('database')).toEqual(['1', '3', '2'])
+    expect(search('datab')).toEqual(['1', '3', '2'])
+  })
+
+  test('needs every term and applies filters', () => {
+    expect(search('database plan')).toEqual(['1'])
+    expect(search('database used:>5')).toEqual(['2'])
+    expect(search('database tag:writing')).toEqual(['3'])
+    expect(search('database category:writing')).toEqual(['3'])
+  })
+
+  test('orders by usage when nothing was searched', () => {
+    expect(SearchIndex.rank(library).map(item => item.id)[0]).toBe('2')
+  })
+})
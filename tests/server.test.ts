@@ -0,0 +1,164 @@
+import { describe, test, expect, vi, beforeAll, afterAll } from 'vitest'
+import { generateKeyPairSync } from 'crypto'
+import type { LibraryItem, SiteDefinitionsRecord, User, Workspace } from '../backend/src/db/database'
+import { SSEParser } from '../backend/src/contract/sse'
+import { connect, TestServer } from './backendServer'
+
+// server.ts starts listening when imported, on the port and with the
+// configuration the environment gives it
+process.env.PORT = '0'
+process.env.JWT_SECRET = 'test-secret-that-is-at-least-32-characters'
+process.env.STRIPE_SECRET_KEY ??= 'sk_test_unused'
+process.env.SITE_DEFINITIONS_PRIVATE_KEY = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+  .privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+
+// The users, library, site definitions and workspaces tables
+const db = vi.hoisted(() => {
+  const users = new Map<string, User>()
+  const items = new Map<string, LibraryItem>()
+  const siteDefinitions: SiteDefinitionsRecord[] = []
+  const workspaces = new Map<string, Workspace>()
+  return {
+    items,
+    siteDefinitions,
+    workspaces,
+    Database: {
+      initialize: async () => undefined,
+      createRefreshToken: async () => undefined,
+      getUserById: async (id: string) => users.get(id),
+      getAnonymousUser: async (ip: string) => [...users.values()].find(user => user.ip_address === ip),
+      createUser: async (data: Partial<User>) => {
+        const user = { queries_today: 0, total_queries: 0, is_premium: false, ...data } as User
+        users.set(user.id, user)
+        return user
+      },
+      getLibraryItems: async (userId: string, ids: string[]) =>
+        [...items.values()].filter(item => item.user_id === userId && ids.includes(item.id)),
+      countLibraryItems: async (userId: string) => [...items.values()].filter(item => item.user_id === userId).length,
+      getLibraryChanges: async (userId: string, since: number) =>
+        [...items.values()].filter(item => item.user_id === userId && item.revision > since),
+      saveLibraryItem: async (data: Pick<LibraryItem, 'user_id' | 'id' | 'fields' | 'clock' | 'deleted_at'>) => {
+        items.set(data.id, { ...data, revision: items.size + 1, updated_at: new Date().toISOString() })
+      },
+      createWorkspace: async (data: Pick<Workspace, 'id' | 'name' | 'created_by'>) => {
+        workspaces.set(data.id, { ...data, created_at: new Date().toISOString() })
+      },
+      getWorkspace: async (id: string) => workspaces.get(id),
+      getLatestSiteDefinitions: async () => siteDefinitions[siteDefinitions.length - 1],
+      saveSiteDefinitions: async (data: Omit<SiteDefinitionsRecord, 'created_at'>) => {
+        siteDefinitions.push({ ...data, created_at: new Date().toISOString() })
+      }
+    }
+  }
+})
+
+vi.mock('../backend/src/db/database', () => ({ Database: db.Database }))
+
+const { server: app } = await import('../backend/src/server')
+const { UserAuth } = await import('../backend/src/middleware/userAuth')
+const { AdminAuth } = await import('../backend/src/middleware/adminAuth')
+const { PromptService } = await import('../backend/src/services/promptService')
+
+let server: TestServer
+let token: string
+
+beforeAll(async () => {
+  server = await connect(app)
+  token = (await UserAuth.issueTokens({ id: 'user-1', email: 'user@example.com' } as User)).token
+})
+
+afterAll(() => {
+  server.close()
+})
+
+describe('server middleware', () => {
+  test('keeps synced prompts exactly as sent', async () => {
+    const fields = {
+      title: '  Monthly report ',
+      improvedPrompt: 'Summarise this data: revenue by month; SELECT the top 3 & explain <b onclick=x>why</b>',
+      notes: 'javascript: and vbscript: are fine in prose'
+    }
+    const time = Date.now()
+    const response = await server.request('POST', '/api/v1/library/sync', {
+      cursor: 0,
+      changes: [{ id: 'p1', fields, clock: { title: time, improvedPrompt: time, notes: time } }]
+    }, token)
+
+    expect(response.status).toBe(200)
+    expect(JSON.parse(db.items.get('p1')!.fields)).toEqual(fields)
+    expect(response.body.data.records[0].fields).toEqual(fields)
+  })
+
+  test('publishes site selectors exactly as sent', async () => {
+    vi.spyOn(AdminAuth, 'validateToken').mockReturnValue({ id: 'admin-1', username: 'admin', role: 'admin', permissions: ['admin'] })
+    const site = {
+      domain: 'chatgpt.com',
+      name: 'ChatGPT',
+      selectors: {
+        textInputs: ['textarea[data-id="root"]'],
+        contentEditable: ['div[contenteditable="true"]', '#prompt-textarea > p:not(.placeholder)']
+      },
+      insertionMethod: 'replace',
+      position: 'after',
+      timing: { waitForLoad: 1000, checkInterval: 1000 }
+    }
+
+    const response = await server.request('POST', '/api/admin/site-definitions', { sites: [site] }, 'admin-token')
+    expect(response.status).toBe(201)
+    expect(JSON.parse(db.siteDefinitions[0].document).sites).toEqual([site])
+
+    const invalid = { ...site, selectors: { ...site.selectors, contentEditable: ['div[c"true"]'] } }
+    const rejected = await server.request('POST', '/api/admin/site-definitions', { sites: [invalid] }, 'admin-token')
+    expect(rejected.status).toBe(400)
+    expect(rejected.body.details).toEqual(['$.sites[0].selectors.contentEditable[0]: not a valid CSS selector'])
+    expect(db.siteDefinitions).toHaveLength(1)
+  })
+
+  test('streams improvements from v1 and the legacy path', async () => {
+    vi.spyOn(PromptService, 'streamImprove').mockImplementation(async function* (_user, text) {
+      yield { type: 'token', text: `Improved: ${text}` }
+      yield { type: 'done', provider: 'openai', usage: { tokens: 3, cost: 0 } }
+    })
+
+    const v1 = await fetch(`${server.origin}/api/v1/ai/improve/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: 'write a poem' })
+    })
+    const legacy = await fetch(`${server.origin}/api/prompts/improve/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: 'write a poem' })
+    })
+
+    for (const response of [v1, legacy]) {
+      expect(response.headers.get('content-type')).toContain('text/event-stream')
+      const events = new SSEParser().push(await response.text())
+      expect(events.map(event => event.event)).toEqual(['token', 'done'])
+      expect(JSON.parse(events[1].data).improvedPrompt).toBe('Improved: write a poem')
+    }
+
+    const invalid = await server.request('POST', '/api/prompts/improve/stream', { text: '' })
+    expect(invalid.status).toBe(400)
+    expect(invalid.body.error.code).toBe('VALIDATION_ERROR')
+  })
+
+  test('keeps workspace names exactly as sent', async () => {
+    const name = 'R&D; "Growth" <team>'
+    const response = await server.request('POST', '/api/v1/workspaces', { name }, token)
+
+    expect(response.status).toBe(201)
+    expect(response.body.data.name).toBe(name)
+    expect(db.workspaces.get(response.body.data.id)?.name).toBe(name)
+  })
+
+  test('still screens other routes', async () => {
+    const response = await server.request('POST', '/api/auth/login', {
+      email: 'user@example.com',
+      password: 'x; DROP TABLE users'
+    })
+
+    expect(response.status).toBe(400)
+    expect(response.body.code).toBe('INVALID_INPUT')
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, test, expect } from 'vitest'
+import manifest from '../src/extension/manifest.json'
+import { SITE_ADAPTERS, SiteAdapters } from '../src/utils/siteAdapters'
+
+describe('SiteAdapters', () => {
+  test('manifest host lists match the registry', () => {
+    // On failure, copy the host lists of the generated manifest into src/extension/manifest.json
+    expect(manifest).toEqual(SiteAdapters.applyToManifest(manifest))
+    expect(manifest.host_permissions).toContain('https://character.ai/*')
+  })
+
+  test('registers each domain once with usable selectors', () => {
+    const domains = SITE_ADAPTERS.map(adapter => adapter.domain)
+    expect(new Set(domains).size).toBe(domains.length)
+
+    for (const adapter of SITE_ADAPTERS) {
+      expect(SiteAdapters.inputSelectors(adapter).length).toBeGreaterThan(0)
+      expect(() => document.querySelectorAll(SiteAdapters.inputSelectors(adapter).join(','))).not.toThrow()
+    }
+  })
+
+  test('leaves out selectors the browser cannot parse', () => {
+    const config = { ...SITE_ADAPTERS[0], selectors: { textInputs: ['div[c"true"]', 'textarea'], contentEditable: ['[contenteditable="true"]'] } }
+    expect(SiteAdapters.inputSelectors(config)).toEqual(['textarea', '[contenteditable="true"]'])
+  })
+
+  test('finds the adapter for a page and falls back for unknown ones', () => {
+    expect(SiteAdapters.forHostname('character.ai')?.name).toBe('Character.AI')
+    expect(SiteAdapters.forHostname('beta.character.ai')).toBeUndefined()
+    expect(SiteAdapters.fallback('example.com')).toMatchObject({ domain: 'example.com', insertionMethod: 'clipboard' })
+  })
+})
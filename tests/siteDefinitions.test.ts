@@ -0,0 +1,70 @@
+import { describe, test, expect, vi } from 'vitest'
+import { generateKeyPairSync, sign, webcrypto } from 'crypto'
+import { SiteDefinitionsDocument } from '../backend/src/contract/siteDefinitions'
+import { BackendService } from '../src/utils/backendService'
+import { SITE_ADAPTERS, SiteAdapters } from '../src/utils/siteAdapters'
+import { SiteDefinitions } from '../src/utils/siteDefinitions'
+
+// Signed the way the backend does it
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+const PUBLIC_KEY = publicKey.export({ type: 'spki', format: 'der' }).toString('base64')
+
+// Node's WebCrypto rejects buffers from the jsdom realm, so copy them over
+vi.stubGlobal('crypto', {
+  subtle: {
+    importKey: (format: 'spki', data: BufferSource, ...rest: [EcKeyImportParams, boolean, KeyUsage[]]) =>
+      webcrypto.subtle.importKey(format, Buffer.from(data as ArrayBuffer), ...rest),
+    verify: (algorithm: EcdsaParams, key: CryptoKey, signature: BufferSource, data: BufferSource) =>
+      webcrypto.subtle.verify(algorithm, key, Buffer.from(signature as ArrayBuffer), Buffer.from(data as ArrayBuffer))
+  }
+})
+
+function signed(version: number, sites = [{ ...SITE_ADAPTERS[0], name: `ChatGPT v${version}` }]) {
+  const payload: SiteDefinitionsDocument = { version, publishedAt: '2026-01-01T00:00:00.000Z', sites }
+  const document = JSON.stringify(payload)
+  const signature = sign('sha256', Buffer.from(document), { key: privateKey, dsaEncoding: 'ieee-p1363' }).toString('base64')
+  return { document, signature }
+}
+
+describe('SiteDefinitions', () => {
+  test('accepts only documents signed with the configured key', async () => {
+    const definitions = signed(1)
+    expect((await SiteDefinitions.verify(definitions, PUBLIC_KEY))?.version).toBe(1)
+
+    const tampered = { ...definitions, document: definitions.document.replace('v1', 'v2') }
+    expect(await SiteDefinitions.verify(tampered, PUBLIC_KEY)).toBeNull()
+
+    const otherKey = generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).publicKey
+    expect(await SiteDefinitions.verify(definitions, otherKey.export({ type: 'spki', format: 'der' }).toString('base64'))).toBeNull()
+    expect(await SiteDefinitions.verify(definitions, '')).toBeNull()
+  })
+
+  test('rejects signed documents that break the site rules', async () => {
+    const duplicate = signed(1, [SITE_ADAPTERS[0], SITE_ADAPTERS[0]])
+    expect(await SiteDefinitions.verify(duplicate, PUBLIC_KEY)).toBeNull()
+
+    const invalid = signed(1, [{ ...SITE_ADAPTERS[0], selectors: { textInputs: ['div[c"true"]'], contentEditable: [] } }])
+    expect(await SiteDefinitions.verify(invalid, PUBLIC_KEY)).toBeNull()
+  })
+
+  test('refresh applies newer versions and never goes back', async () => {
+    const fetch = vi.spyOn(BackendService, 'getSiteDefinitions')
+
+    fetch.mockResolvedValueOnce(signed(2))
+    expect(await SiteDefinitions.refresh(PUBLIC_KEY)).toBe('updated')
+    expect(SiteAdapters.forHostname(SITE_ADAPTERS[0].domain)?.name).toBe('ChatGPT v2')
+
+    fetch.mockResolvedValueOnce(signed(1))
+    expect(await SiteDefinitions.refresh(PUBLIC_KEY)).toBe('current')
+    expect(SiteDefinitions.version()).toBe(2)
+
+    fetch.mockResolvedValueOnce({ ...signed(3), signature: signed(4).signature })
+    expect(await SiteDefinitions.refresh(PUBLIC_KEY)).toBe('rejected')
+
+    fetch.mockRejectedValueOnce(new Error('offline'))
+    expect(await SiteDefinitions.refresh(PUBLIC_KEY)).toBe('unavailable')
+    expect(SiteAdapters.forHostname(SITE_ADAPTERS[0].domain)?.name).toBe('ChatGPT v2')
+
+    fetch.mockRestore()
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, test, expect, vi, afterEach } from 'vitest'
+import { API_BASE_PATH, API_ROUTES } from '../backend/src/contract/apiContract'
+import { SSEParser, formatSSE } from '../backend/src/contract/sse'
+import { BackendProvider } from '../src/utils/backendProvider'
+
+const streamResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    }
+  })
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+const doneEvent = formatSSE('done', {
+  improvedPrompt: 'Act as an editor. Review my essay.',
+  provider: 'openai',
+  usage: { tokens: 12, cost: 0.001, queriesUsed: 1, queriesLimit: 5, isPremium: false }
+})
+
+describe('SSEParser', () => {
+  test('reassembles messages split across chunks', () => {
+    const parser = new SSEParser()
+    const wire = formatSSE('token', { text: 'Hello' }) + formatSSE('token', { text: ' world' })
+
+    const messages = [
+      ...parser.push(wire.slice(0, 10)),
+      ...parser.push(wire.slice(10, 40)),
+      ...parser.push(wire.slice(40))
+    ]
+
+    expect(messages.map(m => m.event)).toEqual(['token', 'token'])
+    expect(messages.map(m => JSON.parse(m.data).text).join('')).toBe('Hello world')
+  })
+
+  test('handles CRLF, comments and multi-line data', () => {
+    const parser = new SSEParser()
+    const messages = parser.push(': keep-alive\r\n\r\ndata: line one\r\ndata: line two\r\n\r\n')
+
+    expect(messages).toEqual([{ event: 'message', data: 'line one\nline two' }])
+  })
+
+  test('flush emits a trailing message without a blank line', () => {
+    const parser = new SSEParser()
+    expect(parser.push('data: [DONE]')).toEqual([])
+    expect(parser.flush()).toEqual([{ event: 'message', data: '[DONE]' }])
+  })
+})
+
+describe('BackendProvider.improvePromptStream', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('reports tokens as they arrive and resolves with the final prompt', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse([
+      formatSSE('token', { text: 'Act as an editor.' }),
+      formatSSE('token', { text: ' Review my essay.' }),
+      doneEvent
+    ])))
+
+    const progress: string[] = []
+    const result = await BackendProvider.improvePromptStream('review my essay', {
+      onToken: (_token, soFar) => progress.push(soFar)
+    })
+
+    expect(progress).toEqual(['Act as an editor.', 'Act as an editor. Review my essay.'])
+    expect(result.improvedPrompt).toBe('Act as an editor. Review my essay.')
+    expect(result.usage?.queriesUsed).toBe(1)
+  })
+
+  test('returns the quota error before any stream starts', async () => {
+    const fetch = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify({
+      success: false,
+      error: {
+        code: 'RATE_LIMIT',
+        message: 'Daily limit reached',
+        details: { usage: { current: 5, limit: 5, resetDate: '2026-01-02T00:00:00.000Z' } }
+      }
+    }), { status: 429 }))
+    vi.stubGlobal('fetch', fetch)
+
+    const result = await BackendProvider.improvePromptStream('review my essay', { language: 'en' })
+
+    expect(fetch.mock.calls[0][0]).toMatch(new RegExp(`${API_BASE_PATH}${API_ROUTES.improveStream.path}$`))
+    expect(JSON.parse(fetch.mock.calls[0][1].body as string)).toMatchObject({ prompt: 'review my essay', language: 'en' })
+    expect(result.error).toBe('Daily limit reached')
+    expect(result.improvedPrompt).toBe('review my essay')
+    expect(result.usage).toMatchObject({ queriesUsed: 5, queriesLimit: 5, isPremium: false })
+  })
+
+  test('falls back to local rules when the stream reports an error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse([
+      formatSSE('error', { message: 'Enhancement interrupted. Please try again.' })
+    ])))
+
+    const result = await BackendProvider.improvePromptStream('write code')
+
+    expect(result.usage?.queriesLimit).toBe('offline')
+    expect(result.improvedPrompt.length).toBeGreaterThan(0)
+  })
+
+  test('rethrows when the caller cancels', async () => {
+    const controller = new AbortController()
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+      controller.abort()
+      throw Object.assign(new Error('aborted'), { name: 'AbortError', signal: init.signal })
+    }))
+
+    await expect(BackendProvider.improvePromptStream('write code', { signal: controller.signal }))
+      .rejects.toThrow('aborted')
+  })
+})
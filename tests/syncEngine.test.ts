@@ -0,0 +1,150 @@
+import { describe, test, expect } from 'vitest'
+import { SyncEngine, SyncState, SyncTarget } from '../src/utils/syncEngine'
+import { LibrarySync } from '../backend/src/contract/librarySync'
+import { LibrarySyncRequest, SyncRecord } from '../backend/src/contract/apiContract'
+import { PromptLibraryItem } from '../src/types'
+
+const prompt = (id: string, fields: Partial<PromptLibraryItem> = {}): PromptLibraryItem => ({
+  id,
+  title: `Prompt ${id}`,
+  originalPrompt: `original ${id}`,
+  improvedPrompt: `Improved prompt ${id}`,
+  category: 'General',
+  tags: [],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  usageCount: 0,
+  ...fields
+})
+
+// In-memory stand-in for the backend's LibraryService
+class FakeServer {
+  records = new Map<string, SyncRecord>()
+  revision = 0
+  offline = false
+
+  sync = async (request: LibrarySyncRequest) => {
+    if (this.offline) throw { code: 'NETWORK_ERROR', message: 'offline' }
+    for (const change of request.changes) {
+      const merged = LibrarySync.merge(this.records.get(change.id), { ...change, revision: undefined })
+      this.records.set(change.id, { ...merged, revision: ++this.revision })
+    }
+    const records = [...this.records.values()].filter(record => record.revision! > request.cursor)
+    return { cursor: this.revision, records, hasMore: false }
+  }
+}
+
+class Device {
+  library: PromptLibraryItem[]
+  state: SyncState | undefined
+  private next = 100
+  engine: SyncEngine
+
+  constructor(server: FakeServer, library: PromptLibraryItem[] = []) {
+    this.library = library
+    const target: SyncTarget = {
+      list: async () => this.library,
+      write: async (existing, item) => {
+        const id = existing?.id ?? String(this.next++)
+        this.library = [...this.library.filter(entry => entry.id !== id), { ...item, id }]
+        return id
+      },
+      remove: async (existing) => {
+        this.library = this.library.filter(entry => entry.id !== existing.id)
+      }
+    }
+    this.engine = new SyncEngine(target, {
+      load: async () => this.state && JSON.parse(JSON.stringify(this.state)),
+      save: async (state) => {
+        this.state = JSON.parse(JSON.stringify(state))
+      }
+    }, request => server.sync(request))
+  }
+
+  edit(id: string, fields: Partial<PromptLibraryItem>) {
+    this.library = this.library.map(entry => entry.id === id ? { ...entry, ...fields } : entry)
+  }
+
+  find(title: string) {
+    return this.library.find(entry => entry.title === title)
+  }
+}
+
+describe('SyncEngine', () => {
+  test('shares a library between two devices', async () => {
+    const server = new FakeServer()
+    const extension = new Device(server, [prompt('1'), prompt('2')])
+    const pwa = new Device(server)
+
+    expect(await extension.engine.sync()).toMatchObject({ pushed: 2, pulled: 0 })
+    expect(await pwa.engine.sync()).toMatchObject({ pushed: 0, pulled: 2 })
+
+    expect(pwa.library.map(entry => entry.title).sort()).toEqual(['Prompt 1', 'Prompt 2'])
+    expect(pwa.library[0].createdAt).toBeInstanceOf(Date)
+    // Nothing changed since, so nothing goes back and forth
+    expect(await pwa.engine.sync()).toMatchObject({ pushed: 0, pulled: 0 })
+    expect(await extension.engine.sync()).toMatchObject({ pushed: 0, pulled: 0 })
+  })
+
+  test('merges edits to different fields and lets the later edit win', async () => {
+    const server = new FakeServer()
+    const extension = new Device(server, [prompt('1')])
+    const pwa = new Device(server)
+    await extension.engine.sync()
+    await pwa.engine.sync()
+    const copy = pwa.find('Prompt 1')!
+
+    extension.edit('1', { tags: ['sql'], category: 'Programming', updatedAt: new Date('2024-02-01T00:00:00Z') })
+    pwa.edit(copy.id, { title: 'Renamed', category: 'Data', updatedAt: new Date('2024-03-01T00:00:00Z') })
+    await extension.engine.sync()
+    await pwa.engine.sync()
+    await extension.engine.sync()
+
+    for (const device of [extension, pwa]) {
+      expect(device.library).toHaveLength(1)
+      expect(device.library[0]).toMatchObject({ title: 'Renamed', tags: ['sql'], category: 'Data' })
+    }
+  })
+
+  test('keeps the highest usage count whatever the edit times', () => {
+    const base: SyncRecord = { id: 'a', fields: { usageCount: 3 }, clock: { usageCount: 1 } }
+    const merged = LibrarySync.merge({ ...base, fields: { usageCount: 5 }, clock: { usageCount: 9 } }, { ...base, fields: { usageCount: 7 }, clock: { usageCount: 2 } })
+    expect(merged.fields.usageCount).toBe(7)
+  })
+
+  test('deletes through tombstones unless edited after the delete', async () => {
+    const server = new FakeServer()
+    const extension = new Device(server, [prompt('1'), prompt('2')])
+    const pwa = new Device(server)
+    await extension.engine.sync()
+    await pwa.engine.sync()
+
+    extension.library = extension.library.filter(entry => entry.id !== '1')
+    pwa.edit(pwa.find('Prompt 2')!.id, { title: 'Kept', updatedAt: new Date(Date.now() + 60_000) })
+    extension.library = extension.library.filter(entry => entry.id !== '2')
+    await extension.engine.sync()
+    await pwa.engine.sync()
+    await extension.engine.sync()
+
+    expect(pwa.library.map(entry => entry.title)).toEqual(['Kept'])
+    expect(extension.library.map(entry => entry.title)).toEqual(['Kept'])
+  })
+
+  test('queues changes while offline and retries with backoff', async () => {
+    const server = new FakeServer()
+    const device = new Device(server, [prompt('1')])
+    server.offline = true
+
+    const failed = await device.engine.sync()
+    expect(failed.error).toBeDefined()
+    expect(Object.keys(device.state!.outbox)).toHaveLength(1)
+    // Still backing off, so nothing is sent
+    server.offline = false
+    expect(await device.engine.sync()).toMatchObject({ pushed: 0, retryAt: failed.retryAt })
+
+    expect(await device.engine.sync({ force: true })).toMatchObject({ pushed: 1 })
+    expect(device.state).toMatchObject({ outbox: {}, attempts: 0 })
+    expect(SyncEngine.retryDelay(1)).toBe(30_000)
+    expect(SyncEngine.retryDelay(20)).toBe(60 * 60 * 1000)
+  })
+})
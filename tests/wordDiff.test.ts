@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'vitest'
+import { WordDiff } from '../src/utils/wordDiff'
+import { PromptImprover } from '../src/utils/promptImprover'
+
+// Rebuilds one side of the diff from its ops
+const side = (ops: ReturnType<typeof WordDiff.diff>, skip: 'insert' | 'delete') =>
+  ops.filter(op => op.type !== skip).map(op => op.text).join('')
+
+describe('WordDiff', () => {
+  test('tokenizes words, whitespace and punctuation, CJK per character', () => {
+    expect(WordDiff.tokenize('Hello, world!  It’s 42')).toEqual(['Hello', ',', ' ', 'world', '!', '  ', 'It’s', ' ', '42'])
+    expect(WordDiff.tokenize('日本語 text')).toEqual(['日', '本', '語', ' ', 'text'])
+  })
+
+  test('ops reproduce both texts exactly', () => {
+    const original = 'Write a blog post about dogs.\nKeep it short.'
+    const improved = 'Act as a writer.\n\nWrite a 500-word blog post about rescue dogs.\nUse a friendly tone.'
+    const ops = WordDiff.diff(original, improved)
+
+    expect(side(ops, 'insert')).toBe(original)
+    expect(side(ops, 'delete')).toBe(improved)
+  })
+
+  test('finds the minimal word-level change', () => {
+    expect(WordDiff.diff('sort the list quickly', 'sort the array quickly')).toEqual([
+      { type: 'equal', text: 'sort the ' },
+      { type: 'delete', text: 'list' },
+      { type: 'insert', text: 'array' },
+      { type: 'equal', text: ' quickly' }
+    ])
+  })
+
+  test('hunks carry accurate ranges and merge changes separated only by spaces', () => {
+    const original = 'make a good thing now'
+    const improved = 'make a detailed project plan now'
+    const hunks = WordDiff.hunks(WordDiff.diff(original, improved))
+
+    expect(hunks).toHaveLength(1)
+    expect(hunks[0].type).toBe('modification')
+    expect(original.slice(...hunks[0].originalRange)).toBe('good thing')
+    expect(improved.slice(...hunks[0].improvedRange)).toBe('detailed project plan')
+  })
+
+  test('identical texts have no hunks', () => {
+    expect(WordDiff.hunks(WordDiff.diff('same text', 'same text'))).toEqual([])
+  })
+})
+
+describe('PromptImprover.generateDiff', () => {
+  test('classifies hunks into categories', () => {
+    const original = 'write a function to sort numbers'
+    const improved = 'Act as an experienced software engineer.\n\nwrite a function to sort numbers\n\nFormat your response as a numbered list.'
+    const diffs = PromptImprover.generateDiff(original, improved)
+
+    expect(diffs.map(d => [d.type, d.category])).toEqual([
+      ['addition', 'persona'],
+      ['addition', 'format']
+    ])
+    expect(diffs[0].reason).toBe('Added expert persona for better context')
+  })
+
+  test('reports deletions and modifications', () => {
+    const diffs = PromptImprover.generateDiff('please help me with stuff today', 'please help me with tax forms')
+
+    expect(diffs).toHaveLength(1)
+    expect(diffs[0]).toMatchObject({ type: 'modification', original: 'stuff today', improved: 'tax forms' })
+  })
+})
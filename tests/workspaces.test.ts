@@ -0,0 +1,164 @@
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+import type { User, WorkspaceInvite, WorkspaceMember } from '../backend/src/db/database'
+import { serve, TestServer } from './backendServer'
+
+process.env.JWT_SECRET = 'test-secret-that-is-at-least-32-characters'
+process.env.PUBLIC_URL = 'https://prompts.example.com/'
+
+// The workspaces, workspace_members and workspace_invites tables
+const db = vi.hoisted(() => {
+  const members: WorkspaceMember[] = []
+  const invites = new Map<string, WorkspaceInvite>()
+  const now = () => new Date().toISOString()
+  const member = (workspaceId: string, userId: string) =>
+    members.find(entry => entry.workspace_id === workspaceId && entry.user_id === userId)
+  return {
+    members,
+    invites,
+    Database: {
+      createRefreshToken: async () => undefined,
+      getWorkspace: async (id: string) => ({ id, name: 'Team', created_by: 'owner', created_at: now() }),
+      getWorkspaceMember: async (workspaceId: string, userId: string) => member(workspaceId, userId),
+      getWorkspaceMembers: async (workspaceId: string) => members.filter(entry => entry.workspace_id === workspaceId),
+      addWorkspaceMember: async (workspaceId: string, userId: string, role: WorkspaceMember['role']) => {
+        if (!member(workspaceId, userId)) members.push({ workspace_id: workspaceId, user_id: userId, role, created_at: now() })
+      },
+      updateWorkspaceMemberRole: async (workspaceId: string, userId: string, role: WorkspaceMember['role']) => {
+        member(workspaceId, userId)!.role = role
+      },
+      removeWorkspaceMember: async (workspaceId: string, userId: string) => {
+        members.splice(members.indexOf(member(workspaceId, userId)!), 1)
+      },
+      createWorkspaceInvite: async (data: WorkspaceInvite) => {
+        invites.set(data.id, { ...data, created_at: now() })
+      },
+      getWorkspaceInviteByHash: async (hash: string) => [...invites.values()].find(invite => invite.token_hash === hash),
+      getPendingWorkspaceInvites: async (workspaceId: string) => [...invites.values()].filter(invite =>
+        invite.workspace_id === workspaceId && !invite.revoked_at && invite.expires_at > now()
+      ),
+      revokeWorkspaceInvite: async (workspaceId: string, id: string) => {
+        const invite = invites.get(id)
+        if (!invite || invite.workspace_id !== workspaceId || invite.revoked_at) return false
+        invite.revoked_at = now()
+        return true
+      }
+    }
+  }
+})
+
+vi.mock('../backend/src/db/database', () => ({ Database: db.Database }))
+
+const { workspacesRouter } = await import('../backend/src/routes/workspaces')
+const { UserAuth } = await import('../backend/src/middleware/userAuth')
+
+let server: TestServer
+const tokens: Record<string, string> = {}
+
+beforeAll(async () => {
+  server = await serve({ '/api/v1/workspaces': workspacesRouter })
+  for (const id of ['owner', 'editor', 'viewer', 'outsider']) {
+    tokens[id] = (await UserAuth.issueTokens({ id, email: `${id}@example.com` } as User)).token
+  }
+})
+
+afterAll(() => {
+  server.close()
+})
+
+// One workspace with a member of every role
+beforeEach(() => {
+  db.members.length = 0
+  db.invites.clear()
+  for (const role of ['owner', 'editor', 'viewer'] as const) {
+    db.members.push({ workspace_id: 'team', user_id: role, role, created_at: new Date().toISOString() })
+  }
+})
+
+const call = (user: string, method: string, path: string, body?: unknown) =>
+  server.request(method, `/api/v1/workspaces${path}`, body, tokens[user])
+
+describe('workspace routes', () => {
+  test('hide the workspace from non-members', async () => {
+    for (const [method, path] of [['GET', '/team'], ['GET', '/team/invites'], ['POST', '/team/invites'], ['DELETE', '/team/members/viewer']]) {
+      const response = await call('outsider', method, path, method === 'POST' ? { role: 'viewer' } : undefined)
+      expect(response.status).toBe(404)
+      expect(response.body.error.message).toBe('Workspace not found')
+    }
+    expect((await server.request('GET', '/api/v1/workspaces/team')).status).toBe(401)
+  })
+
+  test('allow each action only to the roles that have it', async () => {
+    expect((await call('viewer', 'GET', '/team')).status).toBe(200)
+
+    for (const user of ['editor', 'viewer']) {
+      expect((await call(user, 'POST', '/team/invites', { role: 'viewer' })).status).toBe(403)
+      expect((await call(user, 'GET', '/team/invites')).status).toBe(403)
+      const response = await call(user, 'POST', '/team/members/viewer', { role: 'editor' })
+      expect(response.status).toBe(403)
+      expect(response.body.error.details).toEqual({ role: user, required: 'manageMembers' })
+    }
+
+    // Only owners remove someone else
+    expect((await call('editor', 'DELETE', '/team/members/viewer')).status).toBe(403)
+    expect((await call('owner', 'DELETE', '/team/members/viewer')).status).toBe(200)
+    expect(db.members.map(member => member.user_id)).toEqual(['owner', 'editor'])
+  })
+
+  test('invite links work until they are revoked', async () => {
+    const created = await call('owner', 'POST', '/team/invites', { role: 'editor' })
+    expect(created.status).toBe(201)
+    const invite = created.body.data
+    expect(invite.url).toBe(`https://prompts.example.com/join?invite=${invite.token}`)
+
+    const pending = await call('owner', 'GET', '/team/invites')
+    expect(pending.body.data).toEqual([expect.objectContaining({ id: invite.id, role: 'editor' })])
+    expect(pending.body.data[0]).not.toHaveProperty('token')
+
+    const joined = await call('outsider', 'POST', '/join', { token: invite.token })
+    expect(joined.body.data).toMatchObject({ id: 'team', role: 'editor' })
+
+    expect((await call('editor', 'DELETE', `/team/invites/${invite.id}`)).status).toBe(403)
+    expect((await call('owner', 'DELETE', `/team/invites/${invite.id}`)).status).toBe(200)
+    expect(db.invites.get(invite.id)!.revoked_at).toBeDefined()
+    expect((await call('owner', 'GET', '/team/invites')).body.data).toEqual([])
+    expect((await call('owner', 'DELETE', `/team/invites/${invite.id}`)).status).toBe(404)
+
+    // Who joined stays, but the link lets no one else in
+    expect(db.members.map(member => member.user_id)).toContain('outsider')
+    db.members.pop()
+    expect((await call('outsider', 'POST', '/join', { token: invite.token })).status).toBe(404)
+  })
+
+  test('invite links need the configured public address', async () => {
+    delete process.env.PUBLIC_URL
+    try {
+      const response = await call('owner', 'POST', '/team/invites', { role: 'viewer' })
+      expect(response.status).toBe(500)
+      expect(response.body.error.code).toBe('SERVER_ERROR')
+      expect(db.invites.size).toBe(0)
+    } finally {
+      process.env.PUBLIC_URL = 'https://prompts.example.com/'
+    }
+  })
+
+  test('revoking needs an invite of the same workspace', async () => {
+    db.members.push({ workspace_id: 'other', user_id: 'outsider', role: 'owner', created_at: new Date().toISOString() })
+    const invite = (await call('owner', 'POST', '/team/invites', { role: 'viewer' })).body.data
+
+    expect((await call('outsider', 'DELETE', `/other/invites/${invite.id}`)).status).toBe(404)
+    expect(db.invites.get(invite.id)!.revoked_at).toBeUndefined()
+  })
+
+  test('keep at least one owner', async () => {
+    const demote = await call('owner', 'POST', '/team/members/owner', { role: 'editor' })
+    expect(demote.status).toBe(400)
+    expect(demote.body.error.message).toBe('A workspace needs at least one owner')
+    expect((await call('owner', 'DELETE', '/team/members/owner')).status).toBe(400)
+
+    // With a second owner the first may step down or leave
+    expect((await call('owner', 'POST', '/team/members/editor', { role: 'owner' })).status).toBe(200)
+    expect((await call('owner', 'POST', '/team/members/owner', { role: 'viewer' })).status).toBe(200)
+    expect((await call('owner', 'DELETE', '/team/members/owner')).status).toBe(200)
+    expect((await call('editor', 'DELETE', '/team/members/editor')).status).toBe(400)
+  })
+})
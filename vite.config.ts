@@ -1,6 +1,86 @@
-import { defineConfig } from 'vite'
-import { resolve } from 'path'
+import { build, defineConfig, Plugin } from 'vite'
+import { readFileSync } from 'fs'
+import { basename, resolve } from 'path'
 import { VitePWA } from 'vite-plugin-pwa'
+import { SiteAdapters } from './src/utils/siteAdapters'
+
+// Chrome runs content scripts as classic scripts, so unlike the pages and the
+// worker they cannot import shared chunks. Each is built on its own as an IIFE.
+const CONTENT_SCRIPTS: Record<string, string> = {
+  content: 'src/extension/content.ts'
+}
+
+// Writes manifest.json with its host permissions and content-script matches
+// taken from the site adapter registry, and puts the pages and the content
+// script styles where the manifest expects them
+function extensionManifest(): Plugin {
+  return {
+    name: 'extension-manifest',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const manifest = JSON.parse(readFileSync(resolve(__dirname, 'src/extension/manifest.json'), 'utf-8'))
+      this.emitFile({
+        type: 'asset',
+        fileName: 'manifest.json',
+        source: JSON.stringify(SiteAdapters.applyToManifest(manifest), null, 2)
+      })
+      this.emitFile({
+        type: 'asset',
+        fileName: 'content.css',
+        source: readFileSync(resolve(__dirname, 'src/extension/content.css'), 'utf-8')
+      })
+
+      for (const file of Object.values(bundle)) {
+        if (file.fileName.endsWith('.html')) file.fileName = basename(file.fileName)
+      }
+    }
+  }
+}
+
+// An import statement or a dynamic import of a path, but not a method called import
+const IMPORT_PATTERN = /(^|[^.\w$])import\s*(([\w$]+|\*\s*as\s+[\w$]+|\{[^}]*\})\s*from\s*)?["'`]|(^|[^.\w$])import\s*\(\s*["'`]/
+
+// Builds each content script into one self-contained file once the rest of
+// the extension is written, and fails the build if one still imports anything
+function contentScripts(): Plugin {
+  let outDir = ''
+  let mode = ''
+
+  return {
+    name: 'extension-content-scripts',
+    apply: 'build',
+    configResolved(config) {
+      outDir = resolve(config.root, config.build.outDir)
+      mode = config.mode
+    },
+    async closeBundle() {
+      for (const [name, entry] of Object.entries(CONTENT_SCRIPTS)) {
+        await build({
+          configFile: false,
+          mode,
+          logLevel: 'warn',
+          resolve: { alias: { '@': resolve(__dirname, 'src') } },
+          build: {
+            outDir,
+            emptyOutDir: false,
+            // Native class fields, so no helpers end up outside the IIFE
+            target: 'es2022',
+            copyPublicDir: false,
+            rollupOptions: {
+              input: resolve(__dirname, entry),
+              output: { format: 'iife', entryFileNames: `${name}.js`, inlineDynamicImports: true }
+            }
+          }
+        })
+
+        const code = readFileSync(resolve(outDir, `${name}.js`), 'utf-8')
+        if (IMPORT_PATTERN.test(code)) {
+          throw new Error(`${name}.js imports other modules, which Chrome does not allow in content scripts`)
+        }
+      }
+    }
+  }
+}
 
 export default defineConfig(({ mode }) => {
   const isExtension = mode === 'extension'
@@ -17,10 +97,7 @@ export default defineConfig(({ mode }) => {
         input: isExtension ? {
           popup: resolve(__dirname, 'src/extension/popup.html'),
           options: resolve(__dirname, 'src/extension/options.html'),
-          content: resolve(__dirname, 'src/extension/content.ts'),
-          background: resolve(__dirname, 'src/extension/background.ts'),
-          'popup-script': resolve(__dirname, 'src/extension/popup.ts'),
-          'options-script': resolve(__dirname, 'src/extension/options.ts')
+          background: resolve(__dirname, 'src/extension/background.ts')
         } : isPWA ? {
           main: resolve(__dirname, 'src/pwa/index.html')
         } : {
@@ -36,6 +113,10 @@ export default defineConfig(({ mode }) => {
     }
   }
 
+  if (isExtension) {
+    config.plugins = [extensionManifest(), contentScripts()]
+  }
+
   if (isPWA) {
     config.plugins = [
       VitePWA({